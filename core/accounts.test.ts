@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { getAccountBalance, getAccountMovements, getNetWorth } from './accounts';
+import { createEmptyDataset } from './store';
+import type { BudgetDataset } from './types';
+
+// A current account paid a salary, spending on groceries and moving 500 to a savings account opened mid-March.
+function createDataset(): BudgetDataset {
+    const data = createEmptyDataset();
+    data.accounts = [
+        { id: 1, name: 'Courant', kind: 'checking', currency: 'EUR', openingBalance: 1000, openingDate: '2024-01-01' },
+        { id: 2, name: 'Épargne', kind: 'savings', currency: 'EUR', openingBalance: 0, openingDate: '2024-03-15' },
+    ];
+    data.monthlyData['2024-03'] = {
+        realIncome: [],
+        plannedExpenses: [],
+        realExpenses: [{ id: 1, description: 'Courses', amount: 30, date: '2024-03-10', categoryId: 9, accountId: 1 }],
+        receivedIncome: [{ id: 2, description: 'Salaire', amount: 2000, date: '2024-03-28', accountId: 1 }],
+        transfers: [
+            { id: 3, date: '2024-03-29', fromAccountId: 1, toAccountId: 2, amount: 500, description: '' },
+            { id: 4, date: '2024-03-02', fromAccountId: 1, toAccountId: 2, amount: 100, description: 'Avant ouverture' },
+        ],
+    };
+    return data;
+}
+
+describe('getAccountMovements', () => {
+    it('lists the dated movements of an account from its opening date', () => {
+        const data = createDataset();
+        expect(getAccountMovements(data, data.accounts[0])).toEqual([
+            { date: '2024-03-02', amount: -100, description: 'Avant ouverture' },
+            { date: '2024-03-10', amount: -30, description: 'Courses' },
+            { date: '2024-03-28', amount: 2000, description: 'Salaire' },
+            { date: '2024-03-29', amount: -500, description: 'Virement vers Épargne' },
+        ]);
+        expect(getAccountMovements(data, data.accounts[1])).toEqual([{ date: '2024-03-29', amount: 500, description: 'Virement depuis Courant' }]);
+    });
+});
+
+describe('getAccountBalance and getNetWorth', () => {
+    it('add the movements up to a date to the opening balance', () => {
+        const data = createDataset();
+        expect(getAccountBalance(data, data.accounts[0], '2024-03-28')).toBe(2870);
+        expect(getAccountBalance(data, data.accounts[1], '2024-03-31')).toBe(500);
+        expect(getNetWorth(data, '2024-03-31')).toBe(2870);
+    });
+});
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Account balances, worked out from the opening balance and the real expenses, received income and transfers filed
+// against each account.
+import { convertAmount, getItemCurrency } from './currency';
+import { findAccount } from './selectors';
+import type { Account, AccountMovement, BudgetDataset } from './types';
+
+// Dated movements in the account's own currency.
+export function getAccountMovements(data: BudgetDataset, account: Account): AccountMovement[] {
+    const movements: AccountMovement[] = [];
+    const add = (date: string, amount: number, currency: string, description: string) =>
+        movements.push({ date, amount: convertAmount(data, amount, currency, account.currency, date), description });
+    Object.values(data.monthlyData).forEach(month => {
+        month.receivedIncome.filter(income => income.accountId === account.id).forEach(income => add(income.date, income.amount, getItemCurrency(income), income.description));
+        month.realExpenses.filter(expense => expense.accountId === account.id).forEach(expense => add(expense.date, -expense.amount, getItemCurrency(expense), expense.description));
+        month.transfers.forEach(transfer => {
+            const source = findAccount(data, transfer.fromAccountId);
+            if (!source) return;
+            if (transfer.fromAccountId === account.id) add(transfer.date, -transfer.amount, source.currency, transfer.description || `Virement vers ${findAccount(data, transfer.toAccountId)?.name || '?'}`);
+            if (transfer.toAccountId === account.id) add(transfer.date, transfer.amount, source.currency, transfer.description || `Virement depuis ${source.name}`);
+        });
+    });
+    return movements.filter(movement => movement.date >= account.openingDate).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Balance at the end of `date`, in the account's currency.
+export const getAccountBalance = (data: BudgetDataset, account: Account, date: string) =>
+    getAccountMovements(data, account).filter(movement => movement.date <= date).reduce((sum, movement) => sum + movement.amount, account.openingBalance);
+
+// Every account's balance at the end of `date`, in the base currency.
+export const getNetWorth = (data: BudgetDataset, date: string) =>
+    data.accounts.reduce((sum, account) => sum + convertAmount(data, getAccountBalance(data, account, date), account.currency, data.settings.baseCurrency, date), 0);
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FunctionCall, GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { applyAssistantProposal, askAssistant } from './assistant';
+import type { GenAIClient } from './genai';
+import { createBudgetStore, createDefaultDataset, createMonthDataFromRecurring } from './store';
+import type { BudgetDataset, Expense } from './types';
+
+// Rent is a recurring expense since January; March is the only month created, with its rent, groceries planned and two
+// real expenses.
+function createDataset(): BudgetDataset {
+    const data = createDefaultDataset();
+    data.recurringExpenses = [{ id: 100, description: 'Loyer', amount: 800, categoryId: 6, schedule: { frequency: 'monthly', interval: 1, startMonth: '2024-01', dueDay: 5 } }];
+    const march = createMonthDataFromRecurring(data, '2024-03');
+    march.plannedExpenses[0].id = 1;
+    march.plannedExpenses.push({ id: 2, description: 'Courses', amount: 300, categoryId: 9 });
+    march.realExpenses = [
+        { id: 3, description: 'Supermarché', amount: 45.5, date: '2024-03-09', categoryId: 9 },
+        { id: 4, description: 'Cinéma', amount: 12, date: '2024-03-15', categoryId: 7 },
+    ];
+    data.monthlyData['2024-03'] = march;
+    return data;
+}
+
+// A client giving the scripted responses in turn, and keeping the requests it was sent.
+function createFakeClient(responses: { functionCalls?: FunctionCall[]; text?: string }[]) {
+    const requests: GenerateContentParameters[] = [];
+    const client: GenAIClient = {
+        models: {
+            generateContent: async (request: GenerateContentParameters) => {
+                requests.push(structuredClone(request));
+                return responses[requests.length - 1] as GenerateContentResponse;
+            },
+        },
+    };
+    return { client, requests };
+}
+
+// Asks a question the model answers by calling `name` with `args`, and returns what the tool sent back to it.
+async function callTool(data: BudgetDataset, name: string, args: Record<string, unknown>) {
+    const { client, requests } = createFakeClient([{ functionCalls: [{ id: 'call-1', name, args }] }, { text: 'Voilà.' }]);
+    const answer = await askAssistant(data, client, [], 'Question ?', '2024-03', new Date('2024-03-20T12:00:00Z'));
+    const contents = requests[1].contents as { parts: { functionResponse?: { response: Record<string, any> } }[] }[];
+    return { answer, response: contents[contents.length - 1].parts[0].functionResponse!.response, requests };
+}
+
+describe('askAssistant', () => {
+    it('runs the tools the model calls and returns its answer with the conversation', async () => {
+        const { answer, requests } = await callTool(createDataset(), 'list_recurring_expenses', {});
+        expect(answer.text).toBe('Voilà.');
+        expect(answer.history.map(content => content.role)).toEqual(['user', 'model', 'user', 'model']);
+        expect(requests[0].config?.systemInstruction).toContain('le mois affiché est 2024-03');
+        expect(answer.proposal).toBeUndefined();
+    });
+
+    it('gives up after too many tool calls', async () => {
+        const { client } = createFakeClient(Array.from({ length: 10 }, () => ({ functionCalls: [{ name: 'list_recurring_expenses', args: {} }] })));
+        await expect(askAssistant(createDataset(), client, [], 'Question ?', '2024-03')).rejects.toThrow('L\'assistant n\'a pas abouti à une réponse.');
+    });
+});
+
+describe('assistant tools', () => {
+    it('get_budget_summary totals each month by category name, for one category if asked', async () => {
+        const { response } = await callTool(createDataset(), 'get_budget_summary', { fromMonth: '2024-03', toMonth: '2024-04', category: 'Repas' });
+        expect(response).toEqual({ currency: 'EUR', months: [{ month: '2024-03', categories: [{ category: 'Repas', planned: 300, spent: 45.5 }] }, { month: '2024-04', categories: [] }] });
+        expect((await callTool(createDataset(), 'get_budget_summary', { fromMonth: '2024-04', toMonth: '2024-03' })).response.error).toMatch(/^Période invalide/);
+    });
+
+    it('list_real_expenses lists the period\'s expenses with their categories', async () => {
+        const { response } = await callTool(createDataset(), 'list_real_expenses', { fromMonth: '2024-03', toMonth: '2024-03', category: 'Loisirs' });
+        expect(response.expenses).toEqual([{ date: '2024-03-15', description: 'Cinéma', payee: undefined, amount: 12, currency: 'EUR', categories: [{ category: 'Loisirs', amount: 12 }] }]);
+        expect((await callTool(createDataset(), 'list_real_expenses', { fromMonth: '2024-03', toMonth: '2024-03', category: 'Vacances' })).response).toEqual({ error: 'Catégorie inconnue : Vacances.' });
+    });
+
+    it('list_planned_expenses lists a created month\'s expenses by id', async () => {
+        const { response } = await callTool(createDataset(), 'list_planned_expenses', { month: '2024-03' });
+        expect(response.expenses).toMatchObject([{ id: 1, description: 'Loyer', recurringId: 100, dueDate: '2024-03-05' }, { id: 2, description: 'Courses' }]);
+    });
+
+    it('list_planned_expenses reads a month not created yet without creating it', async () => {
+        const data = createDataset();
+        const { response } = await callTool(data, 'list_planned_expenses', { month: '2024-05' });
+        expect(response.expenses).toEqual([{ description: 'Loyer', amount: 800, currency: 'EUR', categories: [{ category: 'Logement', amount: 800 }], recurringId: 100, dueDate: '2024-05-05' }]);
+        expect(Object.keys(data.monthlyData)).toEqual(['2024-03']);
+    });
+
+    it('list_recurring_expenses lists the templates with their schedule', async () => {
+        const { response } = await callTool(createDataset(), 'list_recurring_expenses', { category: 'Logement' });
+        expect(response.expenses).toEqual([{ id: 100, description: 'Loyer', amount: 800, currency: 'EUR', category: 'Logement', schedule: { frequency: 'monthly', interval: 1, startMonth: '2024-01', dueDay: 5 } }]);
+    });
+
+    it('propose_changes returns the checked changes as a proposal, and refuses those it cannot apply', async () => {
+        const { answer, response } = await callTool(createDataset(), 'propose_changes', {
+            summary: 'Moins de courses',
+            changes: [
+                { kind: 'update-planned-expense', month: '2024-03', id: 2, amount: 250.004 },
+                { kind: 'add-planned-expense', month: '2024-03', description: 'Cinéma', amount: 20, category: 'Loisirs' },
+            ],
+        });
+        expect(response.status).toBeTypeOf('string');
+        expect(answer.proposal).toEqual({ summary: 'Moins de courses', status: 'pending', changes: [
+            { kind: 'update-planned-expense', month: '2024-03', id: 2, currency: 'EUR', before: { description: 'Courses', amount: 300, categoryId: 9 }, after: { description: 'Courses', amount: 250, categoryId: 9 } },
+            { kind: 'add-planned-expense', month: '2024-03', currency: 'EUR', after: { description: 'Cinéma', amount: 20, categoryId: 7 } },
+        ] });
+        const refused = await callTool(createDataset(), 'propose_changes', { summary: '', changes: [{ kind: 'update-recurring-expense', month: '2024-04', id: 999 }] });
+        expect(refused.response).toEqual({ error: 'Aucune dépense récurrente avec l\'id 999.' });
+        expect(refused.answer.proposal).toBeUndefined();
+    });
+});
+
+describe('applyAssistantProposal', () => {
+    it('changes an occurrence of a month not created yet in that month only', async () => {
+        const data = createDataset();
+        const { answer } = await callTool(data, 'propose_changes', { summary: '', changes: [{ kind: 'update-planned-expense', month: '2024-05', recurringId: 100, dueDate: '2024-05-05', amount: 850 }] });
+        expect(answer.proposal!.changes[0]).toMatchObject({ recurringId: 100, dueDate: '2024-05-05', before: { amount: 800 }, after: { amount: 850 } });
+        expect(data.monthlyData['2024-05']).toBeUndefined();
+
+        const store = createBudgetStore(data);
+        expect(applyAssistantProposal(store, answer.proposal!)).toBe(0);
+        expect(store.data.monthlyData['2024-05'].plannedExpenses).toMatchObject([{ amount: 850, recurringId: 100, isOverridden: true }]);
+        expect((store.data.recurringExpenses[0] as Expense).amount).toBe(800);
+        expect(answer.proposal!.status).toBe('applied');
+    });
+
+    it('skips the changes whose expense is gone', () => {
+        const store = createBudgetStore(createDataset());
+        const skipped = applyAssistantProposal(store, { summary: '', status: 'pending', changes: [
+            { kind: 'update-planned-expense', month: '2024-03', id: 42, currency: 'EUR', after: { description: 'Courses', amount: 10, categoryId: 9 } },
+            { kind: 'add-planned-expense', month: '2024-03', currency: 'EUR', after: { description: 'Cadeau', amount: 30, categoryId: 3 } },
+        ] }, 7);
+        expect(skipped).toBe(1);
+        expect(store.data.monthlyData['2024-03'].plannedExpenses.find(exp => exp.id === 8)).toMatchObject({ description: 'Cadeau', categoryId: 3 });
+    });
+});
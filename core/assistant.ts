@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// The budget assistant: Gemini answers questions about the budget by calling the query tools below on the local data,
+// and changes the budget only by proposing changes the user confirms. The tools only read the dataset; a confirmed
+// proposal is applied through the store's commands.
+import { Type } from '@google/genai';
+import type { Content, FunctionDeclaration, GenerateContentResponse } from '@google/genai';
+import { getItemCurrency } from './currency';
+import type { GenAIClient } from './genai';
+import { getMonthsInRange, monthsBetween } from './months';
+import { getTemplateSchedule, getTemplateValuesForMonth } from './recurrence';
+import { findCategoryByName, findRecurringTemplate, getCategoryName, getCategoryShares, getRealExpensesForMonth, getTotalsCategoryIds, hasCategory, sumByCategory } from './selectors';
+import { createMonthDataFromRecurring } from './store';
+import type { BudgetStore } from './store';
+import type { AssistantChange, AssistantProposal, BudgetDataset, Expense, RealExpense, StatsRange } from './types';
+
+export const ASSISTANT_MODEL = 'gemini-2.5-flash';
+// Model turns allowed per question, tool calls included, before giving up.
+const MAX_ASSISTANT_STEPS = 8;
+const MAX_ASSISTANT_MONTHS = 36;
+const ASSISTANT_CHANGE_KINDS: AssistantChange['kind'][] = ['add-planned-expense', 'update-planned-expense', 'update-recurring-expense'];
+
+const monthRangeSchema = {
+    fromMonth: { type: Type.STRING, description: 'Premier mois, au format YYYY-MM' },
+    toMonth: { type: Type.STRING, description: 'Dernier mois inclus, au format YYYY-MM' },
+    category: { type: Type.STRING, description: 'Limiter à cette catégorie' },
+};
+
+const ASSISTANT_TOOLS: FunctionDeclaration[] = [
+    {
+        name: 'get_budget_summary',
+        description: 'Montants prévus et dépensés par catégorie pour chaque mois d\'une période, convertis dans la devise de référence.',
+        parameters: { type: Type.OBJECT, properties: monthRangeSchema, required: ['fromMonth', 'toMonth'] },
+    },
+    {
+        name: 'list_real_expenses',
+        description: 'Dépenses réelles (effectivement payées) d\'une période, dans leur devise.',
+        parameters: { type: Type.OBJECT, properties: monthRangeSchema, required: ['fromMonth', 'toMonth'] },
+    },
+    {
+        name: 'list_planned_expenses',
+        description: 'Dépenses planifiées d\'un mois avec leur id, dans leur devise. Celles qui ont un recurringId sont des occurrences d\'une dépense récurrente. Un mois pas encore ouvert n\'a que ces occurrences, sans id : elles sont désignées par leur recurringId et leur dueDate.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: { month: { type: Type.STRING, description: 'Mois au format YYYY-MM' }, category: { type: Type.STRING, description: 'Limiter à cette catégorie' } },
+            required: ['month'],
+        },
+    },
+    {
+        name: 'list_recurring_expenses',
+        description: 'Dépenses récurrentes avec leur id, leur montant actuel et leur calendrier (fréquence, intervalle, premier et dernier mois, nombre d\'échéances, jour d\'échéance).',
+        parameters: { type: Type.OBJECT, properties: { category: { type: Type.STRING, description: 'Limiter à cette catégorie' } } },
+    },
+    {
+        name: 'propose_changes',
+        description: 'Présente à l\'utilisateur des modifications du budget, qui ne sont appliquées que s\'il les confirme. Utiliser add-planned-expense (month, description, amount, category), update-planned-expense (month, id ou recurringId et dueDate, et les champs modifiés) ou update-recurring-expense (id, month à partir duquel la nouvelle version s\'applique, et les champs modifiés).',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                summary: { type: Type.STRING, description: 'Résumé des modifications en une phrase' },
+                changes: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            kind: { type: Type.STRING, enum: ASSISTANT_CHANGE_KINDS },
+                            month: { type: Type.STRING, description: 'Mois au format YYYY-MM' },
+                            id: { type: Type.NUMBER },
+                            recurringId: { type: Type.NUMBER },
+                            dueDate: { type: Type.STRING },
+                            description: { type: Type.STRING },
+                            amount: { type: Type.NUMBER, description: 'Nouveau montant, dans la devise de la dépense' },
+                            category: { type: Type.STRING },
+                        },
+                        required: ['kind', 'month'],
+                    },
+                },
+            },
+            required: ['summary', 'changes'],
+        },
+    },
+];
+
+const getAssistantInstruction = (data: BudgetDataset, selectedMonth: string, now: Date) => `Tu es l'assistant d'une application de budget personnel. Réponds en français, brièvement, à partir des seules données obtenues avec les outils. Nous sommes le ${now.toISOString().split('T')[0]} ; le mois affiché est ${selectedMonth} ; la devise de référence est ${data.settings.baseCurrency}. Catégories : ${data.categories.map(c => c.name).join(', ')}. Pour modifier le budget, appelle propose_changes : ne dis jamais qu'une modification est faite, l'utilisateur doit d'abord la confirmer.`;
+
+const isMonthKey = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// A month's planned expenses as stored, or for a month not created yet, as its recurring instances would be, without
+// creating it.
+const getPlannedExpenses = (data: BudgetDataset, month: string): Expense[] =>
+    data.monthlyData[month]?.plannedExpenses || createMonthDataFromRecurring(data, month).plannedExpenses;
+
+function readAssistantRange(args: Record<string, unknown>): StatsRange {
+    if (!isMonthKey(args.fromMonth) || !isMonthKey(args.toMonth) || args.fromMonth > args.toMonth) throw new Error('Période invalide : fromMonth et toMonth doivent être au format YYYY-MM, dans l\'ordre.');
+    if (monthsBetween(args.fromMonth, args.toMonth) >= MAX_ASSISTANT_MONTHS) throw new Error(`Période trop longue (${MAX_ASSISTANT_MONTHS} mois au plus).`);
+    return { from: args.fromMonth, to: args.toMonth };
+}
+
+// The model names categories; they are looked up by name and referred to by id from there on.
+const readAssistantCategory = (data: BudgetDataset, args: Record<string, unknown>) => {
+    if (args.category === undefined || args.category === '') return undefined;
+    const category = findCategoryByName(data, String(args.category));
+    if (!category) throw new Error(`Catégorie inconnue : ${args.category}.`);
+    return category.id;
+};
+const describeAssistantShares = (data: BudgetDataset, item: Expense | RealExpense) =>
+    getCategoryShares(item).map(share => ({ category: getCategoryName(data, share.categoryId), amount: share.amount }));
+
+// The planned expense a change refers to: by id in a stored month, or by template and due date in one not created yet.
+function findChangedPlannedExpense(data: BudgetDataset, month: string, target: { id?: number; recurringId?: number; dueDate?: string }): Expense | undefined {
+    if (data.monthlyData[month]) return data.monthlyData[month].plannedExpenses.find(exp => target.id !== undefined ? exp.id === target.id : exp.recurringId === target.recurringId && exp.dueDate === target.dueDate);
+    return getPlannedExpenses(data, month).find(exp => exp.recurringId === target.recurringId && exp.dueDate === target.dueDate);
+}
+
+// Checks a change the model proposes against the current data, and records what it replaces.
+function readAssistantChange(data: BudgetDataset, raw: Record<string, any>): AssistantChange {
+    if (!ASSISTANT_CHANGE_KINDS.includes(raw.kind)) throw new Error(`Type de modification inconnu : ${raw.kind}.`);
+    if (!isMonthKey(raw.month)) throw new Error('Chaque modification doit avoir un mois au format YYYY-MM.');
+    if (raw.amount !== undefined && (typeof raw.amount !== 'number' || !Number.isFinite(raw.amount) || raw.amount < 0)) throw new Error(`Montant invalide : ${raw.amount}.`);
+    const categoryId = readAssistantCategory(data, raw);
+    const kind = raw.kind as AssistantChange['kind'];
+    if (kind === 'add-planned-expense') {
+        if (!raw.description || raw.amount === undefined || categoryId === undefined) throw new Error('Une dépense ajoutée doit avoir une description, un montant et une catégorie.');
+        return { kind, month: raw.month, currency: data.settings.baseCurrency, after: { description: String(raw.description), amount: roundMoney(raw.amount), categoryId } };
+    }
+    const target = kind === 'update-planned-expense'
+        ? findChangedPlannedExpense(data, raw.month, { id: raw.id, recurringId: raw.recurringId, dueDate: raw.dueDate })
+        : findRecurringTemplate(data, raw.id, 'expense') as Expense | undefined;
+    if (!target) throw new Error(kind === 'update-planned-expense'
+        ? `Aucune dépense planifiée en ${raw.month} avec ${raw.id !== undefined ? `l'id ${raw.id}` : `le recurringId ${raw.recurringId} et la dueDate ${raw.dueDate}`}.`
+        : `Aucune dépense récurrente avec l'id ${raw.id}.`);
+    if (target.splits?.length && (raw.amount !== undefined || categoryId !== undefined)) throw new Error(`"${target.description}" est répartie entre plusieurs catégories : elle doit être modifiée depuis le formulaire.`);
+    // A recurring expense is compared with its version in effect in the month the change starts.
+    const current = kind === 'update-planned-expense' ? target : { ...target, ...getTemplateValuesForMonth(target, raw.month) };
+    const before = { description: current.description, amount: current.amount, categoryId: current.categoryId };
+    const after = { description: raw.description ? String(raw.description) : before.description, amount: raw.amount !== undefined ? roundMoney(raw.amount) : before.amount, categoryId: categoryId ?? before.categoryId };
+    // An occurrence in a month not created yet has no lasting id: it is found again by template and due date once applied.
+    const reference = kind === 'update-planned-expense' && !data.monthlyData[raw.month] ? { recurringId: target.recurringId, dueDate: target.dueDate } : { id: target.id };
+    return { kind, month: raw.month, ...reference, currency: getItemCurrency(current), before, after };
+}
+
+// The model-facing query functions. Each returns a JSON-serialisable result, or an `error` the model can act on.
+export function runAssistantTool(data: BudgetDataset, name: string, args: Record<string, unknown>): { result: Record<string, unknown>; proposal?: AssistantProposal } {
+    try {
+        if (name === 'get_budget_summary') {
+            const categoryId = readAssistantCategory(data, args);
+            const months = getMonthsInRange(readAssistantRange(args)).map(month => {
+                const planned = sumByCategory(data, getPlannedExpenses(data, month), month);
+                const spent = sumByCategory(data, getRealExpensesForMonth(data, month), month);
+                const ids = Array.from(new Set([...getTotalsCategoryIds(planned), ...getTotalsCategoryIds(spent)])).filter(id => categoryId === undefined || id === categoryId);
+                return { month, categories: ids.map(id => ({ category: getCategoryName(data, id), planned: roundMoney(planned[id] || 0), spent: roundMoney(spent[id] || 0) })) };
+            });
+            return { result: { currency: data.settings.baseCurrency, months } };
+        }
+        if (name === 'list_real_expenses') {
+            const categoryId = readAssistantCategory(data, args);
+            const expenses = getMonthsInRange(readAssistantRange(args)).flatMap(month => getRealExpensesForMonth(data, month))
+                .filter(exp => categoryId === undefined || hasCategory(exp, categoryId))
+                .map(exp => ({ date: exp.date, description: exp.description, payee: exp.payee, amount: exp.amount, currency: getItemCurrency(exp), categories: describeAssistantShares(data, exp) }));
+            return { result: { expenses } };
+        }
+        if (name === 'list_planned_expenses') {
+            if (!isMonthKey(args.month)) throw new Error('month doit être au format YYYY-MM.');
+            const categoryId = readAssistantCategory(data, args);
+            const isStored = data.monthlyData[args.month] !== undefined;
+            const expenses = getPlannedExpenses(data, args.month)
+                .filter(exp => categoryId === undefined || hasCategory(exp, categoryId))
+                .map(exp => ({ id: isStored ? exp.id : undefined, description: exp.description, amount: exp.amount, currency: getItemCurrency(exp), categories: describeAssistantShares(data, exp), recurringId: exp.recurringId, dueDate: exp.dueDate, isOverridden: exp.isOverridden }));
+            return { result: { month: args.month, expenses } };
+        }
+        if (name === 'list_recurring_expenses') {
+            const categoryId = readAssistantCategory(data, args);
+            const expenses = data.recurringExpenses
+                .filter(exp => categoryId === undefined || hasCategory(exp, categoryId))
+                .map(exp => ({ id: exp.id, description: exp.description, amount: exp.amount, currency: getItemCurrency(exp), category: getCategoryName(data, exp.categoryId), schedule: getTemplateSchedule(exp) }));
+            return { result: { expenses } };
+        }
+        if (name === 'propose_changes') {
+            const changes = (Array.isArray(args.changes) ? args.changes : []).map(raw => readAssistantChange(data, raw));
+            if (changes.length === 0) throw new Error('Aucune modification proposée.');
+            return { result: { status: 'Proposition affichée ; l\'utilisateur doit la confirmer.' }, proposal: { summary: String(args.summary || ''), changes, status: 'pending' } };
+        }
+        throw new Error(`Outil inconnu : ${name}.`);
+    } catch (error) {
+        return { result: { error: error instanceof Error ? error.message : String(error) } };
+    }
+}
+
+// Sends a question with the conversation so far, running the tool calls the model makes until it answers in text.
+// `selectedMonth` is the month the user is looking at.
+export async function askAssistant(data: BudgetDataset, client: GenAIClient, history: Content[], question: string, selectedMonth: string, now = new Date()): Promise<{ history: Content[]; text: string; proposal?: AssistantProposal }> {
+    const contents: Content[] = [...history, { role: 'user', parts: [{ text: question }] }];
+    let proposal: AssistantProposal | undefined;
+    for (let step = 0; step < MAX_ASSISTANT_STEPS; step++) {
+        const response: GenerateContentResponse = await client.models.generateContent({
+            model: ASSISTANT_MODEL,
+            contents,
+            config: { systemInstruction: getAssistantInstruction(data, selectedMonth, now), tools: [{ functionDeclarations: ASSISTANT_TOOLS }] },
+        });
+        const calls = response.functionCalls || [];
+        if (calls.length === 0) {
+            const text = response.text?.trim() || '';
+            return { history: [...contents, { role: 'model', parts: [{ text }] }], text, proposal };
+        }
+        contents.push(response.candidates?.[0]?.content || { role: 'model', parts: calls.map(functionCall => ({ functionCall })) });
+        contents.push({
+            role: 'user',
+            parts: calls.map(call => {
+                const outcome = runAssistantTool(data, call.name || '', call.args || {});
+                if (outcome.proposal) proposal = outcome.proposal;
+                return { functionResponse: { id: call.id, name: call.name, response: outcome.result } };
+            }),
+        });
+    }
+    throw new Error('L\'assistant n\'a pas abouti à une réponse.');
+}
+
+// Applies a confirmed proposal through the same store commands as the forms. Changes whose target has since disappeared are
+// skipped; returns how many were.
+export function applyAssistantProposal(store: BudgetStore, proposal: AssistantProposal, newId = Date.now()): number {
+    let skipped = 0;
+    proposal.changes.forEach((change, index) => {
+        const { description, amount, categoryId } = change.after;
+        if (change.kind === 'add-planned-expense') {
+            store.savePlannedExpense(change.month, null, { description, amount, categoryId, currency: change.currency }, newId + index);
+        } else if (change.kind === 'update-planned-expense') {
+            // Occurrences are changed in their month, which is created then if it doesn't exist yet.
+            if (change.id === undefined) store.getOrCreateMonth(change.month);
+            const target = findChangedPlannedExpense(store.data, change.month, change);
+            if (target) store.savePlannedExpense(change.month, target.id, { description, amount, categoryId, currency: change.currency });
+            else skipped++;
+        } else {
+            const template = findRecurringTemplate(store.data, change.id, 'expense');
+            if (template) store.editRecurring('expense', template.id, change.month, { ...getTemplateValuesForMonth(template, change.month), description, amount, categoryId });
+            else skipped++;
+        }
+    });
+    proposal.status = 'applied';
+    return skipped;
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { findExchangeRate, getKnownCurrencies, sumInBase, toBaseAmount } from './currency';
+import { createEmptyDataset } from './store';
+import type { BudgetDataset } from './types';
+
+const createDataset = (): BudgetDataset => ({
+    ...createEmptyDataset(),
+    exchangeRates: [
+        { id: 1, date: '2024-01-01', from: 'USD', to: 'EUR', rate: 0.9 },
+        { id: 2, date: '2024-06-01', from: 'USD', to: 'EUR', rate: 0.8 },
+        { id: 3, date: '2024-01-01', from: 'EUR', to: 'CHF', rate: 0.95 },
+    ],
+});
+
+describe('findExchangeRate', () => {
+    it('uses the latest rate dated on or before the date', () => {
+        const data = createDataset();
+        expect(findExchangeRate(data, 'USD', 'EUR', '2024-03-15')).toBe(0.9);
+        expect(findExchangeRate(data, 'USD', 'EUR', '2024-06-01')).toBe(0.8);
+        // Dates before any rate use the earliest one.
+        expect(findExchangeRate(data, 'USD', 'EUR', '2023-01-01')).toBe(0.9);
+    });
+
+    it('inverts rates and crosses them through a third currency', () => {
+        const data = createDataset();
+        expect(findExchangeRate(data, 'EUR', 'USD', '2024-03-15')).toBeCloseTo(1 / 0.9);
+        expect(findExchangeRate(data, 'USD', 'CHF', '2024-03-15')).toBeCloseTo(0.9 * 0.95);
+    });
+
+    it('returns null without any path between the currencies', () => {
+        expect(findExchangeRate(createDataset(), 'GBP', 'EUR', '2024-03-15')).toBeNull();
+        expect(findExchangeRate(createDataset(), 'GBP', 'GBP', '2024-03-15')).toBe(1);
+    });
+});
+
+describe('base amounts', () => {
+    it('converts dated items at their date and planned items at the start of their month', () => {
+        const data = createDataset();
+        expect(toBaseAmount(data, { amount: 100, currency: 'USD', date: '2024-07-02' }, '2024-07')).toBeCloseTo(80);
+        expect(toBaseAmount(data, { amount: 100, currency: 'USD' }, '2024-05')).toBeCloseTo(90);
+    });
+
+    it('counts amounts without a rate as they are', () => {
+        const data = createDataset();
+        expect(sumInBase(data, [{ amount: 10 }, { amount: 100, currency: 'USD' }, { amount: 5, currency: 'GBP' }], '2024-02')).toBeCloseTo(105);
+    });
+
+    it('lists the currencies of the rates with the common ones', () => {
+        expect(getKnownCurrencies({ ...createDataset(), exchangeRates: [{ id: 1, date: '2024-01-01', from: 'JPY', to: 'EUR', rate: 0.006 }] })).toEqual(['CHF', 'EUR', 'GBP', 'JPY', 'USD']);
+    });
+});
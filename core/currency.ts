@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { BudgetDataset, MoneyItem } from './types';
+
+export const DEFAULT_CURRENCY = 'EUR';
+export const COMMON_CURRENCIES = ['EUR', 'CHF', 'GBP', 'USD'];
+
+export const isCurrencyCode = (value: unknown): value is string => typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+export const getItemCurrency = (item: { currency?: string }) => item.currency || DEFAULT_CURRENCY;
+export const getKnownCurrencies = (data: BudgetDataset) => Array.from(new Set([...COMMON_CURRENCIES, data.settings.baseCurrency, ...data.exchangeRates.flatMap(r => [r.from, r.to])])).sort();
+
+// Rates work both ways; the latest one dated on or before `date` applies, or the earliest one when they are all later.
+function findDirectRate(data: BudgetDataset, from: string, to: string, date: string): number | null {
+    const candidates = data.exchangeRates
+        .flatMap(r => r.from === from && r.to === to ? [{ date: r.date, rate: r.rate }] : r.from === to && r.to === from ? [{ date: r.date, rate: 1 / r.rate }] : [])
+        .sort((a, b) => a.date.localeCompare(b.date));
+    if (candidates.length === 0) return null;
+    return (candidates.filter(c => c.date <= date).pop() || candidates[0]).rate;
+}
+
+// Falls back to a cross rate through a third currency, so that changing the base currency doesn't require new rates.
+export function findExchangeRate(data: BudgetDataset, from: string, to: string, date: string): number | null {
+    if (from === to) return 1;
+    const direct = findDirectRate(data, from, to, date);
+    if (direct !== null) return direct;
+    for (const via of getKnownCurrencies(data)) {
+        if (via === from || via === to) continue;
+        const first = findDirectRate(data, from, via, date);
+        const second = first === null ? null : findDirectRate(data, via, to, date);
+        if (first !== null && second !== null) return first * second;
+    }
+    return null;
+}
+
+// Real expenses convert at their date, planned items at their due date or else the start of their month.
+export const getAmountDate = (item: MoneyItem, monthKey: string) => item.date || item.dueDate || `${monthKey}-01`;
+export const getBaseRate = (data: BudgetDataset, item: MoneyItem, monthKey: string) =>
+    findExchangeRate(data, getItemCurrency(item), data.settings.baseCurrency, getAmountDate(item, monthKey));
+
+// Amounts without a known rate are counted as is; getMissingRateCurrencies reports them.
+export const toBaseAmount = (data: BudgetDataset, item: MoneyItem, monthKey: string) => item.amount * (getBaseRate(data, item, monthKey) ?? 1);
+export const sumInBase = (data: BudgetDataset, items: MoneyItem[], monthKey: string) => items.reduce((sum, item) => sum + toBaseAmount(data, item, monthKey), 0);
+export const convertAmount = (data: BudgetDataset, amount: number, from: string, to: string, date: string) => amount * (findExchangeRate(data, from, to, date) ?? 1);
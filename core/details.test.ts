@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { getKnownTags, getTagReports, normalizePayee, parseTags } from './details';
+import { createEmptyDataset } from './store';
+import type { BudgetDataset } from './types';
+
+function createDataset(): BudgetDataset {
+    const data = createEmptyDataset();
+    data.monthlyData['2024-03'] = {
+        realIncome: [],
+        plannedExpenses: [{ id: 1, description: 'Hôtel', amount: 300, categoryId: 7, tags: ['vacances'] }],
+        realExpenses: [
+            { id: 2, description: 'Restaurant', amount: 80, date: '2024-03-20', categoryId: 9, tags: ['vacances'], payee: 'Le Bistrot' },
+            { id: 3, description: 'Train', amount: 120, date: '2024-03-18', categoryId: 12, splits: [{ categoryId: 12, amount: 100 }, { categoryId: 9, amount: 20 }], tags: ['vacances', 'travail'] },
+        ],
+        receivedIncome: [],
+        transfers: [],
+    };
+    return data;
+}
+
+describe('parseTags', () => {
+    it('normalizes comma-separated tags and drops duplicates', () => {
+        expect(parseTags('#Vacances, vacances , Week end,,')).toEqual(['vacances', 'week-end']);
+        expect(getKnownTags(createDataset())).toEqual(['travail', 'vacances']);
+    });
+});
+
+describe('normalizePayee', () => {
+    it('drops bank references and capitals, and keeps a known spelling', () => {
+        const data = createDataset();
+        expect(normalizePayee(data, 'PRLV SEPA EDF 0923-4411')).toBe('Prlv Sepa Edf');
+        expect(normalizePayee(data, 'LE BISTROT')).toBe('Le Bistrot');
+    });
+});
+
+describe('getTagReports', () => {
+    it('sums spending per tag by category, splits included, and what is planned', () => {
+        expect(getTagReports(createDataset())).toEqual([
+            { tag: 'vacances', count: 3, spent: 200, planned: 300, byCategory: { 9: 100, 12: 100 }, firstDate: '2024-03-01', lastDate: '2024-03-20' },
+            { tag: 'travail', count: 1, spent: 120, planned: 0, byCategory: { 12: 100, 9: 20 }, firstDate: '2024-03-18', lastDate: '2024-03-18' },
+        ]);
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Tags and payees of transactions, and what was spent and planned per tag.
+import { getAmountDate, toBaseAmount } from './currency';
+import { normalizeDescription } from './import';
+import { getTotalsCategoryIds, sumByCategory } from './selectors';
+import type { BudgetDataset, Expense, IncomeSource, RealExpense, TagReport } from './types';
+
+// Every item that can carry details: planned and real transactions of every month, and the recurring templates.
+export const getAllDetailedItems = (data: BudgetDataset): (Expense | RealExpense | IncomeSource)[] => [
+    ...Object.values(data.monthlyData).flatMap(month => [...month.plannedExpenses, ...month.realExpenses, ...month.realIncome]),
+    ...data.recurringExpenses,
+    ...data.recurringIncomes,
+];
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+// Comma-separated tags, normalized and without duplicates.
+export const parseTags = (value: string) => [...new Set(value.split(',').map(normalizeTag).filter(Boolean))];
+export const getKnownTags = (data: BudgetDataset) => [...new Set(getAllDetailedItems(data).flatMap(item => item.tags || []))].sort((a, b) => a.localeCompare(b, 'fr'));
+export const getKnownPayees = (data: BudgetDataset) => [...new Set(getAllDetailedItems(data).map(item => item.payee).filter((payee): payee is string => !!payee))].sort((a, b) => a.localeCompare(b, 'fr'));
+
+// Bank-style payees ("PRLV SEPA EDF 0923-4411") lose their reference numbers and capitals, and a payee already known under
+// another spelling keeps the known one.
+export function normalizePayee(data: BudgetDataset, value: string): string {
+    let payee = value.trim().replace(/\s+/g, ' ').split(' ').filter(word => !/\d{4,}/.test(word)).join(' ');
+    if (payee && payee === payee.toUpperCase()) payee = payee.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, separator, letter) => separator + letter.toUpperCase());
+    return getKnownPayees(data).find(known => normalizeDescription(known) === normalizeDescription(payee)) || payee;
+}
+
+// Spending per tag across every month: real expenses count as spent (by category, splits included), planned ones as
+// planned. Amounts are in the base currency.
+export function getTagReports(data: BudgetDataset): TagReport[] {
+    const reports = new Map<string, TagReport>();
+    const reportFor = (tag: string, date: string) => {
+        const report = reports.get(tag) || { tag, count: 0, spent: 0, planned: 0, byCategory: {}, firstDate: date, lastDate: date };
+        report.count++;
+        if (date < report.firstDate) report.firstDate = date;
+        if (date > report.lastDate) report.lastDate = date;
+        reports.set(tag, report);
+        return report;
+    };
+    Object.entries(data.monthlyData).forEach(([monthKey, month]) => {
+        month.realExpenses.forEach(expense => (expense.tags || []).forEach(tag => {
+            const report = reportFor(tag, expense.date);
+            const totals = sumByCategory(data, [expense], monthKey);
+            getTotalsCategoryIds(totals).forEach(categoryId => {
+                const amount = totals[categoryId];
+                report.byCategory[categoryId] = (report.byCategory[categoryId] || 0) + amount;
+                report.spent += amount;
+            });
+        }));
+        month.plannedExpenses.forEach(expense => (expense.tags || []).forEach(tag => { reportFor(tag, getAmountDate(expense, monthKey)).planned += toBaseAmount(data, expense, monthKey); }));
+    });
+    return [...reports.values()].sort((a, b) => b.spent - a.spent);
+}
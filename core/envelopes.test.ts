@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { getEnvelopeStatus, syncEnvelopeRollovers } from './envelopes';
+import { createEmptyDataset } from './store';
+import type { BudgetDataset, MonthlyData } from './types';
+
+const month = (planned: number, spent: number, monthKey: string): MonthlyData => ({
+    realIncome: [],
+    plannedExpenses: [{ id: 1, description: 'Courses', amount: planned, categoryId: 1 }],
+    realExpenses: [{ id: 2, description: 'Courses', amount: spent, date: `${monthKey}-10`, categoryId: 1 }],
+    receivedIncome: [],
+    transfers: [],
+});
+
+// Groceries run as an envelope from January: 40 left in January, 10 overspent in February once that is carried over.
+function createDataset(): BudgetDataset {
+    const data = createEmptyDataset();
+    data.categories = [{ id: 1, name: 'Repas', color: '#eab308', envelopeSince: '2024-01' }, { id: 2, name: 'Loisirs', color: '#ec4899' }];
+    data.monthlyData['2024-01'] = month(100, 60, '2024-01');
+    data.monthlyData['2024-02'] = month(100, 150, '2024-02');
+    return data;
+}
+
+describe('syncEnvelopeRollovers', () => {
+    it('carries what is left of an envelope over to the next month', () => {
+        const data = createDataset();
+        syncEnvelopeRollovers(data, '2024-03');
+        expect(data.envelopeLedger.map(entry => [entry.month, entry.categoryId, entry.amount])).toEqual([['2024-02', 1, 40], ['2024-03', 1, -10]]);
+        expect(getEnvelopeStatus(data, 1, '2024-02')).toEqual({ categoryId: 1, planned: 100, carriedOver: 40, reallocated: 0, available: 140, spent: 150, remaining: -10 });
+    });
+
+    it('updates the carry-overs already recorded, and drops those that come to nothing', () => {
+        const data = createDataset();
+        syncEnvelopeRollovers(data, '2024-03');
+        data.monthlyData['2024-02'].realExpenses[0].amount = 130;
+        data.monthlyData['2024-01'].realExpenses[0].amount = 70;
+        syncEnvelopeRollovers(data, '2024-02');
+        expect(data.envelopeLedger.map(entry => [entry.month, entry.amount])).toEqual([['2024-02', 30]]);
+    });
+});
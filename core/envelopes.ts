@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Envelope budgeting: a category run as an envelope from its `envelopeSince` month carries what is left of it over to the
+// next month, and money can be moved between envelopes. Both are recorded in the envelope ledger. Amounts are in the base
+// currency.
+import { shiftMonthKey } from './months';
+import { getRealExpensesForMonth, sumByCategory } from './selectors';
+import type { BudgetDataset, EnvelopeStatus } from './types';
+
+export const getEnvelopeCategories = (data: BudgetDataset) => data.categories.filter(c => c.envelopeSince);
+export const getEnvelopeEntries = (data: BudgetDataset, monthKey: string, categoryId?: number) =>
+    data.envelopeLedger.filter(entry => entry.month === monthKey && (categoryId === undefined || entry.categoryId === categoryId));
+
+// What an envelope holds for a month: its planned amount plus everything the ledger recorded for it that month.
+export function getEnvelopeStatus(data: BudgetDataset, categoryId: number, monthKey: string): EnvelopeStatus {
+    const month = data.monthlyData[monthKey];
+    const planned = sumByCategory(data, month?.plannedExpenses || [], monthKey)[categoryId] || 0;
+    const spent = sumByCategory(data, getRealExpensesForMonth(data, monthKey), monthKey)[categoryId] || 0;
+    const entries = getEnvelopeEntries(data, monthKey, categoryId);
+    const carriedOver = entries.filter(entry => entry.kind === 'rollover').reduce((sum, entry) => sum + entry.amount, 0);
+    const reallocated = entries.filter(entry => entry.kind === 'reallocation').reduce((sum, entry) => sum + entry.amount, 0);
+    const available = planned + carriedOver + reallocated;
+    return { categoryId, planned, carriedOver, reallocated, available, spent, remaining: available - spent };
+}
+
+// Records, for every month after an envelope's first one, what was left of it the month before. Runs up to `lastMonth`,
+// or further if carry-overs were already recorded beyond it.
+export function syncEnvelopeRollovers(data: BudgetDataset, lastMonth: string) {
+    getEnvelopeCategories(data).forEach(category => {
+        const recordedMonths = data.envelopeLedger.filter(entry => entry.categoryId === category.id && entry.kind === 'rollover').map(entry => entry.month);
+        const endMonth = [lastMonth, ...recordedMonths].sort().pop()!;
+        for (let month = shiftMonthKey(category.envelopeSince!, 1); month <= endMonth; month = shiftMonthKey(month, 1)) {
+            const amount = Math.round(getEnvelopeStatus(data, category.id, shiftMonthKey(month, -1)).remaining * 100) / 100;
+            const existing = data.envelopeLedger.find(entry => entry.month === month && entry.categoryId === category.id && entry.kind === 'rollover');
+            if (existing && amount === 0) data.envelopeLedger = data.envelopeLedger.filter(entry => entry !== existing);
+            else if (existing) existing.amount = amount;
+            else if (amount !== 0) data.envelopeLedger.push({ id: Date.now() + Math.random(), month, categoryId: category.id, amount, kind: 'rollover' });
+        }
+    });
+}
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { forecastCashFlow, getAverageSpendingByCategory } from './forecast';
+import { createBudgetStore, createEmptyDataset } from './store';
+import type { BudgetDataset, RealExpense } from './types';
+
+const groceries = (id: number, amount: number, date: string): RealExpense => ({ id, description: 'Courses', amount, date, categoryId: 9 });
+
+// A salary and a rent from January, and groceries averaging 200 a month over January and February.
+function createDataset(): BudgetDataset {
+    const store = createBudgetStore(createEmptyDataset());
+    store.data.accounts = [{ id: 1, name: 'Courant', kind: 'checking', currency: 'EUR', openingBalance: 1000, openingDate: '2024-01-01' }];
+    store.saveRealExpense(groceries(1, 100, '2024-01-10'));
+    store.saveRealExpense(groceries(2, 300, '2024-02-10'));
+    const schedule = { frequency: 'monthly' as const, interval: 1, startMonth: '2024-01', dueDay: 1 };
+    store.addRecurring('income', { id: 3, description: 'Salaire', amount: 2000, schedule }, '2024-03');
+    store.addRecurring('expense', { id: 4, description: 'Loyer', amount: 800, categoryId: 6, schedule }, '2024-03');
+    return store.data;
+}
+
+describe('getAverageSpendingByCategory', () => {
+    it('averages over the past months that have real expenses', () => {
+        expect(getAverageSpendingByCategory(createDataset(), '2024-03')).toEqual({ 9: 200 });
+    });
+});
+
+describe('forecastCashFlow', () => {
+    it('projects coming months from the templates and past spending, without creating them', () => {
+        const data = createDataset();
+        const months = Object.keys(data.monthlyData);
+        expect(forecastCashFlow(data, 2, '2024-03')).toEqual([
+            { month: '2024-03', income: 2000, recurring: 800, oneOff: 0, variable: 200, expenses: 1000, balance: 1000, cumulative: 2000, isStored: false },
+            { month: '2024-04', income: 2000, recurring: 800, oneOff: 0, variable: 200, expenses: 1000, balance: 1000, cumulative: 3000, isStored: false },
+        ]);
+        expect(Object.keys(data.monthlyData)).toEqual(months);
+    });
+});
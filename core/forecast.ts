@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Cash-flow forecast: the coming months' income and expenses, planned or expected from past spending, and the net worth
+// they lead to. Amounts are in the base currency.
+import { getNetWorth } from './accounts';
+import { sumInBase } from './currency';
+import { getMonthEndDate, shiftMonthKey } from './months';
+import { getRealExpensesForMonth, getTotalsCategoryIds, sumByCategory } from './selectors';
+import { createMonthDataFromRecurring } from './store';
+import type { BudgetDataset, CategoryTotals, ForecastMonth } from './types';
+
+export const FORECAST_HISTORY_MONTHS = 6;
+
+// Average actual spending per category over the last months before `beforeMonth` that have any real expense.
+export function getAverageSpendingByCategory(data: BudgetDataset, beforeMonth: string): CategoryTotals {
+    const months = Array.from({ length: 24 }, (_, i) => shiftMonthKey(beforeMonth, -1 - i))
+        .filter(month => getRealExpensesForMonth(data, month).length > 0)
+        .slice(0, FORECAST_HISTORY_MONTHS);
+    const totals: CategoryTotals = {};
+    months.forEach(month => {
+        const spent = sumByCategory(data, getRealExpensesForMonth(data, month), month);
+        getTotalsCategoryIds(spent).forEach(categoryId => { totals[categoryId] = (totals[categoryId] || 0) + spent[categoryId]; });
+    });
+    getTotalsCategoryIds(totals).forEach(categoryId => { totals[categoryId] /= months.length; });
+    return totals;
+}
+
+// Projects the `horizon` months from `fromMonth` without creating them: stored months keep their planned items, the
+// others are instantiated in memory from the recurring templates. A category is expected to cost at least its average
+// past spending, so the average only adds to the planned items when they fall short of it.
+export function forecastCashFlow(data: BudgetDataset, horizon: number, fromMonth: string): ForecastMonth[] {
+    const averages = getAverageSpendingByCategory(data, fromMonth);
+    let cumulative = getNetWorth(data, getMonthEndDate(shiftMonthKey(fromMonth, -1)));
+    return Array.from({ length: horizon }, (_, i) => shiftMonthKey(fromMonth, i)).map(month => {
+        const isStored = data.monthlyData[month] !== undefined;
+        const monthData = isStored ? data.monthlyData[month] : createMonthDataFromRecurring(data, month);
+        const income = sumInBase(data, monthData.realIncome, month);
+        const recurring = sumInBase(data, monthData.plannedExpenses.filter(expense => expense.isRecurring), month);
+        const oneOff = sumInBase(data, monthData.plannedExpenses.filter(expense => !expense.isRecurring), month);
+        const plannedByCategory = sumByCategory(data, monthData.plannedExpenses, month);
+        const spentByCategory = sumByCategory(data, getRealExpensesForMonth(data, month), month);
+        const variable = getTotalsCategoryIds({ ...averages, ...spentByCategory }).reduce((sum, categoryId) => {
+            const planned = plannedByCategory[categoryId] || 0;
+            return sum + Math.max(averages[categoryId] || 0, spentByCategory[categoryId] || 0, planned) - planned;
+        }, 0);
+        const expenses = recurring + oneOff + variable;
+        const balance = income - expenses;
+        cumulative += balance;
+        return { month, income, recurring, oneOff, variable, expenses, balance, cumulative, isStored };
+    });
+}
@@ -0,0 +1,9 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// The part of the Gemini client the app calls. Functions that call the model take one as a parameter, so that a fake
+// can stand in for it in tests.
+import type { GoogleGenAI } from '@google/genai';
+
+export type GenAIClient = { models: Pick<GoogleGenAI['models'], 'generateContent'> };
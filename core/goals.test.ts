@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { findGoalRecurringExpense, getGoalContributions, getGoalProgress } from './goals';
+import { createEmptyDataset } from './store';
+import type { BudgetDataset } from './types';
+
+const TODAY = new Date(2024, 2, 15);
+
+// 1200 to save over 2024: 100 paid as an expense in January, 200 moved to the goal's account in February, 100 planned in March.
+function createDataset(): BudgetDataset {
+    const data = createEmptyDataset();
+    data.accounts = [
+        { id: 1, name: 'Courant', kind: 'checking', currency: 'EUR', openingBalance: 0, openingDate: '2023-01-01' },
+        { id: 2, name: 'Livret', kind: 'savings', currency: 'EUR', openingBalance: 0, openingDate: '2023-01-01' },
+    ];
+    data.goals = [{ id: 1, name: 'Vacances', targetAmount: 1200, currency: 'EUR', startMonth: '2024-01', targetMonth: '2024-12', accountId: 2 }];
+    const empty = () => ({ realIncome: [], plannedExpenses: [], realExpenses: [], receivedIncome: [], transfers: [] });
+    data.monthlyData['2023-12'] = { ...empty(), transfers: [{ id: 1, date: '2023-12-20', fromAccountId: 1, toAccountId: 2, amount: 50, description: '' }] };
+    data.monthlyData['2024-01'] = { ...empty(), realExpenses: [{ id: 2, description: 'Versement', amount: 100, date: '2024-01-15', categoryId: 5, goalId: 1 }] };
+    data.monthlyData['2024-02'] = { ...empty(), transfers: [{ id: 3, date: '2024-02-10', fromAccountId: 1, toAccountId: 2, amount: 200, description: '' }] };
+    data.monthlyData['2024-03'] = { ...empty(), plannedExpenses: [{ id: 4, description: 'Versement', amount: 100, categoryId: 5, goalId: 1 }] };
+    return data;
+}
+
+describe('getGoalContributions', () => {
+    it('counts the tagged expenses and the transfers into the goal account since its start', () => {
+        const data = createDataset();
+        expect(getGoalContributions(data, data.goals[0])).toEqual([
+            { date: '2024-01-15', amount: 100, description: 'Versement' },
+            { date: '2024-02-10', amount: 200, description: 'Virement depuis Courant' },
+        ]);
+    });
+});
+
+describe('getGoalProgress', () => {
+    it('spreads what is left over the months up to the target and projects the average pace', () => {
+        const data = createDataset();
+        expect(getGoalProgress(data, data.goals[0], TODAY)).toMatchObject({
+            contributed: 300, scheduled: 100, remaining: 900, percent: 25, monthsLeft: 10, requiredMonthly: 90, averageMonthly: 100, projectedMonth: '2024-12',
+        });
+    });
+});
+
+describe('findGoalRecurringExpense', () => {
+    it('only finds a recurring contribution still running from the month', () => {
+        const data = createDataset();
+        data.recurringExpenses = [{ id: 5, description: 'Versement', amount: 100, categoryId: 5, goalId: 1, schedule: { frequency: 'monthly', interval: 1, startMonth: '2024-01', endMonth: '2024-02', dueDay: 1 } }];
+        expect(findGoalRecurringExpense(data, data.goals[0], '2024-02')?.id).toBe(5);
+        expect(findGoalRecurringExpense(data, data.goals[0], '2024-03')).toBeUndefined();
+    });
+});
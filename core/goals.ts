@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Savings goals: what was saved towards each, from the real expenses tagged with it and the transfers into its account,
+// and the pace needed to reach it. Amounts are in the goal's currency.
+import { convertAmount, getItemCurrency } from './currency';
+import { getMonthKey, monthsBetween, shiftMonthKey } from './months';
+import { findAccount } from './selectors';
+import type { BudgetDataset, GoalContribution, GoalProgress, SavingsGoal } from './types';
+
+export const findGoal = (data: BudgetDataset, id: number | undefined) => data.goals.find(goal => goal.id === id);
+
+export function getGoalContributions(data: BudgetDataset, goal: SavingsGoal): GoalContribution[] {
+    const months = Object.values(data.monthlyData);
+    const fromExpenses = months.flatMap(month => month.realExpenses)
+        .filter(expense => expense.goalId === goal.id)
+        .map(expense => ({ date: expense.date, amount: convertAmount(data, expense.amount, getItemCurrency(expense), goal.currency, expense.date), description: expense.description }));
+    const fromTransfers = goal.accountId === undefined ? [] : months.flatMap(month => month.transfers)
+        .filter(transfer => transfer.toAccountId === goal.accountId && transfer.date >= `${goal.startMonth}-01`)
+        .map(transfer => {
+            const source = findAccount(data, transfer.fromAccountId);
+            return { date: transfer.date, amount: convertAmount(data, transfer.amount, source?.currency || goal.currency, goal.currency, transfer.date), description: transfer.description || `Virement depuis ${source?.name || '?'}` };
+        });
+    return [...fromExpenses, ...fromTransfers].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// The projection extends the average monthly contribution since the goal started; the required contribution spreads what
+// is left over the months up to and including the target month.
+export function getGoalProgress(data: BudgetDataset, goal: SavingsGoal, today = new Date()): GoalProgress {
+    const currentMonth = getMonthKey(today);
+    const contributions = getGoalContributions(data, goal);
+    const contributed = contributions.reduce((sum, contribution) => sum + contribution.amount, 0);
+    const scheduled = Object.entries(data.monthlyData)
+        .filter(([monthKey]) => monthKey >= currentMonth)
+        .flatMap(([monthKey, month]) => month.plannedExpenses.filter(expense => expense.goalId === goal.id).map(expense => convertAmount(data, expense.amount, getItemCurrency(expense), goal.currency, `${monthKey}-01`)))
+        .reduce((sum, amount) => sum + amount, 0);
+    const remaining = Math.max(goal.targetAmount - contributed, 0);
+    const monthsLeft = Math.max(monthsBetween(currentMonth, goal.targetMonth) + 1, 0);
+    const monthsElapsed = Math.max(monthsBetween(goal.startMonth, currentMonth) + 1, 1);
+    const averageMonthly = contributed / monthsElapsed;
+    let projectedMonth: string | null = null;
+    if (remaining === 0) projectedMonth = contributions[contributions.length - 1]?.date.slice(0, 7) || currentMonth;
+    else if (averageMonthly > 0) projectedMonth = shiftMonthKey(currentMonth, Math.ceil(remaining / averageMonthly));
+    return {
+        goal, contributions, contributed, scheduled, remaining,
+        percent: goal.targetAmount > 0 ? Math.min(contributed / goal.targetAmount * 100, 100) : 100,
+        monthsLeft,
+        requiredMonthly: remaining === 0 ? 0 : remaining / Math.max(monthsLeft, 1),
+        averageMonthly,
+        projectedMonth,
+    };
+}
+
+// The goal's recurring contribution that is still running in `fromMonth`, if any.
+export const findGoalRecurringExpense = (data: BudgetDataset, goal: SavingsGoal, fromMonth: string) => data.recurringExpenses.find(template => {
+    const endMonth = template.schedule?.endMonth;
+    return template.goalId === goal.id && (endMonth === undefined || endMonth >= fromMonth);
+});
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createUndoHistory } from './history';
+
+const records = (entries: { [id: string]: string }) => new Map(Object.entries(entries));
+const snapshot = (history: ReturnType<typeof createUndoHistory>) => Object.fromEntries(history.getRecords());
+
+describe('createUndoHistory', () => {
+    it('undoes and redoes recorded steps in order', () => {
+        const history = createUndoHistory(records({ a: '1' }));
+        history.record(records({ a: '2' }));
+        history.record(records({ a: '2', b: '1' }));
+        expect(Object.fromEntries(history.undo()!)).toEqual({ a: '2' });
+        expect(Object.fromEntries(history.undo()!)).toEqual({ a: '1' });
+        expect(history.undo()).toBeUndefined();
+        expect(Object.fromEntries(history.redo()!)).toEqual({ a: '2' });
+        expect(Object.fromEntries(history.redo()!)).toEqual({ a: '2', b: '1' });
+        expect(history.redo()).toBeUndefined();
+    });
+
+    it('keeps only the records each step changed', () => {
+        const history = createUndoHistory(records({ a: '1', b: 'x', c: 'y' }));
+        history.record(records({ a: '2', b: 'x', d: 'z' }));
+        expect(history.getState().past).toEqual([{ before: { a: '1', d: null, c: 'y' }, after: { a: '2', d: 'z', c: null }, size: 10 }]);
+    });
+
+    it('ignores unchanged records and clears redo on a new step', () => {
+        const history = createUndoHistory(records({ a: '1' }));
+        expect(history.record(records({ a: '1' }))).toBe(false);
+        expect(history.canUndo()).toBe(false);
+        history.record(records({ a: '2' }));
+        history.undo();
+        expect(history.canRedo()).toBe(true);
+        history.record(records({ a: '3' }));
+        expect(history.canRedo()).toBe(false);
+        expect(Object.fromEntries(history.undo()!)).toEqual({ a: '1' });
+    });
+
+    it('leaves changes recorded without a step of their own out of undo', () => {
+        const history = createUndoHistory(records({ a: '1' }));
+        history.record(records({ a: '2' }));
+        history.record(records({ a: '2', month: 'new' }), false);
+        expect(history.getState().past).toHaveLength(1);
+        history.undo();
+        expect(snapshot(history)).toEqual({ a: '1', month: 'new' });
+        history.redo();
+        expect(snapshot(history)).toEqual({ a: '2', month: 'new' });
+    });
+
+    it('drops the oldest steps past its size, and steps too big to keep', () => {
+        const history = createUndoHistory(records({ a: '0' }), 10);
+        ['1', '2', '3'].forEach(value => history.record(records({ a: value })));
+        expect(history.getState().past.map(step => step.after)).toEqual([{ a: '2' }, { a: '3' }]);
+        history.record(records({ a: 'a value too long to keep' }));
+        expect(history.canUndo()).toBe(false);
+    });
+
+    it('resumes a saved history only when it ends at the current records', () => {
+        const history = createUndoHistory(records({ a: '1' }));
+        history.record(records({ a: '2' }));
+        history.record(records({ a: '3' }));
+        history.undo();
+        const saved = history.getState();
+
+        const resumed = createUndoHistory();
+        resumed.reset(records({ a: '2' }), saved);
+        expect(Object.fromEntries(resumed.undo()!)).toEqual({ a: '1' });
+        resumed.reset(records({ a: '5' }), saved);
+        expect(resumed.getState()).toEqual({ past: [], future: [] });
+    });
+});
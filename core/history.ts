@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Undo/redo as patches over serialized records keyed by id (the dataset's storage records). A step holds the value
+// before and after of each record that changed between two recorded states, null for one that didn't exist, so that an
+// action running several commands before being recorded once undoes as a single step, and the history only grows by what
+// each step changed.
+export type RecordPatch = { [id: string]: string | null };
+// `size` is the characters the step holds, counted once when it is recorded.
+export type UndoStep = { before: RecordPatch; after: RecordPatch; size: number };
+export type UndoHistoryState = { past: UndoStep[]; future: UndoStep[] };
+
+export type UndoHistory = ReturnType<typeof createUndoHistory>;
+
+export const DEFAULT_MAX_HISTORY_SIZE = 1_000_000;
+
+// The steps take at most `maxSize` characters together: the oldest are dropped past it, and a step bigger than that on
+// its own isn't kept at all.
+export function createUndoHistory(records: Map<string, string> = new Map(), maxSize = DEFAULT_MAX_HISTORY_SIZE) {
+    let state: UndoHistoryState = { past: [], future: [] };
+    let size = 0;
+
+    const matches = (patch: RecordPatch) => Object.entries(patch).every(([id, value]) => (records.get(id) ?? null) === value);
+    const applyPatch = (patch: RecordPatch) => Object.entries(patch).forEach(([id, value]) => {
+        if (value === null) records.delete(id);
+        else records.set(id, value);
+    });
+    const trim = () => {
+        while (size > maxSize && state.past.length > 0) {
+            size -= state.past[0].size;
+            state = { ...state, past: state.past.slice(1) };
+        }
+    };
+
+    return {
+        getState: (): UndoHistoryState => state,
+        // The records as of the present step.
+        getRecords: (): ReadonlyMap<string, string> => records,
+        // Starts over from `present`, resuming the saved history when it ends there.
+        reset(present: Map<string, string>, saved?: UndoHistoryState) {
+            records = present;
+            const last = saved?.past[saved.past.length - 1];
+            const next = saved?.future[0];
+            const isCurrent = !!saved && (!last || matches(last.after)) && (!next || matches(next.before));
+            state = isCurrent ? { past: [...saved.past], future: [...saved.future] } : { past: [], future: [] };
+            size = [...state.past, ...state.future].reduce((sum, step) => sum + step.size, 0);
+            trim();
+        },
+        canUndo: () => state.past.length > 0,
+        canRedo: () => state.future.length > 0,
+
+        // Makes `next`, which the history takes over, the present: as a new step, or when `isUndoable` is false without a
+        // step of its own, for changes that follow from another (such as a month created by navigating to it). Returns
+        // false when nothing changed.
+        record(next: Map<string, string>, isUndoable = true): boolean {
+            const before: RecordPatch = {};
+            const after: RecordPatch = {};
+            let stepSize = 0;
+            const add = (id: string, from: string | null, to: string | null) => {
+                before[id] = from;
+                after[id] = to;
+                stepSize += 2 * id.length + (from?.length ?? 0) + (to?.length ?? 0);
+            };
+            next.forEach((value, id) => { const previous = records.get(id); if (previous !== value) add(id, previous ?? null, value); });
+            records.forEach((value, id) => { if (!next.has(id)) add(id, value, null); });
+            records = next;
+            if (stepSize === 0) return false;
+            if (isUndoable) {
+                size += stepSize - state.future.reduce((sum, step) => sum + step.size, 0);
+                state = { past: [...state.past, { before, after, size: stepSize }], future: [] };
+                trim();
+            }
+            return true;
+        },
+
+        // Both return the records to restore, or undefined when there is nothing to undo or redo.
+        undo(): ReadonlyMap<string, string> | undefined {
+            const step = state.past[state.past.length - 1];
+            if (!step) return undefined;
+            applyPatch(step.before);
+            state = { past: state.past.slice(0, -1), future: [step, ...state.future] };
+            return records;
+        },
+        redo(): ReadonlyMap<string, string> | undefined {
+            const [step, ...future] = state.future;
+            if (!step) return undefined;
+            applyPatch(step.after);
+            state = { past: [...state.past, step], future };
+            return records;
+        },
+    };
+}
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { filterDatasetByMember, getMemberBalances, getMemberShares, getSettlements } from './household';
+import { buildSankeyGraph } from './selectors';
+import { createBudgetStore, createEmptyDataset } from './store';
+import type { BudgetDataset } from './types';
+
+// Alice and Bob share the rent two thirds / one third; Alice pays it, Bob pays the groceries he keeps to himself.
+function createDataset(): BudgetDataset {
+    const data = createEmptyDataset();
+    data.categories = [{ id: 1, name: 'Logement', color: '#ef4444' }, { id: 2, name: 'Repas', color: '#eab308' }];
+    data.settings.members = [{ id: 1, name: 'Alice', color: '#0ea5e9', defaultShare: 2 }, { id: 2, name: 'Bob', color: '#f97316', defaultShare: 1 }];
+    data.monthlyData['2024-03'] = {
+        realIncome: [{ id: 1, description: 'Salaire', amount: 2000, memberId: 1 }, { id: 2, description: 'Salaire', amount: 1500, memberId: 2 }, { id: 3, description: 'Prime', amount: 100 }],
+        plannedExpenses: [{ id: 4, description: 'Loyer', amount: 900, categoryId: 1, memberId: 1, shares: [{ memberId: 1, weight: 2 }, { memberId: 2, weight: 1 }] }],
+        realExpenses: [
+            { id: 5, description: 'Loyer', amount: 900, date: '2024-03-01', categoryId: 1, memberId: 1, shares: [{ memberId: 1, weight: 2 }, { memberId: 2, weight: 1 }] },
+            { id: 6, description: 'Courses', amount: 60, date: '2024-03-09', categoryId: 2, memberId: 2 },
+        ],
+        receivedIncome: [{ id: 7, description: 'Salaire', amount: 1500, date: '2024-03-28', memberId: 2 }],
+        transfers: [],
+    };
+    return data;
+}
+
+describe('getMemberShares', () => {
+    it('splits shared items by weight and gives the others to their payer', () => {
+        const [rent, groceries] = createDataset().monthlyData['2024-03'].realExpenses;
+        expect(getMemberShares(rent)).toEqual([{ memberId: 1, ratio: 2 / 3 }, { memberId: 2, ratio: 1 / 3 }]);
+        expect(getMemberShares(groceries)).toEqual([{ memberId: 2, ratio: 1 }]);
+        expect(getMemberShares({})).toEqual([]);
+    });
+});
+
+describe('filterDatasetByMember', () => {
+    it('keeps the member\'s part of the items they have a part in', () => {
+        const month = filterDatasetByMember(createDataset(), 2).monthlyData['2024-03'];
+        expect(month.realIncome.map(income => income.id)).toEqual([2]);
+        expect(month.plannedExpenses).toMatchObject([{ id: 4, amount: 300 }]);
+        expect(month.realExpenses.map(exp => [exp.id, exp.amount])).toEqual([[5, 300], [6, 60]]);
+        expect(month.receivedIncome.map(income => income.id)).toEqual([7]);
+    });
+
+    it('leaves the dataset it filters alone', () => {
+        const data = createDataset();
+        filterDatasetByMember(data, 2);
+        expect(data.monthlyData['2024-03'].realExpenses[0].amount).toBe(900);
+    });
+});
+
+describe('getMemberBalances and getSettlements', () => {
+    it('work out who owes whom for the month', () => {
+        const balances = getMemberBalances(createDataset(), '2024-03');
+        expect(balances).toEqual([
+            { memberId: 1, received: 0, paid: 900, share: 600, balance: 300 },
+            { memberId: 2, received: 1500, paid: 60, share: 360, balance: -300 },
+        ]);
+        expect(getSettlements(balances)).toEqual([{ fromMemberId: 2, toMemberId: 1, amount: 300 }]);
+    });
+
+    it('match the biggest debts first', () => {
+        const balance = (memberId: number, value: number) => ({ memberId, received: 0, paid: 0, share: 0, balance: value });
+        expect(getSettlements([balance(1, 50), balance(2, -20), balance(3, -30), balance(4, 0)])).toEqual([
+            { fromMemberId: 3, toMemberId: 1, amount: 30 },
+            { fromMemberId: 2, toMemberId: 1, amount: 20 },
+        ]);
+    });
+});
+
+describe('members', () => {
+    it('refuse duplicate names and are taken off transactions once deleted', () => {
+        const store = createBudgetStore(createDataset());
+        expect(store.addMember('alice', '#000')).toBeTypeOf('string');
+        expect(store.addMember(' Chloé ', '#000', 1)).toBeUndefined();
+        expect(store.data.settings.members.map(m => [m.id, m.name])).toEqual([[1, 'Alice'], [2, 'Bob'], [3, 'Chloé']]);
+        store.deleteMember(2);
+        const month = store.data.monthlyData['2024-03'];
+        expect(month.realExpenses[0].shares).toEqual([{ memberId: 1, weight: 2 }]);
+        expect(month.realExpenses[1]).not.toHaveProperty('memberId');
+        expect(month.receivedIncome[0]).not.toHaveProperty('memberId');
+    });
+
+    it('leave no memberId or shares behind once their last member is deleted', () => {
+        const store = createBudgetStore(createDataset());
+        store.data.recurringExpenses.push({ id: 9, description: 'Assurance', amount: 30, categoryId: 1, memberId: 2, shares: [{ memberId: 2, weight: 1 }] });
+        store.deleteMember(1);
+        store.deleteMember(2);
+        const month = store.data.monthlyData['2024-03'];
+        [...month.realIncome, ...month.plannedExpenses, ...month.realExpenses, ...month.receivedIncome, ...store.data.recurringExpenses].forEach(item => {
+            expect(item).not.toHaveProperty('memberId');
+            expect(item).not.toHaveProperty('shares');
+        });
+        expect(store.data.settings.members.map(m => m.name)).toEqual([]);
+    });
+});
+
+describe('buildSankeyGraph by member', () => {
+    it('passes each income through the member who earns it', () => {
+        const { links } = buildSankeyGraph(createDataset(), '2024-03', { savingsAsTransfers: false, byMember: true });
+        expect(links).toContainEqual({ source: 'Salaire', target: 'Bob', value: 1500 });
+        expect(links).toContainEqual({ source: 'Alice', target: 'Budget', value: 2000 });
+        expect(links).toContainEqual({ source: 'Prime', target: 'Non attribué', value: 100 });
+    });
+});
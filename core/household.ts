@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Household members: who earned or paid each transaction, what each one's part of the shared expenses is, and who owes
+// whom once a month is over. Amounts are in the base currency.
+import { toBaseAmount } from './currency';
+import { getRealExpensesForMonth, getReceivedIncomeForMonth } from './selectors';
+import type { BudgetDataset, CategorySplit, HouseholdMember, MemberBalance, MonthlyData, Settlement, TransactionDetails } from './types';
+
+export const findMember = (data: BudgetDataset, id: number | undefined): HouseholdMember | undefined => data.settings.members.find(m => m.id === id);
+
+// The part of an item each member bears: their weights' share of a shared expense, or all of it for the payer. An item
+// nobody was attributed gets no part.
+export function getMemberShares(item: TransactionDetails): { memberId: number; ratio: number }[] {
+    const totalWeight = (item.shares || []).reduce((sum, share) => sum + share.weight, 0);
+    if (totalWeight > 0) return item.shares!.filter(share => share.weight > 0).map(share => ({ memberId: share.memberId, ratio: share.weight / totalWeight }));
+    return item.memberId === undefined ? [] : [{ memberId: item.memberId, ratio: 1 }];
+}
+
+// The dataset as one member sees it: the months keep only the items that member has a part in, with amounts (and splits)
+// cut down to that part. Everything else, transfers and templates included, is the household's and left as it is.
+export function filterDatasetByMember(data: BudgetDataset, memberId: number): BudgetDataset {
+    const keepPart = <T extends TransactionDetails & { amount: number; splits?: CategorySplit[] }>(items: T[]): T[] => items.flatMap(item => {
+        const ratio = getMemberShares(item).find(share => share.memberId === memberId)?.ratio;
+        if (ratio === undefined) return [];
+        if (ratio === 1) return [item];
+        return [{ ...item, amount: item.amount * ratio, ...(item.splits ? { splits: item.splits.map(split => ({ ...split, amount: split.amount * ratio })) } : {}) }];
+    });
+    const monthlyData: { [key: string]: MonthlyData } = {};
+    Object.entries(data.monthlyData).forEach(([monthKey, month]) => {
+        monthlyData[monthKey] = {
+            ...month,
+            realIncome: keepPart(month.realIncome),
+            plannedExpenses: keepPart(month.plannedExpenses),
+            realExpenses: keepPart(month.realExpenses),
+            receivedIncome: month.receivedIncome.filter(income => income.memberId === memberId),
+        };
+    });
+    return { ...data, monthlyData };
+}
+
+// What each member received and paid in the month, against their part of the real expenses. Expenses nobody paid are
+// left out, and one that is not shared is all its payer's.
+export function getMemberBalances(data: BudgetDataset, monthKey: string): MemberBalance[] {
+    const balances = new Map(data.settings.members.map(member => [member.id, { memberId: member.id, received: 0, paid: 0, share: 0, balance: 0 }]));
+    getReceivedIncomeForMonth(data, monthKey).forEach(income => {
+        const balance = balances.get(income.memberId!);
+        if (balance) balance.received += toBaseAmount(data, income, monthKey);
+    });
+    getRealExpensesForMonth(data, monthKey).forEach(expense => {
+        const payer = balances.get(expense.memberId!);
+        if (!payer) return;
+        const amount = toBaseAmount(data, expense, monthKey);
+        payer.paid += amount;
+        const shares = getMemberShares(expense).filter(share => balances.has(share.memberId));
+        if (shares.length === 0) payer.share += amount;
+        shares.forEach(share => { balances.get(share.memberId)!.share += amount * share.ratio; });
+    });
+    return [...balances.values()].map(balance => ({ ...balance, balance: balance.paid - balance.share }));
+}
+
+// The fewest payments, roughly, that settle the balances: the biggest debtor pays the biggest creditor until one of them
+// is even, and so on. Cents left over by rounding are ignored.
+export function getSettlements(balances: MemberBalance[]): Settlement[] {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const debtors = balances.filter(b => round(b.balance) < 0).map(b => ({ memberId: b.memberId, amount: -b.balance })).sort((a, b) => b.amount - a.amount);
+    const creditors = balances.filter(b => round(b.balance) > 0).map(b => ({ memberId: b.memberId, amount: b.balance })).sort((a, b) => b.amount - a.amount);
+    const settlements: Settlement[] = [];
+    let debtor = 0, creditor = 0;
+    while (debtor < debtors.length && creditor < creditors.length) {
+        const amount = Math.min(debtors[debtor].amount, creditors[creditor].amount);
+        if (round(amount) > 0) settlements.push({ fromMemberId: debtors[debtor].memberId, toMemberId: creditors[creditor].memberId, amount: round(amount) });
+        debtors[debtor].amount -= amount;
+        creditors[creditor].amount -= amount;
+        if (round(debtors[debtor].amount) <= 0) debtor++;
+        if (round(creditors[creditor].amount) <= 0) creditor++;
+    }
+    return settlements;
+}
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CSV_MAPPING, detectCsvSeparator, detectImportFormat, isLikelyDuplicate, parseCsvStatement, parseExchangeRatesCsv, parseImportAmount, parseImportDate, parseOfxStatement, parseQifStatement } from './import';
+
+describe('parseImportDate', () => {
+    it('reads each date format, two-digit years included', () => {
+        expect(parseImportDate('05/03/2024', 'dmy')).toBe('2024-03-05');
+        expect(parseImportDate('2024-03-05', 'ymd')).toBe('2024-03-05');
+        expect(parseImportDate('03/05/24', 'mdy')).toBe('2024-03-05');
+        expect(parseImportDate('29/02/2024', 'dmy')).toBe('2024-02-29');
+    });
+
+    it('rejects days past the end of their month', () => {
+        expect(parseImportDate('31/02/2024', 'dmy')).toBeNull();
+        expect(parseImportDate('29/02/2023', 'dmy')).toBeNull();
+        expect(parseImportDate('31/04/2024', 'dmy')).toBeNull();
+        expect(parseImportDate('2024-13-01', 'ymd')).toBeNull();
+        expect(parseImportDate('00/01/2024', 'dmy')).toBeNull();
+        expect(parseImportDate('2024-03', 'ymd')).toBeNull();
+    });
+});
+
+describe('parseImportAmount', () => {
+    it('reads decimal commas and points, currency signs aside', () => {
+        expect(parseImportAmount('-1.234,56 €', true)).toBe(-1234.56);
+        expect(parseImportAmount('$1,234.56', false)).toBe(1234.56);
+        expect(parseImportAmount('abc', true)).toBeNaN();
+    });
+});
+
+describe('parseCsvStatement', () => {
+    it('maps the columns and counts the lines it cannot read', () => {
+        const text = 'Date;Libellé;Montant\n05/03/2024;"Boulangerie; centre";-4,20\n31/04/2024;Loyer;-900\n06/03/2024;Salaire;2000';
+        expect(detectCsvSeparator(text)).toBe(';');
+        expect(parseCsvStatement(text, DEFAULT_CSV_MAPPING)).toEqual({
+            entries: [{ date: '2024-03-05', description: 'Boulangerie; centre', amount: -4.2 }, { date: '2024-03-06', description: 'Salaire', amount: 2000 }],
+            skipped: 1,
+        });
+    });
+});
+
+describe('parseOfxStatement and parseQifStatement', () => {
+    it('read the transactions of each format', () => {
+        const ofx = '<OFX><STMTTRN><DTPOSTED>20240305120000<TRNAMT>-4.20<NAME>Boulangerie</STMTTRN><STMTTRN><DTPOSTED>20240231<TRNAMT>-1<NAME>Erreur</STMTTRN></OFX>';
+        expect(detectImportFormat('releve.txt', ofx)).toBe('ofx');
+        expect(parseOfxStatement(ofx)).toEqual({ entries: [{ date: '2024-03-05', description: 'Boulangerie', amount: -4.2 }], skipped: 1 });
+        const qif = '!Type:Bank\nD05/03/2024\nT-4,20\nPBoulangerie\n^\nD31/02/2024\nT-1\nPErreur\n^';
+        expect(detectImportFormat('releve.qif', qif)).toBe('qif');
+        expect(parseQifStatement(qif, 'dmy')).toEqual({ entries: [{ date: '2024-03-05', description: 'Boulangerie', amount: -4.2 }], skipped: 1 });
+    });
+});
+
+describe('isLikelyDuplicate', () => {
+    it('matches the same day and amount with a close description', () => {
+        const existing = [{ date: '2024-03-05', description: 'CB Boulangerie Dupont', amount: 4.2 }];
+        expect(isLikelyDuplicate({ date: '2024-03-05', description: 'boulangerie dupont', amount: 4.2 }, existing)).toBe(true);
+        expect(isLikelyDuplicate({ date: '2024-03-06', description: 'boulangerie dupont', amount: 4.2 }, existing)).toBe(false);
+    });
+});
+
+describe('parseExchangeRatesCsv', () => {
+    it('reads rates to the base currency or between two currencies, skipping headers and unreadable lines', () => {
+        const text = 'date;devise;taux\n01/03/2024;chf;1,04\n2024-03-01;USD;CHF;0,88\n2024-03-01;EUR;1\n02/03/2024;GBP;-1';
+        expect(parseExchangeRatesCsv(text, 'EUR')).toEqual({
+            rates: [{ date: '2024-03-01', from: 'CHF', to: 'EUR', rate: 1.04 }, { date: '2024-03-01', from: 'USD', to: 'CHF', rate: 0.88 }],
+            skipped: 3,
+        });
+    });
+});
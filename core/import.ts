@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Bank statements read for import: CSV mapped column by column, OFX (SGML or XML) and QIF. Amounts are signed, negative
+// for money going out; dates are YYYY-MM-DD. Exchange rate lists are read here too.
+import { isCurrencyCode } from './currency';
+import { getDaysInMonth } from './months';
+import type { CsvMapping, ExchangeRate, ImportDateFormat, ImportFormat, ParsedStatementEntry } from './types';
+
+export const DEFAULT_CSV_MAPPING: CsvMapping = { separator: ';', hasHeader: true, dateColumn: 0, descriptionColumn: 1, amountColumn: 2, decimalComma: true, dateFormat: 'dmy', expensesArePositive: false };
+
+// Lower case, without accents or punctuation, for descriptions to compare loosely.
+export const normalizeDescription = (value: string) => value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(text)) return 'ofx';
+    if (extension === 'qif' || /^!Type:/im.test(text)) return 'qif';
+    return 'csv';
+}
+
+export function detectCsvSeparator(text: string): string {
+    const firstLine = text.split(/\r?\n/)[0] || '';
+    return [';', ',', '\t', '|'].reduce((best, separator) => firstLine.split(separator).length > firstLine.split(best).length ? separator : best, ';');
+}
+
+export function parseCsvLines(text: string, separator: string): string[][] {
+    const lines: string[][] = [];
+    let line: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const endLine = () => {
+        line.push(field.trim());
+        if (line.some(cell => cell !== '')) lines.push(line);
+        line = [];
+        field = '';
+    };
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') inQuotes = true;
+        else if (char === separator) { line.push(field.trim()); field = ''; }
+        else if (char === '\n' || char === '\r') { if (char === '\r' && text[i + 1] === '\n') i++; endLine(); }
+        else field += char;
+    }
+    endLine();
+    return lines;
+}
+
+export function parseImportAmount(value: string, decimalComma: boolean): number {
+    const cleaned = value.replace(/[\s\u00a0€$£]|CHF|EUR|GBP/gi, '');
+    return parseFloat(decimalComma ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, ''));
+}
+
+// Null when the value isn't a date of the calendar, 31/04 or 29/02 of a common year included.
+export function parseImportDate(value: string, format: ImportDateFormat): string | null {
+    const parts = value.trim().split(/[^0-9]+/).filter(Boolean).map(Number);
+    if (parts.length < 3) return null;
+    let [year, month, day] = format === 'ymd' ? [parts[0], parts[1], parts[2]] : format === 'dmy' ? [parts[2], parts[1], parts[0]] : [parts[2], parts[0], parts[1]];
+    if (year < 100) year += 2000;
+    if (month < 1 || month > 12) return null;
+    const monthKey = `${year}-${month.toString().padStart(2, '0')}`;
+    if (day < 1 || day > getDaysInMonth(monthKey)) return null;
+    return `${monthKey}-${day.toString().padStart(2, '0')}`;
+}
+
+export function parseCsvStatement(text: string, mapping: CsvMapping): { entries: ParsedStatementEntry[]; skipped: number } {
+    const lines = parseCsvLines(text, mapping.separator).slice(mapping.hasHeader ? 1 : 0);
+    const entries: ParsedStatementEntry[] = [];
+    lines.forEach(line => {
+        const date = parseImportDate(line[mapping.dateColumn] || '', mapping.dateFormat);
+        const amount = parseImportAmount(line[mapping.amountColumn] || '', mapping.decimalComma);
+        const description = line[mapping.descriptionColumn] || '';
+        if (date && !isNaN(amount) && description) entries.push({ date, description, amount: mapping.expensesArePositive ? -amount : amount });
+    });
+    return { entries, skipped: lines.length - entries.length };
+}
+
+export function parseOfxStatement(text: string): { entries: ParsedStatementEntry[]; skipped: number } {
+    // Handles both SGML (OFX 1.x, unclosed tags) and XML (OFX 2.x) statements.
+    const blocks = text.split(/<STMTTRN>/i).slice(1);
+    const entries: ParsedStatementEntry[] = [];
+    blocks.forEach(block => {
+        const getTag = (tag: string) => block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim() || '';
+        const rawDate = getTag('DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/);
+        const date = rawDate && parseImportDate(rawDate.slice(1).join('-'), 'ymd');
+        const rawAmount = getTag('TRNAMT');
+        const amount = parseImportAmount(rawAmount, rawAmount.includes(',') && !rawAmount.includes('.'));
+        const description = getTag('NAME') || getTag('MEMO');
+        if (date && !isNaN(amount) && description) entries.push({ date, description, amount });
+    });
+    return { entries, skipped: blocks.length - entries.length };
+}
+
+export function parseQifStatement(text: string, dateFormat: ImportDateFormat): { entries: ParsedStatementEntry[]; skipped: number } {
+    const records = text.split(/^\^\s*$/m).map(record => record.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('!')));
+    const entries: ParsedStatementEntry[] = [];
+    let skipped = 0;
+    records.filter(lines => lines.length > 0).forEach(lines => {
+        const getField = (code: string) => lines.find(line => line.startsWith(code))?.slice(1).trim() || '';
+        const date = parseImportDate(getField('D'), dateFormat);
+        const rawAmount = getField('T') || getField('U');
+        const amount = parseImportAmount(rawAmount, rawAmount.includes(',') && !rawAmount.includes('.'));
+        const description = getField('P') || getField('M');
+        if (date && !isNaN(amount) && description) entries.push({ date, description, amount });
+        else skipped++;
+    });
+    return { entries, skipped };
+}
+
+// Accepts `date;currency;rate` (to `baseCurrency`) or `date;from;to;rate` lines; headers and unreadable lines are skipped.
+export function parseExchangeRatesCsv(text: string, baseCurrency: string): { rates: Omit<ExchangeRate, 'id'>[]; skipped: number } {
+    const lines = parseCsvLines(text, detectCsvSeparator(text));
+    const rates: Omit<ExchangeRate, 'id'>[] = [];
+    lines.forEach(line => {
+        const [rawDate, from, to, rawRate] = line.length >= 4 ? line : [line[0], line[1], baseCurrency, line[2]];
+        const date = parseImportDate(rawDate || '', /^\d{4}/.test(rawDate || '') ? 'ymd' : 'dmy');
+        const rate = parseImportAmount(rawRate || '', (rawRate || '').includes(',') && !(rawRate || '').includes('.'));
+        const pair = [from?.toUpperCase(), to?.toUpperCase()];
+        if (date && isCurrencyCode(pair[0]) && isCurrencyCode(pair[1]) && pair[0] !== pair[1] && rate > 0) rates.push({ date, from: pair[0], to: pair[1], rate });
+    });
+    return { rates, skipped: lines.length - rates.length };
+}
+
+// Same day, same amount to the cent, and one description containing the other once normalized.
+export function isLikelyDuplicate(entry: ParsedStatementEntry, existing: ParsedStatementEntry[]) {
+    const description = normalizeDescription(entry.description);
+    return existing.some(other => {
+        if (other.date !== entry.date || Math.abs(other.amount - entry.amount) > 0.005) return false;
+        const otherDescription = normalizeDescription(other.description);
+        return otherDescription === description || otherDescription.includes(description) || description.includes(otherDescription);
+    });
+}
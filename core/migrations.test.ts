@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { MIGRATIONS, SCHEMA_VERSION, runMigrations, validateDataset } from './migrations';
+import { createDefaultDataset } from './store';
+
+// What the app stored before schema versioning.
+const createVersion1Data = () => ({
+    categories: [{ name: 'Logement', color: '#ef4444' }, { name: 'Repas', color: '#eab308' }],
+    recurringIncomes: [{ id: 1, description: 'Salaire', amount: 2000 }],
+    recurringExpenses: [{ id: 2, description: 'Loyer', amount: 800, category: 'Logement' }],
+    monthlyData: {
+        '2024-03': {
+            realIncome: [{ id: 3, description: 'Salaire', amount: 2000, isRecurring: true, recurringId: 1 }],
+            expenses: [{ id: 4, description: 'Loyer', amount: 800, category: 'Logement', isRecurring: true, recurringId: 2 }],
+            realExpenses: [
+                { id: 5, description: 'Courses', amount: 30, date: '2024-03-10', linkedCategory: 'Repas' },
+                { id: 6, description: 'Marché', amount: 12, date: '2024-04-02', linkedCategory: 'Repas' },
+            ],
+        },
+    },
+});
+
+describe('MIGRATIONS', () => {
+    it('end at the current schema version', () => {
+        expect(Math.max(...MIGRATIONS.map(migration => migration.version))).toBe(SCHEMA_VERSION);
+    });
+});
+
+describe('runMigrations', () => {
+    it('brings a version 1 dataset to a valid current one', () => {
+        const data = runMigrations(createVersion1Data(), 1);
+        expect(validateDataset(data)).toEqual([]);
+
+        const march = data.monthlyData['2024-03'];
+        expect(march.plannedExpenses.map(exp => exp.id)).toEqual([4]);
+        expect(march).not.toHaveProperty('expenses');
+        expect(data.recurringExpenses[0]).toMatchObject({ schedule: { frequency: 'monthly', startMonth: '2024-03' }, versions: [{ fromMonth: '2024-03', amount: 800 }] });
+        expect(data.settings).toEqual({ baseCurrency: 'EUR', members: [] });
+        expect(data.accounts).toHaveLength(1);
+        expect(march.realExpenses.every(exp => exp.accountId === data.accounts[0].id)).toBe(true);
+        expect(data.categories.map(c => c.id)).toEqual([1, 2]);
+    });
+
+    it('re-homes real expenses filed under another month than their date', () => {
+        const data = runMigrations(createVersion1Data(), 1);
+        expect(data.monthlyData['2024-03'].realExpenses.map(exp => exp.id)).toEqual([5]);
+        expect(data.monthlyData['2024-04'].realExpenses.map(exp => exp.id)).toEqual([6]);
+        expect(data.monthlyData['2024-04'].plannedExpenses).toMatchObject([{ recurringId: 2 }]);
+    });
+
+    it('refers to categories by id, giving names missing from the list a category of their own', () => {
+        const data = runMigrations(createVersion1Data(), 1);
+        expect(data.recurringExpenses[0]).toMatchObject({ categoryId: 1, versions: [{ categoryId: 1 }] });
+        expect(data.monthlyData['2024-03'].realExpenses[0]).toMatchObject({ categoryId: 2 });
+        expect(data.monthlyData['2024-03'].realExpenses[0]).not.toHaveProperty('linkedCategory');
+
+        const version12 = runMigrations({
+            categories: [{ id: 1, name: 'Repas', color: '#eab308' }],
+            categoryRules: [{ id: 1, descriptionPattern: 'sncf', isRegex: false, category: 'Train', priority: 0 }],
+            goals: [{ id: 1, name: 'Vacances', linkedCategory: 'Repas' }],
+            envelopeLedger: [{ id: 1, month: '2024-03', category: 'Repas', amount: -5, kind: 'reallocation', pairId: 1, counterpart: 'Train' }],
+        }, 12);
+        expect(version12.categories.map(c => [c.id, c.name])).toEqual([[1, 'Repas'], [2, 'Train']]);
+        expect(version12.categoryRules[0]).toMatchObject({ categoryId: 2 });
+        expect(version12.goals[0]).toMatchObject({ linkedCategoryId: 1 });
+        expect(version12.envelopeLedger[0]).toMatchObject({ categoryId: 1, counterpartId: 2 });
+    });
+
+    it('leaves current datasets alone', () => {
+        const dataset = createDefaultDataset();
+        expect(runMigrations(structuredClone(dataset), SCHEMA_VERSION)).toEqual(dataset);
+    });
+});
+
+describe('validateDataset', () => {
+    it('reports malformed parts by key', () => {
+        const data: { [key: string]: any } = createDefaultDataset();
+        data.categories = 'Logement';
+        data.settings = { baseCurrency: 'euro', members: [] };
+        data.monthlyData = { '2024-3': { realIncome: [], plannedExpenses: [{ id: 1, description: 'Loyer', categoryId: 6 }], realExpenses: [], receivedIncome: [], transfers: [] } };
+        expect(validateDataset(data)).toEqual([
+            { key: 'monthlyData', message: 'monthlyData.2024-3 : clé de mois invalide' },
+            { key: 'monthlyData', message: 'monthlyData.2024-3.plannedExpenses[0].amount : valeur manquante ou invalide' },
+            { key: 'categories', message: 'categories : liste attendue' },
+            { key: 'settings', message: 'settings.baseCurrency : code de devise invalide' },
+        ]);
+    });
+});
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isCurrencyCode } from './currency';
+import { getMonthKey } from './months';
+import { DEFAULT_CATEGORY_COLOR, createDefaultAccount } from './store';
+import type { AccountKind, BudgetDataset, DatasetValidationError, Migration } from './types';
+
+const ACCOUNT_KIND_IDS: AccountKind[] = ['checking', 'savings', 'cash', 'credit'];
+
+// Bump SCHEMA_VERSION and append a migration whenever the persisted shape changes. Migrations run in
+// ascending order on the raw dataset (local storage or backup file), each receiving the previous version's output.
+export const SCHEMA_VERSION = 13;
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 2,
+        description: "Rename the monthly 'expenses' list to 'plannedExpenses' and add missing lists",
+        migrate: data => {
+            Object.values(data.monthlyData || {}).forEach((month: any) => {
+                if (month.expenses && !month.plannedExpenses) {
+                    month.plannedExpenses = month.expenses;
+                    delete month.expenses;
+                }
+                month.realIncome = month.realIncome || [];
+                month.plannedExpenses = month.plannedExpenses || [];
+                month.realExpenses = month.realExpenses || [];
+            });
+            data.categoryRules = data.categoryRules || [];
+        },
+    },
+    {
+        version: 3,
+        description: 'Re-home real expenses that were filed under the selected month instead of the month of their date',
+        migrate: data => {
+            const months: { [key: string]: any } = data.monthlyData || {};
+            Object.entries(months).forEach(([monthKey, month]) => {
+                const misfiled = month.realExpenses.filter((exp: any) => typeof exp.date === 'string' && exp.date.slice(0, 7) !== monthKey);
+                if (misfiled.length === 0) return;
+                month.realExpenses = month.realExpenses.filter((exp: any) => !misfiled.includes(exp));
+                misfiled.forEach((exp: any) => {
+                    const targetKey = exp.date.slice(0, 7);
+                    // Months created here are seeded from the recurring templates, as if the user had navigated to them.
+                    months[targetKey] ??= {
+                        realIncome: (data.recurringIncomes || []).map((i: any, index: number) => ({ ...i, id: Date.now() + index + Math.random(), isRecurring: true, recurringId: i.id })),
+                        plannedExpenses: (data.recurringExpenses || []).map((e: any, index: number) => ({ ...e, id: Date.now() + index + Math.random(), isRecurring: true, recurringId: e.id })),
+                        realExpenses: [],
+                    };
+                    months[targetKey].realExpenses.push(exp);
+                });
+            });
+        },
+    },
+    {
+        version: 4,
+        description: 'Give recurring templates an explicit monthly schedule starting at the first month they were instantiated in',
+        migrate: data => {
+            const monthKeys = Object.keys(data.monthlyData || {}).sort();
+            ([['recurringIncomes', 'realIncome'], ['recurringExpenses', 'plannedExpenses']] as const).forEach(([templatesKey, listKey]) => {
+                (data[templatesKey] || []).forEach((template: any) => {
+                    const firstMonth = monthKeys.find(monthKey => data.monthlyData[monthKey][listKey].some((item: any) => item.recurringId === template.id));
+                    // Template ids are creation timestamps, a reasonable start when no instance survives.
+                    template.schedule ??= { frequency: 'monthly', interval: 1, startMonth: firstMonth || getMonthKey(new Date(template.id)), dueDay: 1 };
+                });
+            });
+        },
+    },
+    {
+        version: 5,
+        description: 'Turn the values of each recurring template into its first effective-dated version',
+        migrate: data => {
+            [...(data.recurringIncomes || []), ...(data.recurringExpenses || [])].forEach((template: any) => {
+                const { description, amount, category } = template;
+                template.versions ??= [{ fromMonth: template.schedule?.startMonth || '1970-01', description, amount, ...(category !== undefined ? { category } : {}) }];
+            });
+        },
+    },
+    {
+        version: 6,
+        description: 'Add the base currency setting and the exchange-rate table (existing amounts stay in EUR)',
+        migrate: data => {
+            data.settings ??= { baseCurrency: 'EUR' };
+            data.exchangeRates ??= [];
+        },
+    },
+    {
+        version: 7,
+        description: 'Add accounts and transfers; existing real expenses and incomes go to a default checking account',
+        migrate: data => {
+            const months: { [key: string]: any } = data.monthlyData || {};
+            const firstMonth = Object.keys(months).sort()[0] || getMonthKey(new Date());
+            data.accounts ??= [createDefaultAccount('EUR', `${firstMonth}-01`)];
+            const accountId = data.accounts[0]?.id;
+            Object.values(months).forEach(month => {
+                month.transfers ??= [];
+                [...(month.realIncome || []), ...(month.realExpenses || [])].forEach((item: any) => { item.accountId ??= accountId; });
+            });
+            (data.recurringIncomes || []).forEach((template: any) => { template.accountId ??= accountId; });
+        },
+    },
+    {
+        version: 8,
+        description: 'Add the received income list to every month',
+        migrate: data => {
+            Object.values(data.monthlyData || {}).forEach((month: any) => { month.receivedIncome ??= []; });
+        },
+    },
+    {
+        version: 9,
+        description: 'Add the envelope ledger',
+        migrate: data => { data.envelopeLedger ??= []; },
+    },
+    {
+        version: 10,
+        description: 'Add savings goals',
+        migrate: data => { data.goals ??= []; },
+    },
+    {
+        version: 11,
+        description: 'Give categories stable ids',
+        migrate: data => {
+            (data.categories || []).forEach((category: any, index: number) => { category.id ??= index + 1; });
+        },
+    },
+    {
+        version: 12,
+        description: 'Add household members to the settings',
+        migrate: data => {
+            if (data.settings) data.settings.members ??= [];
+        },
+    },
+    {
+        version: 13,
+        description: 'Refer to categories by id instead of by name; names no longer in the category list get a category of their own',
+        migrate: data => {
+            data.categories ??= [];
+            const toId = (name: string): number => {
+                const category = data.categories.find((c: any) => c.name === name);
+                if (category) return category.id;
+                const id = Math.max(0, ...data.categories.map((c: any) => c.id)) + 1;
+                data.categories.push({ id, name, color: DEFAULT_CATEGORY_COLOR });
+                return id;
+            };
+            // Moves the name in `item[from]` to an id in `item[to]`.
+            const replace = (item: any, from: string, to: string) => {
+                if (typeof item?.[from] === 'string') item[to] = toId(item[from]);
+                if (item) delete item[from];
+            };
+            const replaceInExpense = (expense: any, field: string) => {
+                replace(expense, field, 'categoryId');
+                (expense?.splits || []).forEach((split: any) => replace(split, 'category', 'categoryId'));
+                (expense?.versions || []).forEach((version: any) => replace(version, 'category', 'categoryId'));
+            };
+            Object.values(data.monthlyData || {}).forEach((month: any) => {
+                (month.plannedExpenses || []).forEach((expense: any) => replaceInExpense(expense, 'category'));
+                (month.realExpenses || []).forEach((expense: any) => replaceInExpense(expense, 'linkedCategory'));
+            });
+            (data.recurringExpenses || []).forEach((expense: any) => replaceInExpense(expense, 'category'));
+            (data.categoryRules || []).forEach((rule: any) => replace(rule, 'category', 'categoryId'));
+            (data.goals || []).forEach((goal: any) => replace(goal, 'linkedCategory', 'linkedCategoryId'));
+            (data.envelopeLedger || []).forEach((entry: any) => {
+                replace(entry, 'category', 'categoryId');
+                replace(entry, 'counterpart', 'counterpartId');
+            });
+        },
+    },
+];
+
+export function runMigrations(data: { [key: string]: any }, fromVersion: number): BudgetDataset {
+    MIGRATIONS
+        .filter(migration => migration.version > fromVersion)
+        .sort((a, b) => a.version - b.version)
+        .forEach(migration => migration.migrate(data));
+    return data as BudgetDataset;
+}
+
+export function validateDataset(data: { [key: string]: any }): DatasetValidationError[] {
+    const errors: DatasetValidationError[] = [];
+    const isNumber = (value: unknown) => typeof value === 'number' && isFinite(value);
+    const isString = (value: unknown) => typeof value === 'string';
+    const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value);
+    const isOptionalCurrency = (value: unknown) => value === undefined || isCurrencyCode(value);
+    const checkList = (key: keyof BudgetDataset, list: unknown, path: string, fields: { [field: string]: (value: unknown) => boolean }) => {
+        if (!Array.isArray(list)) { errors.push({ key, message: `${path} : liste attendue` }); return; }
+        list.forEach((item, index) => Object.entries(fields).forEach(([field, check]) => {
+            if (!item || !check(item[field])) errors.push({ key, message: `${path}[${index}].${field} : valeur manquante ou invalide` });
+        }));
+    };
+
+    if (!data.monthlyData || typeof data.monthlyData !== 'object' || Array.isArray(data.monthlyData)) {
+        errors.push({ key: 'monthlyData', message: 'monthlyData : objet attendu' });
+    } else {
+        Object.entries(data.monthlyData).forEach(([monthKey, month]: [string, any]) => {
+            const path = `monthlyData.${monthKey}`;
+            if (!/^\d{4}-\d{2}$/.test(monthKey)) errors.push({ key: 'monthlyData', message: `${path} : clé de mois invalide` });
+            checkList('monthlyData', month?.realIncome, `${path}.realIncome`, { id: isNumber, description: isString, amount: isNumber, currency: isOptionalCurrency });
+            checkList('monthlyData', month?.plannedExpenses, `${path}.plannedExpenses`, { id: isNumber, description: isString, amount: isNumber, currency: isOptionalCurrency, categoryId: isNumber });
+            checkList('monthlyData', month?.realExpenses, `${path}.realExpenses`, { id: isNumber, description: isString, amount: isNumber, currency: isOptionalCurrency, date: isDate, categoryId: isNumber });
+            checkList('monthlyData', month?.receivedIncome, `${path}.receivedIncome`, { id: isNumber, description: isString, amount: isNumber, currency: isOptionalCurrency, date: isDate });
+            checkList('monthlyData', month?.transfers, `${path}.transfers`, { id: isNumber, date: isDate, fromAccountId: isNumber, toAccountId: isNumber, amount: isNumber });
+        });
+    }
+    checkList('categories', data.categories, 'categories', { id: isNumber, name: isString, color: isString, parentId: value => value === undefined || isNumber(value) });
+    checkList('recurringIncomes', data.recurringIncomes, 'recurringIncomes', { id: isNumber, description: isString, amount: isNumber, currency: isOptionalCurrency });
+    checkList('recurringExpenses', data.recurringExpenses, 'recurringExpenses', { id: isNumber, description: isString, amount: isNumber, currency: isOptionalCurrency, categoryId: isNumber });
+    checkList('categoryRules', data.categoryRules, 'categoryRules', { id: isNumber, descriptionPattern: isString, categoryId: isNumber, priority: isNumber });
+    if (!isCurrencyCode(data.settings?.baseCurrency)) errors.push({ key: 'settings', message: 'settings.baseCurrency : code de devise invalide' });
+    checkList('settings', data.settings?.members, 'settings.members', { id: isNumber, name: isString, color: isString, defaultShare: value => isNumber(value) && (value as number) >= 0 });
+    checkList('accounts', data.accounts, 'accounts', { id: isNumber, name: isString, kind: value => ACCOUNT_KIND_IDS.includes(value as AccountKind), currency: isCurrencyCode, openingBalance: isNumber, openingDate: isDate });
+    checkList('goals', data.goals, 'goals', { id: isNumber, name: isString, targetAmount: isNumber, currency: isCurrencyCode, startMonth: isString, targetMonth: isString });
+    checkList('envelopeLedger', data.envelopeLedger, 'envelopeLedger', { id: isNumber, month: value => typeof value === 'string' && /^\d{4}-\d{2}$/.test(value), categoryId: isNumber, amount: isNumber, kind: value => value === 'rollover' || value === 'reallocation' });
+    checkList('exchangeRates', data.exchangeRates, 'exchangeRates', { id: isNumber, date: isDate, from: isCurrencyCode, to: isCurrencyCode, rate: value => isNumber(value) && (value as number) > 0 });
+    return errors;
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Months are keyed 'YYYY-MM' and dates 'YYYY-MM-DD', so that both sort and compare as strings.
+import type { StatsRange } from './types';
+
+export function getMonthKey(date: Date): string {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    return `${year}-${month}`;
+}
+
+export function shiftMonthKey(monthKey: string, delta: number): string {
+    const [year, month] = monthKey.split('-').map(Number);
+    return getMonthKey(new Date(year, month - 1 + delta, 15));
+}
+
+export function monthsBetween(from: string, to: string): number {
+    const [fromYear, fromMonth] = from.split('-').map(Number);
+    const [toYear, toMonth] = to.split('-').map(Number);
+    return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+export const getDaysInMonth = (monthKey: string) => {
+    const [year, month] = monthKey.split('-').map(Number);
+    return new Date(year, month, 0).getDate();
+};
+
+// Due days past the end of a short month fall on its last day.
+export const toDueDate = (monthKey: string, dueDay: number) => `${monthKey}-${Math.min(dueDay, getDaysInMonth(monthKey)).toString().padStart(2, '0')}`;
+export const getMonthEndDate = (monthKey: string) => toDueDate(monthKey, 31);
+
+export function getMonthsInRange({ from, to }: StatsRange): string[] {
+    const count = monthsBetween(from, to);
+    return count < 0 ? [] : Array.from({ length: count + 1 }, (_, i) => shiftMonthKey(from, i));
+}
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import type { GenAIClient } from './genai';
+import { RECEIPT_SCAN_MODEL, scanReceipt } from './receipts';
+import { createDefaultDataset } from './store';
+
+const IMAGE = { mimeType: 'image/jpeg', data: 'aGVsbG8=' };
+
+// A client answering every request with `text`, and keeping the requests it was sent.
+function createFakeClient(text: string) {
+    const requests: GenerateContentParameters[] = [];
+    const client: GenAIClient = {
+        models: {
+            generateContent: async (request: GenerateContentParameters) => {
+                requests.push(request);
+                return { text } as GenerateContentResponse;
+            },
+        },
+    };
+    return { client, requests };
+}
+
+describe('scanReceipt', () => {
+    it('reads what the model returns, with the category it chose by id', async () => {
+        const { client, requests } = createFakeClient(JSON.stringify({
+            merchant: ' Boulangerie Martin ',
+            date: '2024-03-09',
+            total: 12.345,
+            currency: 'eur',
+            items: [{ description: 'Pain', amount: 2.5 }, { description: '', amount: 1 }, { description: 'Gâteau', amount: 'dix' }],
+            category: 'Repas',
+        }));
+        const scan = await scanReceipt(createDefaultDataset(), client, IMAGE);
+        expect(scan).toEqual({ merchant: 'Boulangerie Martin', date: '2024-03-09', total: 12.35, currency: 'EUR', items: [{ description: 'Pain', amount: 2.5 }], categoryId: 9 });
+        expect(requests).toHaveLength(1);
+        expect(requests[0]).toMatchObject({ model: RECEIPT_SCAN_MODEL, config: { responseMimeType: 'application/json' } });
+        expect(requests[0].config?.responseSchema?.properties?.category.enum).toContain('Repas');
+    });
+
+    it('leaves out what it cannot read, totalling the lines when there is no total', async () => {
+        const { client } = createFakeClient(JSON.stringify({ merchant: 'Marché', date: '09/03/2024', items: [{ description: 'Pommes', amount: 3.2 }, { description: 'Poires', amount: 1.3 }], category: 'Repas' }));
+        const scan = await scanReceipt(createDefaultDataset(), client, IMAGE);
+        expect(scan).toMatchObject({ date: '', total: 4.5, currency: undefined });
+    });
+
+    it('rejects an answer that is not JSON', async () => {
+        const { client } = createFakeClient('Voici le ticket : {merchant: Martin');
+        await expect(scanReceipt(createDefaultDataset(), client, IMAGE)).rejects.toThrow('Réponse illisible du modèle.');
+        await expect(scanReceipt(createDefaultDataset(), createFakeClient('null').client, IMAGE)).rejects.toThrow('Réponse inattendue du modèle.');
+    });
+
+    it('suggests no category when the model names one the budget does not have', async () => {
+        const { client } = createFakeClient(JSON.stringify({ merchant: 'Martin', date: '2024-03-09', total: 5, items: [], category: 'Boulangerie' }));
+        const scan = await scanReceipt(createDefaultDataset(), client, IMAGE);
+        expect(scan.categoryId).toBeUndefined();
+        expect(scan.total).toBe(5);
+    });
+});
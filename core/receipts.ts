@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Reading receipt and invoice photos with Gemini. The model answers with JSON in a schema listing the budget's category
+// names, and its answer is checked again here before it prefills anything.
+import { Type } from '@google/genai';
+import type { GenerateContentResponse } from '@google/genai';
+import type { GenAIClient } from './genai';
+import { findCategoryByName } from './selectors';
+import type { BudgetDataset, ReceiptLineItem, ReceiptScan } from './types';
+
+export const RECEIPT_SCAN_MODEL = 'gemini-2.5-flash';
+
+const createReceiptSchema = (categoryNames: string[]) => ({
+    type: Type.OBJECT,
+    properties: {
+        merchant: { type: Type.STRING, description: 'Nom du commerçant tel qu\'imprimé sur le ticket' },
+        date: { type: Type.STRING, description: 'Date d\'achat au format YYYY-MM-DD' },
+        total: { type: Type.NUMBER, description: 'Montant total payé, taxes comprises' },
+        currency: { type: Type.STRING, description: 'Code ISO 4217 de la devise, ex: EUR' },
+        items: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: { description: { type: Type.STRING }, amount: { type: Type.NUMBER } },
+                required: ['description', 'amount'],
+            },
+        },
+        category: categoryNames.length > 0
+            ? { type: Type.STRING, enum: categoryNames, description: 'Catégorie de budget la plus appropriée' }
+            : { type: Type.STRING },
+    },
+    required: ['merchant', 'date', 'total', 'items', 'category'],
+});
+
+// Checks the model's JSON against what the form accepts rather than trusting the schema: unreadable fields come back
+// empty, a missing total falls back to the sum of the line items, and a category name not in the budget is dropped.
+export function parseReceiptScan(data: BudgetDataset, text: string): ReceiptScan {
+    let raw: any;
+    try { raw = JSON.parse(text); } catch { throw new Error('Réponse illisible du modèle.'); }
+    if (!raw || typeof raw !== 'object') throw new Error('Réponse inattendue du modèle.');
+    const toAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? Math.round(value * 100) / 100 : NaN;
+    const items: ReceiptLineItem[] = (Array.isArray(raw.items) ? raw.items : [])
+        .map((item: any) => ({ description: String(item?.description ?? '').trim(), amount: toAmount(item?.amount) }))
+        .filter((item: ReceiptLineItem) => item.description && !isNaN(item.amount));
+    let total = toAmount(raw.total);
+    if (isNaN(total) || total <= 0) total = Math.round(items.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+    const date = typeof raw.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.date) && !isNaN(Date.parse(raw.date)) ? raw.date : '';
+    const currency = typeof raw.currency === 'string' && /^[A-Z]{3}$/.test(raw.currency.trim().toUpperCase()) ? raw.currency.trim().toUpperCase() : undefined;
+    const categoryId = typeof raw.category === 'string' ? findCategoryByName(data, raw.category)?.id : undefined;
+    return { merchant: String(raw.merchant ?? '').trim(), date, total, currency, items, categoryId };
+}
+
+// `image` is the photo's bytes in base64.
+export async function scanReceipt(data: BudgetDataset, client: GenAIClient, image: { mimeType: string; data: string }): Promise<ReceiptScan> {
+    const categoryNames = data.categories.map(c => c.name);
+    const prompt = `Lis ce ticket de caisse ou cette facture et extrais le commerçant, la date d'achat, le montant total, la devise et le détail des lignes. Choisis aussi la catégorie de budget la plus appropriée parmi : [${categoryNames.join(', ')}].`;
+    const response: GenerateContentResponse = await client.models.generateContent({
+        model: RECEIPT_SCAN_MODEL,
+        contents: { parts: [{ inlineData: image }, { text: prompt }] },
+        config: { responseMimeType: 'application/json', responseSchema: createReceiptSchema(categoryNames) },
+    });
+    return parseReceiptScan(data, response.text || '');
+}
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { getNextOccurrences, getOccurrenceDates, getTemplateValuesForMonth, instantiateRecurring, replaceRecurringInstances } from './recurrence';
+import type { Expense, RecurrenceSchedule } from './types';
+
+const monthly: RecurrenceSchedule = { frequency: 'monthly', interval: 1, startMonth: '2024-01', dueDay: 5 };
+
+describe('getOccurrenceDates', () => {
+    it('places monthly occurrences on their due day from the start month', () => {
+        expect(getOccurrenceDates(monthly, '2023-12')).toEqual([]);
+        expect(getOccurrenceDates(monthly, '2024-01')).toEqual(['2024-01-05']);
+        expect(getOccurrenceDates(monthly, '2025-06')).toEqual(['2025-06-05']);
+    });
+
+    it('moves due days past the end of a short month to its last day', () => {
+        const schedule = { ...monthly, dueDay: 31 };
+        expect(getOccurrenceDates(schedule, '2024-02')).toEqual(['2024-02-29']);
+        expect(getOccurrenceDates(schedule, '2024-04')).toEqual(['2024-04-30']);
+    });
+
+    it('skips the months between quarterly occurrences', () => {
+        const schedule: RecurrenceSchedule = { ...monthly, frequency: 'quarterly' };
+        expect(['2024-01', '2024-02', '2024-03', '2024-04'].map(month => getOccurrenceDates(schedule, month).length)).toEqual([1, 0, 0, 1]);
+    });
+
+    it('stops at the end month and after the number of occurrences', () => {
+        expect(getOccurrenceDates({ ...monthly, endMonth: '2024-03' }, '2024-04')).toEqual([]);
+        expect(getOccurrenceDates({ ...monthly, occurrences: 2 }, '2024-02')).toEqual(['2024-02-05']);
+        expect(getOccurrenceDates({ ...monthly, occurrences: 2 }, '2024-03')).toEqual([]);
+    });
+
+    it('counts weekly occurrences from the first due date', () => {
+        const weekly: RecurrenceSchedule = { frequency: 'weekly', interval: 2, startMonth: '2024-01', dueDay: 1 };
+        expect(getOccurrenceDates(weekly, '2024-01')).toEqual(['2024-01-01', '2024-01-15', '2024-01-29']);
+        expect(getOccurrenceDates(weekly, '2024-02')).toEqual(['2024-02-12', '2024-02-26']);
+    });
+});
+
+describe('getNextOccurrences', () => {
+    it('lists the next dates on or after a date', () => {
+        expect(getNextOccurrences(monthly, '2024-03-06', 2)).toEqual(['2024-04-05', '2024-05-05']);
+        expect(getNextOccurrences({ ...monthly, endMonth: '2024-04' }, '2024-03-06', 3)).toEqual(['2024-04-05']);
+    });
+});
+
+describe('recurring templates', () => {
+    const template: Expense = {
+        id: 1, description: 'Loyer', amount: 800, categoryId: 6, schedule: monthly,
+        versions: [{ fromMonth: '2024-01', description: 'Loyer', amount: 800, categoryId: 6 }, { fromMonth: '2024-07', description: 'Loyer', amount: 850, categoryId: 6 }],
+    };
+
+    it('uses the version in effect for the month', () => {
+        expect(getTemplateValuesForMonth(template, '2024-06').amount).toBe(800);
+        expect(getTemplateValuesForMonth(template, '2024-07').amount).toBe(850);
+        expect(getTemplateValuesForMonth(template, '2023-01').amount).toBe(800);
+    });
+
+    it('instantiates one linked instance per occurrence', () => {
+        const [instance, ...others] = instantiateRecurring(template, '2024-08');
+        expect(others).toEqual([]);
+        expect(instance).toMatchObject({ amount: 850, isRecurring: true, recurringId: 1, dueDate: '2024-08-05' });
+        expect(instance).not.toHaveProperty('schedule');
+        expect(instance).not.toHaveProperty('versions');
+    });
+
+    it('keeps overridden instances and the ids of replaced ones', () => {
+        const list: Expense[] = [
+            { id: 10, description: 'Courses', amount: 50, categoryId: 9 },
+            { id: 11, description: 'Loyer', amount: 800, categoryId: 6, isRecurring: true, recurringId: 1, dueDate: '2024-08-05' },
+            { id: 12, description: 'Loyer', amount: 900, categoryId: 6, isRecurring: true, recurringId: 1, dueDate: '2024-08-20', isOverridden: true },
+        ];
+        const instances = instantiateRecurring(template, '2024-08');
+        const result = replaceRecurringInstances(list, 1, instances);
+        expect(result.map(item => [item.id, item.amount])).toEqual([[10, 50], [11, 850], [12, 900]]);
+    });
+});
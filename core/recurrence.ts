@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getDaysInMonth, monthsBetween, shiftMonthKey, toDueDate } from './months';
+import type { Expense, IncomeSource, RecurrenceFrequency, RecurrenceSchedule, TemplateVersion } from './types';
+
+const MONTHS_PER_PERIOD: { [key in RecurrenceFrequency]?: number } = { monthly: 1, quarterly: 3, yearly: 12 };
+export const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Values of the version in effect for a month: the latest starting at or before it, or the first one for earlier months.
+export function getTemplateValuesForMonth(template: IncomeSource | Expense, monthKey: string): Omit<TemplateVersion, 'fromMonth'> {
+    const versions = [...(template.versions || [])].sort((a, b) => a.fromMonth.localeCompare(b.fromMonth));
+    const version = versions.filter(v => v.fromMonth <= monthKey).pop() || versions[0];
+    const { fromMonth, ...values } = version || { fromMonth: '', description: template.description, amount: template.amount, categoryId: (template as Expense).categoryId, currency: template.currency };
+    // Incomes have no category, and versions predating currencies have none either.
+    return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Omit<TemplateVersion, 'fromMonth'>;
+}
+
+export const getTemplateSchedule = (template: IncomeSource | Expense): RecurrenceSchedule =>
+    template.schedule || { frequency: 'monthly', interval: 1, startMonth: '1970-01', dueDay: 1 };
+
+export function getOccurrenceDates(schedule: RecurrenceSchedule, monthKey: string): string[] {
+    if (monthKey < schedule.startMonth || (schedule.endMonth && monthKey > schedule.endMonth)) return [];
+    const interval = Math.max(1, schedule.interval);
+    const withinCount = (index: number) => schedule.occurrences === undefined || index < schedule.occurrences;
+
+    const monthsPerPeriod = MONTHS_PER_PERIOD[schedule.frequency];
+    if (monthsPerPeriod) {
+        const elapsed = monthsBetween(schedule.startMonth, monthKey);
+        const step = monthsPerPeriod * interval;
+        return elapsed % step === 0 && withinCount(elapsed / step) ? [toDueDate(monthKey, schedule.dueDay)] : [];
+    }
+
+    // Weekly: every `interval` weeks from the first due date, computed in UTC to stay clear of DST shifts.
+    const [startYear, startMonth] = schedule.startMonth.split('-').map(Number);
+    const [year, month] = monthKey.split('-').map(Number);
+    const first = Date.UTC(startYear, startMonth - 1, Math.min(schedule.dueDay, getDaysInMonth(schedule.startMonth)));
+    const period = 7 * interval * DAY_IN_MS;
+    const monthStart = Date.UTC(year, month - 1, 1);
+    const monthEnd = Date.UTC(year, month, 0);
+    const dates: string[] = [];
+    for (let index = Math.max(0, Math.ceil((monthStart - first) / period)); first + index * period <= monthEnd && withinCount(index); index++) {
+        dates.push(new Date(first + index * period).toISOString().split('T')[0]);
+    }
+    return dates;
+}
+
+export function getNextOccurrences(schedule: RecurrenceSchedule, fromDate: string, count: number): string[] {
+    const dates: string[] = [];
+    let monthKey = fromDate.slice(0, 7) < schedule.startMonth ? schedule.startMonth : fromDate.slice(0, 7);
+    // Ten years ahead is more than enough to find the next few occurrences of any supported frequency.
+    for (let i = 0; dates.length < count && i < 120 && !(schedule.endMonth && monthKey > schedule.endMonth); i++) {
+        dates.push(...getOccurrenceDates(schedule, monthKey).filter(date => date >= fromDate));
+        monthKey = shiftMonthKey(monthKey, 1);
+    }
+    return dates.slice(0, count);
+}
+
+// One instance per occurrence of the template's schedule in the month (none, one, or several for weekly schedules).
+export function instantiateRecurring<T extends IncomeSource | Expense>(template: T, monthKey: string): T[] {
+    const { schedule, versions, ...fields } = template;
+    return getOccurrenceDates(getTemplateSchedule(template), monthKey).map(dueDate => ({
+        ...fields,
+        ...getTemplateValuesForMonth(template, monthKey),
+        id: Date.now() + Math.random(), // Unique instance ID
+        isRecurring: true,
+        recurringId: template.id, // Link to template
+        dueDate,
+    }) as T);
+}
+
+export function replaceRecurringInstances<T extends IncomeSource | Expense>(list: T[], templateId: number, instances: T[]): T[] {
+    // Instances overridden for their month are kept as they are, in place of the regenerated occurrence with the same due date.
+    // Regenerated occurrences keep the id of the instance they replace, so that received income stays linked to them.
+    const previous = list.filter(item => item.recurringId === templateId);
+    const overridden = previous.filter(item => item.isOverridden);
+    const merged = [
+        ...instances.map(instance => overridden.find(item => item.dueDate === instance.dueDate)
+            || { ...instance, id: previous.find(item => item.dueDate === instance.dueDate)?.id ?? instance.id }),
+        ...overridden.filter(item => !instances.some(instance => instance.dueDate === item.dueDate)),
+    ];
+    // New instances take the place of the old ones to keep the month's ordering stable.
+    const index = list.findIndex(item => item.recurringId === templateId);
+    const others = list.filter(item => item.recurringId !== templateId);
+    others.splice(index === -1 ? others.length : index, 0, ...merged);
+    return others;
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { buildReport, getReportTables, toCsv } from './report';
+import { createEmptyDataset } from './store';
+import type { BudgetDataset } from './types';
+
+function createDataset(): BudgetDataset {
+    return {
+        ...createEmptyDataset(),
+        categories: [{ id: 1, name: 'Transport', color: '#000' }, { id: 2, name: 'Carburant', color: '#000', parentId: 1 }, { id: 3, name: 'Repas', color: '#000' }],
+        monthlyData: {
+            '2024-03': {
+                realIncome: [{ id: 1, description: 'Salaire', amount: 2000, dueDate: '2024-03-28' }],
+                plannedExpenses: [{ id: 2, description: 'Plein', amount: 120, categoryId: 2 }, { id: 3, description: 'Courses', amount: 300, categoryId: 3 }],
+                realExpenses: [{ id: 4, description: 'Station; autoroute', amount: 70.5, date: '2024-03-12', categoryId: 2, payee: 'Total', tags: ['vacances'] }],
+                receivedIncome: [],
+                transfers: [],
+            },
+        },
+    };
+}
+
+describe('buildReport', () => {
+    it('lists the transactions of the range and what is left per category', () => {
+        const report = buildReport(createDataset(), { from: '2024-03', to: '2024-04' });
+        expect(report.months.map(month => month.month)).toEqual(['2024-03', '2024-04']);
+        expect(report.transactions.map(t => t.kind)).toEqual(['plannedIncome', 'plannedExpense', 'plannedExpense', 'realExpense']);
+        expect(report.transactions[0].date).toBe('2024-03-28');
+        expect(report.months[0].categories).toEqual([
+            { category: 'Carburant', parent: 'Transport', planned: 120, spent: 70.5, remaining: 49.5 },
+            { category: 'Repas', planned: 300, spent: 0, remaining: 300 },
+        ]);
+        expect(report.months[1]).toMatchObject({ totals: { plannedIncome: 0, actualSpent: 0 }, categories: [] });
+    });
+});
+
+describe('toCsv', () => {
+    it('writes each table under its name, with decimal commas and quoted separators', () => {
+        const csv = toCsv(getReportTables(buildReport(createDataset(), { from: '2024-03', to: '2024-03' })));
+        const lines = csv.split('\r\n');
+        expect(lines[0]).toBe('Synthèse');
+        expect(lines[2]).toBe('2024-03;2000,00;420,00;1580,00;0,00;70,50;-70,50');
+        expect(lines).toContain('2024-03;2024-03-12;Dépense réelle;"Station; autoroute";Carburant;Total;vacances;70,50;EUR;70,50');
+    });
+});
+
+describe('household tables', () => {
+    it('show who paid what and who owes whom, whatever member the report is for', () => {
+        const data = createDataset();
+        data.settings.members = [{ id: 1, name: 'Alice', color: '#000', defaultShare: 1 }, { id: 2, name: 'Bob', color: '#000', defaultShare: 1 }];
+        Object.assign(data.monthlyData['2024-03'].realExpenses[0], { memberId: 1, shares: [{ memberId: 1, weight: 1 }, { memberId: 2, weight: 1 }] });
+        const report = buildReport(data, { from: '2024-03', to: '2024-03' }, 2);
+        expect(report.member).toBe('Bob');
+        expect(report.months[0].totals.actualSpent).toBe(35.25);
+        expect(report.transactions.map(t => t.kind)).toEqual(['realExpense']);
+        const tables = getReportTables(report);
+        expect(tables.find(table => table.name === 'Foyer')?.rows.slice(1)).toEqual([['2024-03', 'Alice', 0, 70.5, 35.25, 35.25], ['2024-03', 'Bob', 0, 0, 35.25, -35.25]]);
+        expect(tables.find(table => table.name === 'Remboursements')?.rows.slice(1)).toEqual([['2024-03', 'Bob', 'Alice', 35.25]]);
+    });
+
+    it('are left out while the household has no members', () => {
+        expect(getReportTables(buildReport(createDataset(), { from: '2024-03', to: '2024-03' })).map(table => table.name)).toEqual(['Synthèse', 'Catégories', 'Transactions']);
+    });
+});
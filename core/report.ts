@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Reports of a month or a range of months, for export: the transactions of the period and, for each month, its totals
+// and what was planned, spent and is left per category, and who owes whom in the household. Amounts are in the base
+// currency unless stated otherwise.
+import { getItemCurrency, toBaseAmount } from './currency';
+import { filterDatasetByMember, findMember, getMemberBalances, getSettlements } from './household';
+import { getMonthsInRange } from './months';
+import { getCategoryName, getCategoryShares, getMonthTotals, getRealExpensesForMonth, getReceivedIncomeForMonth, getRollUpCategory, getTotalsCategoryIds, sumByCategory } from './selectors';
+import type { BudgetDataset, BudgetReport, Expense, IncomeSource, RealExpense, ReceivedIncome, ReportCategoryRow, ReportMemberRow, ReportSettlement, ReportTable, ReportTransaction, ReportTransactionKind, StatsRange } from './types';
+
+export const REPORT_KIND_LABELS: { [kind in ReportTransactionKind]: string } = {
+    plannedIncome: 'Revenu prévu',
+    plannedExpense: 'Dépense prévue',
+    realExpense: 'Dépense réelle',
+    receivedIncome: 'Revenu reçu',
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Categories in the order of the category list, sub-categories after their parent; ids no longer in it come last.
+function getCategoryRows(data: BudgetDataset, monthKey: string): ReportCategoryRow[] {
+    const planned = sumByCategory(data, data.monthlyData[monthKey]?.plannedExpenses || [], monthKey);
+    const spent = sumByCategory(data, getRealExpensesForMonth(data, monthKey), monthKey);
+    const ids = [...new Set([...getTotalsCategoryIds(planned), ...getTotalsCategoryIds(spent)])];
+    const position = (id: number) => {
+        const index = data.categories.findIndex(c => c.id === id);
+        return index === -1 ? data.categories.length : index;
+    };
+    return ids.sort((a, b) => position(a) - position(b) || a - b).map(id => {
+        const parent = getRollUpCategory(data, id);
+        return {
+            category: getCategoryName(data, id),
+            ...(parent !== id ? { parent: getCategoryName(data, parent) } : {}),
+            planned: roundMoney(planned[id] || 0),
+            spent: roundMoney(spent[id] || 0),
+            remaining: roundMoney((planned[id] || 0) - (spent[id] || 0)),
+        };
+    });
+}
+
+// What each member paid and owes over the month, always for the whole household.
+function getHouseholdRows(data: BudgetDataset, monthKey: string): { members: ReportMemberRow[]; settlements: ReportSettlement[] } {
+    const balances = getMemberBalances(data, monthKey);
+    const name = (id: number) => findMember(data, id)?.name || '?';
+    return {
+        members: balances.map(b => ({ member: name(b.memberId), received: roundMoney(b.received), paid: roundMoney(b.paid), share: roundMoney(b.share), balance: roundMoney(b.balance) })),
+        settlements: getSettlements(balances).map(s => ({ from: name(s.fromMemberId), to: name(s.toMemberId), amount: s.amount })),
+    };
+}
+
+// With `memberId`, the totals, categories and transactions are that member's part of the household's.
+export function buildReport(household: BudgetDataset, range: StatsRange, memberId?: number): BudgetReport {
+    const data = memberId === undefined ? household : filterDatasetByMember(household, memberId);
+    const months = getMonthsInRange(range);
+    const transactions = months.flatMap(monthKey => {
+        const toTransaction = (kind: ReportTransactionKind, item: IncomeSource | Expense | RealExpense | ReceivedIncome): ReportTransaction => ({
+            month: monthKey,
+            date: ('date' in item ? item.date : item.dueDate) || '',
+            kind,
+            description: item.description,
+            categories: kind === 'plannedExpense' || kind === 'realExpense' ? getCategoryShares(item as Expense | RealExpense).map(share => getCategoryName(data, share.categoryId)) : [],
+            payee: 'payee' in item ? item.payee || '' : '',
+            tags: 'tags' in item ? item.tags || [] : [],
+            amount: item.amount,
+            currency: getItemCurrency(item),
+            baseAmount: roundMoney(toBaseAmount(data, item, monthKey)),
+        });
+        const month = data.monthlyData[monthKey];
+        return [
+            ...(month?.realIncome || []).map(item => toTransaction('plannedIncome', item)),
+            ...(month?.plannedExpenses || []).map(item => toTransaction('plannedExpense', item)),
+            ...getReceivedIncomeForMonth(data, monthKey).map(item => toTransaction('receivedIncome', item)),
+            ...getRealExpensesForMonth(data, monthKey).map(item => toTransaction('realExpense', item)),
+        ];
+    });
+    return {
+        range,
+        baseCurrency: data.settings.baseCurrency,
+        ...(memberId !== undefined ? { member: findMember(household, memberId)?.name } : {}),
+        months: months.map(month => ({ month, totals: getMonthTotals(data, month), categories: getCategoryRows(data, month), ...getHouseholdRows(household, month) })),
+        transactions,
+    };
+}
+
+// The report as the tables the CSV and XLSX exports hold; the household ones only once it has members.
+export function getReportTables(report: BudgetReport): ReportTable[] {
+    const base = report.baseCurrency;
+    const householdTables: ReportTable[] = report.months.some(month => month.members.length > 0) ? [
+        {
+            name: 'Foyer',
+            rows: [
+                ['Mois', 'Membre', `Revenus reçus (${base})`, `Payé (${base})`, `Part des dépenses (${base})`, `Solde (${base})`],
+                ...report.months.flatMap(({ month, members }) => members.map(row => [month, row.member, row.received, row.paid, row.share, row.balance])),
+            ],
+        },
+        {
+            name: 'Remboursements',
+            rows: [
+                ['Mois', 'De', 'À', `Montant (${base})`],
+                ...report.months.flatMap(({ month, settlements }) => settlements.map(row => [month, row.from, row.to, row.amount])),
+            ],
+        },
+    ] : [];
+    return [
+        {
+            name: 'Synthèse',
+            rows: [
+                ['Mois', `Revenus prévus (${base})`, `Dépenses prévues (${base})`, `Solde prévu (${base})`, `Revenus reçus (${base})`, `Dépenses réelles (${base})`, `Solde réel (${base})`],
+                ...report.months.map(({ month, totals }) => [month, roundMoney(totals.plannedIncome), roundMoney(totals.plannedExpenses), roundMoney(totals.plannedIncome - totals.plannedExpenses), roundMoney(totals.receivedIncome), roundMoney(totals.actualSpent), roundMoney(totals.receivedIncome - totals.actualSpent)]),
+            ],
+        },
+        {
+            name: 'Catégories',
+            rows: [
+                ['Mois', 'Catégorie', 'Catégorie parente', `Prévu (${base})`, `Réel (${base})`, `Restant (${base})`],
+                ...report.months.flatMap(({ month, categories }) => categories.map(row => [month, row.category, row.parent || '', row.planned, row.spent, row.remaining])),
+            ],
+        },
+        {
+            name: 'Transactions',
+            rows: [
+                ['Mois', 'Date', 'Type', 'Description', 'Catégorie', 'Bénéficiaire', 'Étiquettes', 'Montant', 'Devise', `Montant (${base})`],
+                ...report.transactions.map(t => [t.month, t.date, REPORT_KIND_LABELS[t.kind], t.description, t.categories.join(' + '), t.payee, t.tags.join(', '), t.amount, t.currency, t.baseAmount]),
+            ],
+        },
+        ...householdTables,
+    ];
+}
+
+// Semicolon-separated with decimal commas, as French spreadsheet apps expect; each table under its name, separated by a
+// blank line.
+export function toCsv(tables: ReportTable[]): string {
+    const formatCell = (cell: string | number) => {
+        const text = typeof cell === 'number' ? cell.toFixed(2).replace('.', ',') : cell;
+        return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return tables.map(table => [[table.name], ...table.rows].map(row => row.map(formatCell).join(';')).join('\r\n')).join('\r\n\r\n');
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { describeRule, findCategoryByRules, ruleMatches, testRuleAgainstHistory } from './rules';
+import { createBudgetStore, createEmptyDataset } from './store';
+import type { BudgetDataset, CategoryRule } from './types';
+
+const rule = (values: Partial<CategoryRule>): CategoryRule => ({ id: 1, descriptionPattern: 'carrefour', isRegex: false, categoryId: 1, priority: 0, ...values });
+
+function createDataset(): BudgetDataset {
+    const data = createEmptyDataset();
+    data.categories = [{ id: 1, name: 'Repas', color: '#eab308' }, { id: 2, name: 'Transport', color: '#64748b' }];
+    data.monthlyData['2024-03'] = {
+        realIncome: [],
+        plannedExpenses: [{ id: 1, description: 'Carrefour', amount: 200, categoryId: 1 }],
+        realExpenses: [{ id: 2, description: 'CB CARREFOUR STATION', amount: 60, date: '2024-03-10', categoryId: 2 }],
+        receivedIncome: [],
+        transfers: [],
+    };
+    return data;
+}
+
+describe('ruleMatches', () => {
+    it('matches plain patterns whatever their case and accents, and regular expressions', () => {
+        expect(ruleMatches(rule({ descriptionPattern: 'Pâtisserie' }), 'PATISSERIE DU COIN')).toBe(true);
+        expect(ruleMatches(rule({ descriptionPattern: '^sncf', isRegex: true }), 'SNCF Voyageurs')).toBe(true);
+        expect(ruleMatches(rule({ descriptionPattern: '(', isRegex: true }), '(')).toBe(false);
+    });
+
+    it('requires an amount within the bounds when there are any', () => {
+        const bounded = rule({ minAmount: 50, maxAmount: 100 });
+        expect(ruleMatches(bounded, 'Carrefour', 60)).toBe(true);
+        expect(ruleMatches(bounded, 'Carrefour', 120)).toBe(false);
+        expect(ruleMatches(bounded, 'Carrefour')).toBe(false);
+    });
+});
+
+describe('findCategoryByRules', () => {
+    it('takes the first matching rule by priority, skipping rules for deleted categories', () => {
+        const store = createBudgetStore(createDataset());
+        store.saveCategoryRule(rule({ id: 1 }));
+        store.saveCategoryRule(rule({ id: 2, descriptionPattern: 'station', categoryId: 2, priority: 10 }));
+        store.saveCategoryRule(rule({ id: 3, descriptionPattern: 'station', categoryId: 3, priority: 20 }));
+        expect(findCategoryByRules(store.data, 'Carrefour station', 60)).toBe(2);
+        expect(findCategoryByRules(store.data, 'Carrefour market', 60)).toBe(1);
+        expect(findCategoryByRules(store.data, 'Boulangerie', 60)).toBeNull();
+    });
+});
+
+describe('testRuleAgainstHistory', () => {
+    it('lists the past expenses a rule matches and counts those it would recategorise', () => {
+        expect(testRuleAgainstHistory(createDataset(), rule({}))).toEqual({
+            matches: [
+                { description: 'Carrefour', amount: 200, categoryId: 1, monthKey: '2024-03' },
+                { description: 'CB CARREFOUR STATION', amount: 60, categoryId: 2, monthKey: '2024-03' },
+            ],
+            conflicts: 1,
+        });
+    });
+});
+
+describe('describeRule', () => {
+    it('spells out the pattern and the amount bounds', () => {
+        expect(describeRule(rule({ minAmount: 50 }))).toBe('libellé contient « carrefour » et montant ≥ 50,00');
+        expect(describeRule(rule({ descriptionPattern: '^sncf', isRegex: true }))).toBe('libellé correspond à /^sncf/');
+    });
+});
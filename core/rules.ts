@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Categorisation rules: a description pattern, plain or regular expression, and optional amount bounds in the
+// transaction's own currency. Rules are kept sorted by descending priority so that the first match wins.
+import { normalizeDescription } from './import';
+import type { BudgetDataset, CategoryRule, RuleTestResult } from './types';
+
+export const sortCategoryRules = (data: BudgetDataset) => {
+    data.categoryRules.sort((a, b) => b.priority - a.priority || a.id - b.id);
+};
+
+export function ruleMatches(rule: CategoryRule, description: string, amount?: number): boolean {
+    if (rule.minAmount !== undefined || rule.maxAmount !== undefined) {
+        if (amount === undefined || isNaN(amount)) return false;
+        if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+        if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+    }
+    if (rule.isRegex) {
+        try { return new RegExp(rule.descriptionPattern, 'i').test(description); } catch { return false; }
+    }
+    return normalizeDescription(description).includes(normalizeDescription(rule.descriptionPattern));
+}
+
+// Rules pointing to a category that no longer exists are skipped.
+export const findCategoryByRules = (data: BudgetDataset, description: string, amount?: number): number | null =>
+    data.categoryRules.find(rule => ruleMatches(rule, description, amount) && data.categories.some(c => c.id === rule.categoryId))?.categoryId ?? null;
+
+// The planned and real expenses of every month the rule would match, latest month first.
+export function testRuleAgainstHistory(data: BudgetDataset, rule: CategoryRule): RuleTestResult {
+    const history = Object.entries(data.monthlyData).flatMap(([monthKey, month]) => [
+        ...[...month.plannedExpenses, ...month.realExpenses].map(exp => ({ description: exp.description, amount: exp.amount, categoryId: exp.categoryId, monthKey })),
+    ]);
+    const matches = history.filter(item => ruleMatches(rule, item.description, item.amount)).sort((a, b) => b.monthKey.localeCompare(a.monthKey));
+    return { matches, conflicts: matches.filter(item => item.categoryId !== rule.categoryId).length };
+}
+
+export const describeRule = (rule: Partial<CategoryRule>) => {
+    const formatBound = (value: number) => value.toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    const conditions = [rule.isRegex ? `libellé correspond à /${rule.descriptionPattern}/` : `libellé contient « ${rule.descriptionPattern} »`];
+    if (rule.minAmount !== undefined && rule.maxAmount !== undefined) conditions.push(`montant entre ${formatBound(rule.minAmount)} et ${formatBound(rule.maxAmount)}`);
+    else if (rule.minAmount !== undefined) conditions.push(`montant ≥ ${formatBound(rule.minAmount)}`);
+    else if (rule.maxAmount !== undefined) conditions.push(`montant ≤ ${formatBound(rule.maxAmount)}`);
+    return conditions.join(' et ');
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createEmptySearchFilters, searchTransactions } from './search';
+import { createEmptyDataset } from './store';
+import type { BudgetDataset, SearchFilters, SearchSortKey } from './types';
+
+function createDataset(): BudgetDataset {
+    const data = createEmptyDataset();
+    data.settings.members = [{ id: 1, name: 'Alice', color: '#0ea5e9', defaultShare: 1 }, { id: 2, name: 'Bob', color: '#f97316', defaultShare: 1 }];
+    data.monthlyData['2024-03'] = {
+        realIncome: [{ id: 1, description: 'Salaire', amount: 2000, memberId: 1 }],
+        plannedExpenses: [{ id: 2, description: 'Loyer', amount: 800, categoryId: 6, isRecurring: true, dueDate: '2024-03-05', shares: [{ memberId: 1, weight: 1 }, { memberId: 2, weight: 1 }] }],
+        realExpenses: [
+            { id: 3, description: 'Courses', amount: 45, date: '2024-03-10', categoryId: 9, payee: 'Carrefour', tags: ['maison'], memberId: 2 },
+            { id: 4, description: 'Essence', amount: 60, date: '2024-03-12', categoryId: 12, note: 'Plein avant les vacances', memberId: 1 },
+        ],
+        receivedIncome: [{ id: 5, description: 'Salaire', amount: 2000, date: '2024-03-28', memberId: 1 }],
+        transfers: [],
+    };
+    return data;
+}
+
+const search = (filters: Partial<SearchFilters>, sortKey: SearchSortKey = 'date', sortAscending = false, memberId: number | null = null) =>
+    searchTransactions(createDataset(), { ...createEmptySearchFilters(), ...filters }, sortKey, sortAscending, memberId).map(result => result.key);
+
+describe('searchTransactions', () => {
+    it('looks in descriptions, payees and notes, and sorts by date, latest first', () => {
+        expect(search({})).toEqual(['received:2024-03:5', 'real:2024-03:4', 'real:2024-03:3', 'planned:2024-03:2', 'income:2024-03:1']);
+        expect(search({ query: 'carrefour' })).toEqual(['real:2024-03:3']);
+        expect(search({ query: 'vacances' })).toEqual(['real:2024-03:4']);
+    });
+
+    it('combines the tag, category, amount, kind and recurrence filters', () => {
+        expect(search({ tag: 'maison' })).toEqual(['real:2024-03:3']);
+        expect(search({ categoryId: 6, recurrence: 'recurring' })).toEqual(['planned:2024-03:2']);
+        expect(search({ minAmount: 50, maxAmount: 1000 })).toEqual(['real:2024-03:4', 'planned:2024-03:2']);
+        expect(search({ kind: 'received' })).toEqual(['received:2024-03:5']);
+    });
+
+    it('sorts by amount, expenses negative, and keeps the transactions a member has a part in', () => {
+        expect(search({ kind: 'real' }, 'amount', true)).toEqual(['real:2024-03:4', 'real:2024-03:3']);
+        expect(search({}, 'date', false, 2)).toEqual(['real:2024-03:3', 'planned:2024-03:2']);
+    });
+});
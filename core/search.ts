@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Transaction search across every month: planned and real expenses, planned and received income. Amounts are in the base
+// currency, negative for expenses.
+import { getAmountDate, toBaseAmount } from './currency';
+import { getMemberShares } from './household';
+import { normalizeDescription } from './import';
+import { getCategoryName, getCategoryShares } from './selectors';
+import type { BudgetDataset, SearchFilters, SearchKind, SearchResult, SearchSortKey, TransactionDetails } from './types';
+
+export const SEARCH_KIND_LABELS: { [key in SearchKind]: string } = { planned: 'Dépense prévue', real: 'Dépense réelle', income: 'Revenu prévu', received: 'Revenu reçu' };
+
+export function createEmptySearchFilters(): SearchFilters {
+    return { query: '', tag: '', payee: '', categoryId: null, minAmount: null, maxAmount: null, fromDate: '', toDate: '', kind: '', recurrence: '' };
+}
+
+// Every planned and real transaction of every month, planned ones dated by their due date or the first of their month.
+export function getAllTransactions(data: BudgetDataset): SearchResult[] {
+    return Object.entries(data.monthlyData).flatMap(([monthKey, month]) => {
+        const result = (kind: SearchKind, item: SearchResult['item'], categoryIds: number[], sign: number): SearchResult => ({
+            key: `${kind}:${monthKey}:${item.id}`, kind, monthKey, id: item.id, date: getAmountDate(item, monthKey), description: item.description,
+            categoryIds, amount: sign * toBaseAmount(data, item, monthKey), isRecurring: 'isRecurring' in item && !!item.isRecurring, item,
+        });
+        return [
+            ...month.plannedExpenses.map(expense => result('planned', expense, getCategoryShares(expense).map(share => share.categoryId), -1)),
+            ...month.realExpenses.map(expense => result('real', expense, getCategoryShares(expense).map(share => share.categoryId), -1)),
+            ...month.realIncome.map(income => result('income', income, [], 1)),
+            ...month.receivedIncome.map(income => result('received', income, [], 1)),
+        ];
+    });
+}
+
+// With `memberId`, only the transactions that household member has a part in are kept (whole, not cut down to it).
+export function searchTransactions(data: BudgetDataset, filters: SearchFilters, sortKey: SearchSortKey = 'date', sortAscending = false, memberId: number | null = null): SearchResult[] {
+    const query = normalizeDescription(filters.query);
+    const payee = normalizeDescription(filters.payee);
+    const details = (result: SearchResult) => result.item as TransactionDetails;
+    const results = getAllTransactions(data).filter(result =>
+        (!query || [result.description, details(result).payee || '', details(result).note || ''].some(text => normalizeDescription(text).includes(query)))
+        && (!filters.tag || (details(result).tags || []).includes(filters.tag))
+        && (!payee || normalizeDescription(details(result).payee || '') === payee)
+        && (filters.categoryId === null || result.categoryIds.includes(filters.categoryId))
+        && (filters.minAmount === null || Math.abs(result.amount) >= filters.minAmount)
+        && (filters.maxAmount === null || Math.abs(result.amount) <= filters.maxAmount)
+        && (!filters.fromDate || result.date >= filters.fromDate)
+        && (!filters.toDate || result.date <= filters.toDate)
+        && (!filters.kind || result.kind === filters.kind)
+        && (!filters.recurrence || result.isRecurring === (filters.recurrence === 'recurring'))
+        && (memberId === null || getMemberShares(details(result)).some(share => share.memberId === memberId)));
+    const categoryName = (result: SearchResult) => result.categoryIds.length ? getCategoryName(data, result.categoryIds[0]) : '';
+    const compare: { [key in SearchSortKey]: (a: SearchResult, b: SearchResult) => number } = {
+        date: (a, b) => a.date.localeCompare(b.date),
+        description: (a, b) => a.description.localeCompare(b.description, 'fr'),
+        category: (a, b) => categoryName(a).localeCompare(categoryName(b), 'fr'),
+        kind: (a, b) => SEARCH_KIND_LABELS[a.kind].localeCompare(SEARCH_KIND_LABELS[b.kind], 'fr'),
+        amount: (a, b) => a.amount - b.amount,
+    };
+    return results.sort((a, b) => (sortAscending ? 1 : -1) * (compare[sortKey](a, b) || a.date.localeCompare(b.date)));
+}
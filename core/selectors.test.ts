@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { buildSankeyGraph, getCategoryUsage, getMissingRateCurrencies, getMonthTotals, getRealExpensesForMonth, rollUpCategoryTotals, sumByCategory } from './selectors';
+import { createEmptyDataset } from './store';
+import type { BudgetDataset, MonthlyData } from './types';
+
+const emptyMonth = (): MonthlyData => ({ realIncome: [], plannedExpenses: [], realExpenses: [], receivedIncome: [], transfers: [] });
+
+function createDataset(): BudgetDataset {
+    return {
+        ...createEmptyDataset(),
+        categories: [{ id: 1, name: 'Logement', color: '#ef4444' }, { id: 2, name: 'Repas', color: '#eab308' }],
+        exchangeRates: [{ id: 1, date: '2024-01-01', from: 'USD', to: 'EUR', rate: 0.5 }],
+        monthlyData: {
+            '2024-03': {
+                ...emptyMonth(),
+                realIncome: [{ id: 1, description: 'Salaire', amount: 2000 }],
+                plannedExpenses: [
+                    { id: 2, description: 'Loyer', amount: 800, categoryId: 1 },
+                    { id: 3, description: 'Courses', amount: 300, categoryId: 2, splits: [{ categoryId: 2, amount: 200 }, { categoryId: 1, amount: 100 }] },
+                ],
+                realExpenses: [
+                    { id: 4, description: 'Loyer mars', amount: 800, date: '2024-03-01', categoryId: 1 },
+                    // Misfiled in March: queried by its date, it belongs to April.
+                    { id: 5, description: 'Marché', amount: 40, date: '2024-04-02', categoryId: 2 },
+                ],
+                receivedIncome: [{ id: 6, description: 'Salaire', amount: 2000, date: '2024-03-28', expectedIncomeId: 1 }],
+            },
+            '2024-04': { ...emptyMonth(), realExpenses: [{ id: 7, description: 'Livre', amount: 20, currency: 'USD', date: '2024-04-10', categoryId: 2 }] },
+        },
+    };
+}
+
+describe('getRealExpensesForMonth', () => {
+    it('finds real expenses by their date whatever month they are filed in', () => {
+        expect(getRealExpensesForMonth(createDataset(), '2024-04').map(exp => exp.id).sort()).toEqual([5, 7]);
+    });
+});
+
+describe('sumByCategory', () => {
+    it('counts each split under its category, in the base currency', () => {
+        const data = createDataset();
+        expect(sumByCategory(data, data.monthlyData['2024-03'].plannedExpenses, '2024-03')).toEqual({ 1: 900, 2: 200 });
+        expect(sumByCategory(data, getRealExpensesForMonth(data, '2024-04'), '2024-04')).toEqual({ 2: 50 });
+    });
+});
+
+describe('rollUpCategoryTotals', () => {
+    it('adds sub-category totals to their parent', () => {
+        const data = createDataset();
+        data.categories.push({ id: 3, name: 'Loyer', color: '#000', parentId: 1 });
+        expect(rollUpCategoryTotals(data, { 1: 100, 3: 800, 2: 50 })).toEqual({ 1: 900, 2: 50 });
+    });
+});
+
+describe('getMonthTotals', () => {
+    it('sums planned and actual amounts of the month', () => {
+        expect(getMonthTotals(createDataset(), '2024-03')).toEqual({ plannedIncome: 2000, plannedExpenses: 1100, actualSpent: 800, receivedIncome: 2000 });
+        expect(getMonthTotals(createDataset(), '2030-01')).toEqual({ plannedIncome: 0, plannedExpenses: 0, actualSpent: 0, receivedIncome: 0 });
+    });
+});
+
+describe('getMissingRateCurrencies', () => {
+    it('reports currencies without a rate to the base currency', () => {
+        const data = createDataset();
+        data.monthlyData['2024-03'].plannedExpenses.push({ id: 8, description: 'Hôtel', amount: 100, currency: 'GBP', categoryId: 1 });
+        expect(getMissingRateCurrencies(data, '2024-03')).toEqual(['GBP']);
+        expect(getMissingRateCurrencies(data, '2024-04')).toEqual([]);
+    });
+});
+
+describe('getCategoryUsage', () => {
+    it('lists where a category is still used', () => {
+        const data = createDataset();
+        data.categoryRules.push({ id: 1, descriptionPattern: 'loyer', isRegex: false, categoryId: 1, priority: 10 });
+        expect(getCategoryUsage(data, 1)).toEqual(['planned', 'real', 'rules']);
+        expect(getCategoryUsage(data, 3)).toEqual([]);
+    });
+});
+
+describe('buildSankeyGraph', () => {
+    it('flows income through the budget into categories, expenses and what is left', () => {
+        const { nodes, links } = buildSankeyGraph(createDataset(), '2024-03', { savingsAsTransfers: false });
+        expect(nodes.map(node => node.name)).toEqual(['Budget', 'Salaire', 'Logement', 'Loyer mars', 'Restant (Logement)', 'Repas', 'Restant (Repas)', 'Budget non alloué']);
+        expect(links).toContainEqual({ source: 'Logement', target: 'Restant (Logement)', value: 100 });
+        expect(links).toContainEqual({ source: 'Budget', target: 'Budget non alloué', value: 900 });
+    });
+
+    it('flows each top-level category into its sub-categories', () => {
+        const data = createDataset();
+        data.categories.push({ id: 3, name: 'Courses', color: '#000', parentId: 2 });
+        data.monthlyData['2024-03'].plannedExpenses[1] = { id: 3, description: 'Courses', amount: 300, categoryId: 3 };
+        const { links } = buildSankeyGraph(data, '2024-03', { savingsAsTransfers: false });
+        expect(links).toContainEqual({ source: 'Budget', target: 'Repas', value: 300 });
+        expect(links).toContainEqual({ source: 'Repas', target: 'Courses', value: 300 });
+        expect(links).toContainEqual({ source: 'Courses', target: 'Restant (Courses)', value: 300 });
+    });
+});
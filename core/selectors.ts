@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Read-only queries over a budget dataset. Amounts are in the base currency unless stated otherwise.
+import { convertAmount, getBaseRate, getItemCurrency, sumInBase, toBaseAmount } from './currency';
+import type { BudgetDataset, Category, CategorySplit, CategoryTotals, Expense, IncomeSource, MoneyItem, MonthTotals, RealExpense, ReceivedIncome, SankeyGraph, TransactionType, Transfer } from './types';
+
+export const SAVINGS_CATEGORY = 'Épargne ou investissements';
+
+// Real expenses, received income and transfers are filed in the bucket of their date's month, and always queried by date.
+export const getRealExpensesForMonth = (data: BudgetDataset, monthKey: string): RealExpense[] => Object.values(data.monthlyData).flatMap(month => month.realExpenses).filter(exp => exp.date.startsWith(monthKey));
+export const findRealExpense = (data: BudgetDataset, id: number): RealExpense | undefined => Object.values(data.monthlyData).flatMap(month => month.realExpenses).find(exp => exp.id === id);
+export const getReceivedIncomeForMonth = (data: BudgetDataset, monthKey: string): ReceivedIncome[] => Object.values(data.monthlyData).flatMap(month => month.receivedIncome).filter(income => income.date.startsWith(monthKey));
+export const findReceivedIncome = (data: BudgetDataset, id: number): ReceivedIncome | undefined => Object.values(data.monthlyData).flatMap(month => month.receivedIncome).find(income => income.id === id);
+export const getTransfersForMonth = (data: BudgetDataset, monthKey: string): Transfer[] => Object.values(data.monthlyData).flatMap(month => month.transfers).filter(transfer => transfer.date.startsWith(monthKey));
+
+export const findAccount = (data: BudgetDataset, id: number | undefined) => data.accounts.find(account => account.id === id);
+export const findRecurringTemplate = (data: BudgetDataset, id: number | undefined, type: TransactionType): IncomeSource | Expense | undefined =>
+    (type === 'income' ? data.recurringIncomes : data.recurringExpenses).find(t => t.id === id);
+
+// What an expense puts in each category, in its own currency.
+export const getCategoryShares = (item: Expense | RealExpense): CategorySplit[] => item.splits?.length ? item.splits : [{ categoryId: item.categoryId, amount: item.amount }];
+export const hasCategory = (item: Expense | RealExpense, categoryId: number) => getCategoryShares(item).some(share => share.categoryId === categoryId);
+
+export const findCategory = (data: BudgetDataset, id: number | undefined): Category | undefined => data.categories.find(c => c.id === id);
+export const findCategoryByName = (data: BudgetDataset, name: string): Category | undefined => data.categories.find(c => c.name === name);
+// Categories are referred to by id; their name is only looked up for display and export.
+export const getCategoryName = (data: BudgetDataset, id: number): string => findCategory(data, id)?.name ?? 'Catégorie supprimée';
+export const getSubCategories = (data: BudgetDataset, id: number): Category[] => data.categories.filter(c => c.parentId === id);
+// The top-level category whose totals include this one: its parent, or itself.
+export const getRollUpCategory = (data: BudgetDataset, id: number): number => findCategory(data, findCategory(data, id)?.parentId)?.id ?? id;
+// The ids a totals object is keyed by.
+export const getTotalsCategoryIds = (totals: CategoryTotals): number[] => Object.keys(totals).map(Number);
+
+// Per-category totals with each sub-category's added to its parent's.
+export function rollUpCategoryTotals(data: BudgetDataset, totals: CategoryTotals): CategoryTotals {
+    const rolledUp: CategoryTotals = {};
+    getTotalsCategoryIds(totals).forEach(id => {
+        const parent = getRollUpCategory(data, id);
+        rolledUp[parent] = (rolledUp[parent] || 0) + totals[id];
+    });
+    return rolledUp;
+}
+
+// Totals per category, counting each split under its own category.
+export function sumByCategory(data: BudgetDataset, items: (Expense | RealExpense)[], monthKey: string): CategoryTotals {
+    const totals: CategoryTotals = {};
+    items.forEach(item => getCategoryShares(item).forEach(share => {
+        totals[share.categoryId] = (totals[share.categoryId] || 0) + toBaseAmount(data, { ...item, amount: share.amount }, monthKey);
+    }));
+    return totals;
+}
+
+export function getMonthTotals(data: BudgetDataset, monthKey: string): MonthTotals {
+    const month = data.monthlyData[monthKey];
+    return {
+        plannedIncome: sumInBase(data, month?.realIncome || [], monthKey),
+        plannedExpenses: sumInBase(data, month?.plannedExpenses || [], monthKey),
+        actualSpent: sumInBase(data, getRealExpensesForMonth(data, monthKey), monthKey),
+        receivedIncome: sumInBase(data, getReceivedIncomeForMonth(data, monthKey), monthKey),
+    };
+}
+
+export const getMissingRateCurrencies = (data: BudgetDataset, monthKey: string): string[] => {
+    const month = data.monthlyData[monthKey];
+    const items: MoneyItem[] = [...(month?.realIncome || []), ...(month?.plannedExpenses || []), ...getRealExpensesForMonth(data, monthKey), ...getReceivedIncomeForMonth(data, monthKey)];
+    return Array.from(new Set(items.filter(item => getBaseRate(data, item, monthKey) === null).map(getItemCurrency)));
+};
+
+// Where a category is still referred to; it can only be deleted once this is empty.
+export function getCategoryUsage(data: BudgetDataset, categoryId: number): ('planned' | 'real' | 'recurring' | 'rules')[] {
+    const months = Object.values(data.monthlyData);
+    const usage: ('planned' | 'real' | 'recurring' | 'rules')[] = [];
+    if (months.some(month => month.plannedExpenses.some(e => hasCategory(e, categoryId)))) usage.push('planned');
+    if (months.some(month => month.realExpenses.some(e => hasCategory(e, categoryId)))) usage.push('real');
+    if (data.recurringExpenses.some(e => hasCategory(e, categoryId) || e.versions?.some(v => v.categoryId === categoryId))) usage.push('recurring');
+    if (data.categoryRules.some(r => r.categoryId === categoryId)) usage.push('rules');
+    return usage;
+}
+
+// Income lines flow into the budget, which flows into each planned top-level category, then into its sub-categories, and
+// each category into the real expenses paid from it and what is left of it. Money moved into savings accounts can be shown as transfers, under the savings
+// category when it is budgeted. `byMember` passes each income through the household member who earns it.
+export function buildSankeyGraph(data: BudgetDataset, monthKey: string, { savingsAsTransfers, byMember = false }: { savingsAsTransfers: boolean; byMember?: boolean }): SankeyGraph {
+    const nodes: { name: string }[] = [];
+    const links: { source: string; target: string; value: number }[] = [];
+    const nodeSet = new Set<string>();
+    const addNode = (name: string) => { if (!nodeSet.has(name)) { nodeSet.add(name); nodes.push({ name }); } };
+    const incomes = data.monthlyData[monthKey]?.realIncome || [];
+    const plannedExpensesByCategory = sumByCategory(data, data.monthlyData[monthKey]?.plannedExpenses || [], monthKey);
+
+    const savingsId = findCategoryByName(data, SAVINGS_CATEGORY)?.id;
+
+    // A split real expense leaves each of its categories for the share it took from it.
+    const realExpensesByCategory = getRealExpensesForMonth(data, monthKey).reduce((acc, expense) => {
+        getCategoryShares(expense).forEach(share => {
+            if (!acc[share.categoryId]) acc[share.categoryId] = [];
+            acc[share.categoryId].push({ description: expense.description, value: toBaseAmount(data, { ...expense, amount: share.amount }, monthKey) });
+        });
+        return acc;
+    }, {} as { [categoryId: number]: { description: string; value: number }[] });
+
+    addNode('Budget');
+    const memberIncomes: { [member: string]: number } = {};
+    incomes.forEach(income => {
+        const value = toBaseAmount(data, income, monthKey);
+        const member = byMember ? data.settings.members.find(m => m.id === income.memberId)?.name ?? 'Non attribué' : undefined;
+        addNode(income.description);
+        links.push({ source: income.description, target: member ?? 'Budget', value });
+        if (member === undefined) return;
+        addNode(member);
+        memberIncomes[member] = (memberIncomes[member] || 0) + value;
+    });
+    Object.entries(memberIncomes).forEach(([member, value]) => links.push({ source: member, target: 'Budget', value }));
+
+    const savingsTransfers = (savingsAsTransfers ? getTransfersForMonth(data, monthKey) : []).flatMap(transfer => {
+        const source = findAccount(data, transfer.fromAccountId);
+        const target = findAccount(data, transfer.toAccountId);
+        if (!source || target?.kind !== 'savings' || source.kind === 'savings') return [];
+        return [{ name: `Virement → ${target.name}`, value: convertAmount(data, transfer.amount, source.currency, data.settings.baseCurrency, transfer.date) }];
+    });
+    const addSavingsTransfers = (sourceNode: string) => savingsTransfers.reduce((total, transfer) => {
+        addNode(transfer.name);
+        links.push({ source: sourceNode, target: transfer.name, value: transfer.value });
+        return total + transfer.value;
+    }, 0);
+    if (savingsId === undefined || !plannedExpensesByCategory[savingsId]) addSavingsTransfers('Budget');
+
+    const addCategoryOutflows = (categoryId: number, amount: number) => {
+        const category = getCategoryName(data, categoryId);
+        let totalSpentInCat = categoryId === savingsId ? addSavingsTransfers(category) : 0;
+        (realExpensesByCategory[categoryId] || []).forEach(realExpense => {
+            addNode(realExpense.description);
+            links.push({ source: category, target: realExpense.description, value: realExpense.value });
+            totalSpentInCat += realExpense.value;
+        });
+
+        const remaining = amount - totalSpentInCat;
+        if (remaining > 0.01) { // Use a small epsilon to avoid tiny rounding error nodes
+            const remainingNodeName = `Restant (${category})`;
+            addNode(remainingNodeName);
+            links.push({ source: category, target: remainingNodeName, value: remaining });
+        }
+    };
+
+    const rolledUp = rollUpCategoryTotals(data, plannedExpensesByCategory);
+    getTotalsCategoryIds(rolledUp).forEach(categoryId => {
+        const total = rolledUp[categoryId];
+        if (total <= 0) return;
+        const category = getCategoryName(data, categoryId);
+        addNode(category);
+        links.push({ source: 'Budget', target: category, value: total });
+
+        getTotalsCategoryIds(plannedExpensesByCategory).forEach(subCategoryId => {
+            const amount = plannedExpensesByCategory[subCategoryId];
+            if (subCategoryId === categoryId || amount <= 0 || getRollUpCategory(data, subCategoryId) !== categoryId) return;
+            const subCategory = getCategoryName(data, subCategoryId);
+            addNode(subCategory);
+            links.push({ source: category, target: subCategory, value: amount });
+            addCategoryOutflows(subCategoryId, amount);
+        });
+        const ownAmount = plannedExpensesByCategory[categoryId] || 0;
+        if (ownAmount > 0) addCategoryOutflows(categoryId, ownAmount);
+    });
+
+    const { plannedIncome, plannedExpenses } = getMonthTotals(data, monthKey);
+    const unallocatedBudget = plannedIncome - plannedExpenses;
+    if (unallocatedBudget > 0.01) {
+        addNode('Budget non alloué');
+        links.push({ source: 'Budget', target: 'Budget non alloué', value: unallocatedBudget });
+    }
+    return { nodes, links };
+}
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createMemoryStorageAdapter, createStorageWriter, deserializeDataset, loadStoredDataset, removeLegacyLocalStorage, serializeDataset } from './storage';
+import type { StorageAdapter, StorageTransaction } from './storage';
+import { createDefaultDataset } from './store';
+import type { BudgetDataset } from './types';
+
+const NOW = new Date('2024-03-15T12:00:00Z');
+
+function createDataset(): BudgetDataset {
+    const data = createDefaultDataset();
+    data.monthlyData['2024-03'] = {
+        realIncome: [{ id: 1, description: 'Salaire', amount: 2000 }],
+        plannedExpenses: [{ id: 2, description: 'Loyer', amount: 800, categoryId: 6 }],
+        realExpenses: [{ id: 3, description: 'Courses', amount: 30, date: '2024-03-10', categoryId: 9 }, { id: 4, description: 'Marché', amount: 12, date: '2024-03-12', categoryId: 9 }],
+        receivedIncome: [],
+        transfers: [],
+    };
+    return data;
+}
+
+// A memory adapter recording the `store/key` ids each transaction puts and deletes, and failing its next transaction
+// when `failNext` is set.
+function createRecordingAdapter() {
+    const adapter = createMemoryStorageAdapter();
+    const writes: { puts: string[]; deletions: string[] }[] = [];
+    const recording = {
+        failNext: false,
+        writes,
+        ...adapter,
+        transaction: async (run: (tx: StorageTransaction) => void) => {
+            if (recording.failNext) { recording.failNext = false; throw new Error('quota'); }
+            const write = { puts: [] as string[], deletions: [] as string[] };
+            writes.push(write);
+            await adapter.transaction(tx => run({
+                put: (store, key, value) => { write.puts.push(`${store}/${key}`); tx.put(store, key, value); },
+                delete: (store, key) => { write.deletions.push(`${store}/${key}`); tx.delete(store, key); },
+            }));
+        },
+    };
+    return recording;
+}
+
+function createFakeLocalStorage(entries: { [key: string]: string }): Storage {
+    const items = new Map(Object.entries(entries));
+    return {
+        get length() { return items.size; },
+        key: (index: number) => [...items.keys()][index] ?? null,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+        clear: () => items.clear(),
+    };
+}
+
+describe('createStorageWriter and loadStoredDataset', () => {
+    it('read back the dataset that was saved', async () => {
+        const adapter = createMemoryStorageAdapter();
+        await createStorageWriter(adapter).save(serializeDataset(createDataset()));
+        const loaded = await loadStoredDataset(adapter, null, NOW);
+        expect(loaded.dataset).toEqual(createDataset());
+        expect(loaded).toMatchObject({ quarantine: [], isLegacy: false, needsSave: false });
+    });
+
+    it('only write the records that changed since the last save', async () => {
+        const adapter = createRecordingAdapter();
+        const data = createDataset();
+        await createStorageWriter(adapter).save(serializeDataset(data));
+        const loaded = await loadStoredDataset(adapter, null, NOW);
+        const writer = createStorageWriter(adapter, loaded.records);
+
+        await writer.save(serializeDataset(loaded.dataset));
+        expect(adapter.writes).toHaveLength(1);
+        loaded.dataset.monthlyData['2024-03'].realExpenses[0].amount = 35;
+        await writer.save(serializeDataset(loaded.dataset));
+        loaded.dataset.monthlyData['2024-03'].realExpenses.pop();
+        await writer.save(serializeDataset(loaded.dataset));
+        expect(adapter.writes.slice(1)).toEqual([
+            { puts: ['transactions/2024-03:3'], deletions: [] },
+            { puts: [], deletions: ['transactions/2024-03:4'] },
+        ]);
+    });
+
+    it('retry what a failed write left unsaved', async () => {
+        const adapter = createRecordingAdapter();
+        const errors: unknown[] = [];
+        const writer = createStorageWriter(adapter, new Map(), error => errors.push(error));
+        const data = createDataset();
+        adapter.failNext = true;
+        await expect(writer.save(serializeDataset(data))).rejects.toThrow('quota');
+        expect(errors).toHaveLength(1);
+        await writer.save(serializeDataset(data));
+        expect((await loadStoredDataset(adapter, null, NOW)).dataset).toEqual(data);
+    });
+});
+
+describe('serializeDataset', () => {
+    it('is undone by deserializeDataset', () => {
+        expect(deserializeDataset(serializeDataset(createDataset()))).toEqual(createDataset());
+    });
+});
+
+describe('loadStoredDataset', () => {
+    it('picks up the localStorage layout, quarantining what it cannot parse', async () => {
+        const adapter = createMemoryStorageAdapter();
+        const legacy = createFakeLocalStorage({
+            categories: JSON.stringify([{ name: 'Logement', color: '#ef4444' }]),
+            monthlyData: JSON.stringify({ '2024-03': { realIncome: [], expenses: [{ id: 4, description: 'Loyer', amount: 800, categoryId: 6 }], realExpenses: [] } }),
+            recurringIncomes: '{not json',
+            'quarantine:categories:2023-01-01': '"old"',
+            theme: 'dark',
+        });
+        const loaded = await loadStoredDataset(adapter, legacy, NOW);
+        expect(loaded).toMatchObject({ isLegacy: true, needsSave: true, quarantine: ['recurringIncomes:2024-03-15T12:00:00.000Z', 'categories:2023-01-01'] });
+        expect(loaded.dataset.categories).toMatchObject([{ id: 1, name: 'Logement' }]);
+        expect(loaded.dataset.monthlyData['2024-03'].plannedExpenses).toMatchObject([{ id: 4, amount: 800 }]);
+        expect(await adapter.getAll('quarantine')).toEqual([['categories:2023-01-01', '"old"'], ['recurringIncomes:2024-03-15T12:00:00.000Z', '{not json']]);
+
+        removeLegacyLocalStorage(legacy);
+        expect([legacy.length, legacy.getItem('theme')]).toEqual([1, 'dark']);
+    });
+
+    it('ignores localStorage once IndexedDB holds a dataset', async () => {
+        const adapter = createMemoryStorageAdapter();
+        await createStorageWriter(adapter).save(serializeDataset(createDataset()));
+        const loaded = await loadStoredDataset(adapter, createFakeLocalStorage({ categories: '[]' }), NOW);
+        expect(loaded.isLegacy).toBe(false);
+        expect(loaded.dataset.categories).toEqual(createDataset().categories);
+    });
+
+    it('quarantines invalid parts and restarts them from their defaults', async () => {
+        const adapter: StorageAdapter = createMemoryStorageAdapter();
+        await createStorageWriter(adapter).save(serializeDataset(createDataset()));
+        await adapter.put('meta', 'goals', 'oops');
+        const loaded = await loadStoredDataset(adapter, null, NOW);
+        expect(loaded.dataset.goals).toEqual([]);
+        expect(loaded.dataset.monthlyData).toEqual(createDataset().monthlyData);
+        expect(loaded).toMatchObject({ quarantine: ['goals:2024-03-15T12:00:00.000Z'], needsSave: true });
+        expect(await adapter.get('quarantine', 'goals:2024-03-15T12:00:00.000Z')).toBe('oops');
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Where the dataset is kept: IndexedDB, or memory when it is unavailable. Months and real expenses are records of their
+// own, so that a save only writes the records that changed; data that can't be read at load is quarantined rather than
+// dropped.
+import { SCHEMA_VERSION, runMigrations, validateDataset } from './migrations';
+import { createDefaultDataset } from './store';
+import type { BudgetDataset, MonthlyData, RealExpense } from './types';
+
+export type StoreName = 'meta' | 'months' | 'transactions' | 'quarantine' | 'attachments';
+export type StorageTransaction = { put: (store: StoreName, key: string, value: unknown) => void; delete: (store: StoreName, key: string) => void };
+export type StorageAdapter = {
+    get: <T>(store: StoreName, key: string) => Promise<T | undefined>;
+    getAll: <T>(store: StoreName) => Promise<[string, T][]>;
+    put: (store: StoreName, key: string, value: unknown) => Promise<void>;
+    // Runs every put/delete issued by `run` atomically.
+    transaction: (run: (tx: StorageTransaction) => void) => Promise<void>;
+};
+export type StorageRecord = { store: StoreName; key: string; value: unknown };
+// The serialized value of every record, keyed by `store/key`.
+export type SerializedRecords = Map<string, string>;
+
+export const DB_NAME = 'budget';
+const DB_VERSION = 2;
+const STORE_NAMES: StoreName[] = ['meta', 'months', 'transactions', 'quarantine', 'attachments'];
+const LEGACY_STORAGE_KEYS = ['schemaVersion', 'monthlyData', 'categories', 'recurringIncomes', 'recurringExpenses', 'categoryRules'];
+
+// Values are stored as JSON strings so that, like IndexedDB's structured clone, reads and writes never share references.
+export function createMemoryStorageAdapter(): StorageAdapter {
+    const stores = new Map<StoreName, Map<string, string>>(STORE_NAMES.map(name => [name, new Map()]));
+    const transaction = async (run: (tx: StorageTransaction) => void) => {
+        const operations: (() => void)[] = [];
+        run({
+            put: (store, key, value) => { const serialized = JSON.stringify(value); operations.push(() => stores.get(store)!.set(key, serialized)); },
+            delete: (store, key) => { operations.push(() => stores.get(store)!.delete(key)); },
+        });
+        operations.forEach(operation => operation());
+    };
+    return {
+        get: async (store, key) => {
+            const value = stores.get(store)!.get(key);
+            return value === undefined ? undefined : JSON.parse(value);
+        },
+        getAll: async store => Array.from(stores.get(store)!.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([key, value]) => [key, JSON.parse(value)]),
+        put: (store, key, value) => transaction(tx => tx.put(store, key, value)),
+        transaction,
+    };
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export async function createIndexedDBStorageAdapter(name: string): Promise<StorageAdapter> {
+    const openRequest = indexedDB.open(name, DB_VERSION);
+    openRequest.onupgradeneeded = () => {
+        STORE_NAMES.forEach(store => { if (!openRequest.result.objectStoreNames.contains(store)) openRequest.result.createObjectStore(store); });
+    };
+    const db = await promisifyRequest(openRequest);
+    const transaction = (run: (tx: StorageTransaction) => void) => new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(STORE_NAMES, 'readwrite');
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+        run({
+            put: (store, key, value) => { tx.objectStore(store).put(value, key); },
+            delete: (store, key) => { tx.objectStore(store).delete(key); },
+        });
+    });
+    return {
+        get: (store, key) => promisifyRequest(db.transaction(store).objectStore(store).get(key)),
+        getAll: async store => {
+            const objectStore = db.transaction(store).objectStore(store);
+            const [keys, values] = await Promise.all([promisifyRequest(objectStore.getAllKeys()), promisifyRequest(objectStore.getAll())]);
+            return keys.map((key, index) => [String(key), values[index]]);
+        },
+        put: (store, key, value) => transaction(tx => tx.put(store, key, value)),
+        transaction,
+    };
+}
+
+// Months and real expenses are separate records, so editing one expense rewrites a single transaction record.
+export function toStorageRecords(dataset: BudgetDataset): Map<string, StorageRecord> {
+    const records = new Map<string, StorageRecord>();
+    const add = (store: StoreName, key: string, value: unknown) => records.set(`${store}/${key}`, { store, key, value });
+    add('meta', 'schemaVersion', SCHEMA_VERSION);
+    Object.entries(dataset).forEach(([key, value]) => { if (key !== 'monthlyData') add('meta', key, value); });
+    Object.entries(dataset.monthlyData).forEach(([monthKey, { realExpenses, ...month }]) => {
+        add('months', monthKey, month);
+        realExpenses.forEach(expense => add('transactions', `${monthKey}:${expense.id}`, { ...expense, monthKey }));
+    });
+    return records;
+}
+
+export function serializeDataset(dataset: BudgetDataset): SerializedRecords {
+    const serialized: SerializedRecords = new Map();
+    toStorageRecords(dataset).forEach((record, id) => serialized.set(id, JSON.stringify(record.value)));
+    return serialized;
+}
+
+// Puts the records back together into a dataset, as stored; `schemaVersion` is taken out of it.
+function fromStorageRecords(records: [string, unknown][]): { schemaVersion: number | undefined; data: { [key: string]: any } } {
+    const data: { [key: string]: any } = {};
+    const monthlyData: { [key: string]: MonthlyData } = {};
+    const getMonth = (monthKey: string) => monthlyData[monthKey] ??= { realIncome: [], plannedExpenses: [], realExpenses: [], receivedIncome: [], transfers: [] };
+    records.forEach(([id, value]) => {
+        const [store, ...rest] = id.split('/');
+        const key = rest.join('/');
+        if (store === 'meta') data[key] = value;
+        else if (store === 'months') Object.assign(getMonth(key), value);
+        else if (store === 'transactions') {
+            const { monthKey, ...expense } = value as RealExpense & { monthKey: string };
+            getMonth(monthKey).realExpenses.push(expense);
+        }
+    });
+    if (Object.keys(monthlyData).length > 0) data.monthlyData = monthlyData;
+    const schemaVersion = data.schemaVersion as number | undefined;
+    delete data.schemaVersion;
+    return { schemaVersion, data };
+}
+
+// The inverse of serializeDataset, for records of the current schema.
+export const deserializeDataset = (records: ReadonlyMap<string, string>): BudgetDataset =>
+    fromStorageRecords(Array.from(records, ([id, serialized]) => [id, JSON.parse(serialized)])).data as BudgetDataset;
+
+// Writes serialized datasets to `adapter` one after the other, each save putting only the records that differ from
+// `savedRecords` and deleting those no longer there. A failed write is forgotten from `savedRecords`, so that the next
+// save retries it, and reported to `onError`.
+export function createStorageWriter(adapter: StorageAdapter, savedRecords: SerializedRecords = new Map(), onError: (error: unknown) => void = () => {}) {
+    let pendingSave: Promise<void> = Promise.resolve();
+
+    return {
+        save(records: SerializedRecords): Promise<void> {
+            const puts = Array.from(records).filter(([id, serialized]) => savedRecords.get(id) !== serialized);
+            const deletions = Array.from(savedRecords.keys()).filter(id => !records.has(id));
+            if (puts.length === 0 && deletions.length === 0) return pendingSave;
+
+            puts.forEach(([id, serialized]) => savedRecords.set(id, serialized));
+            deletions.forEach(id => savedRecords.delete(id));
+            const splitId = (id: string): [StoreName, string] => { const [store, ...key] = id.split('/'); return [store as StoreName, key.join('/')]; };
+            const write = pendingSave.then(() => adapter.transaction(tx => {
+                puts.forEach(([id, serialized]) => tx.put(...splitId(id), JSON.parse(serialized)));
+                deletions.forEach(id => tx.delete(...splitId(id)));
+            }));
+            pendingSave = write.catch(error => {
+                puts.forEach(([id]) => savedRecords.delete(id));
+                deletions.forEach(id => savedRecords.set(id, ''));
+                onError(error);
+            });
+            return write;
+        },
+    };
+}
+
+export async function readStoredDataset(adapter: StorageAdapter): Promise<{ schemaVersion: number | undefined; data: { [key: string]: any }; records: SerializedRecords }> {
+    const stores: StoreName[] = ['meta', 'months', 'transactions'];
+    const entries = (await Promise.all(stores.map(async store => (await adapter.getAll<unknown>(store)).map(([key, value]): [string, unknown] => [`${store}/${key}`, value])))).flat();
+    const records: SerializedRecords = new Map(entries.map(([id, value]) => [id, JSON.stringify(value)]));
+    return { ...fromStorageRecords(entries), records };
+}
+
+const getLegacyQuarantineKeys = (legacyStorage: Storage) =>
+    Array.from({ length: legacyStorage.length }, (_, i) => legacyStorage.key(i)!).filter(key => key.startsWith('quarantine:'));
+
+// Reads the former localStorage layout (one JSON blob per key). Unparseable values and the localStorage-era
+// quarantine are returned as quarantine entries so that nothing is lost in the move to IndexedDB.
+export function readLegacyLocalStorage(legacyStorage: Storage, now = new Date()): { data: { [key: string]: any }; quarantine: [string, unknown][] } | null {
+    if (!LEGACY_STORAGE_KEYS.some(key => legacyStorage.getItem(key) !== null)) return null;
+    const data: { [key: string]: any } = {};
+    const quarantine: [string, unknown][] = [];
+    LEGACY_STORAGE_KEYS.forEach(key => {
+        const savedData = legacyStorage.getItem(key);
+        if (savedData === null) return;
+        try { data[key] = JSON.parse(savedData); } catch { quarantine.push([`${key}:${now.toISOString()}`, savedData]); }
+    });
+    getLegacyQuarantineKeys(legacyStorage).forEach(key => quarantine.push([key.slice('quarantine:'.length), legacyStorage.getItem(key)]));
+    return { data, quarantine };
+}
+
+export function removeLegacyLocalStorage(legacyStorage: Storage) {
+    const keys = [...LEGACY_STORAGE_KEYS, ...getLegacyQuarantineKeys(legacyStorage)];
+    keys.forEach(key => legacyStorage.removeItem(key));
+}
+
+// Reads the dataset from `adapter`, or on the first load after the move to IndexedDB from `legacyStorage`, and brings it
+// up to the current schema. Parts that fail validation are put in the quarantine store and restarted from their
+// defaults. `needsSave` is set when what is stored is no longer what was loaded.
+export async function loadStoredDataset(adapter: StorageAdapter, legacyStorage: Storage | null, now = new Date()): Promise<{ dataset: BudgetDataset; records: SerializedRecords; quarantine: string[]; isLegacy: boolean; needsSave: boolean }> {
+    const stored = await readStoredDataset(adapter);
+    // Legacy data is schema 1 if it predates versioning.
+    const legacy = stored.schemaVersion === undefined && legacyStorage ? readLegacyLocalStorage(legacyStorage, now) : null;
+    const rawData = legacy ? legacy.data : stored.data;
+    const storedVersion: number = legacy ? rawData.schemaVersion ?? 1 : stored.schemaVersion ?? SCHEMA_VERSION;
+    delete rawData.schemaVersion;
+    const quarantine: [string, unknown][] = legacy ? [...legacy.quarantine] : [];
+
+    const dataset = runMigrations({ ...createDefaultDataset(), ...rawData }, storedVersion);
+    const invalidKeys = new Set(validateDataset(dataset).map(error => error.key));
+    invalidKeys.forEach(key => {
+        quarantine.push([`${key}:${now.toISOString()}`, dataset[key]]);
+        (dataset as { [key: string]: unknown })[key] = createDefaultDataset()[key];
+    });
+    if (quarantine.length > 0) await adapter.transaction(tx => quarantine.forEach(([key, value]) => tx.put('quarantine', key, value)));
+
+    return {
+        dataset,
+        records: stored.records,
+        quarantine: quarantine.map(([key]) => key),
+        isLegacy: !!legacy,
+        needsSave: !!legacy || storedVersion < SCHEMA_VERSION || invalidKeys.size > 0,
+    };
+}
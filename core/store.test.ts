@@ -0,0 +1,326 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { getEnvelopeStatus } from './envelopes';
+import { getRealExpensesForMonth } from './selectors';
+import { createBudgetStore, createDefaultDataset, createEmptyDataset, createMonthDataFromRecurring } from './store';
+import type { BudgetDataset, Category, Expense, HouseholdMember, RealExpense } from './types';
+
+const rent = (): Expense => ({ id: 1, description: 'Loyer', amount: 800, categoryId: 6, schedule: { frequency: 'monthly', interval: 1, startMonth: '2024-01', dueDay: 1 } });
+
+function createStoreWithRent() {
+    const store = createBudgetStore(createDefaultDataset());
+    ['2024-01', '2024-02', '2024-03'].forEach(month => store.getOrCreateMonth(month));
+    store.addRecurring('expense', rent(), '2024-01');
+    return store;
+}
+
+describe('real expenses', () => {
+    it('are filed in the month of their date and moved when it changes', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        store.saveRealExpense({ id: 1, description: 'Courses', amount: 30, date: '2024-03-10', categoryId: 9 });
+        store.saveRealExpense({ id: 1, description: 'Courses', amount: 30, date: '2024-04-02', categoryId: 9 });
+        expect(store.data.monthlyData['2024-03'].realExpenses).toEqual([]);
+        expect(getRealExpensesForMonth(store.data, '2024-04').map(exp => exp.id)).toEqual([1]);
+        store.deleteRealExpense(1);
+        expect(getRealExpensesForMonth(store.data, '2024-04')).toEqual([]);
+    });
+});
+
+describe('recurring templates', () => {
+    it('are instantiated in existing months and in months created later', () => {
+        const store = createStoreWithRent();
+        expect(store.data.monthlyData['2024-02'].plannedExpenses).toMatchObject([{ amount: 800, recurringId: 1, dueDate: '2024-02-01' }]);
+        expect(store.getOrCreateMonth('2024-06').plannedExpenses).toMatchObject([{ amount: 800, recurringId: 1 }]);
+    });
+
+    it('take a new version from a month on, keeping earlier months and overrides', () => {
+        const store = createStoreWithRent();
+        const overridden = store.data.monthlyData['2024-03'].plannedExpenses[0];
+        store.savePlannedExpense('2024-03', overridden.id, { description: 'Loyer', amount: 820, categoryId: 6 });
+        store.editRecurring('expense', 1, '2024-02', { description: 'Loyer', amount: 850, categoryId: 6 });
+
+        const amounts = ['2024-01', '2024-02', '2024-03'].map(month => store.data.monthlyData[month].plannedExpenses[0].amount);
+        expect(amounts).toEqual([800, 850, 820]);
+        expect(store.data.recurringExpenses[0]).toMatchObject({ amount: 850, versions: [{ fromMonth: '2024-01', amount: 800 }, { fromMonth: '2024-02', amount: 850 }] });
+    });
+
+    it('can have an overridden instance reverted to the template values', () => {
+        const store = createStoreWithRent();
+        const instance = store.data.monthlyData['2024-02'].plannedExpenses[0];
+        store.savePlannedExpense('2024-02', instance.id, { description: 'Loyer réduit', amount: 700, categoryId: 6 });
+        expect(store.data.monthlyData['2024-02'].plannedExpenses[0]).toMatchObject({ amount: 700, isOverridden: true });
+        store.revertRecurringInstance('2024-02', instance.id);
+        expect(store.data.monthlyData['2024-02'].plannedExpenses[0]).toMatchObject({ description: 'Loyer', amount: 800 });
+        expect(store.data.monthlyData['2024-02'].plannedExpenses[0]).not.toHaveProperty('isOverridden');
+    });
+
+    it('are ended when deleted from a month, then removed once already ended', () => {
+        const store = createStoreWithRent();
+        store.deleteRecurring('expense', 1, '2024-03');
+        expect(store.data.monthlyData['2024-02'].plannedExpenses).toHaveLength(1);
+        expect(store.data.monthlyData['2024-03'].plannedExpenses).toEqual([]);
+        expect(store.data.recurringExpenses[0].schedule?.endMonth).toBe('2024-02');
+
+        store.deleteRecurring('expense', 1, '2024-03');
+        expect(store.data.recurringExpenses).toEqual([]);
+    });
+});
+
+describe('planned lines', () => {
+    it('are added to and deleted from a month', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        store.savePlannedIncome('2024-05', null, { description: 'Prime', amount: 500 }, 42);
+        expect(store.data.monthlyData['2024-05'].realIncome).toEqual([{ id: 42, description: 'Prime', amount: 500, isRecurring: false }]);
+        store.deletePlannedIncome('2024-05', 42);
+        expect(store.data.monthlyData['2024-05'].realIncome).toEqual([]);
+    });
+});
+
+describe('categories', () => {
+    it('refuse duplicate names', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        expect(store.addCategory('  Voyages ')).toBeUndefined();
+        expect(store.data.categories.some(c => c.name === 'Voyages')).toBe(true);
+        expect(store.addCategory('voyages')).toBeTypeOf('string');
+    });
+
+    it('can only be deleted once unused', () => {
+        const store = createStoreWithRent();
+        const idOf = (name: string) => store.data.categories.find(c => c.name === name)!.id;
+        expect(store.deleteCategory(idOf('Logement'))).toContain('dépenses planifiées');
+        expect(store.data.categories.some(c => c.name === 'Logement')).toBe(true);
+        expect(store.deleteCategory(idOf('Animaux'))).toBeUndefined();
+        expect(store.data.categories.some(c => c.name === 'Animaux')).toBe(false);
+    });
+
+    it('are renamed without touching what refers to them', () => {
+        const store = createStoreWithRent();
+        store.saveRealExpense({ id: 5, description: 'Loyer', amount: 800, date: '2024-02-01', categoryId: 6 });
+        expect(store.renameCategory(6, 'repas')).toBeTypeOf('string');
+        expect(store.renameCategory(6, 'Habitation')).toBeUndefined();
+        expect(store.data.categories.find(c => c.id === 6)?.name).toBe('Habitation');
+        expect(store.data.monthlyData['2024-03'].plannedExpenses[0].categoryId).toBe(6);
+        expect(getRealExpensesForMonth(store.data, '2024-02')[0].categoryId).toBe(6);
+        expect(store.data.recurringExpenses[0]).toMatchObject({ categoryId: 6, versions: [{ categoryId: 6 }] });
+    });
+
+    it('are merged into another, splits and sub-categories included', () => {
+        const store = createStoreWithRent();
+        const idOf = (name: string) => store.data.categories.find(c => c.name === name)!.id;
+        store.addCategory('Charges', idOf('Logement'));
+        store.savePlannedExpense('2024-01', null, { description: 'Courses', amount: 100, categoryId: 9, splits: [{ categoryId: 9, amount: 60 }, { categoryId: 6, amount: 40 }] }, 7);
+        expect(store.mergeCategory(idOf('Logement'), idOf('Repas'))).toBeUndefined();
+        expect(store.data.categories.some(c => c.name === 'Logement')).toBe(false);
+        expect(store.data.recurringExpenses[0]).toMatchObject({ categoryId: 9, versions: [{ categoryId: 9 }] });
+        expect(store.data.monthlyData['2024-01'].plannedExpenses.find(exp => exp.id === 7)).not.toHaveProperty('splits');
+        expect(store.data.categories.find(c => c.name === 'Charges')?.parentId).toBe(idOf('Repas'));
+    });
+
+    it('nest one level deep, listed after their parent', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        const idOf = (name: string) => store.data.categories.find(c => c.name === name)!.id;
+        expect(store.addCategory('Carburant', idOf('Transport'))).toBeUndefined();
+        expect(store.addCategory('Diesel', idOf('Carburant'))).toBeTypeOf('string');
+        expect(store.setCategoryParent(idOf('Transport'), idOf('Taxes'))).toBeTypeOf('string');
+        expect(store.setCategoryParent(idOf('Animaux'), idOf('Transport'))).toBeUndefined();
+        expect(store.data.categories.slice(-3).map(c => c.name)).toEqual(['Transport', 'Animaux', 'Carburant']);
+    });
+});
+
+describe('replace', () => {
+    it('swaps in another dataset while keeping the same data object', () => {
+        const store = createBudgetStore();
+        const data = store.data;
+        store.replace({ ...createDefaultDataset(), categories: [{ id: 1, name: 'Zoo', color: '#000' }, { id: 2, name: 'Auto', color: '#000' }] });
+        expect(store.data).toBe(data);
+        expect(data.categories.map(c => c.name)).toEqual(['Auto', 'Zoo']);
+    });
+});
+
+describe('mergeDataset', () => {
+    // A backup with one March expense in `categoryId`, made by `memberId`, and the given categories and members.
+    const createBackup = (categories: Category[], members: HouseholdMember[], expense: Partial<RealExpense>): BudgetDataset => ({
+        ...createEmptyDataset(),
+        categories,
+        settings: { baseCurrency: 'EUR', members },
+        monthlyData: { '2024-03': { ...createMonthDataFromRecurring(createEmptyDataset(), '2024-03'), realExpenses: [{ id: 1, description: 'Achat', amount: 10, date: '2024-03-02', categoryId: 0, ...expense }] } },
+    });
+
+    it('points what refers to a category found by name at its id here, without changing the backup', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        const backup = createBackup([{ id: 50, name: 'Repas', color: '#000' }], [], { categoryId: 50 });
+        backup.envelopeLedger = [{ id: 1, month: '2024-03', categoryId: 50, amount: 20, kind: 'rollover' }];
+        store.mergeDataset(backup);
+        expect(store.data.categories).toHaveLength(12);
+        expect(store.data.monthlyData['2024-03'].realExpenses[0].categoryId).toBe(9);
+        expect(store.data.envelopeLedger[0].categoryId).toBe(9);
+        expect(backup.monthlyData['2024-03'].realExpenses[0].categoryId).toBe(50);
+    });
+
+    it('adds a missing sub-category under the parent of the same name here', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        store.mergeDataset(createBackup([{ id: 1, name: 'Loisirs', color: '#000' }, { id: 2, name: 'Cinéma', color: '#000', parentId: 1 }], [], { categoryId: 2 }));
+        expect(store.data.categories.find(c => c.name === 'Cinéma')).toEqual({ id: 13, name: 'Cinéma', color: '#000', parentId: 7 });
+        expect(store.data.monthlyData['2024-03'].realExpenses[0].categoryId).toBe(13);
+    });
+
+    it('matches members by name whatever its case, and adds the others', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        store.addMember('Alice', '#f00');
+        store.mergeDataset(createBackup([{ id: 9, name: 'Repas', color: '#000' }], [{ id: 5, name: 'alice', color: '#0f0', defaultShare: 1 }, { id: 6, name: 'Bob', color: '#00f', defaultShare: 1 }], {
+            categoryId: 9, memberId: 5, shares: [{ memberId: 5, weight: 1 }, { memberId: 6, weight: 2 }],
+        }));
+        expect(store.data.settings.members.map(m => [m.id, m.name])).toEqual([[1, 'Alice'], [2, 'Bob']]);
+        expect(store.data.monthlyData['2024-03'].realExpenses[0]).toMatchObject({ memberId: 1, shares: [{ memberId: 1, weight: 1 }, { memberId: 2, weight: 2 }] });
+    });
+});
+
+describe('envelopes', () => {
+    it('restart their carry-overs from a new start month', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        const repas = store.data.categories.find(c => c.name === 'Repas')!;
+        store.data.envelopeLedger = [{ id: 1, month: '2024-02', categoryId: 9, amount: 40, kind: 'rollover' }, { id: 2, month: '2024-04', categoryId: 9, amount: 10, kind: 'rollover' }];
+        store.setCategoryEnvelope(repas.id, '2024-03');
+        expect(repas.envelopeSince).toBe('2024-03');
+        expect(store.data.envelopeLedger.map(entry => entry.id)).toEqual([1]);
+        store.setCategoryEnvelope(repas.id);
+        expect(repas).not.toHaveProperty('envelopeSince');
+    });
+
+    it('move money between two envelopes as a pair of entries, removed together', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        expect(store.reallocateEnvelope('2024-03', 9, 9, 20)).toBeTypeOf('string');
+        expect(store.reallocateEnvelope('2024-03', 9, 7, 0)).toBeTypeOf('string');
+        expect(store.reallocateEnvelope('2024-03', 9, 7, 20, 'Anniversaire', 7)).toBeUndefined();
+        expect(store.data.envelopeLedger.map(entry => [entry.categoryId, entry.amount, entry.counterpartId])).toEqual([[9, -20, 7], [7, 20, 9]]);
+        store.removeReallocation(7);
+        expect(store.data.envelopeLedger).toEqual([]);
+    });
+
+    // Groceries (9) and leisure (7) are envelopes: 40 and 30 are carried over into February, where leisure gives 15 to
+    // groceries and 10 to pets (1).
+    it('keep what they hold when merged into another', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        store.setCategoryEnvelope(9, '2024-01');
+        store.setCategoryEnvelope(7, '2023-12');
+        store.setCategoryThreshold(7, 80);
+        ['2024-01', '2024-02'].forEach(monthKey => {
+            store.savePlannedExpense(monthKey, null, { description: 'Courses', amount: 100, categoryId: 9 }, Number(monthKey.slice(-1)) * 10 + 1);
+            store.savePlannedExpense(monthKey, null, { description: 'Sorties', amount: 50, categoryId: 7 }, Number(monthKey.slice(-1)) * 10 + 2);
+        });
+        store.saveRealExpense({ id: 1, description: 'Courses', amount: 60, date: '2024-01-10', categoryId: 9 });
+        store.saveRealExpense({ id: 2, description: 'Cinéma', amount: 20, date: '2024-01-12', categoryId: 7 });
+        store.reallocateEnvelope('2024-02', 7, 9, 15, undefined, 100);
+        store.reallocateEnvelope('2024-02', 7, 1, 10, undefined, 200);
+        store.syncEnvelopeRollovers('2024-02');
+        const remaining = (categoryId: number) => getEnvelopeStatus(store.data, categoryId, '2024-02').remaining;
+        expect([remaining(9), remaining(7), remaining(1)]).toEqual([155, 55, 10]);
+
+        store.mergeCategory(7, 9);
+        store.syncEnvelopeRollovers('2024-02');
+        expect(remaining(9)).toBe(210);
+        expect(remaining(1)).toBe(10);
+        expect(store.data.envelopeLedger.filter(entry => entry.kind === 'rollover').map(entry => [entry.categoryId, entry.month, entry.amount])).toEqual([[9, '2024-02', 70]]);
+        expect(store.data.envelopeLedger.find(entry => entry.categoryId === 1)?.counterpartId).toBe(9);
+        expect(store.data.categories.find(c => c.id === 9)).toMatchObject({ envelopeSince: '2023-12', alertThreshold: 80 });
+    });
+});
+
+describe('category settings', () => {
+    it('keep a positive alert threshold, dropping the default one', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        const repas = store.data.categories.find(c => c.name === 'Repas')!;
+        expect(store.setCategoryThreshold(repas.id, 0)).toBeTypeOf('string');
+        store.setCategoryThreshold(repas.id, 80);
+        expect(repas.alertThreshold).toBe(80);
+        store.setCategoryThreshold(repas.id, 100);
+        expect(repas).not.toHaveProperty('alertThreshold');
+        store.setCategoryColor(repas.id, '#000000');
+        expect(repas.color).toBe('#000000');
+    });
+});
+
+describe('recategoriseExpenses', () => {
+    it('moves expenses whole to a category, overriding recurring instances for their month', () => {
+        const store = createStoreWithRent();
+        store.saveRealExpense({ id: 5, description: 'Courses', amount: 30, date: '2024-02-10', categoryId: 9, splits: [{ categoryId: 9, amount: 20 }, { categoryId: 7, amount: 10 }] });
+        const instance = store.data.monthlyData['2024-02'].plannedExpenses[0];
+        store.recategoriseExpenses([{ kind: 'planned', monthKey: '2024-02', id: instance.id }, { kind: 'real', monthKey: '2024-02', id: 5 }], 11);
+        expect(store.data.monthlyData['2024-02'].plannedExpenses[0]).toMatchObject({ categoryId: 11, isOverridden: true });
+        expect(store.data.monthlyData['2024-02'].realExpenses[0]).toMatchObject({ categoryId: 11 });
+        expect(store.data.monthlyData['2024-02'].realExpenses[0]).not.toHaveProperty('splits');
+        expect(store.data.monthlyData['2024-03'].plannedExpenses[0].categoryId).toBe(6);
+    });
+});
+
+describe('category rules', () => {
+    it('are kept sorted by priority when saved and replaced', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        const rule = (id: number, priority: number) => ({ id, descriptionPattern: 'x', isRegex: false, categoryId: 9, priority });
+        store.saveCategoryRule(rule(1, 0));
+        store.saveCategoryRule(rule(2, 5));
+        store.saveCategoryRule(rule(1, 10));
+        expect(store.data.categoryRules.map(r => r.id)).toEqual([1, 2]);
+        store.deleteCategoryRule(1);
+        store.replace({ ...store.data, categoryRules: [rule(3, 0), rule(4, 5)] });
+        expect(store.data.categoryRules.map(r => r.id)).toEqual([4, 3]);
+    });
+});
+
+describe('goals', () => {
+    it('refuse a target before their start, and leave their expenses untagged once deleted', () => {
+        const store = createStoreWithRent();
+        const goal = { id: 1, name: 'Vacances', targetAmount: 1200, currency: 'EUR', startMonth: '2024-06', targetMonth: '2024-01' };
+        expect(store.saveGoal(goal)).toBeTypeOf('string');
+        expect(store.saveGoal({ ...goal, targetMonth: '2024-12' })).toBeUndefined();
+        store.saveGoal({ ...goal, targetMonth: '2024-12', targetAmount: 1500 });
+        expect(store.data.goals).toMatchObject([{ id: 1, targetAmount: 1500 }]);
+        store.data.recurringExpenses[0].goalId = 1;
+        store.saveRealExpense({ id: 5, description: 'Versement', amount: 100, date: '2024-02-10', categoryId: 5, goalId: 1 });
+        store.deleteGoal(1);
+        expect(store.data.goals).toEqual([]);
+        expect(store.data.recurringExpenses[0]).not.toHaveProperty('goalId');
+        expect(store.data.monthlyData['2024-02'].realExpenses[0]).not.toHaveProperty('goalId');
+    });
+});
+
+describe('accounts', () => {
+    it('have unique names, and are only deleted when unused and not the last one', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        const savings = { id: 2, name: 'Livret', kind: 'savings' as const, currency: 'EUR', openingBalance: 0, openingDate: '2024-01-01' };
+        expect(store.saveAccount({ ...savings, name: 'compte COURANT' })).toBeTypeOf('string');
+        expect(store.saveAccount(savings)).toBeUndefined();
+        store.saveTransfer({ id: 3, date: '2024-02-01', fromAccountId: 1, toAccountId: 2, amount: 50, description: '' });
+        expect(store.deleteAccount(2)).toBeTypeOf('string');
+        store.deleteTransfer(3);
+        expect(store.deleteAccount(2)).toBeUndefined();
+        expect(store.deleteAccount(1)).toBe('Il faut au moins un compte.');
+        expect(store.data.accounts.map(a => a.id)).toEqual([1]);
+    });
+});
+
+describe('exchange rates', () => {
+    it('replace the rate of the same pair and date, and refuse invalid pairs and rates', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        expect(store.saveExchangeRate({ date: '2024-03-01', from: 'CHF', to: 'EUR', rate: 1.04 }, 1)).toBeUndefined();
+        expect(store.saveExchangeRate({ date: '2024-04-01', from: 'CHF', to: 'EUR', rate: 1.05 }, 2)).toBeUndefined();
+        expect(store.saveExchangeRate({ date: '2024-03-01', from: 'CHF', to: 'EUR', rate: 1.03 }, 3)).toBeUndefined();
+        expect(store.saveExchangeRate({ date: '2024-03-01', from: 'EUR', to: 'EUR', rate: 1 }, 4)).toBeTypeOf('string');
+        expect(store.saveExchangeRate({ date: '2024-03-01', from: 'chf', to: 'EUR', rate: 1 }, 5)).toBeTypeOf('string');
+        expect(store.saveExchangeRate({ date: '2024-03-01', from: 'USD', to: 'EUR', rate: NaN }, 6)).toBe('Le taux doit être un nombre positif.');
+        expect(store.data.exchangeRates.map(r => [r.id, r.rate])).toEqual([[2, 1.05], [3, 1.03]]);
+        store.deleteExchangeRate(2);
+        expect(store.data.exchangeRates.map(r => r.id)).toEqual([3]);
+    });
+
+    it('are converted to a base currency that must be a currency code', () => {
+        const store = createBudgetStore(createDefaultDataset());
+        expect(store.setBaseCurrency('chf')).toBeTypeOf('string');
+        expect(store.data.settings.baseCurrency).toBe('EUR');
+        expect(store.setBaseCurrency('CHF')).toBeUndefined();
+        expect(store.data.settings.baseCurrency).toBe('CHF');
+    });
+});
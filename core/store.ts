@@ -0,0 +1,553 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// The budget store: a dataset and the commands that change it. Commands leave persistence and rendering to the caller,
+// and those that can be refused return the reason, ready to show, instead of changing anything.
+import { DEFAULT_CURRENCY, isCurrencyCode } from './currency';
+import { syncEnvelopeRollovers } from './envelopes';
+import { getMonthKey, shiftMonthKey } from './months';
+import { getTemplateSchedule, getTemplateValuesForMonth, instantiateRecurring, replaceRecurringInstances } from './recurrence';
+import { sortCategoryRules } from './rules';
+import { findAccount, findCategory, findCategoryByName, findRealExpense, findRecurringTemplate, getCategoryUsage, getSubCategories } from './selectors';
+import { DEFAULT_ALERT_THRESHOLD } from './variance';
+import type { Account, BudgetDataset, Category, CategoryRule, CategorySplit, EnvelopeLedgerEntry, ExchangeRate, Expense, HouseholdMember, IncomeSource, MemberShare, MonthlyData, RealExpense, ReceivedIncome, RecurrenceSchedule, SavingsGoal, TemplateVersion, TransactionDetails, TransactionType, Transfer } from './types';
+
+export const DEFAULT_CATEGORIES: Category[] = [
+    { id: 1, name: 'Animaux', color: '#10b981' }, { id: 2, name: 'Assurance', color: '#06b6d4' },
+    { id: 3, name: 'Cadeaux et association caritative', color: '#8b5cf6' }, { id: 4, name: 'Enfants', color: '#d946ef' },
+    { id: 5, name: 'Épargne ou investissements', color: '#f97316' }, { id: 6, name: 'Logement', color: '#ef4444' },
+    { id: 7, name: 'Loisirs', color: '#ec4899' }, { id: 8, name: 'Prêts', color: '#84cc16' }, { id: 9, name: 'Repas', color: '#eab308' },
+    { id: 10, name: 'Soins personnels', color: '#6366f1' }, { id: 11, name: 'Taxes', color: '#78716c' }, { id: 12, name: 'Transport', color: '#64748b' },
+];
+export const DEFAULT_CATEGORY_COLOR = '#94a3b8';
+const CATEGORY_USAGE_LABELS = { planned: 'dépenses planifiées', real: 'dépenses réelles', recurring: 'dépenses récurrentes', rules: 'règles de catégorisation' };
+const INVALID_CATEGORY_NAME = 'Ce nom de catégorie est invalide ou existe déjà.';
+
+export const createDefaultAccount = (currency: string, openingDate: string): Account => ({ id: 1, name: 'Compte courant', kind: 'checking', currency, openingBalance: 0, openingDate });
+
+export const createEmptyDataset = (): BudgetDataset => ({
+    monthlyData: {},
+    categories: [],
+    recurringIncomes: [],
+    recurringExpenses: [],
+    categoryRules: [],
+    settings: { baseCurrency: DEFAULT_CURRENCY, members: [] },
+    exchangeRates: [],
+    accounts: [],
+    envelopeLedger: [],
+    goals: [],
+});
+
+// What a first-time user starts with.
+export const createDefaultDataset = (): BudgetDataset => ({
+    ...createEmptyDataset(),
+    categories: DEFAULT_CATEGORIES.map(category => ({ ...category })),
+    accounts: [createDefaultAccount(DEFAULT_CURRENCY, `${getMonthKey(new Date())}-01`)],
+});
+
+export const getNextCategoryId = (data: BudgetDataset) => Math.max(0, ...data.categories.map(c => c.id)) + 1;
+
+// Alphabetical, with each sub-category listed right after its parent.
+export const sortCategories = (data: BudgetDataset) => {
+    const sortKey = (category: Category) => {
+        const parent = findCategory(data, category.parentId);
+        return parent ? [parent.name, category.name] : [category.name, ''];
+    };
+    data.categories.sort((a, b) => {
+        const [keyA, keyB] = [sortKey(a), sortKey(b)];
+        return keyA[0].localeCompare(keyB[0]) || keyA[1].localeCompare(keyB[1]);
+    });
+};
+
+export const createMonthDataFromRecurring = (data: BudgetDataset, monthKey: string): MonthlyData => ({
+    realIncome: data.recurringIncomes.flatMap(i => instantiateRecurring(i, monthKey)),
+    plannedExpenses: data.recurringExpenses.flatMap(e => instantiateRecurring(e, monthKey)),
+    realExpenses: [],
+    receivedIncome: [],
+    transfers: [],
+});
+
+// Returns the bucket for a month, creating it from recurring templates when it doesn't exist yet.
+const getOrCreateMonthData = (data: BudgetDataset, monthKey: string): MonthlyData => {
+    if (!data.monthlyData[monthKey]) data.monthlyData[monthKey] = createMonthDataFromRecurring(data, monthKey);
+    return data.monthlyData[monthKey];
+};
+
+// Rebuilds a template's instances, following its schedule and versions, in every existing month from `fromMonth` onwards.
+function syncRecurringInstances(data: BudgetDataset, template: IncomeSource | Expense, type: TransactionType, fromMonth: string) {
+    Object.keys(data.monthlyData).forEach(monthKey => {
+        if (monthKey < fromMonth) return;
+        const month = data.monthlyData[monthKey];
+        if (type === 'income') month.realIncome = replaceRecurringInstances(month.realIncome, template.id, instantiateRecurring(template as IncomeSource, monthKey));
+        else month.plannedExpenses = replaceRecurringInstances(month.plannedExpenses, template.id, instantiateRecurring(template as Expense, monthKey));
+    });
+}
+
+// Splits that end up in the same category are added together; an expense left with a single one is no longer split.
+function mapSplits(item: Expense | RealExpense, map: (categoryId: number) => number) {
+    if (!item.splits?.some(split => map(split.categoryId) !== split.categoryId)) return;
+    const splits = item.splits.reduce((merged, split) => {
+        const categoryId = map(split.categoryId);
+        const existing = merged.find(s => s.categoryId === categoryId);
+        if (existing) existing.amount = Math.round((existing.amount + split.amount) * 100) / 100;
+        else merged.push({ ...split, categoryId });
+        return merged;
+    }, [] as CategorySplit[]);
+    if (splits.length > 1) item.splits = splits;
+    else delete item.splits;
+}
+
+// Points everything that refers to a category at the one `map` gives for it instead, in every month, template, version,
+// rule and goal. The envelope ledger is left to the caller.
+export function mapCategoryReferences(data: BudgetDataset, map: (categoryId: number) => number) {
+    const moveExpense = (expense: Expense | RealExpense) => {
+        expense.categoryId = map(expense.categoryId);
+        mapSplits(expense, map);
+    };
+    Object.values(data.monthlyData).forEach(month => {
+        month.plannedExpenses.forEach(moveExpense);
+        month.realExpenses.forEach(moveExpense);
+    });
+    data.recurringExpenses.forEach(expense => {
+        moveExpense(expense);
+        expense.versions?.forEach(version => { if (version.categoryId !== undefined) version.categoryId = map(version.categoryId); });
+    });
+    data.categoryRules.forEach(rule => { rule.categoryId = map(rule.categoryId); });
+    data.goals.forEach(goal => { if (goal.linkedCategoryId !== undefined) goal.linkedCategoryId = map(goal.linkedCategoryId); });
+}
+
+// Moves the envelope ledger entries of `fromId` to `toId`, so that the merged envelope holds what both did: carry-overs
+// of the same month are added together, and reallocations between the two cancel out.
+function moveEnvelopeEntries(data: BudgetDataset, fromId: number, toId: number) {
+    data.envelopeLedger.forEach(entry => {
+        if (entry.categoryId === fromId) entry.categoryId = toId;
+        if (entry.counterpartId === fromId) entry.counterpartId = toId;
+    });
+    data.envelopeLedger = data.envelopeLedger.filter(entry => entry.kind !== 'reallocation' || entry.counterpartId !== entry.categoryId);
+    const rollovers = new Map<string, EnvelopeLedgerEntry>();
+    data.envelopeLedger = data.envelopeLedger.filter(entry => {
+        if (entry.categoryId !== toId || entry.kind !== 'rollover') return true;
+        const existing = rollovers.get(entry.month);
+        if (!existing) { rollovers.set(entry.month, entry); return true; }
+        existing.amount = Math.round((existing.amount + entry.amount) * 100) / 100;
+        return false;
+    });
+    data.envelopeLedger = data.envelopeLedger.filter(entry => entry.kind !== 'rollover' || entry.amount !== 0);
+}
+
+// Takes a deleted member off every transaction and template: their own become unattributed, and shared ones are shared
+// between the remaining members only.
+function removeMemberReferences(data: BudgetDataset, memberId: number) {
+    const clear = (item: { memberId?: number; shares?: MemberShare[] }) => {
+        if (item.memberId === memberId) delete item.memberId;
+        if (!item.shares) return;
+        item.shares = item.shares.filter(share => share.memberId !== memberId);
+        if (item.shares.length === 0) delete item.shares;
+    };
+    Object.values(data.monthlyData).forEach(month => {
+        [...month.realIncome, ...month.plannedExpenses, ...month.realExpenses, ...month.receivedIncome].forEach(clear);
+    });
+    [...data.recurringIncomes, ...data.recurringExpenses].forEach(clear);
+}
+
+// Adds the items whose id is not in `target` yet.
+function mergeById<T extends { id: number }>(target: T[], items: T[]) {
+    items.forEach(item => { if (!target.some(existing => existing.id === item.id)) target.push(item); });
+}
+
+export type BudgetStore = ReturnType<typeof createBudgetStore>;
+
+export function createBudgetStore(data: BudgetDataset = createEmptyDataset()) {
+    const removeRealExpense = (id: number) => {
+        Object.values(data.monthlyData).forEach(month => { month.realExpenses = month.realExpenses.filter(exp => exp.id !== id); });
+    };
+    const removeReceivedIncome = (id: number) => {
+        Object.values(data.monthlyData).forEach(month => { month.receivedIncome = month.receivedIncome.filter(income => income.id !== id); });
+    };
+    const removeTransfer = (id: number) => {
+        Object.values(data.monthlyData).forEach(month => { month.transfers = month.transfers.filter(transfer => transfer.id !== id); });
+    };
+
+    return {
+        data,
+
+        // Swaps in another dataset (loaded, restored or merged) while `data` stays the same object.
+        replace(dataset: BudgetDataset) {
+            Object.assign(data, dataset);
+            sortCategories(data);
+            sortCategoryRules(data);
+        },
+
+        // Merging only adds what is missing: existing months, transactions, categories, members, templates and rules are
+        // left untouched. `dataset` itself is not changed.
+        mergeDataset(dataset: BudgetDataset) {
+            const incoming = structuredClone(dataset);
+            const findMemberByName = (name: string) => data.settings.members.find(m => m.name.toLowerCase() === name.toLowerCase());
+
+            // Members are matched by name, whatever its case, and the incoming transactions are pointed at their ids here.
+            const memberIds = new Map(incoming.settings.members.map(member => {
+                const existing = findMemberByName(member.name);
+                if (existing) return [member.id, existing.id];
+                const id = Math.max(0, ...data.settings.members.map(m => m.id)) + 1;
+                data.settings.members.push({ ...member, id });
+                return [member.id, id];
+            }));
+            const remapMembers = (item: TransactionDetails) => {
+                if (item.memberId !== undefined) item.memberId = memberIds.get(item.memberId);
+                if (item.shares) item.shares = item.shares.flatMap(share => memberIds.get(share.memberId) === undefined ? [] : [{ ...share, memberId: memberIds.get(share.memberId)! }]);
+            };
+            Object.values(incoming.monthlyData).forEach(month => [...month.realIncome, ...month.plannedExpenses, ...month.realExpenses, ...month.receivedIncome].forEach(remapMembers));
+            [...incoming.recurringIncomes, ...incoming.recurringExpenses].forEach(remapMembers);
+
+            // Categories are matched by name. Added ones get ids free here, and their parent is looked up by name too; the
+            // incoming data is then pointed at the ids its categories have here.
+            const added = incoming.categories.filter(category => !findCategoryByName(data, category.name)).map(category => {
+                const copy = { ...category, id: getNextCategoryId(data) };
+                data.categories.push(copy);
+                return copy;
+            });
+            added.forEach(category => {
+                const parent = findCategoryByName(data, findCategory(incoming, category.parentId)?.name ?? '');
+                if (parent && parent.parentId === undefined && parent.id !== category.id) category.parentId = parent.id;
+                else delete category.parentId;
+            });
+            const categoryIds = new Map(incoming.categories.map(category => [category.id, findCategoryByName(data, category.name)!.id]));
+            const mapCategoryId = (id: number) => categoryIds.get(id) ?? id;
+            mapCategoryReferences(incoming, mapCategoryId);
+            incoming.envelopeLedger.forEach(entry => {
+                entry.categoryId = mapCategoryId(entry.categoryId);
+                if (entry.counterpartId !== undefined) entry.counterpartId = mapCategoryId(entry.counterpartId);
+            });
+
+            Object.entries(incoming.monthlyData).forEach(([monthKey, month]) => {
+                const target = data.monthlyData[monthKey];
+                if (!target) { data.monthlyData[monthKey] = month; return; }
+                mergeById(target.realIncome, month.realIncome);
+                mergeById(target.plannedExpenses, month.plannedExpenses);
+                mergeById(target.realExpenses, month.realExpenses);
+                mergeById(target.receivedIncome, month.receivedIncome);
+                mergeById(target.transfers, month.transfers);
+            });
+            mergeById(data.recurringIncomes, incoming.recurringIncomes);
+            mergeById(data.recurringExpenses, incoming.recurringExpenses);
+            mergeById(data.categoryRules, incoming.categoryRules);
+            // The base currency stays as configured here; only missing rates are added.
+            mergeById(data.exchangeRates, incoming.exchangeRates);
+            mergeById(data.accounts, incoming.accounts);
+            mergeById(data.envelopeLedger, incoming.envelopeLedger);
+            mergeById(data.goals, incoming.goals);
+            sortCategories(data);
+            sortCategoryRules(data);
+        },
+
+        getOrCreateMonth: (monthKey: string) => getOrCreateMonthData(data, monthKey),
+
+        // (Re)files an expense in the month of its date, moving it out of its previous month if the date changed.
+        saveRealExpense(expense: RealExpense) {
+            removeRealExpense(expense.id);
+            getOrCreateMonthData(data, expense.date.slice(0, 7)).realExpenses.push(expense);
+        },
+        deleteRealExpense: removeRealExpense,
+
+        // Received income is filed like real expenses, in the bucket of its date's month.
+        saveReceivedIncome(income: ReceivedIncome) {
+            removeReceivedIncome(income.id);
+            getOrCreateMonthData(data, income.date.slice(0, 7)).receivedIncome.push(income);
+        },
+        deleteReceivedIncome: removeReceivedIncome,
+
+        // Transfers are filed like real expenses, in the bucket of their date's month.
+        saveTransfer(transfer: Transfer) {
+            removeTransfer(transfer.id);
+            getOrCreateMonthData(data, transfer.date.slice(0, 7)).transfers.push(transfer);
+        },
+        deleteTransfer: removeTransfer,
+
+        // Adds a planned expense to a month, or updates the one with `id` there; a recurring instance is then overridden for
+        // that month only.
+        savePlannedExpense(monthKey: string, id: number | null, values: Omit<Expense, 'id'>, newId = Date.now()) {
+            const expenses = getOrCreateMonthData(data, monthKey).plannedExpenses;
+            if (id === null) { expenses.push({ id: newId, ...values, isRecurring: false }); return; }
+            const index = expenses.findIndex(exp => exp.id === id);
+            if (index !== -1) expenses[index] = { ...expenses[index], ...values, ...(expenses[index].isRecurring ? { isOverridden: true } : {}) };
+        },
+        deletePlannedExpense(monthKey: string, id: number) {
+            const month = data.monthlyData[monthKey];
+            if (month) month.plannedExpenses = month.plannedExpenses.filter(exp => exp.id !== id);
+        },
+
+        // Same as savePlannedExpense, for the month's planned income lines.
+        savePlannedIncome(monthKey: string, id: number | null, values: Omit<IncomeSource, 'id'>, newId = Date.now()) {
+            const incomes = getOrCreateMonthData(data, monthKey).realIncome;
+            if (id === null) { incomes.push({ id: newId, ...values, isRecurring: false }); return; }
+            const index = incomes.findIndex(income => income.id === id);
+            if (index !== -1) incomes[index] = { ...incomes[index], ...values, ...(incomes[index].isRecurring ? { isOverridden: true } : {}) };
+        },
+        deletePlannedIncome(monthKey: string, id: number) {
+            const month = data.monthlyData[monthKey];
+            if (month) month.realIncome = month.realIncome.filter(income => income.id !== id);
+        },
+
+        // Adds a template, with its values as first version from its schedule's start, and instantiates it in existing
+        // months from `fromMonth` on.
+        addRecurring(type: TransactionType, template: IncomeSource | Expense, fromMonth: string) {
+            const { description, amount, currency } = template;
+            const categoryId = type === 'expense' ? (template as Expense).categoryId : undefined;
+            template.versions ??= [{ fromMonth: getTemplateSchedule(template).startMonth, description, amount, currency, ...(categoryId !== undefined ? { categoryId } : {}) }];
+            if (type === 'income') data.recurringIncomes.push(template as IncomeSource);
+            else data.recurringExpenses.push(template as Expense);
+            syncRecurringInstances(data, template, type, fromMonth);
+        },
+
+        // Makes `values` the template's version from `fromMonth` on, and rebuilds its instances from that month. Earlier
+        // months, and instances overridden for their month, are left alone.
+        editRecurring(type: TransactionType, id: number, fromMonth: string, values: Omit<TemplateVersion, 'fromMonth'>, changes: { schedule?: RecurrenceSchedule; accountId?: number; memberId?: number; shares?: MemberShare[] } = {}) {
+            const template = findRecurringTemplate(data, id, type);
+            if (!template) return;
+            if (changes.schedule) template.schedule = changes.schedule;
+            if (type === 'income' && 'accountId' in changes) (template as IncomeSource).accountId = changes.accountId;
+            if ('memberId' in changes) template.memberId = changes.memberId;
+            if ('shares' in changes) template.shares = changes.shares;
+            template.versions = [...(template.versions || []).filter(v => v.fromMonth !== fromMonth), { fromMonth, ...values }]
+                .sort((a, b) => a.fromMonth.localeCompare(b.fromMonth));
+            Object.assign(template, getTemplateValuesForMonth(template, template.versions[template.versions.length - 1].fromMonth));
+            syncRecurringInstances(data, template, type, fromMonth);
+        },
+
+        // Stops a template from `fromMonth` on. Earlier months keep their instances, and the template itself is kept
+        // (ended) so that they can still be reverted to it; deleting an already ended template removes it from the list.
+        deleteRecurring(type: TransactionType, id: number, fromMonth: string) {
+            Object.entries(data.monthlyData).forEach(([monthKey, month]) => {
+                if (monthKey < fromMonth) return;
+                if (type === 'income') month.realIncome = month.realIncome.filter(i => i.recurringId !== id);
+                else month.plannedExpenses = month.plannedExpenses.filter(e => e.recurringId !== id);
+            });
+
+            const template = findRecurringTemplate(data, id, type);
+            const schedule = template && getTemplateSchedule(template);
+            const lastMonth = shiftMonthKey(fromMonth, -1);
+            const isAlreadyEnded = schedule?.endMonth !== undefined && schedule.endMonth <= lastMonth;
+            if (template && schedule && schedule.startMonth <= lastMonth && !isAlreadyEnded) {
+                template.schedule = { ...schedule, endMonth: lastMonth };
+            } else if (type === 'income') {
+                data.recurringIncomes = data.recurringIncomes.filter(i => i.id !== id);
+            } else {
+                data.recurringExpenses = data.recurringExpenses.filter(e => e.id !== id);
+            }
+        },
+
+        // Puts back the template's values on an instance that was overridden for its month.
+        revertRecurringInstance(monthKey: string, id: number) {
+            const month = data.monthlyData[monthKey];
+            const income = month?.realIncome.find(i => i.id === id);
+            const instance: IncomeSource | Expense | undefined = income || month?.plannedExpenses.find(e => e.id === id);
+            const template = instance && findRecurringTemplate(data, instance.recurringId, income ? 'income' : 'expense');
+            if (!instance || !template) return;
+            Object.assign(instance, getTemplateValuesForMonth(template, monthKey));
+            delete instance.isOverridden;
+        },
+
+        // Sub-categories take their parent's color.
+        addCategory(name: string, parentId?: number): string | undefined {
+            const trimmed = name.trim();
+            if (!trimmed || data.categories.some(c => c.name.toLowerCase() === trimmed.toLowerCase())) return INVALID_CATEGORY_NAME;
+            const parent = findCategory(data, parentId);
+            if (parent?.parentId !== undefined) return 'Une sous-catégorie ne peut pas avoir de sous-catégories.';
+            data.categories.push({ id: getNextCategoryId(data), name: trimmed, color: parent?.color ?? DEFAULT_CATEGORY_COLOR, ...(parent ? { parentId: parent.id } : {}) });
+            sortCategories(data);
+        },
+
+        renameCategory(id: number, name: string): string | undefined {
+            const category = findCategory(data, id);
+            const trimmed = name.trim();
+            if (!category) return;
+            if (!trimmed || data.categories.some(c => c.id !== id && c.name.toLowerCase() === trimmed.toLowerCase())) return INVALID_CATEGORY_NAME;
+            category.name = trimmed;
+            sortCategories(data);
+        },
+
+        // Makes a category a sub-category of `parentId`, or a top-level one without it. Only one level of nesting is allowed.
+        setCategoryParent(id: number, parentId?: number): string | undefined {
+            const category = findCategory(data, id);
+            const parent = findCategory(data, parentId);
+            if (!category) return;
+            if (parent) {
+                if (parent.id === id || parent.parentId !== undefined) return 'Une sous-catégorie ne peut pas avoir de sous-catégories.';
+                if (getSubCategories(data, id).length > 0) return `"${category.name}" a des sous-catégories et ne peut pas devenir une sous-catégorie.`;
+                category.parentId = parent.id;
+            } else {
+                delete category.parentId;
+            }
+            sortCategories(data);
+        },
+
+        // Moves everything filed under `sourceId` into `targetId`, sub-categories and envelope included, then deletes the
+        // source. The target keeps the stricter of the two alert thresholds, and runs as an envelope from the earlier start.
+        mergeCategory(sourceId: number, targetId: number): string | undefined {
+            const source = findCategory(data, sourceId);
+            const target = findCategory(data, targetId);
+            if (!source || !target) return;
+            if (source.id === target.id) return 'Choisissez une autre catégorie.';
+            if (target.parentId === source.id) delete target.parentId;
+            getSubCategories(data, source.id).forEach(child => { child.parentId = target.parentId ?? target.id; });
+            mapCategoryReferences(data, id => id === source.id ? target.id : id);
+            moveEnvelopeEntries(data, source.id, target.id);
+            if (source.alertThreshold !== undefined) target.alertThreshold = Math.min(source.alertThreshold, target.alertThreshold ?? DEFAULT_ALERT_THRESHOLD);
+            if (source.envelopeSince && !(target.envelopeSince && target.envelopeSince <= source.envelopeSince)) target.envelopeSince = source.envelopeSince;
+            data.categories = data.categories.filter(c => c.id !== source.id);
+            sortCategories(data);
+        },
+
+        addMember(name: string, color: string, defaultShare = 1): string | undefined {
+            const trimmed = name.trim();
+            const members = data.settings.members;
+            if (!trimmed || members.some(m => m.name.toLowerCase() === trimmed.toLowerCase())) return 'Ce nom est invalide ou déjà utilisé.';
+            if (!(defaultShare >= 0)) return 'La part doit être un nombre positif ou nul.';
+            members.push({ id: Math.max(0, ...members.map(m => m.id)) + 1, name: trimmed, color, defaultShare });
+        },
+        updateMember(id: number, values: Partial<Omit<HouseholdMember, 'id'>>): string | undefined {
+            const member = data.settings.members.find(m => m.id === id);
+            if (!member) return;
+            const name = values.name?.trim();
+            if (name !== undefined && (!name || data.settings.members.some(m => m.id !== id && m.name.toLowerCase() === name.toLowerCase()))) return 'Ce nom est invalide ou déjà utilisé.';
+            if (values.defaultShare !== undefined && !(values.defaultShare >= 0)) return 'La part doit être un nombre positif ou nul.';
+            Object.assign(member, values, name !== undefined ? { name } : {});
+        },
+        deleteMember(id: number) {
+            removeMemberReferences(data, id);
+            data.settings.members = data.settings.members.filter(m => m.id !== id);
+        },
+
+        // Only categories no transaction or rule refers to any more can be deleted; their sub-categories become top-level
+        // ones, goals paid from them no longer are, and their envelope entries go with them (both sides of a reallocation).
+        deleteCategory(id: number): string | undefined {
+            const category = findCategory(data, id);
+            if (!category) return;
+            const usage = getCategoryUsage(data, id);
+            if (usage.length > 0) return `Impossible de supprimer "${category.name}" car elle est utilisée dans des ${usage.map(key => CATEGORY_USAGE_LABELS[key]).join(', ')}. Fusionnez-la plutôt dans une autre catégorie.`;
+            getSubCategories(data, id).forEach(child => { delete child.parentId; });
+            data.goals.forEach(goal => { if (goal.linkedCategoryId === id) delete goal.linkedCategoryId; });
+            const pairIds = new Set(data.envelopeLedger.filter(entry => entry.categoryId === id && entry.pairId !== undefined).map(entry => entry.pairId));
+            data.envelopeLedger = data.envelopeLedger.filter(entry => entry.categoryId !== id && !(entry.pairId !== undefined && pairIds.has(entry.pairId)));
+            data.categories = data.categories.filter(c => c.id !== id);
+            sortCategories(data);
+        },
+
+        setCategoryColor(id: number, color: string) {
+            const category = findCategory(data, id);
+            if (category) category.color = color;
+        },
+
+        // The alert threshold is a percentage of the planned amount; the default one isn't stored.
+        setCategoryThreshold(id: number, threshold: number): string | undefined {
+            const category = findCategory(data, id);
+            if (!category) return;
+            if (isNaN(threshold) || threshold <= 0) return 'Le seuil doit être un pourcentage positif.';
+            if (threshold === DEFAULT_ALERT_THRESHOLD) delete category.alertThreshold;
+            else category.alertThreshold = threshold;
+        },
+
+        // Runs a category as an envelope from `fromMonth`, or no longer without it. Carry-overs recorded during an earlier
+        // envelope period no longer apply from the new start month.
+        setCategoryEnvelope(id: number, fromMonth?: string) {
+            const category = findCategory(data, id);
+            if (!category) return;
+            if (fromMonth === undefined) { delete category.envelopeSince; return; }
+            category.envelopeSince = fromMonth;
+            data.envelopeLedger = data.envelopeLedger.filter(entry => !(entry.categoryId === id && entry.kind === 'rollover' && entry.month >= fromMonth));
+        },
+
+        // Moves `amount` from one envelope to another for a month, as a pair of ledger entries sharing `pairId`.
+        reallocateEnvelope(monthKey: string, fromId: number, toId: number, amount: number, note?: string, pairId = Date.now()): string | undefined {
+            if (fromId === toId) return 'Choisissez deux enveloppes différentes.';
+            if (isNaN(amount) || amount <= 0) return 'Veuillez saisir un montant positif.';
+            data.envelopeLedger.push(
+                { id: pairId, month: monthKey, categoryId: fromId, amount: -amount, kind: 'reallocation', pairId, counterpartId: toId, note },
+                { id: pairId + 1, month: monthKey, categoryId: toId, amount, kind: 'reallocation', pairId, counterpartId: fromId, note },
+            );
+        },
+        removeReallocation(pairId: number) {
+            data.envelopeLedger = data.envelopeLedger.filter(entry => entry.pairId !== pairId);
+        },
+        syncEnvelopeRollovers: (lastMonth: string) => syncEnvelopeRollovers(data, lastMonth),
+
+        // Moves planned and real expenses, whole, to one category: their splits are dropped, and recurring instances are
+        // changed for their month only.
+        recategoriseExpenses(expenses: { kind: 'planned' | 'real'; monthKey: string; id: number }[], categoryId: number) {
+            expenses.forEach(({ kind, monthKey, id }) => {
+                if (kind === 'real') {
+                    const expense = findRealExpense(data, id);
+                    if (!expense) return;
+                    delete expense.splits;
+                    expense.categoryId = categoryId;
+                    return;
+                }
+                const expense = data.monthlyData[monthKey]?.plannedExpenses.find(exp => exp.id === id);
+                if (!expense) return;
+                delete expense.splits;
+                expense.categoryId = categoryId;
+                if (expense.isRecurring) expense.isOverridden = true;
+            });
+        },
+
+        // Adds a rule, or replaces the one with its id.
+        saveCategoryRule(rule: CategoryRule) {
+            const index = data.categoryRules.findIndex(r => r.id === rule.id);
+            if (index !== -1) data.categoryRules[index] = rule;
+            else data.categoryRules.push(rule);
+            sortCategoryRules(data);
+        },
+        deleteCategoryRule(id: number) {
+            data.categoryRules = data.categoryRules.filter(r => r.id !== id);
+        },
+
+        // Adds a goal, or updates the one with its id.
+        saveGoal(goal: SavingsGoal): string | undefined {
+            if (goal.targetMonth < goal.startMonth) return 'La date cible doit être postérieure au début de l\'objectif.';
+            const existing = data.goals.find(g => g.id === goal.id);
+            if (existing) Object.assign(existing, goal);
+            else data.goals.push(goal);
+        },
+        // The expenses paying into the goal are kept, without their link to it.
+        deleteGoal(id: number) {
+            const untag = (item: { goalId?: number }) => { if (item.goalId === id) delete item.goalId; };
+            Object.values(data.monthlyData).forEach(month => { month.plannedExpenses.forEach(untag); month.realExpenses.forEach(untag); });
+            data.recurringExpenses.forEach(untag);
+            data.goals = data.goals.filter(g => g.id !== id);
+        },
+
+        // Adds an account, or updates the one with its id. Account names are unique, whatever their case.
+        saveAccount(account: Account): string | undefined {
+            if (data.accounts.some(a => a.name.toLowerCase() === account.name.toLowerCase() && a.id !== account.id)) return 'Un compte porte déjà ce nom.';
+            const existing = findAccount(data, account.id);
+            if (existing) Object.assign(existing, account);
+            else data.accounts.push(account);
+        },
+        // Only accounts nothing refers to any more can be deleted, and there is always one left.
+        deleteAccount(id: number): string | undefined {
+            const account = findAccount(data, id);
+            if (!account) return;
+            if (data.accounts.length === 1) return 'Il faut au moins un compte.';
+            const isUsed = Object.values(data.monthlyData).some(month => month.realExpenses.some(e => e.accountId === id) || month.realIncome.some(i => i.accountId === id) || month.receivedIncome.some(i => i.accountId === id) || month.transfers.some(t => t.fromAccountId === id || t.toAccountId === id))
+                || data.recurringIncomes.some(i => i.accountId === id);
+            if (isUsed) return `Impossible de supprimer "${account.name}" car des transactions ou des virements y sont rattachés. Veuillez d'abord les modifier ou les supprimer.`;
+            data.accounts = data.accounts.filter(a => a.id !== id);
+        },
+
+        // A new rate replaces any existing one for the same pair and date.
+        saveExchangeRate(rate: Omit<ExchangeRate, 'id'>, id = Date.now()): string | undefined {
+            if (!isCurrencyCode(rate.from) || !isCurrencyCode(rate.to) || rate.from === rate.to) return 'Veuillez indiquer deux codes de devise différents à 3 lettres (ex : CHF, EUR).';
+            if (!(rate.rate > 0)) return 'Le taux doit être un nombre positif.';
+            data.exchangeRates = data.exchangeRates.filter(r => !(r.date === rate.date && r.from === rate.from && r.to === rate.to));
+            data.exchangeRates.push({ id, ...rate });
+        },
+        deleteExchangeRate(id: number) {
+            data.exchangeRates = data.exchangeRates.filter(r => r.id !== id);
+        },
+        setBaseCurrency(currency: string): string | undefined {
+            if (!isCurrencyCode(currency)) return 'Code de devise invalide.';
+            data.settings = { ...data.settings, baseCurrency: currency };
+        },
+    };
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createEmptyDataset } from './store';
+import { getCategoryDeltas, getMonthTrend, getTrendsForRange } from './trends';
+import type { BudgetDataset, MonthlyData } from './types';
+
+const month = (values: Partial<MonthlyData>): MonthlyData => ({ realIncome: [], plannedExpenses: [], realExpenses: [], receivedIncome: [], transfers: [], ...values });
+
+function createDataset(): BudgetDataset {
+    const data = createEmptyDataset();
+    data.monthlyData['2023-03'] = month({ realExpenses: [{ id: 1, description: 'Courses', amount: 50, date: '2023-03-10', categoryId: 9 }] });
+    data.monthlyData['2024-02'] = month({ realExpenses: [{ id: 2, description: 'Courses', amount: 80, date: '2024-02-10', categoryId: 9 }] });
+    data.monthlyData['2024-03'] = month({
+        realIncome: [{ id: 3, description: 'Salaire', amount: 2500 }],
+        plannedExpenses: [{ id: 4, description: 'Loyer', amount: 800, categoryId: 6 }],
+        realExpenses: [{ id: 5, description: 'Courses', amount: 100, date: '2024-03-10', categoryId: 9 }, { id: 6, description: 'Loyer', amount: 800, date: '2024-03-01', categoryId: 6 }],
+        receivedIncome: [{ id: 7, description: 'Salaire', amount: 2000, date: '2024-03-28' }],
+    });
+    return data;
+}
+
+describe('getMonthTrend', () => {
+    it('measures the savings rate against received income when there is some', () => {
+        expect(getMonthTrend(createDataset(), '2024-03')).toEqual({
+            month: '2024-03', plannedIncome: 2500, receivedIncome: 2000, planned: 800, actual: 900, spendingByCategory: { 9: 100, 6: 800 }, savingsRate: 0.55,
+        });
+    });
+
+    it('has no savings rate for a month without income', () => {
+        expect(getTrendsForRange(createDataset(), { from: '2024-02', to: '2024-03' }).map(trend => trend.savingsRate)).toEqual([null, 0.55]);
+    });
+});
+
+describe('getCategoryDeltas', () => {
+    it('compares each category with the month before and the year before', () => {
+        expect(getCategoryDeltas(createDataset(), '2024-03')).toEqual([
+            { categoryId: 6, current: 800, previousMonth: 0, previousYear: 0 },
+            { categoryId: 9, current: 100, previousMonth: 80, previousYear: 50 },
+        ]);
+    });
+});
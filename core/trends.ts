@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Month-by-month totals for trend charts, and how each category's spending moved against earlier months. Amounts are in
+// the base currency.
+import { sumInBase } from './currency';
+import { getMonthsInRange, shiftMonthKey } from './months';
+import { getTotalsCategoryIds, sumByCategory } from './selectors';
+import type { BudgetDataset, CategoryDelta, MonthTrend, StatsRange } from './types';
+
+// Savings rate is measured against received income when some was recorded for the month, planned income otherwise.
+export function getMonthTrend(data: BudgetDataset, monthKey: string): MonthTrend {
+    const month = data.monthlyData[monthKey];
+    const plannedIncome = sumInBase(data, month?.realIncome || [], monthKey);
+    const receivedIncome = sumInBase(data, month?.receivedIncome || [], monthKey);
+    const realExpenses = month?.realExpenses || [];
+    const spendingByCategory = sumByCategory(data, realExpenses, monthKey);
+    const actual = sumInBase(data, realExpenses, monthKey);
+    const income = receivedIncome > 0 ? receivedIncome : plannedIncome;
+    return {
+        month: monthKey,
+        plannedIncome,
+        receivedIncome,
+        planned: sumInBase(data, month?.plannedExpenses || [], monthKey),
+        actual,
+        spendingByCategory,
+        savingsRate: income > 0 ? (income - actual) / income : null,
+    };
+}
+
+export const getTrendsForRange = (data: BudgetDataset, range: StatsRange) => getMonthsInRange(range).map(monthKey => getMonthTrend(data, monthKey));
+
+// Actual spending per category in a month, against the month before and the same month a year earlier.
+export function getCategoryDeltas(data: BudgetDataset, monthKey: string): CategoryDelta[] {
+    const current = getMonthTrend(data, monthKey).spendingByCategory;
+    const previousMonth = getMonthTrend(data, shiftMonthKey(monthKey, -1)).spendingByCategory;
+    const previousYear = getMonthTrend(data, shiftMonthKey(monthKey, -12)).spendingByCategory;
+    const ids = new Set([...data.categories.map(c => c.id), ...getTotalsCategoryIds(current), ...getTotalsCategoryIds(previousMonth), ...getTotalsCategoryIds(previousYear)]);
+    return [...ids]
+        .map(categoryId => ({ categoryId, current: current[categoryId] || 0, previousMonth: previousMonth[categoryId] || 0, previousYear: previousYear[categoryId] || 0 }))
+        .filter(delta => delta.current || delta.previousMonth || delta.previousYear)
+        .sort((a, b) => b.current - a.current);
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Shapes of the budget data. Everything here is persisted, in backups as in storage; see migrations.ts when changing it.
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+// Occurs every `interval` periods from `startMonth`, on `dueDay` of the month (weekly schedules count from that first date).
+export type RecurrenceSchedule = { frequency: RecurrenceFrequency; interval: number; startMonth: string; endMonth?: string; occurrences?: number; dueDay: number };
+// Values of a recurring template in effect from `fromMonth` until the next version.
+export type TemplateVersion = { fromMonth: string; description: string; amount: number; categoryId?: number; currency?: string };
+// Receipt or invoice kept in the attachments store under `id`; transactions only hold this reference.
+export type AttachmentRef = { id: number; name: string; type: string };
+// Part of a shared expense borne by a member, as a weight against the other members' (weights 2 and 1 split it in thirds).
+export type MemberShare = { memberId: number; weight: number };
+// Details any planned or real transaction can carry besides its description and category. `memberId` is the household
+// member who earned or paid it; an expense with `shares` is shared between those members, otherwise it is the payer's.
+export type TransactionDetails = { payee?: string; tags?: string[]; note?: string; attachments?: AttachmentRef[]; memberId?: number; shares?: MemberShare[] };
+// Part of an expense's amount, in its currency, that goes to a category. An expense's splits sum to its amount, and its
+// `categoryId` is then the first split's.
+export type CategorySplit = { categoryId: number; amount: number };
+// Templates carry a `schedule` and effective-dated `versions`; their monthly instances carry `recurringId`, the `dueDate`
+// of their occurrence, and `isOverridden` once edited for that month only.
+// Amounts are in `currency`, or in EUR (the only currency before multi-currency support) when it is absent.
+export type IncomeSource = { id: number; description: string; amount: number; currency?: string; accountId?: number; isRecurring?: boolean; recurringId?: number; dueDate?: string; isOverridden?: boolean; schedule?: RecurrenceSchedule; versions?: TemplateVersion[] } & TransactionDetails;
+export type Expense = { id: number; description: string; amount: number; currency?: string; categoryId: number; splits?: CategorySplit[]; goalId?: number; isRecurring?: boolean; recurringId?: number; dueDate?: string; isOverridden?: boolean; schedule?: RecurrenceSchedule; versions?: TemplateVersion[] } & TransactionDetails;
+export type RealExpense = { id: number; description: string; amount: number; currency?: string; accountId?: number; date: string; categoryId: number; splits?: CategorySplit[]; goalId?: number; } & TransactionDetails;
+// Income that actually arrived, optionally matched against a planned income line of its month (`expectedIncomeId`).
+export type ReceivedIncome = { id: number; description: string; amount: number; currency?: string; accountId?: number; date: string; expectedIncomeId?: number; memberId?: number };
+export type MoneyItem = { amount: number; currency?: string; date?: string; dueDate?: string };
+// 1 `from` is worth `rate` `to` from `date` until the next rate for the pair.
+export type ExchangeRate = { id: number; date: string; from: string; to: string; rate: number };
+// Someone sharing the budget. `defaultShare` is their weight in a newly shared expense.
+export type HouseholdMember = { id: number; name: string; color: string; defaultShare: number };
+export type BudgetSettings = { baseCurrency: string; members: HouseholdMember[] };
+export type AccountKind = 'checking' | 'savings' | 'cash' | 'credit';
+// `openingBalance` is the balance at the start of `openingDate`; earlier movements are ignored.
+export type Account = { id: number; name: string; kind: AccountKind; currency: string; openingBalance: number; openingDate: string };
+// Moves `amount`, in the source account's currency, between two accounts. Never counted as income or spending.
+export type Transfer = { id: number; date: string; fromAccountId: number; toAccountId: number; amount: number; description: string };
+// Saved towards by the real expenses tagged with its id and by transfers into `accountId`; planned expenses tagged with it
+// are the contributions still to come. `targetAmount` is in `currency`.
+export type SavingsGoal = { id: number; name: string; targetAmount: number; currency: string; startMonth: string; targetMonth: string; linkedCategoryId?: number; accountId?: number };
+// Transactions, rules, goals and the envelope ledger refer to a category by `id`, so renaming one only changes `name`,
+// which is looked up for display. `parentId` makes it a sub-category of a top-level category, whose totals then include its own.
+// `alertThreshold` is the share of the planned amount, in percent, at which spending (actual or projected) raises a warning.
+// `envelopeSince` is the first month the category is run as an envelope: what is left of it carries over to the next month.
+export type Category = { id: number; name: string; color: string; parentId?: number; alertThreshold?: number; envelopeSince?: string; };
+// Money added to (positive) or taken from (negative) an envelope for a month: the carry-over from the month before, or a
+// manual reallocation, recorded as two entries sharing a `pairId`, each with the other's category as `counterpartId`.
+export type EnvelopeLedgerEntry = { id: number; month: string; categoryId: number; amount: number; kind: 'rollover' | 'reallocation'; pairId?: number; counterpartId?: number; note?: string };
+export type CategoryRule = { id: number; descriptionPattern: string; isRegex: boolean; minAmount?: number; maxAmount?: number; categoryId: number; priority: number };
+export type TransactionType = 'expense' | 'income';
+
+// Despite its name, `realIncome` holds the planned income lines; what actually arrived is in `receivedIncome`.
+export type MonthlyData = { realIncome: IncomeSource[], plannedExpenses: Expense[], realExpenses: RealExpense[], receivedIncome: ReceivedIncome[], transfers: Transfer[] };
+
+export type BudgetDataset = { monthlyData: { [key: string]: MonthlyData }; categories: Category[]; recurringIncomes: IncomeSource[]; recurringExpenses: Expense[]; categoryRules: CategoryRule[]; settings: BudgetSettings; exchangeRates: ExchangeRate[]; accounts: Account[]; envelopeLedger: EnvelopeLedgerEntry[]; goals: SavingsGoal[] };
+export type Migration = { version: number; description: string; migrate: (data: { [key: string]: any }) => void };
+export type DatasetValidationError = { key: keyof BudgetDataset; message: string };
+
+export type StatsRange = { from: string; to: string };
+// Base-currency totals of a month: planned income lines, planned expenses, real expenses and income actually received.
+export type MonthTotals = { plannedIncome: number; plannedExpenses: number; actualSpent: number; receivedIncome: number };
+// Totals keyed by category id.
+export type CategoryTotals = { [categoryId: number]: number };
+// Nodes are identified by name; link values are in the base currency.
+export type SankeyGraph = { nodes: { name: string }[]; links: { source: string; target: string; value: number }[] };
+
+export type ReportTransactionKind = 'plannedIncome' | 'plannedExpense' | 'realExpense' | 'receivedIncome';
+// A transaction as exported: planned lines are dated by their due date, when they have one. `amount` is in `currency`.
+export type ReportTransaction = { month: string; date: string; kind: ReportTransactionKind; description: string; categories: string[]; payee: string; tags: string[]; amount: number; currency: string; baseAmount: number };
+// What was planned, spent and is left in a category for a month; `parent` is set for sub-categories.
+export type ReportCategoryRow = { category: string; parent?: string; planned: number; spent: number; remaining: number };
+export type ReportMemberRow = { member: string; received: number; paid: number; share: number; balance: number };
+export type ReportSettlement = { from: string; to: string; amount: number };
+// `member` names the household member the report is restricted to, if any.
+export type BudgetReport = { range: StatsRange; baseCurrency: string; member?: string; months: { month: string; totals: MonthTotals; categories: ReportCategoryRow[]; members: ReportMemberRow[]; settlements: ReportSettlement[] }[]; transactions: ReportTransaction[] };
+// A table as exported, with a header row first; numbers stay numbers so that spreadsheets can compute with them.
+export type ReportTable = { name: string; rows: (string | number)[][] };
+// What a member received and paid in a month, and their part of the expenses; `balance` is what the others owe them
+// (negative when they owe the others). All in the base currency.
+export type MemberBalance = { memberId: number; received: number; paid: number; share: number; balance: number };
+export type Settlement = { fromMemberId: number; toMemberId: number; amount: number };
+
+// A dated movement of an account, in the account's currency.
+export type AccountMovement = { date: string; amount: number; description: string };
+// What an envelope holds for a month: its planned amount, plus what the month before left of it and what was moved to
+// (or from) it; `remaining` is what is left once `spent` is taken out.
+export type EnvelopeStatus = { categoryId: number; planned: number; carriedOver: number; reallocated: number; available: number; spent: number; remaining: number };
+// Contributions and amounts are in the goal's currency. `projectedMonth` is when the goal is reached at the average pace so
+// far, null when nothing was saved towards it yet.
+export type GoalContribution = { date: string; amount: number; description: string };
+export type GoalProgress = { goal: SavingsGoal; contributions: GoalContribution[]; contributed: number; scheduled: number; remaining: number; percent: number; monthsLeft: number; requiredMonthly: number; averageMonthly: number; projectedMonth: string | null };
+// `variable` is what history says will be spent beyond the planned items; `cumulative` is projected net worth at month end.
+export type ForecastMonth = { month: string; income: number; recurring: number; oneOff: number; variable: number; expenses: number; balance: number; cumulative: number; isStored: boolean };
+export type VarianceStatus = 'over' | 'threshold' | 'pace' | 'ok';
+// `burnRate` is spending per elapsed day, and `projected` what it comes to by the end of the month.
+export type Variance = { planned: number; spent: number; overspend: number; overspendPercent: number | null; burnRate: number; projected: number; threshold: number; status: VarianceStatus };
+export type CategoryVariance = Variance & { categoryId: number };
+export type VarianceReport = { categories: CategoryVariance[]; overall: Variance; daysElapsed: number; daysInMonth: number };
+export type MonthTrend = { month: string; plannedIncome: number; receivedIncome: number; planned: number; actual: number; spendingByCategory: CategoryTotals; savingsRate: number | null };
+export type CategoryDelta = { categoryId: number; current: number; previousMonth: number; previousYear: number };
+// Past transactions a rule would match; `conflicts` counts those filed in another category than the rule's.
+export type RuleTestResult = { matches: { description: string; amount: number; categoryId: number; monthKey: string }[]; conflicts: number };
+export type TagReport = { tag: string; count: number; spent: number; planned: number; byCategory: CategoryTotals; firstDate: string; lastDate: string };
+export type SearchKind = 'planned' | 'real' | 'income' | 'received';
+export type SearchSortKey = 'date' | 'description' | 'category' | 'kind' | 'amount';
+export type SearchFilters = { query: string; tag: string; payee: string; categoryId: number | null; minAmount: number | null; maxAmount: number | null; fromDate: string; toDate: string; kind: SearchKind | ''; recurrence: 'recurring' | 'oneOff' | '' };
+// `key` locates the item (kind, month bucket and id); `amount` is in the base currency, positive for income.
+export type SearchResult = { key: string; kind: SearchKind; monthKey: string; id: number; date: string; description: string; categoryIds: number[]; amount: number; isRecurring: boolean; item: Expense | RealExpense | IncomeSource | ReceivedIncome };
+
+export type ImportFormat = 'csv' | 'ofx' | 'qif';
+export type ImportDateFormat = 'dmy' | 'ymd' | 'mdy';
+// Columns are 0-based; `expensesArePositive` is for banks listing money going out as positive amounts.
+export type CsvMapping = { separator: string; hasHeader: boolean; dateColumn: number; descriptionColumn: number; amountColumn: number; decimalComma: boolean; dateFormat: ImportDateFormat; expensesArePositive: boolean };
+export type ParsedStatementEntry = { date: string; description: string; amount: number };
+
+// What the model read on a receipt photo. `date` is YYYY-MM-DD, or '' when unreadable; `categoryId` is the budget
+// category it chose, absent when none fits.
+export type ReceiptLineItem = { description: string; amount: number };
+export type ReceiptScan = { merchant: string; date: string; total: number; currency?: string; items: ReceiptLineItem[]; categoryId?: number };
+
+// A budget change proposed by the assistant, applied only once the user confirms it. `month` is the month of the planned
+// expense, or the month a recurring expense's new version takes effect; `before` is absent for additions. A planned
+// expense is referred to by `id`, or, in a month not created yet, by its template's `recurringId` and its `dueDate`.
+export type AssistantChangeValues = { description: string; amount: number; categoryId: number };
+export type AssistantChange = { kind: 'add-planned-expense' | 'update-planned-expense' | 'update-recurring-expense'; month: string; id?: number; recurringId?: number; dueDate?: string; currency: string; before?: AssistantChangeValues; after: AssistantChangeValues };
+export type AssistantProposal = { summary: string; changes: AssistantChange[]; status: 'pending' | 'applied' | 'rejected' };
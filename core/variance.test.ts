@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createEmptyDataset } from './store';
+import type { BudgetDataset } from './types';
+import { getDaysElapsed, getVarianceReport } from './variance';
+
+const TODAY = new Date(2024, 3, 10);
+
+// Ten days into April: rent already over, groceries on pace to go over, outings past their own 80 % threshold.
+function createDataset(): BudgetDataset {
+    const data = createEmptyDataset();
+    data.categories = [{ id: 1, name: 'Logement', color: '#ef4444' }, { id: 2, name: 'Loisirs', color: '#ec4899', alertThreshold: 80 }, { id: 3, name: 'Repas', color: '#eab308' }];
+    data.monthlyData['2024-04'] = {
+        realIncome: [],
+        plannedExpenses: [
+            { id: 1, description: 'Loyer', amount: 800, categoryId: 1 },
+            { id: 2, description: 'Sorties', amount: 100, categoryId: 2 },
+            { id: 3, description: 'Courses', amount: 300, categoryId: 3 },
+        ],
+        realExpenses: [
+            { id: 4, description: 'Loyer', amount: 900, date: '2024-04-01', categoryId: 1 },
+            { id: 5, description: 'Cinéma', amount: 85, date: '2024-04-05', categoryId: 2 },
+            { id: 6, description: 'Courses', amount: 200, date: '2024-04-08', categoryId: 3 },
+        ],
+        receivedIncome: [],
+        transfers: [],
+    };
+    return data;
+}
+
+describe('getDaysElapsed', () => {
+    it('counts every day of past months and none of future ones', () => {
+        expect(getDaysElapsed('2024-03', TODAY)).toEqual({ daysElapsed: 31, daysInMonth: 31 });
+        expect(getDaysElapsed('2024-04', TODAY)).toEqual({ daysElapsed: 10, daysInMonth: 30 });
+        expect(getDaysElapsed('2024-05', TODAY)).toEqual({ daysElapsed: 0, daysInMonth: 31 });
+    });
+});
+
+describe('getVarianceReport', () => {
+    it('flags overspending, thresholds and the spending pace', () => {
+        const report = getVarianceReport(createDataset(), '2024-04', TODAY);
+        expect(report.categories.map(variance => [variance.categoryId, variance.status])).toEqual([[1, 'over'], [2, 'threshold'], [3, 'pace']]);
+        expect(report.categories[2]).toMatchObject({ burnRate: 20, projected: 600, overspend: 0 });
+        expect(report.overall).toMatchObject({ planned: 1200, spent: 1185, status: 'pace' });
+    });
+
+    it('adds sub-categories to their parent, under the parent\'s threshold', () => {
+        const data = createDataset();
+        data.categories.push({ id: 4, name: 'Cinéma', color: '#ec4899', parentId: 2, alertThreshold: 50 });
+        data.monthlyData['2024-04'].realExpenses[1].categoryId = 4;
+        data.monthlyData['2024-04'].plannedExpenses.push({ id: 7, description: 'Cinéma', amount: 20, categoryId: 4 });
+        const report = getVarianceReport(data, '2024-04', TODAY);
+        expect(report.categories.map(variance => variance.categoryId)).toEqual([1, 2, 3]);
+        expect(report.categories[1]).toMatchObject({ planned: 120, spent: 85, threshold: 80, status: 'pace' });
+    });
+});
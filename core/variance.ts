@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Planned against actual spending per category for a month, with the spending pace projected to the end of the month.
+// Sub-categories count towards their parent, whose alert threshold applies. Amounts are in the base currency.
+import { getDaysInMonth, getMonthKey } from './months';
+import { findCategory, getTotalsCategoryIds, rollUpCategoryTotals, sumByCategory } from './selectors';
+import type { BudgetDataset, Variance, VarianceReport, VarianceStatus } from './types';
+
+// A category warns once its spending reaches this share of its planned amount, in percent, unless it sets its own.
+export const DEFAULT_ALERT_THRESHOLD = 100;
+
+// Days of the month already spent: all of them for past months, none for future ones.
+export function getDaysElapsed(monthKey: string, today = new Date()): { daysElapsed: number; daysInMonth: number } {
+    const daysInMonth = getDaysInMonth(monthKey);
+    const currentMonth = getMonthKey(today);
+    if (monthKey < currentMonth) return { daysElapsed: daysInMonth, daysInMonth };
+    if (monthKey > currentMonth) return { daysElapsed: 0, daysInMonth };
+    return { daysElapsed: today.getDate(), daysInMonth };
+}
+
+export function computeVariance(planned: number, spent: number, threshold: number, daysElapsed: number, daysInMonth: number): Variance {
+    const burnRate = daysElapsed > 0 ? spent / daysElapsed : 0;
+    const projected = daysElapsed > 0 ? burnRate * daysInMonth : spent;
+    const alertLevel = planned * threshold / 100;
+    let status: VarianceStatus = 'ok';
+    if (spent > planned + 0.005) status = 'over';
+    else if (threshold < 100 && spent >= alertLevel && spent > 0) status = 'threshold';
+    else if (projected > alertLevel + 0.005) status = 'pace';
+    return { planned, spent, overspend: Math.max(spent - planned, 0), overspendPercent: planned > 0 ? (spent - planned) / planned * 100 : null, burnRate, projected, threshold, status };
+}
+
+export function getVarianceReport(data: BudgetDataset, monthKey: string, today = new Date()): VarianceReport {
+    const month = data.monthlyData[monthKey];
+    const { daysElapsed, daysInMonth } = getDaysElapsed(monthKey, today);
+    const plannedByCategory = rollUpCategoryTotals(data, sumByCategory(data, month?.plannedExpenses || [], monthKey));
+    const spentByCategory = rollUpCategoryTotals(data, sumByCategory(data, month?.realExpenses || [], monthKey));
+    const ids = [...new Set([...getTotalsCategoryIds(plannedByCategory), ...getTotalsCategoryIds(spentByCategory)])];
+    const categories = ids.map(categoryId => {
+        const threshold = findCategory(data, categoryId)?.alertThreshold ?? DEFAULT_ALERT_THRESHOLD;
+        return { categoryId, ...computeVariance(plannedByCategory[categoryId] || 0, spentByCategory[categoryId] || 0, threshold, daysElapsed, daysInMonth) };
+    });
+    const totalPlanned = Object.values(plannedByCategory).reduce((sum, value) => sum + value, 0);
+    const totalSpent = Object.values(spentByCategory).reduce((sum, value) => sum + value, 0);
+    return { categories, overall: computeVariance(totalPlanned, totalSpent, DEFAULT_ALERT_THRESHOLD, daysElapsed, daysInMonth), daysElapsed, daysInMonth };
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { crc32, createXlsx, createZip, getColumnName } from './xlsx';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    });
+});
+
+describe('createZip', () => {
+    it('stores each file after a local header and lists them in the central directory', () => {
+        const zip = createZip([{ name: 'a.txt', content: 'bonjour' }, { name: 'b.txt', content: 'été' }]);
+        const view = new DataView(zip.buffer);
+        expect(view.getUint32(0, true)).toBe(0x04034b50);
+        expect(view.getUint32(14, true)).toBe(crc32(encoder.encode('bonjour')));
+        expect(new TextDecoder().decode(zip.slice(30 + 5, 30 + 5 + 7))).toBe('bonjour');
+        const end = zip.length - 22;
+        expect(view.getUint32(end, true)).toBe(0x06054b50);
+        expect(view.getUint16(end + 10, true)).toBe(2);
+        expect(view.getUint32(view.getUint32(end + 16, true), true)).toBe(0x02014b50);
+    });
+});
+
+describe('createXlsx', () => {
+    it('writes strings inline and numbers as values, one sheet per table', () => {
+        const text = new TextDecoder().decode(createXlsx([{ name: 'Synthèse', rows: [['Mois', 'Total'], ['2024-03', 12.5]] }, { name: 'A/B', rows: [['<&>']] }]));
+        expect(text).toContain('<c r="B2"><v>12.5</v></c>');
+        expect(text).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">&lt;&amp;&gt;</t></is></c>');
+        expect(text).toContain('<sheet name="A B" sheetId="2" r:id="rId2"/>');
+        expect(text).toContain('xl/worksheets/sheet2.xml');
+    });
+});
+
+describe('getColumnName', () => {
+    it('counts columns in letters', () => {
+        expect([0, 25, 26, 701].map(getColumnName)).toEqual(['A', 'Z', 'AA', 'ZZ']);
+    });
+});
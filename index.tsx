@@ -3,162 +3,386 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 // FIX: Added GenerateContentResponse to imports for proper typing of Gemini API responses.
-import { GoogleGenAI, Type, GenerateContentResponse } from '@google/genai';
+import { GoogleGenAI, GenerateContentResponse, Content } from '@google/genai';
 import * as d3 from 'd3';
 import { sankey, sankeyLinkHorizontal } from 'd3-sankey';
-
-const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
+import { getAccountBalance, getNetWorth } from './core/accounts';
+import { applyAssistantProposal, askAssistant } from './core/assistant';
+import { convertAmount, getBaseRate, getItemCurrency, getKnownCurrencies, sumInBase, toBaseAmount } from './core/currency';
+import { getAllDetailedItems, getKnownPayees, getKnownTags, getTagReports, normalizePayee, parseTags } from './core/details';
+import { getEnvelopeCategories, getEnvelopeEntries, getEnvelopeStatus } from './core/envelopes';
+import { FORECAST_HISTORY_MONTHS, forecastCashFlow } from './core/forecast';
+import type { GenAIClient } from './core/genai';
+import { findGoal, findGoalRecurringExpense, getGoalProgress } from './core/goals';
+import { createUndoHistory } from './core/history';
+import type { UndoHistoryState } from './core/history';
+import { filterDatasetByMember, findMember, getMemberBalances, getMemberShares, getSettlements } from './core/household';
+import { SCHEMA_VERSION, runMigrations, validateDataset } from './core/migrations';
+import { DEFAULT_CSV_MAPPING, detectCsvSeparator, detectImportFormat, isLikelyDuplicate, parseCsvLines, parseCsvStatement, parseExchangeRatesCsv, parseOfxStatement, parseQifStatement } from './core/import';
+import { getMonthEndDate, getMonthKey, getMonthsInRange, shiftMonthKey } from './core/months';
+import { scanReceipt } from './core/receipts';
+import { getNextOccurrences, getTemplateSchedule, getTemplateValuesForMonth } from './core/recurrence';
+import { REPORT_KIND_LABELS, buildReport, getReportTables, toCsv } from './core/report';
+import { describeRule, findCategoryByRules, testRuleAgainstHistory } from './core/rules';
+import { SEARCH_KIND_LABELS, createEmptySearchFilters, getAllTransactions, searchTransactions } from './core/search';
+import { SAVINGS_CATEGORY, buildSankeyGraph, findAccount, findCategory, findCategoryByName, findRealExpense, findReceivedIncome, findRecurringTemplate, getCategoryName, getCategoryShares, getCategoryUsage, getMissingRateCurrencies, getMonthTotals, getRealExpensesForMonth, getReceivedIncomeForMonth, getSubCategories, getTotalsCategoryIds, getTransfersForMonth, hasCategory, rollUpCategoryTotals, sumByCategory } from './core/selectors';
+import { DB_NAME, createIndexedDBStorageAdapter, createMemoryStorageAdapter, createStorageWriter, deserializeDataset, loadStoredDataset, removeLegacyLocalStorage, serializeDataset } from './core/storage';
+import type { SerializedRecords, StorageAdapter } from './core/storage';
+import { DEFAULT_CATEGORY_COLOR, createBudgetStore, createEmptyDataset } from './core/store';
+import type { Account, AccountKind, AssistantChange, AssistantProposal, AttachmentRef, BudgetDataset, BudgetReport, Category, CategoryRule, CategorySplit, CsvMapping, Expense, ForecastMonth, HouseholdMember, ImportFormat, IncomeSource, MoneyItem, MonthTrend, ParsedStatementEntry, RealExpense, ReceiptScan, ReceivedIncome, RecurrenceFrequency, RecurrenceSchedule, RuleTestResult, SavingsGoal, SearchFilters, SearchKind, SearchSortKey, StatsRange, TagReport, TransactionDetails, TransactionType, Variance, VarianceStatus } from './core/types';
+import { getCategoryDeltas, getTrendsForRange } from './core/trends';
+import { DEFAULT_ALERT_THRESHOLD, getVarianceReport } from './core/variance';
+import { createXlsx } from './core/xlsx';
+
+const ai: GenAIClient = new GoogleGenAI({apiKey: process.env.API_KEY});
 
 // --- TYPE DEFINITIONS ---
-type IncomeSource = { id: number; description: string; amount: number; isRecurring?: boolean; recurringId?: number };
-type Expense = { id: number; description: string; amount: number; category: string; isRecurring?: boolean; recurringId?: number };
-type RealExpense = { id: number; description: string; amount: number; date: string; linkedCategory: string; };
-type Category = { name: string; color: string; };
-type TransactionType = 'expense' | 'income';
+// An attachment's content, kept in the attachments store apart from the transactions referring to it.
+type StoredAttachment = { name: string; type: string; dataUrl: string };
+type ReceiptScanState = { file: File; status: 'scanning' | 'done' | 'error'; scan?: ReceiptScan };
+type AssistantMessage = { role: 'user' | 'assistant'; text: string; proposal?: AssistantProposal };
+// `history` is the conversation as sent to the model, tool calls included.
+type AssistantState = { messages: AssistantMessage[]; history: Content[]; isThinking: boolean };
+type IncomeComparison = { planned: IncomeSource; plannedAmount: number; receivedAmount: number; entries: ReceivedIncome[] };
 type EditingTransaction = (Expense & { type: 'expense' }) | (IncomeSource & { type: 'income' }) | null;
 type EditingRecurringTransaction = (Expense & { type: 'expense' }) | (IncomeSource & { type: 'income' }) | null;
 
-type MonthlyData = { realIncome: IncomeSource[], plannedExpenses: Expense[], realExpenses: RealExpense[] };
+type BudgetBackup = { format: typeof BACKUP_FORMAT; schemaVersion: number; exportedAt: string; data: BudgetDataset };
+type BackupImportState = { fileName: string; schemaVersion: number | null; dataset: BudgetDataset | null; errors: string[] };
+
+type SearchState = { filters: SearchFilters; sortKey: SearchSortKey; sortAscending: boolean; selected: string[] };
+
+type ImportRow = { id: number; date: string; description: string; amount: number; categoryId?: number; isCredit: boolean; isDuplicate: boolean; selected: boolean };
+type ImportState = { format: ImportFormat; fileName: string; rawText: string; currency: string; accountId: number | undefined; mapping: CsvMapping; rows: ImportRow[] | null; error: string | null };
 
 // --- STATE MANAGEMENT ---
 let isInitialized = false;
-
-// Global data that doesn't change per month
-let globalState = {
-    categories: [] as Category[],
-    recurringIncomes: [] as IncomeSource[],
-    recurringExpenses: [] as Expense[],
-};
+// The budget itself. Views read it through the core selectors and change it through the store's commands; `budget`
+// stays the same object for the whole session, datasets being swapped into it.
+const store = createBudgetStore(createEmptyDataset());
+const budget = store.data;
 
 // UI and session state
 let uiState = {
-    activeTab: 'budget' as 'budget' | 'tracking' | 'stats' | 'flow',
+    activeTab: 'budget' as 'budget' | 'tracking' | 'stats' | 'flow' | 'accounts' | 'goals' | 'search',
     selectedMonth: getMonthKey(new Date()),
     isSuggesting: false,
     isTransactionModalOpen: false,
     isRecurringModalOpen: false,
     isCategoryModalOpen: false,
+    isImportModalOpen: false,
+    isRulesModalOpen: false,
+    isBackupModalOpen: false,
+    isCurrencyModalOpen: false,
+    backupImport: null as BackupImportState | null,
+    editingRule: null as CategoryRule | null,
+    ruleDraft: null as Partial<CategoryRule> | null,
+    ruleTestResult: null as RuleTestResult | null,
+    importState: null as ImportState | null,
     editingTransaction: null as EditingTransaction,
     editingRecurringTransaction: null as EditingRecurringTransaction,
     editingRealExpense: null as RealExpense | null,
+    editingReceivedIncome: null as ReceivedIncome | null,
+    receiptScan: null as ReceiptScanState | null,
+    isAssistantModalOpen: false,
+    assistant: { messages: [], history: [], isThinking: false } as AssistantState,
     transactionModalType: 'expense' as TransactionType,
     recurringModalType: 'expense' as TransactionType,
-    expandedCategory: null as string | null,
+    expandedCategory: null as number | null,
+    editingAccount: null as Account | null,
+    editingGoal: null as SavingsGoal | null,
+    showSavingsAsTransfers: false,
+    forecastHorizon: 12,
+    search: { filters: createEmptySearchFilters(), sortKey: 'date', sortAscending: false, selected: [] } as SearchState,
+    statsRange: { from: shiftMonthKey(getMonthKey(new Date()), -5), to: getMonthKey(new Date()) } as StatsRange,
+    isReportModalOpen: false,
+    reportRange: { from: getMonthKey(new Date()), to: getMonthKey(new Date()) } as StatsRange,
+    isHouseholdModalOpen: false,
+    memberFilter: null as number | null,
+    showSankeyByMember: false,
 };
 
-let monthlyData: { [key: string]: MonthlyData } = {};
-
-
-// --- LOCAL STORAGE & STATE INITIALIZATION ---
-const saveDataToLocalStorage = () => {
-    localStorage.setItem('monthlyData', JSON.stringify(monthlyData));
-    localStorage.setItem('recurringIncomes', JSON.stringify(globalState.recurringIncomes));
-    localStorage.setItem('recurringExpenses', JSON.stringify(globalState.recurringExpenses));
-    localStorage.setItem('categories', JSON.stringify(globalState.categories));
-};
 
-const sortCategories = () => {
-    globalState.categories.sort((a, b) => a.name.localeCompare(b.name));
-};
+// --- PERSISTENCE & STATE INITIALIZATION ---
+let storage: StorageAdapter = createMemoryStorageAdapter();
+let isStorageVolatile = false;
+let storageWriter = createStorageWriter(storage);
+let hasReportedSaveError = false;
 
-function getMonthKey(date: Date): string {
-    const year = date.getFullYear();
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    return `${year}-${month}`;
-}
-
-const createMonthDataFromRecurring = (): MonthlyData => ({
-    realIncome: globalState.recurringIncomes.map(i => ({
-        ...i,
-        id: Date.now() + Math.random(), // Unique instance ID
-        isRecurring: true,
-        recurringId: i.id, // Link to template
-    })),
-    plannedExpenses: globalState.recurringExpenses.map(e => ({
-        ...e,
-        id: Date.now() + Math.random(),
-        isRecurring: true,
-        recurringId: e.id,
-    })),
-    realExpenses: [],
-});
+function reportSaveError(error: unknown) {
+    console.error('Error saving data:', error);
+    if (!hasReportedSaveError) {
+        hasReportedSaveError = true;
+        alert('Vos dernières modifications n\'ont pas pu être enregistrées. Pensez à exporter une sauvegarde.');
+    }
+}
 
+// Each save is one undo step, unless `isUndoable` is false for changes that only follow from another (such as a month
+// created by navigating to it) or from undoing one.
+function saveData(isUndoable = true): Promise<void> {
+    // Carry-overs depend on every earlier month, so the ledger is brought up to date with each write.
+    store.syncEnvelopeRollovers([getMonthKey(new Date()), uiState.selectedMonth].sort().pop()!);
+    const records = serializeDataset(getDataset());
+    recordUndoStep(records, isUndoable);
+    return storageWriter.save(records);
+}
 
-// FIX: Converted from an arrow function to a function declaration. This might help with parser issues related to generics in TSX files, addressing the "Cannot find name 'T'" error.
-function loadFromStorage<T>(key: string): T | null {
-    const savedData = localStorage.getItem(key);
-    if (!savedData) return null;
+async function openStorage(): Promise<StorageAdapter> {
     try {
-        return JSON.parse(savedData) as T;
+        return await createIndexedDBStorageAdapter(DB_NAME);
     } catch (error) {
-        console.error(`Error parsing ${key} from localStorage, data will be reset:`, error);
-        localStorage.removeItem(key); // Remove corrupted data to prevent future errors
-        return null;
+        console.error('IndexedDB is unavailable, falling back to in-memory storage:', error);
+        isStorageVolatile = true;
+        return createMemoryStorageAdapter();
     }
 }
 
-function initializeState() {
-    if (isInitialized) return;
 
-    // Load global data safely
-    globalState.recurringIncomes = loadFromStorage<IncomeSource[]>('recurringIncomes') || [];
-    globalState.recurringExpenses = loadFromStorage<Expense[]>('recurringExpenses') || [];
-    globalState.categories = loadFromStorage<Category[]>('categories') || [
-            { name: 'Animaux', color: '#10b981' }, { name: 'Assurance', color: '#06b6d4' },
-            { name: 'Cadeaux et association caritative', color: '#8b5cf6' }, { name: 'Enfants', color: '#d946ef' },
-            { name: 'Épargne ou investissements', color: '#f97316' }, { name: 'Logement', color: '#ef4444' },
-            { name: 'Loisirs', color: '#ec4899' }, { name: 'Prêts', color: '#84cc16' }, { name: 'Repas', color: '#eab308' },
-            { name: 'Soins personnels', color: '#6366f1' }, { name: 'Taxes', color: '#78716c' }, { name: 'Transport', color: '#64748b' },
-        ];
-    
-    sortCategories();
+// Every record in the quarantine store, and those added during this session (reported after the first render).
+let quarantineKeys: string[] = [];
+const quarantinedKeys: string[] = [];
 
-    // Load monthly data safely
-    monthlyData = loadFromStorage<{ [key: string]: MonthlyData }>('monthlyData') || {};
-    
-    // Data migration for old structure
-    Object.keys(monthlyData).forEach(key => {
-        const month = monthlyData[key] as any;
-        if (month.expenses && !month.plannedExpenses) {
-            month.plannedExpenses = month.expenses;
-            delete month.expenses;
-        }
-        if (!month.realExpenses) {
-            month.realExpenses = [];
+const getDataset = (): BudgetDataset => budget;
+
+function applyDataset(dataset: BudgetDataset) {
+    store.replace(dataset);
+}
+
+async function initializeState() {
+    if (isInitialized) return;
+    storage = await openStorage();
+
+    const loaded = await loadStoredDataset(storage, localStorage);
+    applyDataset(loaded.dataset);
+    storageWriter = createStorageWriter(storage, loaded.records, reportSaveError);
+    restoreUndoHistory();
+    quarantinedKeys.push(...loaded.quarantine);
+    quarantineKeys = (await storage.getAll('quarantine')).map(([key]) => key);
+
+    if (loaded.needsSave) {
+        try {
+            await saveData(false);
+            if (loaded.isLegacy && !isStorageVolatile) removeLegacyLocalStorage(localStorage);
+        } catch (error) {
+            console.error('Error migrating stored data:', error);
         }
-    });
+    }
+
+    try {
+        await pruneAttachments();
+    } catch (error) {
+        console.error('Error pruning attachments:', error);
+    }
 
     // Ensure current month exists, if not, create it from recurring items
-    if (!monthlyData[uiState.selectedMonth]) {
-        monthlyData[uiState.selectedMonth] = createMonthDataFromRecurring();
+    if (!budget.monthlyData[uiState.selectedMonth]) {
+        store.getOrCreateMonth(uiState.selectedMonth);
     }
     
     isInitialized = true;
 }
 
+// --- UNDO HISTORY ---
+// Kept in sessionStorage so that a reload doesn't lose it; it ends with the browser session.
+const UNDO_HISTORY_KEY = 'undoHistory';
+const TOAST_DURATION = 6000;
+const undoHistory = createUndoHistory();
+let toastTimer: number | undefined;
+
+function restoreUndoHistory() {
+    let saved: UndoHistoryState | undefined;
+    try { saved = JSON.parse(sessionStorage.getItem(UNDO_HISTORY_KEY) || 'null') ?? undefined; } catch { saved = undefined; }
+    undoHistory.reset(serializeDataset(getDataset()), saved);
+}
+
+// The history is capped well below the sessionStorage quota; should it still not fit, the stale copy is dropped.
+function persistUndoHistory() {
+    try {
+        sessionStorage.setItem(UNDO_HISTORY_KEY, JSON.stringify(undoHistory.getState()));
+    } catch {
+        sessionStorage.removeItem(UNDO_HISTORY_KEY);
+    }
+}
+
+function recordUndoStep(records: SerializedRecords, isUndoable: boolean) {
+    if (undoHistory.record(records, isUndoable) && isUndoable) persistUndoHistory();
+}
+
+function handleUndoRedo(direction: 'undo' | 'redo') {
+    const records = direction === 'undo' ? undoHistory.undo() : undoHistory.redo();
+    if (records === undefined) { showToast(direction === 'undo' ? 'Rien à annuler.' : 'Rien à rétablir.'); return; }
+    persistUndoHistory();
+    applyDataset(deserializeDataset(records));
+    store.getOrCreateMonth(uiState.selectedMonth);
+    saveData(false);
+
+    // Forms may be editing items the restored data no longer has.
+    closeModal();
+    uiState.editingRealExpense = null;
+    uiState.editingReceivedIncome = null;
+    uiState.editingAccount = null;
+    uiState.editingGoal = null;
+    uiState.search.selected = [];
+    updateTabContent();
+    showToast(direction === 'undo' ? 'Modification annulée.' : 'Modification rétablie.', direction === 'undo' ? 'redo' : 'undo');
+}
+
+function Toast(message: string, action?: 'undo' | 'redo') {
+    const button = action ? `<button data-action="${action}" class="font-semibold text-sky-300 hover:text-sky-200">${action === 'undo' ? 'Annuler' : 'Rétablir'}</button>` : '';
+    return `<div class="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-4 bg-slate-800 text-white text-sm px-4 py-3 rounded-lg shadow-lg animate-fade-in" role="status"><span>${escapeHtml(message)}</span>${button}</div>`;
+}
+
+function showToast(message: string, action?: 'undo' | 'redo') {
+    const container = document.getElementById('toast-container');
+    if (!container) return;
+    container.innerHTML = Toast(message, action);
+    clearTimeout(toastTimer);
+    toastTimer = window.setTimeout(() => { container.innerHTML = ''; }, TOAST_DURATION);
+}
+
+// Shown after destructive actions, which are no longer confirmed beforehand.
+const showUndoToast = (message: string) => showToast(message, 'undo');
+
+// --- HOUSEHOLD ---
+const MEMBER_COLORS = ['#0ea5e9', '#f97316', '#8b5cf6', '#10b981', '#ec4899', '#eab308'];
+
+// What the tabs show: the whole household's budget, or the selected member's part of it. Accounts, goals and envelopes
+// stay the household's, and items are always edited through `budget`, never through this view.
+const getViewData = (): BudgetDataset => uiState.memberFilter === null || !findMember(budget, uiState.memberFilter) ? budget : filterDatasetByMember(budget, uiState.memberFilter);
+const isVisibleToMember = (item: TransactionDetails) => uiState.memberFilter === null || getMemberShares(item).some(share => share.memberId === uiState.memberFilter);
+
 // --- DATA ACCESSORS FOR CURRENT MONTH ---
-const getCurrentIncomes = (): IncomeSource[] => monthlyData[uiState.selectedMonth]?.realIncome || [];
-const getCurrentPlannedExpenses = (): Expense[] => monthlyData[uiState.selectedMonth]?.plannedExpenses || [];
-const getCurrentRealExpenses = (): RealExpense[] => monthlyData[uiState.selectedMonth]?.realExpenses || [];
+const getCurrentIncomes = (): IncomeSource[] => getViewData().monthlyData[uiState.selectedMonth]?.realIncome || [];
+const getCurrentPlannedExpenses = (): Expense[] => getViewData().monthlyData[uiState.selectedMonth]?.plannedExpenses || [];
+const getCurrentRealExpenses = (): RealExpense[] => getRealExpensesForMonth(getViewData(), uiState.selectedMonth);
+const getCurrentReceivedIncome = (): ReceivedIncome[] => getReceivedIncomeForMonth(getViewData(), uiState.selectedMonth);
+
+// --- CURRENCIES ---
+const getBaseCurrency = () => budget.settings.baseCurrency;
+
+// --- ACCOUNTS ---
+const ACCOUNT_KINDS: { [kind in AccountKind]: { name: string; icon: string } } = {
+    checking: { name: 'Compte courant', icon: 'fa-building-columns' },
+    savings: { name: 'Épargne', icon: 'fa-piggy-bank' },
+    cash: { name: 'Espèces', icon: 'fa-money-bill' },
+    credit: { name: 'Carte de crédit', icon: 'fa-credit-card' },
+};
+
+const getDefaultAccountId = () => budget.accounts[0]?.id;
 
 // --- CALCULATIONS ---
-const totalRealIncome = () => getCurrentIncomes().reduce((sum, item) => sum + item.amount, 0);
-const totalPlannedExpenses = () => getCurrentPlannedExpenses().reduce((sum, item) => sum + item.amount, 0);
-const totalActualSpent = () => getCurrentRealExpenses().reduce((sum, item) => sum + item.amount, 0);
-const formatCurrency = (value: number) => value.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' });
-const getCategoryColor = (categoryName: string) => globalState.categories.find(c => c.name === categoryName)?.color || '#94a3b8';
+const getCurrentTotals = () => getMonthTotals(getViewData(), uiState.selectedMonth);
+
+// Each planned income line with what was received against it; received income matching no line of the month is returned apart.
+function compareIncomeBySource(monthKey = uiState.selectedMonth): { sources: IncomeComparison[]; unplanned: ReceivedIncome[] } {
+    const view = getViewData();
+    const planned = view.monthlyData[monthKey]?.realIncome || [];
+    const received = getReceivedIncomeForMonth(view, monthKey);
+    const sources = planned.map(income => {
+        const entries = received.filter(entry => entry.expectedIncomeId === income.id);
+        return { planned: income, plannedAmount: toBaseAmount(budget, income, monthKey), receivedAmount: sumInBase(budget, entries, monthKey), entries };
+    });
+    return { sources, unplanned: received.filter(entry => !planned.some(income => income.id === entry.expectedIncomeId)) };
+}
+const formatCurrency = (value: number, currency = getBaseCurrency()) => value.toLocaleString('fr-FR', { style: 'currency', currency });
+// Amount in the base currency, followed by the original amount for items in another currency.
+const formatItemAmount = (item: MoneyItem, monthKey = uiState.selectedMonth) => {
+    const currency = getItemCurrency(item);
+    if (currency === getBaseCurrency()) return formatCurrency(item.amount);
+    const rate = getBaseRate(budget, item, monthKey);
+    if (rate === null) return `${formatCurrency(item.amount, currency)} <span class="text-xs font-normal text-amber-600" title="Aucun taux de change vers ${getBaseCurrency()}">(taux manquant)</span>`;
+    return `${formatCurrency(item.amount * rate)} <span class="text-xs font-normal text-slate-400">(${formatCurrency(item.amount, currency)})</span>`;
+};
+const renderCurrencySelect = (id: string, selected: string, className = 'p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500') =>
+    `<select id="${id}" class="${className}" aria-label="Devise">${getKnownCurrencies(budget).map(currency => `<option value="${currency}" ${currency === selected ? 'selected' : ''}>${currency}</option>`).join('')}</select>`;
+const renderAccountSelect = (id: string, selected: number | undefined, className = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500') =>
+    `<select id="${id}" class="${className}">${budget.accounts.map(account => `<option value="${account.id}" ${account.id === (selected ?? getDefaultAccountId()) ? 'selected' : ''}>${escapeHtml(account.name)} (${account.currency})</option>`).join('')}</select>`;
+const renderGoalSelect = (id: string, selected: number | undefined, className = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500') =>
+    `<select id="${id}" class="${className}"><option value="">-- Aucun --</option>${budget.goals.map(goal => `<option value="${goal.id}" ${goal.id === selected ? 'selected' : ''}>${escapeHtml(goal.name)}</option>`).join('')}</select>`;
+// Sub-categories are indented under their parent, which sortCategories lists them after.
+const renderCategoryOptions = (selected?: number) => budget.categories
+    .map(c => `<option value="${c.id}" ${c.id === selected ? 'selected' : ''}>${c.parentId !== undefined ? '&nbsp;&nbsp;&nbsp;' : ''}${escapeHtml(c.name)}</option>`).join('');
+const readCategoryValue = (value: string | undefined) => Number(value) || undefined;
+const readGoalSelect = (id: string) => Number((document.getElementById(id) as HTMLSelectElement | null)?.value) || undefined;
+const readAccountSelect = (id: string) => Number((document.getElementById(id) as HTMLSelectElement | null)?.value) || getDefaultAccountId();
+const getCategoryColor = (categoryId: number) => findCategory(budget, categoryId)?.color || DEFAULT_CATEGORY_COLOR;
 const formatMonthForDisplay = (monthKey: string) => {
     const [year, month] = monthKey.split('-');
     const date = new Date(parseInt(year), parseInt(month) - 1);
     return date.toLocaleString('fr-FR', { month: 'long', year: 'numeric' });
 };
 
+// --- FORECAST ---
+const FORECAST_HORIZONS = [6, 12, 24];
+
+// --- TRANSACTION DETAILS ---
+const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+
+const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+async function storeAttachment(file: File): Promise<AttachmentRef> {
+    const id = Date.now() + Math.random();
+    await storage.put('attachments', String(id), { name: file.name, type: file.type, dataUrl: await readFileAsDataUrl(file) } as StoredAttachment);
+    return { id, name: file.name, type: file.type };
+}
+
+// Attachments are written as soon as they are picked, so the ones left unreferenced (form cancelled, file removed,
+// transaction deleted) are cleared at startup.
+async function pruneAttachments() {
+    const referenced = new Set(getAllDetailedItems(budget).flatMap(item => item.attachments || []).map(attachment => String(attachment.id)));
+    // So are those of transactions that undoing or redoing would bring back.
+    const { past, future } = undoHistory.getState();
+    [...past, ...future].forEach(step => Object.values(step.before).concat(Object.values(step.after)).forEach(value => {
+        if (!value?.includes('"attachments"')) return;
+        JSON.parse(value, (key, value) => {
+            if (key === 'attachments' && Array.isArray(value)) value.forEach((attachment: AttachmentRef) => referenced.add(String(attachment.id)));
+            return value;
+        });
+    }));
+    const orphans = (await storage.getAll<StoredAttachment>('attachments')).map(([key]) => key).filter(key => !referenced.has(key));
+    if (orphans.length > 0) await storage.transaction(tx => orphans.forEach(key => tx.delete('attachments', key)));
+}
+
+// --- VARIANCE ---
+const VARIANCE_LABELS: { [key in VarianceStatus]: string } = { over: 'Dépassé', threshold: 'Seuil atteint', pace: 'En voie de dépassement', ok: 'Dans le budget' };
+
+// --- TREND ANALYTICS ---
+const STATS_RANGE_PRESETS = [3, 6, 12, 24];
+
+// --- RECURRENCE SCHEDULES ---
+const FREQUENCY_LABELS: { [key in RecurrenceFrequency]: { name: string; every: string; everyN: (n: number) => string } } = {
+    weekly: { name: 'Hebdomadaire', every: 'Toutes les semaines', everyN: n => `Toutes les ${n} semaines` },
+    monthly: { name: 'Mensuelle', every: 'Tous les mois', everyN: n => `Tous les ${n} mois` },
+    quarterly: { name: 'Trimestrielle', every: 'Tous les trimestres', everyN: n => `Tous les ${n} trimestres` },
+    yearly: { name: 'Annuelle', every: 'Tous les ans', everyN: n => `Tous les ${n} ans` },
+};
+
+function describeSchedule(schedule: RecurrenceSchedule): string {
+    const labels = FREQUENCY_LABELS[schedule.frequency];
+    const parts = [schedule.interval > 1 ? labels.everyN(schedule.interval) : labels.every];
+    if (schedule.frequency !== 'weekly') parts.push(`le ${schedule.dueDay}`);
+    parts.push(`depuis ${formatMonthForDisplay(schedule.startMonth)}`);
+    if (schedule.endMonth) parts.push(`jusqu'à ${formatMonthForDisplay(schedule.endMonth)}`);
+    if (schedule.occurrences !== undefined) parts.push(`${schedule.occurrences} fois`);
+    return parts.join(', ');
+}
+
+const formatDueDate = (date: string) => new Date(date).toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit' });
+
 // --- UI UPDATE FUNCTIONS (GRANULAR) ---
 function updateAll() {
     updateMonthNavigator();
     updateBalanceOverview();
+    updateVarianceWarnings();
     updateIncomeDetails();
     updateBudgetDetailTable();
+    updateEnvelopes();
+    updateHouseholdBalances();
     updateCharts();
 }
 
@@ -180,6 +404,7 @@ function AppShell() {
     return `
         <div class="container mx-auto p-4 md:p-8 text-slate-700">
             <div id="modal-container"></div>
+            <div id="toast-container"></div>
             ${Tabs()}
             <div id="tab-content" class="mt-6"></div>
         </div>
@@ -200,6 +425,9 @@ function updateTabContent() {
     else if (uiState.activeTab === 'tracking') activeTabView = RealTrackingView();
     else if (uiState.activeTab === 'stats') activeTabView = StatsView();
     else if (uiState.activeTab === 'flow') activeTabView = FlowView();
+    else if (uiState.activeTab === 'accounts') activeTabView = AccountsView();
+    else if (uiState.activeTab === 'goals') activeTabView = GoalsView();
+    else if (uiState.activeTab === 'search') activeTabView = SearchView();
     
     if (tabContent.innerHTML !== activeTabView) {
         tabContent.innerHTML = `<div class="animate-fade-in">${activeTabView}</div>`;
@@ -217,6 +445,13 @@ function updateModals() {
     if (uiState.isTransactionModalOpen) modalHTML = TransactionModal();
     if (uiState.isRecurringModalOpen) modalHTML = RecurringModal();
     if (uiState.isCategoryModalOpen) modalHTML = CategoryManagerModal();
+    if (uiState.isImportModalOpen) modalHTML = ImportModal();
+    if (uiState.isRulesModalOpen) modalHTML = RulesModal();
+    if (uiState.isBackupModalOpen) modalHTML = BackupModal();
+    if (uiState.isCurrencyModalOpen) modalHTML = CurrencyModal();
+    if (uiState.isAssistantModalOpen) modalHTML = AssistantModal();
+    if (uiState.isReportModalOpen) modalHTML = ReportModal();
+    if (uiState.isHouseholdModalOpen) modalHTML = HouseholdModal();
     
     modalContainer.innerHTML = modalHTML;
 }
@@ -224,11 +459,11 @@ function updateModals() {
 function updateRecurringModalLists() {
     const incomeListEl = document.getElementById('recurring-incomes-list');
     if (incomeListEl) {
-        incomeListEl.innerHTML = renderRecurringList(globalState.recurringIncomes, 'income');
+        incomeListEl.innerHTML = renderRecurringList(budget.recurringIncomes, 'income');
     }
     const expenseListEl = document.getElementById('recurring-expenses-list');
     if (expenseListEl) {
-        expenseListEl.innerHTML = renderRecurringList(globalState.recurringExpenses, 'expense');
+        expenseListEl.innerHTML = renderRecurringList(budget.recurringExpenses, 'expense');
     }
 }
 
@@ -253,6 +488,31 @@ function updateBudgetDetailTable() {
     if (el) el.innerHTML = BudgetDetailTable();
 }
 
+function updateSearchResults() {
+    const el = document.getElementById('search-results-container');
+    if (el) el.innerHTML = SearchResults();
+}
+
+function updateReceiptScan() {
+    const el = document.getElementById('receipt-scan-container');
+    if (el) el.innerHTML = ReceiptScanPanel();
+}
+
+function updateEnvelopes() {
+    const el = document.getElementById('envelopes-container');
+    if (el) el.innerHTML = EnvelopesPanel();
+}
+
+function updateVarianceWarnings() {
+    const el = document.getElementById('variance-warnings-container');
+    if (el) el.innerHTML = VarianceWarnings();
+}
+
+function updateHouseholdBalances() {
+    const el = document.getElementById('household-balances-container');
+    if (el) el.innerHTML = HouseholdBalances();
+}
+
 function updateRealExpensesList() {
     const el = document.getElementById('real-expenses-list-container');
     if(el) el.innerHTML = RealExpensesList();
@@ -260,7 +520,7 @@ function updateRealExpensesList() {
 
 
 function updateCharts() {
-    if(uiState.activeTab === 'stats' || uiState.activeTab === 'flow') {
+    if(uiState.activeTab === 'stats' || uiState.activeTab === 'flow' || uiState.activeTab === 'accounts') {
         setTimeout(renderCharts, 0);
     }
 }
@@ -272,6 +532,15 @@ function Tabs() {
             <button data-tab="tracking" class="tab-btn py-3 px-4 text-base font-medium ${uiState.activeTab === 'tracking' ? 'border-b-2 border-teal-600 text-teal-600' : 'text-slate-500 hover:text-slate-700'}">Suivi Réel</button>
             <button data-tab="stats" class="tab-btn py-3 px-4 text-base font-medium ${uiState.activeTab === 'stats' ? 'border-b-2 border-teal-600 text-teal-600' : 'text-slate-500 hover:text-slate-700'}">Statistiques</button>
             <button data-tab="flow" class="tab-btn py-3 px-4 text-base font-medium ${uiState.activeTab === 'flow' ? 'border-b-2 border-teal-600 text-teal-600' : 'text-slate-500 hover:text-slate-700'}">Analyse des flux</button>
+            <button data-tab="accounts" class="tab-btn py-3 px-4 text-base font-medium ${uiState.activeTab === 'accounts' ? 'border-b-2 border-teal-600 text-teal-600' : 'text-slate-500 hover:text-slate-700'}">Comptes</button>
+            <button data-tab="goals" class="tab-btn py-3 px-4 text-base font-medium ${uiState.activeTab === 'goals' ? 'border-b-2 border-teal-600 text-teal-600' : 'text-slate-500 hover:text-slate-700'}">Objectifs</button>
+            <button data-tab="search" class="tab-btn py-3 px-4 text-base font-medium ${uiState.activeTab === 'search' ? 'border-b-2 border-teal-600 text-teal-600' : 'text-slate-500 hover:text-slate-700'}">Recherche</button>
+            <button data-action="open-assistant-modal" class="float-right py-3 px-4 text-sm font-medium text-sky-600 hover:text-sky-800" aria-label="Assistant budgétaire"><i class="fas fa-wand-magic-sparkles mr-1"></i> Assistant</button>
+            <button data-action="open-currency-modal" class="float-right py-3 px-4 text-sm font-medium text-slate-500 hover:text-slate-700" aria-label="Devises et taux de change"><i class="fas fa-coins mr-1"></i> Devises (${getBaseCurrency()})</button>
+            <button data-action="open-report-modal" class="float-right py-3 px-4 text-sm font-medium text-slate-500 hover:text-slate-700" aria-label="Exporter un rapport"><i class="fas fa-file-export mr-1"></i> Rapports</button>
+            <button data-action="open-household-modal" class="float-right py-3 px-4 text-sm font-medium text-slate-500 hover:text-slate-700" aria-label="Membres du foyer"><i class="fas fa-users mr-1"></i> Foyer</button>
+            ${budget.settings.members.length > 0 ? `<select id="member-filter" class="float-right my-2 p-1.5 text-sm bg-white border border-slate-300 rounded-lg text-slate-600" aria-label="Afficher le budget de"><option value="">Tout le foyer</option>${budget.settings.members.map(member => `<option value="${member.id}" ${member.id === uiState.memberFilter ? 'selected' : ''}>${escapeHtml(member.name)}</option>`).join('')}</select>` : ''}
+            <button data-action="open-backup-modal" class="float-right py-3 px-4 text-sm font-medium text-slate-500 hover:text-slate-700" aria-label="Sauvegarde et restauration"><i class="fas fa-database mr-1"></i> Sauvegarde</button>
         </div>
     `;
 }
@@ -290,6 +559,7 @@ function BudgetView() {
         <div class="grid grid-cols-1 md:grid-cols-5 gap-8">
             <div class="md:col-span-2 space-y-6">
                 <div id="balance-overview-container">${BalanceOverview()}</div>
+                <div id="variance-warnings-container">${VarianceWarnings()}</div>
                 <div id="income-details-container">${IncomeDetails()}</div>
             </div>
             <div class="md:col-span-3 space-y-6">
@@ -299,45 +569,63 @@ function BudgetView() {
                         <button data-action="open-transaction-modal" class="action-btn bg-sky-600 text-white px-4 py-2 rounded-lg hover:bg-sky-700 text-sm font-semibold">Ajouter une Transaction</button>
                         <button data-action="open-recurring-modal" class="action-btn bg-slate-200 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-300 text-sm font-semibold">Gérer les récurrents</button>
                         <button data-action="open-category-modal" class="action-btn bg-slate-200 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-300 text-sm font-semibold">Gérer les catégories</button>
+                        <button data-action="open-rules-modal" class="action-btn bg-slate-200 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-300 text-sm font-semibold">Règles de catégorisation</button>
                     </div>
                 </div>
                 <div id="budget-detail-table-container">${BudgetDetailTable()}</div>
+                <div id="envelopes-container">${EnvelopesPanel()}</div>
             </div>
         </div>
     `;
 }
 
 function RealTrackingView() {
-    const plannedCategoriesWithExpenses = globalState.categories.filter(cat => 
-        getCurrentPlannedExpenses().some(exp => exp.category === cat.name)
+    const plannedCategoriesWithExpenses = budget.categories.filter(cat => 
+        (budget.monthlyData[uiState.selectedMonth]?.plannedExpenses || []).some(exp => hasCategory(exp, cat.id))
     );
     const isEditing = uiState.editingRealExpense !== null;
     return `
         <div id="month-navigator-container">${MonthNavigator()}</div>
+        <div id="variance-warnings-container" class="mb-8">${VarianceWarnings()}</div>
         <div class="grid grid-cols-1 md:grid-cols-5 gap-8">
             <div class="md:col-span-2 space-y-6">
                 ${Header(isEditing ? 'Modifier la Dépense Réelle' : 'Ajouter une Dépense Réelle')}
                 <div class="bg-white p-6 rounded-xl shadow-md">
                     <form id="add-real-expense-form" class="space-y-4">
+                        <div id="receipt-scan-container">${ReceiptScanPanel()}</div>
                         <div>
                             <label for="real-expense-description" class="block text-sm font-medium text-slate-600 mb-1">Description</label>
                             <input type="text" id="real-expense-description" required class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" placeholder="Ex: Courses au Super U" value="${uiState.editingRealExpense?.description || ''}">
                         </div>
                         <div>
-                            <label for="real-expense-amount" class="block text-sm font-medium text-slate-600 mb-1">Montant (€)</label>
-                            <input type="number" id="real-expense-amount" required step="0.01" class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" placeholder="Ex: 52.30" value="${uiState.editingRealExpense?.amount || ''}">
+                            <label for="real-expense-amount" class="block text-sm font-medium text-slate-600 mb-1">Montant</label>
+                            <div class="flex gap-2">
+                                <input type="number" id="real-expense-amount" required step="0.01" class="flex-grow p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" placeholder="Ex: 52.30" value="${uiState.editingRealExpense?.amount || ''}">
+                                ${renderCurrencySelect('real-expense-currency', uiState.editingRealExpense ? getItemCurrency(uiState.editingRealExpense) : getBaseCurrency())}
+                            </div>
                         </div>
                         <div>
                             <label for="real-expense-date" class="block text-sm font-medium text-slate-600 mb-1">Date</label>
                             <input type="date" id="real-expense-date" required class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" value="${uiState.editingRealExpense?.date || new Date().toISOString().split('T')[0]}">
                         </div>
+                        <div>
+                            <label for="real-expense-account" class="block text-sm font-medium text-slate-600 mb-1">Compte</label>
+                            ${renderAccountSelect('real-expense-account', uiState.editingRealExpense?.accountId)}
+                        </div>
                         <div>
                              <label for="real-expense-category" class="block text-sm font-medium text-slate-600 mb-1">Déduire du budget de</label>
-                            <select id="real-expense-category" required class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500">
+                            <select id="real-expense-category" class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500">
                                 <option value="">-- Choisir une catégorie --</option>
-                                ${plannedCategoriesWithExpenses.map(c => `<option value="${c.name}" ${uiState.editingRealExpense?.linkedCategory === c.name ? 'selected' : ''}>${c.name}</option>`).join('')}
+                                ${plannedCategoriesWithExpenses.map(c => `<option value="${c.id}" ${uiState.editingRealExpense?.categoryId === c.id ? 'selected' : ''}>${escapeHtml(c.name)}</option>`).join('')}
                             </select>
+                            ${SplitEditor('real-expense', uiState.editingRealExpense?.splits)}
                         </div>
+                        ${MemberFields('real-expense', uiState.editingRealExpense)}
+                        ${DetailsFields('real-expense', uiState.editingRealExpense)}
+                        ${budget.goals.length > 0 ? `<div>
+                            <label for="real-expense-goal" class="block text-sm font-medium text-slate-600 mb-1">Versement pour l'objectif</label>
+                            ${renderGoalSelect('real-expense-goal', uiState.editingRealExpense?.goalId)}
+                        </div>` : ''}
                         <div class="flex flex-col gap-2">
                             <button type="submit" class="w-full bg-teal-600 text-white font-semibold py-3 rounded-lg hover:bg-teal-700 transition action-btn">${isEditing ? 'Mettre à jour' : 'Enregistrer la Dépense'}</button>
                             ${isEditing ? `<button type="button" data-action="cancel-real-expense-edit" class="w-full text-center text-sm text-slate-500 hover:text-slate-700 py-2">Annuler</button>`: ''}
@@ -346,28 +634,95 @@ function RealTrackingView() {
                 </div>
             </div>
             <div class="md:col-span-3 space-y-6">
-                ${Header('Dépenses Réelles du Mois')}
+                <div class="flex justify-between items-center flex-wrap gap-2">
+                    ${Header('Dépenses Réelles du Mois')}
+                    <button data-action="open-import-modal" class="action-btn bg-slate-200 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-300 text-sm font-semibold">Importer un relevé</button>
+                </div>
                 <div id="real-expenses-list-container">${RealExpensesList()}</div>
             </div>
         </div>
+        <div class="grid grid-cols-1 md:grid-cols-5 gap-8 mt-8">
+            <div class="md:col-span-2 space-y-6">
+                ${Header(uiState.editingReceivedIncome ? 'Modifier le Revenu Reçu' : 'Ajouter un Revenu Reçu')}
+                <div class="bg-white p-6 rounded-xl shadow-md">${ReceivedIncomeForm()}</div>
+            </div>
+            <div class="md:col-span-3 space-y-6">
+                ${Header('Revenus Prévus vs. Reçus')}
+                <div id="income-comparison-container">${IncomeComparison()}</div>
+            </div>
+        </div>
+        <div id="household-balances-container" class="mt-8">${HouseholdBalances()}</div>
     `;
 }
 
+function ReceivedIncomeForm() {
+    const income = uiState.editingReceivedIncome;
+    const inputClass = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500';
+    const expectedOptions = (budget.monthlyData[uiState.selectedMonth]?.realIncome || []).map(planned => `<option value="${planned.id}" ${income?.expectedIncomeId === planned.id ? 'selected' : ''}>${escapeHtml(planned.description)} (${formatCurrency(planned.amount, getItemCurrency(planned))})</option>`).join('');
+    return `<form id="received-income-form" class="space-y-4">
+        <div><label for="received-income-expected" class="block text-sm font-medium text-slate-600 mb-1">Revenu prévu correspondant</label><select id="received-income-expected" class="${inputClass}"><option value="">-- Aucun (revenu non prévu) --</option>${expectedOptions}</select></div>
+        <div><label for="received-income-description" class="block text-sm font-medium text-slate-600 mb-1">Description</label><input type="text" id="received-income-description" required class="${inputClass}" placeholder="Ex: Facture client X" value="${escapeHtml(income?.description || '')}"></div>
+        <div><label for="received-income-amount" class="block text-sm font-medium text-slate-600 mb-1">Montant</label><div class="flex gap-2"><input type="number" id="received-income-amount" required step="0.01" class="flex-grow p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" value="${income?.amount || ''}">${renderCurrencySelect('received-income-currency', income ? getItemCurrency(income) : getBaseCurrency())}</div></div>
+        <div class="grid grid-cols-2 gap-4">
+            <div><label for="received-income-date" class="block text-sm font-medium text-slate-600 mb-1">Date</label><input type="date" id="received-income-date" required class="${inputClass}" value="${income?.date || new Date().toISOString().split('T')[0]}"></div>
+            <div><label for="received-income-account" class="block text-sm font-medium text-slate-600 mb-1">Compte crédité</label>${renderAccountSelect('received-income-account', income?.accountId)}</div>
+        </div>
+        ${MemberFields('received-income', income, false)}
+        <div class="flex flex-col gap-2">
+            <button type="submit" class="w-full bg-teal-600 text-white font-semibold py-3 rounded-lg hover:bg-teal-700 transition action-btn">${income ? 'Mettre à jour' : 'Enregistrer le Revenu'}</button>
+            ${income ? `<button type="button" data-action="cancel-received-income-edit" class="w-full text-center text-sm text-slate-500 hover:text-slate-700 py-2">Annuler</button>` : ''}
+        </div>
+    </form>`;
+}
+
+function IncomeComparison() {
+    const { sources, unplanned } = compareIncomeBySource();
+    const renderEntry = (entry: ReceivedIncome) => `<div class="flex justify-between items-center pl-4 py-1 text-xs text-slate-500 group">
+        <span>${new Date(entry.date).toLocaleDateString('fr-FR')} - ${escapeHtml(entry.description)}${findAccount(budget, entry.accountId) ? ` - ${escapeHtml(findAccount(budget, entry.accountId)!.name)}` : ''} ${renderMemberBadge(entry)}</span>
+        <div class="flex items-center"><span class="mr-2">${formatItemAmount(entry)}</span><div class="opacity-0 group-hover:opacity-100 transition-opacity">
+            <button class="edit-received-income-btn p-1 text-sky-500 hover:text-sky-700" data-id="${entry.id}" aria-label="Modifier"><i class="fas fa-pencil-alt"></i></button>
+            <button class="delete-received-income-btn p-1 text-rose-500 hover:text-rose-700" data-id="${entry.id}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button>
+        </div></div>
+    </div>`;
+    const rows = sources.map(({ planned, plannedAmount, receivedAmount, entries }) => {
+        const difference = receivedAmount - plannedAmount;
+        return `<div class="border-b border-slate-200 py-2">
+            <div class="grid grid-cols-4 items-center text-sm">
+                <span class="col-span-1 font-medium text-slate-700">${escapeHtml(planned.description)}${planned.dueDate ? ` <span class="text-xs font-normal text-slate-400">(${formatDueDate(planned.dueDate)})</span>` : ''}</span>
+                <span class="text-right text-slate-500">${formatCurrency(plannedAmount)}</span>
+                <span class="text-right font-medium text-slate-800">${formatCurrency(receivedAmount)}</span>
+                <span class="text-right font-medium ${difference < -0.005 ? 'text-rose-600' : 'text-teal-600'}">${difference > 0.005 ? '+' : ''}${formatCurrency(difference)}</span>
+            </div>
+            ${entries.map(renderEntry).join('')}
+        </div>`;
+    }).join('');
+    const unplannedTotal = sumInBase(budget, unplanned, uiState.selectedMonth);
+    const plannedTotal = sources.reduce((sum, source) => sum + source.plannedAmount, 0);
+    const receivedTotal = getCurrentTotals().receivedIncome;
+    return `<div class="bg-white p-6 rounded-xl shadow-md">
+        <div class="grid grid-cols-4 text-xs text-slate-500 font-medium pb-2 border-b border-slate-200"><span>SOURCE</span><span class="text-right">PRÉVU</span><span class="text-right">REÇU</span><span class="text-right">ÉCART</span></div>
+        ${rows || '<p class="text-sm text-slate-500 text-center py-4">Aucun revenu prévu ce mois-ci.</p>'}
+        ${unplanned.length > 0 ? `<div class="border-b border-slate-200 py-2"><div class="grid grid-cols-4 items-center text-sm"><span class="font-medium text-slate-700">Non prévus</span><span class="text-right text-slate-500">${formatCurrency(0)}</span><span class="text-right font-medium text-slate-800">${formatCurrency(unplannedTotal)}</span><span class="text-right font-medium text-teal-600">+${formatCurrency(unplannedTotal)}</span></div>${unplanned.map(renderEntry).join('')}</div>` : ''}
+        <div class="grid grid-cols-4 font-bold text-base border-t-2 border-slate-300 pt-4 mt-2"><span>Total</span><span class="text-right">${formatCurrency(plannedTotal)}</span><span class="text-right">${formatCurrency(receivedTotal)}</span><span class="text-right ${receivedTotal - plannedTotal < -0.005 ? 'text-rose-600' : 'text-teal-600'}">${formatCurrency(receivedTotal - plannedTotal)}</span></div>
+    </div>`;
+}
+
 function RealExpensesList() {
     const realExpenses = getCurrentRealExpenses();
-    const total = realExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const total = sumInBase(budget, realExpenses, uiState.selectedMonth);
     return `
     <div class="bg-white p-6 rounded-xl shadow-md">
         <div class="space-y-2 max-h-[26rem] overflow-y-auto pr-2">
             ${realExpenses.length > 0 ? realExpenses.map(exp => `
                 <div class="flex justify-between items-center border-b border-slate-200 py-2 text-sm group">
                     <div>
-                        <p class="font-medium text-slate-800">${exp.description}</p>
-                        <p class="text-xs text-slate-500">${new Date(exp.date).toLocaleDateString('fr-FR')} - <span style="color:${getCategoryColor(exp.linkedCategory)}">${exp.linkedCategory}</span></p>
+                        <p class="font-medium text-slate-800">${escapeHtml(exp.description)}${renderDetailsBadges(exp)}</p>
+                        <p class="text-xs text-slate-500">${new Date(exp.date).toLocaleDateString('fr-FR')} - ${renderCategoryShares(exp)}${findAccount(budget, exp.accountId) ? ` - ${escapeHtml(findAccount(budget, exp.accountId)!.name)}` : ''}</p>
                     </div>
                     <div class="flex items-center">
-                        <span class="font-semibold text-rose-600 mr-4">${formatCurrency(exp.amount)}</span>
+                        <span class="font-semibold text-rose-600 mr-4">${formatItemAmount(exp)}</span>
                         <div class="opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button class="create-rule-btn p-1 text-slate-400 hover:text-slate-600" data-id="${exp.id}" aria-label="Créer une règle"><i class="fas fa-wand-magic-sparkles"></i></button>
                             <button class="edit-real-expense-btn p-1 text-sky-500 hover:text-sky-700" data-id="${exp.id}" aria-label="Modifier"><i class="fas fa-pencil-alt"></i></button>
                             <button class="delete-real-expense-btn p-1 text-rose-500 hover:text-rose-700" data-id="${exp.id}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button>
                         </div>
@@ -384,8 +739,8 @@ function RealExpensesList() {
 }
 
 function StatsView() {
-    const dailyAverage = getCurrentPlannedExpenses().length > 0 ? totalPlannedExpenses() / new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).getDate() : 0;
-    const topExpenses = [...getCurrentPlannedExpenses()].sort((a, b) => b.amount - a.amount).slice(0, 5);
+    const dailyAverage = getCurrentPlannedExpenses().length > 0 ? getCurrentTotals().plannedExpenses / new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).getDate() : 0;
+    const topExpenses = [...getCurrentPlannedExpenses()].sort((a, b) => toBaseAmount(budget, b, uiState.selectedMonth) - toBaseAmount(budget, a, uiState.selectedMonth)).slice(0, 5);
     return `
         <div class="space-y-8">
             <div>${Header(`Analyse de votre Planification (${formatMonthForDisplay(uiState.selectedMonth)})`)}</div>
@@ -395,29 +750,159 @@ function StatsView() {
                     <div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-xl font-semibold text-slate-800 mb-2">Dépense Moyenne Prévue</h3><p class="text-3xl font-bold text-slate-900">${formatCurrency(dailyAverage)} <span class="text-lg font-normal text-slate-500">/ jour</span></p></div>
                     <div class="bg-white p-6 rounded-xl shadow-md">
                         <h3 class="text-xl font-semibold text-slate-800 mb-4">Top 5 Dépenses Prévues</h3>
-                        <ul class="space-y-2 text-sm">${topExpenses.map(exp => `<li class="flex justify-between items-center"><span class="text-slate-600">${exp.description} <span class="text-xs text-slate-400">(${exp.category})</span></span><span class="font-semibold text-slate-800">${formatCurrency(exp.amount)}</span></li>`).join('') || '<p class="text-sm text-slate-500">Aucune dépense planifiée.</p>'}</ul>
+                        <ul class="space-y-2 text-sm">${topExpenses.map(exp => `<li class="flex justify-between items-center"><span class="text-slate-600">${escapeHtml(exp.description)} <span class="text-xs text-slate-400">(${getCategoryShares(exp).map(share => escapeHtml(getCategoryName(budget, share.categoryId))).join(', ')})</span></span><span class="font-semibold text-slate-800">${formatItemAmount(exp)}</span></li>`).join('') || '<p class="text-sm text-slate-500">Aucune dépense planifiée.</p>'}</ul>
                     </div>
                  </div>
             </div>
              <div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-xl font-semibold text-slate-800 mb-4">Revenus vs. Dépenses Prévus</h3><div id="stats-bar-chart" class="w-full h-80 relative"></div></div>
+            ${TrendsSection()}
         </div>
     `;
 }
 
+function TrendsSection() {
+    const { from, to } = uiState.statsRange;
+    const monthCount = getMonthsInRange(uiState.statsRange).length;
+    const inputClass = 'p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500';
+    const presets = STATS_RANGE_PRESETS.map(months => `<button data-action="stats-range-preset" data-months="${months}" class="px-3 py-1 text-sm rounded-lg ${monthCount === months && to === uiState.selectedMonth ? 'bg-teal-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}">${months} mois</button>`).join('');
+    return `<div class="space-y-6">
+        <div class="flex justify-between items-end flex-wrap gap-4">
+            ${Header('Tendances')}
+            <div class="flex items-end gap-3 flex-wrap">
+                <div class="flex gap-1">${presets}</div>
+                <div><label for="stats-range-from" class="block text-xs font-medium text-slate-600 mb-1">Du</label><input type="month" id="stats-range-from" class="${inputClass}" value="${from}" max="${to}"></div>
+                <div><label for="stats-range-to" class="block text-xs font-medium text-slate-600 mb-1">Au</label><input type="month" id="stats-range-to" class="${inputClass}" value="${to}" min="${from}"></div>
+            </div>
+        </div>
+        <div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-xl font-semibold text-slate-800 mb-4">Dépenses Réelles par Catégorie</h3><div id="trend-category-chart" class="w-full h-80 relative"></div></div>
+        <div class="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-xl font-semibold text-slate-800 mb-4">Dépenses Prévues vs. Réelles</h3><div id="trend-planned-actual-chart" class="w-full h-64 relative"></div></div>
+            <div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-xl font-semibold text-slate-800 mb-4">Taux d'Épargne</h3><div id="trend-savings-rate-chart" class="w-full h-64 relative"></div></div>
+        </div>
+        <div class="bg-white p-6 rounded-xl shadow-md">${CategoryDeltasTable(to)}</div>
+    </div>`;
+}
+
+function CategoryDeltasTable(monthKey: string) {
+    const deltas = getCategoryDeltas(getViewData(), monthKey);
+    const renderDelta = (current: number, reference: number) => {
+        const difference = current - reference;
+        if (Math.abs(difference) < 0.005) return '<span class="text-slate-400">—</span>';
+        const percent = reference > 0 ? ` <span class="text-xs">(${difference > 0 ? '+' : ''}${((difference / reference) * 100).toFixed(0)}%)</span>` : '';
+        return `<span class="${difference > 0 ? 'text-rose-600' : 'text-teal-600'}">${difference > 0 ? '+' : ''}${formatCurrency(difference)}${percent}</span>`;
+    };
+    const rows = deltas.map(delta => `<tr class="border-b border-slate-100">
+        <td class="py-2"><span class="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style="background-color: ${getCategoryColor(delta.categoryId)}"></span>${escapeHtml(getCategoryName(budget, delta.categoryId))}</td>
+        <td class="py-2 text-right font-medium">${formatCurrency(delta.current)}</td>
+        <td class="py-2 text-right">${renderDelta(delta.current, delta.previousMonth)}</td>
+        <td class="py-2 text-right">${renderDelta(delta.current, delta.previousYear)}</td>
+    </tr>`).join('');
+    return `<h3 class="text-xl font-semibold text-slate-800 mb-4">Évolution par Catégorie (${formatMonthForDisplay(monthKey)})</h3>
+        ${deltas.length === 0 ? '<p class="text-sm text-slate-500 text-center py-4">Aucune dépense réelle sur ces périodes.</p>' : `<table class="w-full text-sm"><thead><tr class="text-left text-xs text-slate-500 border-b border-slate-200"><th class="py-2">Catégorie</th><th class="py-2 text-right">Dépensé</th><th class="py-2 text-right">vs. mois précédent</th><th class="py-2 text-right">vs. année précédente</th></tr></thead><tbody>${rows}</tbody></table>`}`;
+}
+
 function FlowView() {
-    return `<div class="space-y-8"><div>${Header(`Analyse des Flux Planifiés (${formatMonthForDisplay(uiState.selectedMonth)})`)}<p class="text-slate-600 mt-2">Visualisez le parcours de votre argent, de vos revenus jusqu'à vos dépenses réelles et le solde restant.</p></div><div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-xl font-semibold text-slate-800 mb-4">Flux de Budget</h3><div id="flow-sankey-chart" class="w-full h-[600px] relative"></div></div></div>`;
+    return `<div class="space-y-8"><div>${Header(`Analyse des Flux Planifiés (${formatMonthForDisplay(uiState.selectedMonth)})`)}<p class="text-slate-600 mt-2">Visualisez le parcours de votre argent, de vos revenus jusqu'à vos dépenses réelles et le solde restant.</p></div><div class="bg-white p-6 rounded-xl shadow-md"><div class="flex justify-between items-center flex-wrap gap-2 mb-4"><h3 class="text-xl font-semibold text-slate-800">Flux de Budget</h3><div class="flex items-center gap-4">${budget.settings.members.length > 0 ? `<label class="flex items-center gap-2 text-sm text-slate-600"><input type="checkbox" id="sankey-member-toggle" ${uiState.showSankeyByMember ? 'checked' : ''}> Partir des revenus de chaque membre</label>` : ''}<label class="flex items-center gap-2 text-sm text-slate-600"><input type="checkbox" id="sankey-transfers-toggle" ${uiState.showSavingsAsTransfers ? 'checked' : ''}> Afficher l'épargne comme virements</label></div></div><div id="flow-sankey-chart" class="w-full h-[600px] relative"></div></div></div>`;
+}
+
+function AccountsView() {
+    const monthEnd = getMonthEndDate(uiState.selectedMonth);
+    const account = uiState.editingAccount;
+    const inputClass = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500';
+    const netWorth = getNetWorth(budget, monthEnd);
+    const formatBalance = (value: number, currency: string) => currency === getBaseCurrency() ? formatCurrency(value)
+        : `${formatCurrency(value, currency)} <span class="text-xs font-normal text-slate-400">(${formatCurrency(convertAmount(budget, value, currency, getBaseCurrency(), monthEnd))})</span>`;
+    const accountsList = budget.accounts.map(a => {
+        const balance = getAccountBalance(budget, a, monthEnd);
+        return `<div class="flex justify-between items-center border-b border-slate-200 py-2 text-sm group">
+            <div class="flex items-center gap-3"><i class="fas ${ACCOUNT_KINDS[a.kind].icon} text-slate-400 w-4"></i><div><p class="font-medium text-slate-800">${escapeHtml(a.name)}</p><p class="text-xs text-slate-500">${ACCOUNT_KINDS[a.kind].name}</p></div></div>
+            <div class="flex items-center">
+                <span class="font-semibold mr-2 ${balance < 0 ? 'text-rose-600' : 'text-slate-800'}">${formatBalance(balance, a.currency)}</span>
+                <div class="opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button class="edit-account-btn p-1 text-sky-500 hover:text-sky-700" data-id="${a.id}" aria-label="Modifier"><i class="fas fa-pencil-alt"></i></button>
+                    <button class="delete-account-btn p-1 text-rose-500 hover:text-rose-700" data-id="${a.id}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button>
+                </div>
+            </div>
+        </div>`;
+    }).join('');
+    const months = Array.from({ length: 6 }, (_, i) => shiftMonthKey(uiState.selectedMonth, i - 5));
+    const balancesTable = `<table class="w-full text-sm"><thead><tr class="text-xs text-slate-500 border-b border-slate-200"><th class="py-2 text-left font-medium">COMPTE</th>${months.map(month => `<th class="py-2 text-right font-medium">${new Date(`${month}-01`).toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' })}</th>`).join('')}</tr></thead><tbody>${budget.accounts.map(a => `<tr class="border-b border-slate-100"><td class="py-2 pr-2">${escapeHtml(a.name)}</td>${months.map(month => { const balance = getAccountBalance(budget, a, getMonthEndDate(month)); return `<td class="py-2 text-right whitespace-nowrap ${balance < 0 ? 'text-rose-600' : ''}">${formatCurrency(balance, a.currency)}</td>`; }).join('')}</tr>`).join('')}<tr class="font-semibold"><td class="py-2">Patrimoine net</td>${months.map(month => `<td class="py-2 text-right whitespace-nowrap">${formatCurrency(getNetWorth(budget, getMonthEndDate(month)))}</td>`).join('')}</tr></tbody></table>`;
+    const transfers = getTransfersForMonth(budget, uiState.selectedMonth).sort((a, b) => a.date.localeCompare(b.date));
+    const transfersList = transfers.length > 0 ? transfers.map(transfer => {
+        const source = findAccount(budget, transfer.fromAccountId);
+        return `<div class="flex justify-between items-center border-b border-slate-200 py-2 text-sm group">
+            <div><p class="font-medium text-slate-800">${escapeHtml(source?.name || '?')} → ${escapeHtml(findAccount(budget, transfer.toAccountId)?.name || '?')}</p><p class="text-xs text-slate-500">${new Date(transfer.date).toLocaleDateString('fr-FR')}${transfer.description ? ` - ${escapeHtml(transfer.description)}` : ''}</p></div>
+            <div class="flex items-center"><span class="font-semibold text-slate-700 mr-2">${formatCurrency(transfer.amount, source?.currency)}</span><button class="delete-transfer-btn p-1 text-rose-500 hover:text-rose-700 opacity-0 group-hover:opacity-100 transition-opacity" data-id="${transfer.id}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button></div>
+        </div>`;
+    }).join('') : '<p class="text-sm text-slate-500 text-center py-4">Aucun virement ce mois-ci.</p>';
+
+    return `
+        <div id="month-navigator-container">${MonthNavigator()}</div>
+        <div class="grid grid-cols-1 md:grid-cols-5 gap-8">
+            <div class="md:col-span-2 space-y-6">
+                <div class="bg-white p-6 rounded-xl shadow-md">
+                    <h3 class="text-lg font-semibold text-slate-800 mb-1">Patrimoine Net</h3>
+                    <p class="text-xs text-slate-500 mb-4">Au ${new Date(monthEnd).toLocaleDateString('fr-FR')}</p>
+                    <p class="text-4xl font-bold ${netWorth >= 0 ? 'text-teal-600' : 'text-rose-600'}">${formatCurrency(netWorth)}</p>
+                    <div class="mt-6">${accountsList}</div>
+                </div>
+                ${Header(account ? 'Modifier le Compte' : 'Ajouter un Compte')}
+                <div class="bg-white p-6 rounded-xl shadow-md">
+                    <form id="account-form" class="space-y-4">
+                        <div><label for="account-name" class="block text-sm font-medium text-slate-600 mb-1">Nom</label><input type="text" id="account-name" required class="${inputClass}" placeholder="Ex: Livret A" value="${escapeHtml(account?.name || '')}"></div>
+                        <div class="grid grid-cols-2 gap-4">
+                            <div><label for="account-kind" class="block text-sm font-medium text-slate-600 mb-1">Type</label><select id="account-kind" class="${inputClass}">${(Object.keys(ACCOUNT_KINDS) as AccountKind[]).map(kind => `<option value="${kind}" ${account?.kind === kind ? 'selected' : ''}>${ACCOUNT_KINDS[kind].name}</option>`).join('')}</select></div>
+                            <div><label for="account-currency" class="block text-sm font-medium text-slate-600 mb-1">Devise</label>${renderCurrencySelect('account-currency', account?.currency || getBaseCurrency(), inputClass)}</div>
+                            <div><label for="account-opening-balance" class="block text-sm font-medium text-slate-600 mb-1">Solde d'ouverture</label><input type="number" id="account-opening-balance" required step="0.01" class="${inputClass}" value="${account?.openingBalance ?? 0}"></div>
+                            <div><label for="account-opening-date" class="block text-sm font-medium text-slate-600 mb-1">Au</label><input type="date" id="account-opening-date" required class="${inputClass}" value="${account?.openingDate || `${uiState.selectedMonth}-01`}"></div>
+                        </div>
+                        <div class="flex gap-2"><button type="submit" class="flex-grow bg-teal-600 text-white font-semibold py-2.5 rounded-lg hover:bg-teal-700 transition action-btn">${account ? 'Mettre à jour' : 'Ajouter'}</button>${account ? `<button type="button" data-action="cancel-account-edit" class="bg-slate-200 text-slate-700 px-4 py-2.5 rounded-lg hover:bg-slate-300">Annuler</button>` : ''}</div>
+                    </form>
+                </div>
+            </div>
+            <div class="md:col-span-3 space-y-6">
+                <div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-xl font-semibold text-slate-800 mb-4">Évolution du Patrimoine</h3><div id="net-worth-chart" class="w-full h-64 relative"></div></div>
+                <div class="bg-white p-6 rounded-xl shadow-md overflow-x-auto"><h3 class="text-xl font-semibold text-slate-800 mb-4">Soldes en Fin de Mois</h3>${balancesTable}</div>
+                <div class="bg-white p-6 rounded-xl shadow-md space-y-4">
+                    <h3 class="text-xl font-semibold text-slate-800">Virements entre Comptes</h3>
+                    <p class="text-xs text-slate-500">Les virements déplacent de l'argent entre vos comptes : ils ne comptent ni comme revenu ni comme dépense.</p>
+                    <form id="transfer-form" class="grid grid-cols-2 md:grid-cols-3 gap-3 items-end">
+                        <div><label for="transfer-from" class="block text-xs font-medium text-slate-600 mb-1">De</label>${renderAccountSelect('transfer-from', undefined, inputClass)}</div>
+                        <div><label for="transfer-to" class="block text-xs font-medium text-slate-600 mb-1">Vers</label>${renderAccountSelect('transfer-to', budget.accounts.find(a => a.kind === 'savings')?.id, inputClass)}</div>
+                        <div><label for="transfer-amount" class="block text-xs font-medium text-slate-600 mb-1">Montant (devise du compte source)</label><input type="number" id="transfer-amount" required min="0" step="0.01" class="${inputClass}"></div>
+                        <div><label for="transfer-date" class="block text-xs font-medium text-slate-600 mb-1">Date</label><input type="date" id="transfer-date" required class="${inputClass}" value="${new Date().toISOString().split('T')[0]}"></div>
+                        <div><label for="transfer-description" class="block text-xs font-medium text-slate-600 mb-1">Libellé</label><input type="text" id="transfer-description" class="${inputClass}" placeholder="Ex: Épargne mensuelle"></div>
+                        <button type="submit" class="bg-sky-600 text-white font-semibold py-2 rounded-lg hover:bg-sky-700 transition action-btn">Virer</button>
+                    </form>
+                    <div>${transfersList}</div>
+                </div>
+            </div>
+        </div>
+        <div class="mt-8">${ForecastSection()}</div>
+    `;
 }
 
 function Header(title: string) { return `<h2 class="text-2xl font-bold text-slate-800">${title}</h2>`; }
 
 function BalanceOverview() {
-    const income = totalRealIncome();
-    const expenses = totalPlannedExpenses();
+    const { plannedIncome: income, plannedExpenses: expenses, receivedIncome: received, actualSpent: spent } = getCurrentTotals();
     const balance = income - expenses;
     const progress = income > 0 ? Math.min((expenses / income) * 100, 100) : 0;
-    return `<div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-lg font-semibold text-slate-800 mb-4">Solde Prévu</h3><p class="text-4xl font-bold ${balance >= 0 ? 'text-teal-600' : 'text-rose-600'}">${formatCurrency(balance)}</p><div class="mt-4"><div class="flex justify-between text-sm text-slate-600 mb-1"><span>Dépenses Prévues</span><span>${formatCurrency(expenses)} / ${formatCurrency(income)}</span></div><div class="w-full bg-slate-200 rounded-full h-2.5"><div class="${progress > 85 ? 'bg-rose-500' : 'bg-teal-500'} h-2.5 rounded-full transition-all duration-500" style="width: ${progress}%"></div></div></div></div>`;
+    const realBalance = received - spent;
+    const missingRates = getMissingRateCurrencies(budget, uiState.selectedMonth);
+    const missingRatesNotice = missingRates.length > 0 ? `<p class="text-xs text-amber-700 bg-amber-50 rounded-lg p-2 mb-4">Aucun taux de change vers ${getBaseCurrency()} pour ${missingRates.join(', ')} : ces montants sont comptés sans conversion. <button data-action="open-currency-modal" class="underline">Ajouter un taux</button></p>` : '';
+    return `<div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-lg font-semibold text-slate-800 mb-4">Solde Prévu</h3>${missingRatesNotice}<p class="text-4xl font-bold ${balance >= 0 ? 'text-teal-600' : 'text-rose-600'}">${formatCurrency(balance)}</p><div class="mt-4"><div class="flex justify-between text-sm text-slate-600 mb-1"><span>Dépenses Prévues</span><span>${formatCurrency(expenses)} / ${formatCurrency(income)}</span></div><div class="w-full bg-slate-200 rounded-full h-2.5"><div class="${progress > 85 ? 'bg-rose-500' : 'bg-teal-500'} h-2.5 rounded-full transition-all duration-500" style="width: ${progress}%"></div></div></div><div class="mt-6 pt-4 border-t border-slate-200"><div class="flex justify-between items-baseline"><h4 class="text-sm font-semibold text-slate-700">Solde Réel</h4><p class="text-2xl font-bold ${realBalance >= 0 ? 'text-teal-600' : 'text-rose-600'}">${formatCurrency(realBalance)}</p></div><div class="flex justify-between text-xs text-slate-500 mt-1"><span>Revenus reçus ${formatCurrency(received)}</span><span>Dépenses réelles ${formatCurrency(spent)}</span></div></div></div>`;
 }
 
+const renderOverriddenBadge = (item: IncomeSource | Expense) =>
+    item.isOverridden ? ` <span class="text-[10px] font-semibold uppercase text-amber-600 bg-amber-50 rounded px-1" title="Modifié pour ce mois uniquement">modifié</span>` : '';
+
+// Only offered while the template still exists, since reverting re-reads its values for the month.
+const renderRevertInstanceButton = (item: IncomeSource | Expense, type: TransactionType, className: string) =>
+    item.isOverridden && findRecurringTemplate(budget, item.recurringId, type)
+        ? `<button class="revert-instance-btn text-slate-400 hover:text-slate-600 ${className}" data-id="${item.id}" aria-label="Rétablir les valeurs du modèle" title="Rétablir les valeurs du modèle"><i class="fas fa-rotate-left"></i></button>`
+        : '';
+
 function IncomeDetails() {
     const allIncomes = getCurrentIncomes();
     const recurringIncomes = allIncomes.filter(i => i.isRecurring);
@@ -425,14 +910,15 @@ function IncomeDetails() {
     const createIncomeTable = (title: string, data: IncomeSource[], total: number) => {
         const rows = data.length > 0 
             ? data.map(item => {
+                const editButton = `<button class="edit-income-btn p-1 text-sky-500 hover:text-sky-700 opacity-0 group-hover:opacity-100 transition-opacity" data-id="${item.id}" aria-label="Modifier"><i class="fas fa-pencil-alt"></i></button>`;
                 const buttons = !item.isRecurring
-                    ? `<button class="edit-income-btn p-1 text-sky-500 hover:text-sky-700 opacity-0 group-hover:opacity-100 transition-opacity" data-id="${item.id}" aria-label="Modifier"><i class="fas fa-pencil-alt"></i></button>
+                    ? `${editButton}
                        <button class="delete-income-btn text-rose-400 hover:text-rose-600 px-1 opacity-0 group-hover:opacity-100 transition-opacity" data-id="${item.id}" aria-label="Supprimer"><i class="fas fa-times"></i></button>`
-                    : '';
+                    : `${editButton}${renderRevertInstanceButton(item, 'income', 'px-1 opacity-0 group-hover:opacity-100 transition-opacity')}`;
                 return `<div class="flex justify-between items-center border-b border-slate-200 py-2 group">
-                            <span>${item.description}</span>
+                            <span>${escapeHtml(item.description)}${item.dueDate ? ` <span class="text-xs text-slate-400">(${formatDueDate(item.dueDate)})</span>` : ''}${renderOverriddenBadge(item)}${renderDetailsBadges(item)}</span>
                             <div class="flex items-center">
-                                <span class="font-medium mr-2">${formatCurrency(item.amount)}</span>
+                                <span class="font-medium mr-2">${formatItemAmount(item)}</span>
                                 ${buttons}
                             </div>
                         </div>`;
@@ -445,38 +931,369 @@ function IncomeDetails() {
                     <div class="font-bold flex justify-between pt-2"><span>Total</span><span>${formatCurrency(total)}</span></div>
                 </div>`;
     };
-    return `<div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-lg font-semibold text-slate-800 mb-4">Revenus Prévus</h3>${createIncomeTable('FIXES (RÉCURRENTS)', recurringIncomes, recurringIncomes.reduce((sum, i) => sum + i.amount, 0))}<hr class="my-6 border-slate-200">${createIncomeTable('VARIABLES', variableIncomes, variableIncomes.reduce((sum, i) => sum + i.amount, 0))}</div>`;
+    return `<div class="bg-white p-6 rounded-xl shadow-md"><h3 class="text-lg font-semibold text-slate-800 mb-4">Revenus Prévus</h3>${createIncomeTable('FIXES (RÉCURRENTS)', recurringIncomes, sumInBase(budget, recurringIncomes, uiState.selectedMonth))}<hr class="my-6 border-slate-200">${createIncomeTable('VARIABLES', variableIncomes, sumInBase(budget, variableIncomes, uiState.selectedMonth))}</div>`;
+}
+
+function SearchView() {
+    const { filters } = uiState.search;
+    const inputClass = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 text-sm';
+    const label = (id: string, text: string) => `<label for="${id}" class="block text-xs font-medium text-slate-600 mb-1">${text}</label>`;
+    return `
+        <div class="space-y-6">
+            ${Header('Rechercher des Transactions')}
+            <form id="search-form" class="bg-white p-6 rounded-xl shadow-md grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+                <div class="col-span-2">${label('search-query', 'Libellé, bénéficiaire ou note')}<input type="search" id="search-query" class="${inputClass}" placeholder="Ex: plombier" value="${escapeHtml(filters.query)}"></div>
+                <div>${label('search-tag', 'Étiquette')}<select id="search-tag" class="${inputClass}"><option value="">Toutes</option>${getKnownTags(budget).map(tag => `<option value="${escapeHtml(tag)}" ${filters.tag === tag ? 'selected' : ''}>#${escapeHtml(tag)}</option>`).join('')}</select></div>
+                <div>${label('search-payee', 'Bénéficiaire')}<input type="text" id="search-payee" list="search-payees" class="${inputClass}" value="${escapeHtml(filters.payee)}"><datalist id="search-payees">${getKnownPayees(budget).map(payee => `<option value="${escapeHtml(payee)}">`).join('')}</datalist></div>
+                <div>${label('search-kind', 'Type')}<select id="search-kind" class="${inputClass}"><option value="">Tous</option>${(Object.keys(SEARCH_KIND_LABELS) as SearchKind[]).map(kind => `<option value="${kind}" ${filters.kind === kind ? 'selected' : ''}>${SEARCH_KIND_LABELS[kind]}</option>`).join('')}</select></div>
+                <div>${label('search-recurrence', 'Récurrence')}<select id="search-recurrence" class="${inputClass}"><option value="">Toutes</option><option value="recurring" ${filters.recurrence === 'recurring' ? 'selected' : ''}>Récurrentes</option><option value="oneOff" ${filters.recurrence === 'oneOff' ? 'selected' : ''}>Ponctuelles</option></select></div>
+                <div>${label('search-category', 'Catégorie')}<select id="search-category" class="${inputClass}"><option value="">Toutes</option>${renderCategoryOptions(filters.categoryId ?? undefined)}</select></div>
+                <div class="grid grid-cols-2 gap-2"><div>${label('search-min-amount', 'Montant min.')}<input type="number" id="search-min-amount" min="0" step="0.01" class="${inputClass}" value="${filters.minAmount ?? ''}"></div><div>${label('search-max-amount', 'max.')}<input type="number" id="search-max-amount" min="0" step="0.01" class="${inputClass}" value="${filters.maxAmount ?? ''}"></div></div>
+                <div class="grid grid-cols-2 gap-2"><div>${label('search-from-date', 'Du')}<input type="date" id="search-from-date" class="${inputClass}" value="${filters.fromDate}"></div><div>${label('search-to-date', 'Au')}<input type="date" id="search-to-date" class="${inputClass}" value="${filters.toDate}"></div></div>
+                <div class="flex gap-2"><button type="submit" class="flex-grow bg-sky-600 text-white font-semibold py-2 rounded-lg hover:bg-sky-700 transition action-btn text-sm"><i class="fas fa-search mr-1"></i>Rechercher</button><button type="button" data-action="reset-search" class="bg-slate-200 text-slate-700 px-3 py-2 rounded-lg hover:bg-slate-300 text-sm" aria-label="Réinitialiser"><i class="fas fa-undo"></i></button></div>
+            </form>
+            <div id="search-results-container">${SearchResults()}</div>
+            ${TagReportSection()}
+        </div>
+    `;
+}
+
+function TagReportSection() {
+    const reports = getTagReports(budget);
+    if (reports.length === 0) return '';
+    const formatPeriod = (report: TagReport) => {
+        const from = formatMonthForDisplay(report.firstDate.slice(0, 7));
+        const to = formatMonthForDisplay(report.lastDate.slice(0, 7));
+        return from === to ? from : `${from} – ${to}`;
+    };
+    const rows = reports.map(report => `<tr class="border-b border-slate-100 align-top">
+        <td class="py-2 pr-2"><button data-action="search-tag" data-tag="${escapeHtml(report.tag)}" class="font-medium text-sky-700 hover:text-sky-900">#${escapeHtml(report.tag)}</button></td>
+        <td class="py-2 pr-2 text-xs text-slate-500">${formatPeriod(report)}</td>
+        <td class="py-2 pr-2 text-xs">${getTotalsCategoryIds(report.byCategory).sort((a, b) => report.byCategory[b] - report.byCategory[a]).map(categoryId => `<span style="color:${getCategoryColor(categoryId)}">${escapeHtml(getCategoryName(budget, categoryId))}</span> ${formatCurrency(report.byCategory[categoryId])}`).join('<br>') || '<span class="text-slate-400">—</span>'}</td>
+        <td class="py-2 text-right">${report.count}</td>
+        <td class="py-2 text-right">${formatCurrency(report.planned)}</td>
+        <td class="py-2 text-right font-semibold">${formatCurrency(report.spent)}</td>
+    </tr>`).join('');
+    return `<div class="space-y-4">${Header('Rapport par Étiquette')}<div class="bg-white p-6 rounded-xl shadow-md overflow-x-auto"><table class="w-full text-sm"><thead><tr class="text-left text-xs text-slate-500 border-b border-slate-200"><th class="py-2 font-medium">ÉTIQUETTE</th><th class="py-2 font-medium">PÉRIODE</th><th class="py-2 font-medium">DÉPENSES PAR CATÉGORIE</th><th class="py-2 font-medium text-right">TRANSACTIONS</th><th class="py-2 font-medium text-right">PRÉVU</th><th class="py-2 font-medium text-right">DÉPENSÉ</th></tr></thead><tbody>${rows}</tbody></table></div></div>`;
+}
+
+function SearchResults() {
+    const { filters, sortKey, sortAscending, selected } = uiState.search;
+    const results = searchTransactions(budget, filters, sortKey, sortAscending, uiState.memberFilter);
+    const selectedResults = results.filter(result => selected.includes(result.key));
+    let running = 0;
+    const rows = results.map(result => {
+        running += result.amount;
+        return `<tr class="border-b border-slate-100 ${selected.includes(result.key) ? 'bg-sky-50' : ''}">
+            <td class="py-2 pr-2"><input type="checkbox" class="search-row-checkbox" data-key="${result.key}" ${selected.includes(result.key) ? 'checked' : ''} aria-label="Sélectionner"></td>
+            <td class="py-2 pr-2 whitespace-nowrap">${new Date(result.date).toLocaleDateString('fr-FR')}</td>
+            <td class="py-2 pr-2">${escapeHtml(result.description)}${result.isRecurring ? ' <i class="fas fa-redo text-xs text-slate-400" title="Récurrent"></i>' : ''}${renderDetailsBadges(result.item as TransactionDetails)}${(result.item as TransactionDetails).payee ? `<br><span class="text-xs text-slate-400">${escapeHtml((result.item as TransactionDetails).payee!)}</span>` : ''}</td>
+            <td class="py-2 pr-2 text-xs">${result.kind === 'planned' || result.kind === 'real' ? renderCategoryShares(result.item as Expense | RealExpense) : '<span class="text-slate-400">—</span>'}</td>
+            <td class="py-2 pr-2 text-xs text-slate-500">${SEARCH_KIND_LABELS[result.kind]}</td>
+            <td class="py-2 text-right whitespace-nowrap font-medium ${result.amount < 0 ? 'text-rose-600' : 'text-teal-600'}">${formatCurrency(result.amount)}</td>
+            <td class="py-2 text-right whitespace-nowrap text-slate-500">${formatCurrency(running)}</td>
+        </tr>`;
+    }).join('');
+    const header = (key: SearchSortKey, text: string, className = '') => `<th class="py-2 font-medium ${className}"><button data-action="search-sort" data-key="${key}" class="hover:text-slate-700">${text}${sortKey === key ? ` <i class="fas fa-sort-${sortAscending ? 'up' : 'down'}"></i>` : ''}</button></th>`;
+    const total = results.reduce((sum, result) => sum + result.amount, 0);
+    const bulkBar = selectedResults.length > 0 ? `<div class="flex items-center gap-3 flex-wrap bg-sky-50 p-3 rounded-lg text-sm">
+        <span class="font-medium text-sky-800">${selectedResults.length} sélectionnée(s), ${formatCurrency(selectedResults.reduce((sum, result) => sum + result.amount, 0))}</span>
+        <select id="search-bulk-category" class="p-1.5 text-sm bg-white border border-slate-300 rounded-lg">${renderCategoryOptions()}</select>
+        <button data-action="search-bulk-recategorise" class="bg-sky-600 text-white px-3 py-1.5 rounded-lg hover:bg-sky-700 font-semibold">Recatégoriser</button>
+        <button data-action="search-bulk-delete" class="bg-rose-600 text-white px-3 py-1.5 rounded-lg hover:bg-rose-700 font-semibold">Supprimer</button>
+    </div>` : '';
+    return `<div class="bg-white p-6 rounded-xl shadow-md space-y-4">
+        <div class="flex justify-between text-sm text-slate-600"><span>${results.length} transaction(s)</span><span>Total : <span class="font-semibold ${total < 0 ? 'text-rose-600' : 'text-teal-600'}">${formatCurrency(total)}</span></span></div>
+        ${bulkBar}
+        ${results.length > 0 ? `<div class="max-h-[36rem] overflow-y-auto"><table class="w-full text-sm"><thead class="sticky top-0 bg-white"><tr class="text-left text-xs text-slate-500 border-b border-slate-200"><th class="py-2"><input type="checkbox" id="search-select-all" ${selectedResults.length === results.length ? 'checked' : ''} aria-label="Tout sélectionner"></th>${header('date', 'Date')}${header('description', 'Libellé')}${header('category', 'Catégorie')}${header('kind', 'Type')}${header('amount', 'Montant', 'text-right')}<th class="py-2 font-medium text-right">Cumul</th></tr></thead><tbody>${rows}</tbody></table></div>` : '<p class="text-sm text-slate-500 text-center py-8">Aucune transaction ne correspond à ces critères.</p>'}
+    </div>`;
+}
+
+function ForecastSection() {
+    const forecast = forecastCashFlow(budget, uiState.forecastHorizon, getMonthKey(new Date()));
+    const negativeMonths = forecast.filter(month => month.balance < 0 || month.cumulative < 0);
+    const horizons = FORECAST_HORIZONS.map(months => `<button data-action="forecast-horizon" data-months="${months}" class="px-3 py-1 text-sm rounded-lg ${uiState.forecastHorizon === months ? 'bg-teal-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}">${months} mois</button>`).join('');
+    const rows = forecast.map(month => `<tr class="border-b border-slate-100 ${month.cumulative < 0 ? 'bg-rose-50' : ''}">
+        <td class="py-2 pr-2 whitespace-nowrap">${formatMonthForDisplay(month.month)}${month.isStored ? '' : ' <span class="text-xs text-slate-400" title="Mois estimé à partir des récurrents">*</span>'}</td>
+        <td class="py-2 text-right">${formatCurrency(month.income)}</td>
+        <td class="py-2 text-right">${formatCurrency(month.recurring)}</td>
+        <td class="py-2 text-right">${formatCurrency(month.oneOff)}</td>
+        <td class="py-2 text-right">${formatCurrency(month.variable)}</td>
+        <td class="py-2 text-right font-medium ${month.balance < 0 ? 'text-rose-600' : 'text-teal-600'}">${formatCurrency(month.balance)}</td>
+        <td class="py-2 text-right font-semibold ${month.cumulative < 0 ? 'text-rose-600' : 'text-slate-800'}">${formatCurrency(month.cumulative)}</td>
+    </tr>`).join('');
+    return `<div class="space-y-6">
+        <div class="flex justify-between items-end flex-wrap gap-4">${Header('Prévisions de Trésorerie')}<div class="flex gap-1">${horizons}</div></div>
+        ${negativeMonths.length > 0 ? `<div class="bg-rose-50 border border-rose-200 text-rose-700 p-4 rounded-xl text-sm"><i class="fas fa-exclamation-triangle mr-2"></i>${negativeMonths.length} mois à risque : ${negativeMonths.map(month => formatMonthForDisplay(month.month)).join(', ')}.</div>` : ''}
+        <div class="bg-white p-6 rounded-xl shadow-md"><div id="forecast-chart" class="w-full h-72 relative"></div></div>
+        <div class="bg-white p-6 rounded-xl shadow-md overflow-x-auto">
+            <table class="w-full text-sm"><thead><tr class="text-xs text-slate-500 border-b border-slate-200"><th class="py-2 text-left font-medium">MOIS</th><th class="py-2 text-right font-medium">REVENUS</th><th class="py-2 text-right font-medium">RÉCURRENTS</th><th class="py-2 text-right font-medium">PONCTUELS</th><th class="py-2 text-right font-medium">VARIABLES (HISTORIQUE)</th><th class="py-2 text-right font-medium">SOLDE DU MOIS</th><th class="py-2 text-right font-medium">TRÉSORERIE</th></tr></thead><tbody>${rows}</tbody></table>
+            <p class="text-xs text-slate-400 mt-3">* Mois pas encore créé : estimé à partir des modèles récurrents. Les dépenses variables reprennent la moyenne des ${FORECAST_HISTORY_MONTHS} derniers mois quand elle dépasse le prévu. La trésorerie part du patrimoine net de fin du mois précédent.</p>
+        </div>
+    </div>`;
+}
+
+function GoalsView() {
+    const goal = uiState.editingGoal;
+    const inputClass = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500';
+    const goalCards = budget.goals.map(g => {
+        const progress = getGoalProgress(budget, g);
+        const scheduledPercent = g.targetAmount > 0 ? Math.min(progress.scheduled / g.targetAmount * 100, 100 - progress.percent) : 0;
+        const isLate = progress.remaining > 0 && (progress.monthsLeft === 0 || (progress.projectedMonth !== null && progress.projectedMonth > g.targetMonth));
+        const recurring = findGoalRecurringExpense(budget, g, uiState.selectedMonth);
+        let projection = 'Aucun versement pour le moment.';
+        if (progress.remaining === 0) projection = 'Objectif atteint !';
+        else if (progress.projectedMonth) projection = `Au rythme actuel (${formatCurrency(progress.averageMonthly, g.currency)}/mois), atteint en ${formatMonthForDisplay(progress.projectedMonth)}.`;
+        const lastContributions = progress.contributions.slice(-3).reverse().map(c => `<li class="flex justify-between"><span>${new Date(c.date).toLocaleDateString('fr-FR')} - ${escapeHtml(c.description)}</span><span>${formatCurrency(c.amount, g.currency)}</span></li>`).join('');
+        return `<div class="bg-white p-6 rounded-xl shadow-md space-y-3 group">
+            <div class="flex justify-between items-start">
+                <div><h4 class="text-lg font-semibold text-slate-800">${escapeHtml(g.name)}</h4><p class="text-xs text-slate-500">${formatCurrency(g.targetAmount, g.currency)} pour ${formatMonthForDisplay(g.targetMonth)}${g.linkedCategoryId !== undefined ? ` · ${escapeHtml(getCategoryName(budget, g.linkedCategoryId))}` : ''}${findAccount(budget, g.accountId) ? ` · ${escapeHtml(findAccount(budget, g.accountId)!.name)}` : ''}</p></div>
+                <div class="opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button class="edit-goal-btn p-1 text-sky-500 hover:text-sky-700" data-id="${g.id}" aria-label="Modifier"><i class="fas fa-pencil-alt"></i></button>
+                    <button class="delete-goal-btn p-1 text-rose-500 hover:text-rose-700" data-id="${g.id}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button>
+                </div>
+            </div>
+            <div class="w-full bg-slate-200 rounded-full h-3 flex overflow-hidden"><div class="bg-teal-500 h-3" style="width: ${progress.percent}%"></div><div class="bg-teal-200 h-3" style="width: ${scheduledPercent}%" title="Versements prévus"></div></div>
+            <div class="flex justify-between text-sm"><span class="font-medium text-slate-800">${formatCurrency(progress.contributed, g.currency)} <span class="text-slate-400 font-normal">/ ${formatCurrency(g.targetAmount, g.currency)}</span></span><span class="text-slate-500">${progress.percent.toFixed(0)}%</span></div>
+            ${progress.scheduled > 0 ? `<p class="text-xs text-slate-500">${formatCurrency(progress.scheduled, g.currency)} de versements prévus à venir.</p>` : ''}
+            ${progress.remaining > 0 ? `<p class="text-sm ${isLate ? 'text-amber-700' : 'text-slate-600'}">${progress.monthsLeft > 0 ? `Il faut ${formatCurrency(progress.requiredMonthly, g.currency)}/mois pendant ${progress.monthsLeft} mois pour rester dans les temps.` : 'La date cible est dépassée.'}</p>` : ''}
+            <p class="text-xs text-slate-500">${projection}</p>
+            ${lastContributions ? `<ul class="text-xs text-slate-500 space-y-0.5 border-t border-slate-100 pt-2">${lastContributions}</ul>` : ''}
+            ${progress.remaining > 0 && progress.monthsLeft > 0 ? `<button data-action="plan-goal-contribution" data-id="${g.id}" class="text-sm text-sky-600 hover:text-sky-800 font-medium"><i class="fas fa-redo mr-1"></i>${recurring ? 'Ajuster' : 'Planifier'} un versement mensuel de ${formatCurrency(Math.ceil(progress.requiredMonthly * 100) / 100, g.currency)}</button>` : ''}
+        </div>`;
+    }).join('');
+    return `
+        <div class="grid grid-cols-1 md:grid-cols-5 gap-8">
+            <div class="md:col-span-2 space-y-6">
+                ${Header(goal ? "Modifier l'Objectif" : 'Nouvel Objectif')}
+                <div class="bg-white p-6 rounded-xl shadow-md">
+                    <form id="goal-form" class="space-y-4">
+                        <div><label for="goal-name" class="block text-sm font-medium text-slate-600 mb-1">Nom</label><input type="text" id="goal-name" required class="${inputClass}" placeholder="Ex: Vacances 2027" value="${escapeHtml(goal?.name || '')}"></div>
+                        <div><label for="goal-target-amount" class="block text-sm font-medium text-slate-600 mb-1">Montant visé</label><div class="flex gap-2"><input type="number" id="goal-target-amount" required min="0.01" step="0.01" class="flex-grow p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" value="${goal?.targetAmount || ''}">${renderCurrencySelect('goal-currency', goal?.currency || getBaseCurrency())}</div></div>
+                        <div class="grid grid-cols-2 gap-4">
+                            <div><label for="goal-start-month" class="block text-sm font-medium text-slate-600 mb-1">Depuis</label><input type="month" id="goal-start-month" required class="${inputClass}" value="${goal?.startMonth || getMonthKey(new Date())}"></div>
+                            <div><label for="goal-target-month" class="block text-sm font-medium text-slate-600 mb-1">Pour</label><input type="month" id="goal-target-month" required class="${inputClass}" value="${goal?.targetMonth || ''}"></div>
+                        </div>
+                        <div><label for="goal-category" class="block text-sm font-medium text-slate-600 mb-1">Catégorie des versements <span class="text-slate-400">(optionnel)</span></label><select id="goal-category" class="${inputClass}"><option value="">-- ${escapeHtml(SAVINGS_CATEGORY)} --</option>${renderCategoryOptions(goal?.linkedCategoryId)}</select></div>
+                        <div><label for="goal-account" class="block text-sm font-medium text-slate-600 mb-1">Compte d'épargne <span class="text-slate-400">(optionnel)</span></label><select id="goal-account" class="${inputClass}"><option value="">-- Aucun --</option>${budget.accounts.map(a => `<option value="${a.id}" ${goal?.accountId === a.id ? 'selected' : ''}>${escapeHtml(a.name)}</option>`).join('')}</select><p class="text-xs text-slate-400 mt-1">Les virements vers ce compte comptent comme versements.</p></div>
+                        <div class="flex gap-2"><button type="submit" class="flex-grow bg-teal-600 text-white font-semibold py-2.5 rounded-lg hover:bg-teal-700 transition action-btn">${goal ? 'Mettre à jour' : 'Créer'}</button>${goal ? `<button type="button" data-action="cancel-goal-edit" class="bg-slate-200 text-slate-700 px-4 py-2.5 rounded-lg hover:bg-slate-300">Annuler</button>` : ''}</div>
+                    </form>
+                </div>
+            </div>
+            <div class="md:col-span-3 space-y-6">
+                ${Header("Objectifs d'Épargne")}
+                ${goalCards || '<div class="bg-white p-6 rounded-xl shadow-md text-center text-slate-500"><i class="fas fa-bullseye fa-2x mb-2 text-slate-300"></i><p>Aucun objectif pour le moment.</p></div>'}
+            </div>
+        </div>
+    `;
+}
+
+function EnvelopesPanel() {
+    const envelopes = getEnvelopeCategories(budget);
+    if (envelopes.length === 0) return '';
+    const inputClass = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 text-sm';
+    const formatSigned = (value: number) => Math.abs(value) < 0.005 ? '<span class="text-slate-400">—</span>' : `<span class="${value < 0 ? 'text-rose-600' : 'text-teal-600'}">${value > 0 ? '+' : ''}${formatCurrency(value)}</span>`;
+    const rows = envelopes.map(category => {
+        const status = getEnvelopeStatus(budget, category.id, uiState.selectedMonth);
+        return `<tr class="border-b border-slate-100">
+            <td class="py-2"><span class="inline-block w-3 h-3 rounded-full mr-2 align-middle" style="background-color: ${category.color}"></span>${escapeHtml(category.name)}</td>
+            <td class="py-2 text-right">${formatCurrency(status.planned)}</td>
+            <td class="py-2 text-right">${formatSigned(status.carriedOver)}</td>
+            <td class="py-2 text-right">${formatSigned(status.reallocated)}</td>
+            <td class="py-2 text-right font-medium">${formatCurrency(status.available)}</td>
+            <td class="py-2 text-right">${formatCurrency(status.spent)}</td>
+            <td class="py-2 text-right font-semibold ${status.remaining < 0 ? 'text-rose-600' : 'text-slate-900'}">${formatCurrency(status.remaining)}</td>
+        </tr>`;
+    }).join('');
+    const options = envelopes.map(category => `<option value="${category.id}">${escapeHtml(category.name)}</option>`).join('');
+    const entries = getEnvelopeEntries(budget, uiState.selectedMonth).filter(entry => entry.kind === 'rollover' || entry.amount > 0);
+    const ledger = entries.map(entry => entry.kind === 'rollover'
+        ? `<li class="flex justify-between py-1"><span>Report de ${formatMonthForDisplay(shiftMonthKey(entry.month, -1))} → ${escapeHtml(getCategoryName(budget, entry.categoryId))}</span>${formatSigned(entry.amount)}</li>`
+        : `<li class="flex justify-between items-center py-1 group"><span>${entry.counterpartId !== undefined ? escapeHtml(getCategoryName(budget, entry.counterpartId)) : ''} → ${escapeHtml(getCategoryName(budget, entry.categoryId))}${entry.note ? ` <span class="text-slate-400">(${escapeHtml(entry.note)})</span>` : ''}</span><span class="flex items-center">${formatCurrency(entry.amount)}<button class="delete-reallocation-btn p-1 ml-1 text-rose-500 hover:text-rose-700 opacity-0 group-hover:opacity-100 transition-opacity" data-pair-id="${entry.pairId}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button></span></li>`).join('');
+    return `<div class="bg-white p-6 rounded-xl shadow-md space-y-6">
+        <h4 class="text-lg font-semibold text-slate-800">ENVELOPPES</h4>
+        <table class="w-full text-sm"><thead><tr class="text-xs text-slate-500 border-b border-slate-200"><th class="py-2 text-left">CATÉGORIE</th><th class="py-2 text-right">PRÉVU</th><th class="py-2 text-right">REPORT</th><th class="py-2 text-right">RÉALLOUÉ</th><th class="py-2 text-right">DISPONIBLE</th><th class="py-2 text-right">DÉPENSÉ</th><th class="py-2 text-right">RESTANT</th></tr></thead><tbody>${rows}</tbody></table>
+        ${envelopes.length > 1 ? `<form id="envelope-reallocation-form" class="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+            <div><label for="reallocation-from" class="block text-xs font-medium text-slate-600 mb-1">De</label><select id="reallocation-from" class="${inputClass}">${options}</select></div>
+            <div><label for="reallocation-to" class="block text-xs font-medium text-slate-600 mb-1">Vers</label><select id="reallocation-to" class="${inputClass}">${options}</select></div>
+            <div><label for="reallocation-amount" class="block text-xs font-medium text-slate-600 mb-1">Montant</label><input type="number" id="reallocation-amount" required min="0.01" step="0.01" class="${inputClass}"></div>
+            <div><label for="reallocation-note" class="block text-xs font-medium text-slate-600 mb-1">Note</label><input type="text" id="reallocation-note" class="${inputClass}"></div>
+            <button type="submit" class="bg-sky-600 text-white font-semibold py-2 rounded-lg hover:bg-sky-700 transition action-btn text-sm">Réallouer</button>
+        </form>` : ''}
+        <div><h5 class="text-xs font-medium text-slate-500 mb-1">MOUVEMENTS DU MOIS</h5>${ledger ? `<ul class="text-xs text-slate-600 divide-y divide-slate-100">${ledger}</ul>` : '<p class="text-xs text-slate-400">Aucun report ni réallocation ce mois-ci.</p>'}</div>
+    </div>`;
+}
+
+function VarianceWarnings() {
+    const report = getVarianceReport(getViewData(), uiState.selectedMonth);
+    const flagged = report.categories.filter(variance => variance.status !== 'ok').sort((a, b) => (b.spent - b.planned) - (a.spent - a.planned));
+    const { overall } = report;
+    if (flagged.length === 0 && overall.status === 'ok') return '';
+    const statusClass = (status: VarianceStatus) => status === 'over' ? 'text-rose-600' : 'text-amber-600';
+    const describe = (variance: Variance) => {
+        if (variance.status === 'over') return variance.overspendPercent === null
+            ? `${formatCurrency(variance.spent)} dépensés sans budget prévu`
+            : `${formatCurrency(variance.overspend)} au-delà du prévu (+${variance.overspendPercent.toFixed(0)}%)`;
+        if (variance.status === 'threshold') return `${formatCurrency(variance.spent)} sur ${formatCurrency(variance.planned)}, seuil de ${variance.threshold}% atteint`;
+        return `Projection ${formatCurrency(variance.projected)} pour ${formatCurrency(variance.planned)} prévus (${formatCurrency(variance.burnRate)}/jour)`;
+    };
+    const rows = flagged.map(variance => `<li class="flex justify-between items-start gap-4 py-1.5">
+        <span class="flex items-center gap-2"><span class="w-2.5 h-2.5 rounded-full flex-shrink-0" style="background-color: ${getCategoryColor(variance.categoryId)}"></span><span class="font-medium text-slate-700">${escapeHtml(getCategoryName(budget, variance.categoryId))}</span></span>
+        <span class="text-right text-xs"><span class="font-semibold ${statusClass(variance.status)}">${VARIANCE_LABELS[variance.status]}</span><br><span class="text-slate-500">${describe(variance)}</span></span>
+    </li>`).join('');
+    return `<div class="bg-amber-50 border border-amber-200 p-4 rounded-xl text-sm">
+        <div class="flex justify-between items-baseline mb-2"><h4 class="font-semibold text-amber-800"><i class="fas fa-exclamation-triangle mr-2"></i>Alertes budgétaires</h4><span class="text-xs text-amber-700">Jour ${report.daysElapsed}/${report.daysInMonth}</span></div>
+        ${overall.status !== 'ok' ? `<p class="text-xs ${statusClass(overall.status)} mb-2">Global : ${VARIANCE_LABELS[overall.status].toLowerCase()}, ${describe(overall).charAt(0).toLowerCase()}${describe(overall).slice(1)}.</p>` : ''}
+        ${rows ? `<ul class="divide-y divide-amber-100">${rows}</ul>` : ''}
+    </div>`;
 }
 
 function BudgetDetailTable() {
     const allPlannedExpenses = getCurrentPlannedExpenses();
     const recurringExpenses = allPlannedExpenses.filter(e => e.isRecurring);
     const variableExpenses = allPlannedExpenses.filter(e => !e.isRecurring);
+    const variances = getVarianceReport(getViewData(), uiState.selectedMonth).categories;
+    const spentByCategory = sumByCategory(budget, getCurrentRealExpenses(), uiState.selectedMonth);
     const renderCategoryTable = (title: string, expenses: Expense[]) => {
-        const expensesByCategory = expenses.reduce((acc, expense) => { acc[expense.category] = (acc[expense.category] || 0) + expense.amount; return acc; }, {} as { [key: string]: number });
-        const relevantCategories = globalState.categories.filter(cat => expenses.some(exp => exp.category === cat.name));
-        return `<div><h4 class="text-lg font-semibold text-slate-800 mb-2">${title}</h4><div class="w-full text-sm"><div class="grid grid-cols-4 text-xs text-slate-500 font-medium pb-2 border-b border-slate-200"><span class="col-span-2">CATÉGORIE</span><span class="text-right">DÉPENSÉ / PRÉVU</span><span class="text-right">RESTANT</span></div><div class="budget-table-body">${relevantCategories.length > 0 ? relevantCategories.map(cat => { const planned = expensesByCategory[cat.name] || 0; const spent = getCurrentRealExpenses().filter(re => re.linkedCategory === cat.name).reduce((sum, re) => sum + re.amount, 0); const remaining = planned - spent; const isExpanded = uiState.expandedCategory === cat.name; const overspent = remaining < 0; return `<div class="border-b border-slate-200"><div class="grid grid-cols-4 items-center py-3 hover:bg-slate-50 cursor-pointer" data-category-name="${cat.name}"><div class="col-span-2 flex items-center gap-3"><span class="w-3 h-3 rounded-full" style="background-color: ${getCategoryColor(cat.name)}"></span><span class="font-medium text-slate-700">${cat.name}</span></div><div class="text-right"><span class="font-medium ${overspent ? 'text-rose-500' : 'text-slate-600'}">${formatCurrency(spent)}</span><span class="text-slate-400"> / ${formatCurrency(planned)}</span></div><div class="flex items-center justify-end gap-2"><span class="font-medium ${overspent ? 'text-rose-600' : 'text-slate-900'}">${formatCurrency(remaining)}</span><i class="fas fa-chevron-down text-slate-400 transition-transform ${isExpanded ? 'rotate-180' : ''}"></i></div></div>${isExpanded ? renderExpenseRowsForCategory(cat.name, expenses) : ''}</div>`; }).join('') : `<div class="text-center py-8 text-slate-500"><i class="fas fa-folder-open fa-2x mb-2 text-slate-300"></i><p>Aucune dépense planifiée dans cette section.</p></div>`}</div><div class="font-bold flex justify-end pt-2 mt-2"><span>Total: ${formatCurrency(expenses.reduce((sum, e) => sum + e.amount, 0))}</span></div></div></div>`;
+        const expensesByCategory = sumByCategory(budget, expenses, uiState.selectedMonth);
+        const isRelevant = (cat: Category) => expenses.some(exp => hasCategory(exp, cat.id));
+        // Sub-categories are listed inside their parent's row, whose amounts include theirs.
+        const relevantCategories = budget.categories.filter(cat => cat.parentId === undefined && (isRelevant(cat) || getSubCategories(budget, cat.id).some(isRelevant)));
+        return `<div><h4 class="text-lg font-semibold text-slate-800 mb-2">${title}</h4><div class="w-full text-sm"><div class="grid grid-cols-4 text-xs text-slate-500 font-medium pb-2 border-b border-slate-200"><span class="col-span-2">CATÉGORIE</span><span class="text-right">DÉPENSÉ / PRÉVU</span><span class="text-right">RESTANT</span></div><div class="budget-table-body">${relevantCategories.length > 0 ? relevantCategories.map(cat => { const subCategories = getSubCategories(budget, cat.id).filter(isRelevant); const ids = [cat.id, ...subCategories.map(sub => sub.id)]; const planned = ids.reduce((sum, id) => sum + (expensesByCategory[id] || 0), 0); const spent = ids.reduce((sum, id) => sum + (spentByCategory[id] || 0), 0); const remaining = planned - spent; const isExpanded = uiState.expandedCategory === cat.id; const overspent = remaining < 0; const status = variances.find(v => v.categoryId === cat.id && v.status !== 'ok')?.status; return `<div class="border-b border-slate-200"><div class="grid grid-cols-4 items-center py-3 hover:bg-slate-50 cursor-pointer" data-category-id="${cat.id}"><div class="col-span-2 flex items-center gap-3"><span class="w-3 h-3 rounded-full" style="background-color: ${cat.color}"></span><span class="font-medium text-slate-700">${escapeHtml(cat.name)}</span>${status ? `<i class="fas fa-exclamation-circle text-xs ${status === 'over' ? 'text-rose-500' : 'text-amber-500'}" title="${VARIANCE_LABELS[status]}"></i>` : ''}</div><div class="text-right"><span class="font-medium ${overspent ? 'text-rose-500' : 'text-slate-600'}">${formatCurrency(spent)}</span><span class="text-slate-400"> / ${formatCurrency(planned)}</span></div><div class="flex items-center justify-end gap-2"><span class="font-medium ${overspent ? 'text-rose-600' : 'text-slate-900'}">${formatCurrency(remaining)}</span><i class="fas fa-chevron-down text-slate-400 transition-transform ${isExpanded ? 'rotate-180' : ''}"></i></div></div>${isExpanded ? renderExpenseRowsForCategory(cat.id, expenses) + subCategories.map(sub => renderSubCategoryRows(sub, expenses, expensesByCategory[sub.id] || 0, spentByCategory[sub.id] || 0)).join('') : ''}</div>`; }).join('') : `<div class="text-center py-8 text-slate-500"><i class="fas fa-folder-open fa-2x mb-2 text-slate-300"></i><p>Aucune dépense planifiée dans cette section.</p></div>`}</div><div class="font-bold flex justify-end pt-2 mt-2"><span>Total: ${formatCurrency(sumInBase(budget, expenses, uiState.selectedMonth))}</span></div></div></div>`;
     }
-    return `<div class="bg-white p-6 rounded-xl shadow-md space-y-8">${renderCategoryTable('DÉPENSES FIXES PRÉVUES (RÉCURRENTES)', recurringExpenses)}${renderCategoryTable('DÉPENSES VARIABLES PRÉVUES', variableExpenses)}<div class="font-bold text-base flex justify-between border-t-2 border-slate-300 pt-4"><span>Total général des dépenses prévues</span><span>${formatCurrency(totalPlannedExpenses())}</span></div></div>`;
+    return `<div class="bg-white p-6 rounded-xl shadow-md space-y-8">${renderCategoryTable('DÉPENSES FIXES PRÉVUES (RÉCURRENTES)', recurringExpenses)}${renderCategoryTable('DÉPENSES VARIABLES PRÉVUES', variableExpenses)}<div class="font-bold text-base flex justify-between border-t-2 border-slate-300 pt-4"><span>Total général des dépenses prévues</span><span>${formatCurrency(getCurrentTotals().plannedExpenses)}</span></div></div>`;
+}
+
+// A sub-category's totals and planned expenses, inside its expanded parent's row.
+function renderSubCategoryRows(sub: Category, expenses: Expense[], planned: number, spent: number) {
+    const remaining = planned - spent;
+    return `<div class="grid grid-cols-4 items-center py-2 pl-6 bg-slate-100 border-t border-slate-200 text-xs">
+        <div class="col-span-2 flex items-center gap-2"><span class="w-2 h-2 rounded-full" style="background-color: ${sub.color}"></span><span class="font-medium text-slate-600">${escapeHtml(sub.name)}</span></div>
+        <div class="text-right"><span class="font-medium ${remaining < 0 ? 'text-rose-500' : 'text-slate-600'}">${formatCurrency(spent)}</span><span class="text-slate-400"> / ${formatCurrency(planned)}</span></div>
+        <div class="text-right pr-6 font-medium ${remaining < 0 ? 'text-rose-600' : 'text-slate-900'}">${formatCurrency(remaining)}</div>
+    </div>${renderExpenseRowsForCategory(sub.id, expenses)}`;
 }
 
-function renderExpenseRowsForCategory(categoryName: string, expenseList: Expense[]) {
-    const expensesInCategory = expenseList.filter(e => e.category === categoryName);
+const renderCategoryShares = (item: Expense | RealExpense) => getCategoryShares(item)
+    .map(share => `<span style="color:${getCategoryColor(share.categoryId)}">${escapeHtml(getCategoryName(budget, share.categoryId))}</span>${item.splits?.length ? ` ${formatCurrency(share.amount, getItemCurrency(item))}` : ''}`)
+    .join(' + ');
+
+function renderExpenseRowsForCategory(categoryId: number, expenseList: Expense[]) {
+    const expensesInCategory = expenseList.filter(e => hasCategory(e, categoryId));
     return `<div class="bg-slate-50 text-xs text-slate-600 animate-fade-in divide-y divide-slate-200">${expensesInCategory.map(exp => {
+        const editButton = `<button class="edit-expense-btn p-1 text-sky-500 hover:text-sky-700" data-id="${exp.id}" aria-label="Modifier"><i class="fas fa-pencil-alt"></i></button>`;
         const buttons = !exp.isRecurring
-            ? `<button class="edit-expense-btn p-1 text-sky-500 hover:text-sky-700" data-id="${exp.id}" aria-label="Modifier"><i class="fas fa-pencil-alt"></i></button>
+            ? `${editButton}
                <button class="delete-expense-btn p-1 text-rose-500 hover:text-rose-700" data-id="${exp.id}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button>`
-            : '';
+            : `${editButton}${renderRevertInstanceButton(exp, 'expense', 'p-1')}`;
         return `<div class="flex justify-between items-center p-2 pl-6">
-                    <span>${exp.description}</span>
+                    <span>${escapeHtml(exp.description)}${exp.dueDate ? ` <span class="text-slate-400">(${formatDueDate(exp.dueDate)})</span>` : ''}${renderOverriddenBadge(exp)}${renderDetailsBadges(exp)}</span>
                     <div class="flex items-center">
-                        <span class="mr-4 font-medium">${formatCurrency(exp.amount)}</span>
+                        ${exp.splits?.length ? `<span class="mr-2 text-slate-400">${formatCurrency(getCategoryShares(exp).filter(share => share.categoryId === categoryId).reduce((sum, share) => sum + share.amount, 0), getItemCurrency(exp))} sur</span>` : ''}<span class="mr-4 font-medium">${formatItemAmount(exp)}</span>
                         ${buttons}
                     </div>
                 </div>`;
     }).join('')}</div>`;
 }
 
+const renderAttachmentChip = (attachment: AttachmentRef) => `<span class="attachment-chip inline-flex items-center gap-1 bg-slate-100 rounded-full pl-2 pr-1 py-0.5 text-xs text-slate-600" data-attachment-id="${attachment.id}" data-name="${escapeHtml(attachment.name)}" data-type="${escapeHtml(attachment.type)}">
+    <button type="button" class="open-attachment-btn hover:text-sky-700" data-id="${attachment.id}"><i class="fas ${attachment.type === 'application/pdf' ? 'fa-file-pdf' : 'fa-image'} mr-1"></i>${escapeHtml(attachment.name)}</button>
+    <button type="button" data-action="remove-attachment" class="text-slate-400 hover:text-rose-600 px-1" aria-label="Retirer"><i class="fas fa-times"></i></button>
+</span>`;
+
+// Scan button of the real expense form, then what the model read for the user to check before it fills the form.
+function ReceiptScanPanel() {
+    const state = uiState.receiptScan;
+    const scanButton = (label: string) => `<label class="flex items-center justify-center gap-2 w-full cursor-pointer border-2 border-dashed border-slate-300 rounded-lg py-2 text-sm font-semibold text-slate-600 hover:border-sky-400 hover:text-sky-700"><i class="fas fa-camera"></i>${label}<input type="file" id="receipt-scan-input" accept="image/*" capture="environment" class="hidden"></label>`;
+    if (!state) return scanButton('Scanner un ticket de caisse');
+    if (state.status === 'scanning') return `<div class="flex items-center justify-center gap-2 rounded-lg bg-sky-50 py-3 text-sm text-sky-700"><i class="fas fa-spinner fa-spin"></i>Lecture de ${escapeHtml(state.file.name)}…</div>`;
+    if (state.status === 'error' || !state.scan) return `<div class="space-y-2"><p class="rounded-lg bg-rose-50 p-3 text-sm text-rose-700">Le ticket n'a pas pu être lu. Réessayez avec une photo plus nette ou saisissez la dépense manuellement.</p>${scanButton('Réessayer')}</div>`;
+    const { scan } = state;
+    const currency = scan.currency || getBaseCurrency();
+    const itemsTotal = scan.items.reduce((sum, item) => sum + item.amount, 0);
+    const field = (label: string, value: string) => `<div><dt class="text-xs text-slate-500">${label}</dt><dd class="font-medium text-slate-800">${value || '<span class="text-slate-400">Non lu</span>'}</dd></div>`;
+    return `<div class="rounded-lg border border-sky-200 bg-sky-50/50 p-4 space-y-3 text-sm">
+        <p class="font-semibold text-slate-700"><i class="fas fa-receipt text-sky-600 mr-1"></i>Ticket lu — vérifiez avant de l'utiliser</p>
+        <dl class="grid grid-cols-2 gap-2">
+            ${field('Commerçant', escapeHtml(scan.merchant))}
+            ${field('Date', scan.date ? new Date(`${scan.date}T00:00:00`).toLocaleDateString('fr-FR') : '')}
+            ${field('Total', scan.total > 0 ? formatCurrency(scan.total, currency) : '')}
+            ${field('Catégorie suggérée', scan.categoryId !== undefined ? escapeHtml(getCategoryName(budget, scan.categoryId)) : '')}
+        </dl>
+        ${scan.items.length > 0 ? `<table class="w-full text-xs"><tbody>${scan.items.map(item => `<tr class="border-t border-sky-100"><td class="py-1 pr-2 text-slate-600">${escapeHtml(item.description)}</td><td class="py-1 text-right">${formatCurrency(item.amount, currency)}</td></tr>`).join('')}</tbody></table>` : ''}
+        ${scan.items.length > 0 && Math.abs(itemsTotal - scan.total) >= 0.01 ? `<p class="text-xs text-amber-700"><i class="fas fa-exclamation-triangle mr-1"></i>Les lignes totalisent ${formatCurrency(itemsTotal, currency)} : vérifiez le montant.</p>` : ''}
+        <div class="flex gap-2">
+            <button type="button" data-action="apply-receipt-scan" class="flex-1 bg-sky-600 text-white font-semibold py-2 rounded-lg hover:bg-sky-700 action-btn">Remplir le formulaire</button>
+            <button type="button" data-action="discard-receipt-scan" class="px-4 py-2 text-slate-500 hover:text-slate-700">Ignorer</button>
+        </div>
+    </div>`;
+}
+
+const renderMemberSelect = (id: string, selected: number | undefined, className = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500') =>
+    `<select id="${id}" class="${className}"><option value="">-- Non attribué --</option>${budget.settings.members.map(member => `<option value="${member.id}" ${member.id === selected ? 'selected' : ''}>${escapeHtml(member.name)}</option>`).join('')}</select>`;
+
+// Who earned or paid the item and, for an expense, the members it is shared between with their weights, which start from
+// each member's default share. Only shown once the household has members.
+function MemberFields(prefix: string, item?: TransactionDetails | null, canShare = true) {
+    const members = budget.settings.members;
+    if (members.length === 0) return '';
+    const isShared = !!item?.shares?.length;
+    const weightOf = (member: HouseholdMember) => isShared ? item!.shares!.find(share => share.memberId === member.id)?.weight ?? 0 : member.defaultShare;
+    const shareFields = `<label class="flex items-center gap-2 text-sm text-slate-600"><input type="checkbox" id="${prefix}-shared" data-shares-toggle="${prefix}" ${isShared ? 'checked' : ''}> Dépense partagée</label>
+        <div id="${prefix}-shares" class="grid grid-cols-2 gap-2 ${isShared ? '' : 'hidden'}">
+            ${members.map(member => `<label class="flex items-center gap-2 text-xs text-slate-600"><span class="flex-grow">${escapeHtml(member.name)}</span><input type="number" min="0" step="any" class="member-share-weight w-20 p-1 text-right bg-white border border-slate-300 rounded-md" data-member-id="${member.id}" value="${weightOf(member)}" aria-label="Part de ${escapeHtml(member.name)}"></label>`).join('')}
+            <p class="col-span-2 text-xs text-slate-400">Parts relatives : 2 et 1 répartissent la dépense en deux tiers et un tiers.</p>
+        </div>`;
+    return `<div class="space-y-2">
+        <div><label for="${prefix}-member" class="block text-sm font-medium text-slate-600 mb-1">${canShare ? 'Payé par' : 'Membre du foyer'}</label>${renderMemberSelect(`${prefix}-member`, item?.memberId)}</div>
+        ${canShare ? shareFields : ''}
+    </div>`;
+}
+
+// Payee, tags, note and attachments fields for the form whose fields are prefixed with `prefix`.
+function DetailsFields(prefix: string, item?: TransactionDetails | null) {
+    const inputClass = 'w-full p-2 text-sm bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500';
+    const hasDetails = !!(item?.payee || item?.tags?.length || item?.note || item?.attachments?.length);
+    return `<details class="rounded-lg border border-slate-200 px-3 py-2" ${hasDetails ? 'open' : ''}>
+        <summary class="text-sm text-slate-600 cursor-pointer">Bénéficiaire, étiquettes, note et justificatifs</summary>
+        <div class="space-y-3 mt-3">
+            <div><label for="${prefix}-payee" class="block text-xs font-medium text-slate-600 mb-1">Bénéficiaire</label><input type="text" id="${prefix}-payee" list="${prefix}-payees" class="${inputClass}" placeholder="Ex: EDF" value="${escapeHtml(item?.payee || '')}"><datalist id="${prefix}-payees">${getKnownPayees(budget).map(payee => `<option value="${escapeHtml(payee)}">`).join('')}</datalist></div>
+            <div><label for="${prefix}-tags" class="block text-xs font-medium text-slate-600 mb-1">Étiquettes <span class="text-slate-400">(séparées par des virgules)</span></label><input type="text" id="${prefix}-tags" class="${inputClass}" placeholder="Ex: vacances, bretagne-2026" value="${escapeHtml((item?.tags || []).join(', '))}"></div>
+            <div><label for="${prefix}-note" class="block text-xs font-medium text-slate-600 mb-1">Note</label><textarea id="${prefix}-note" rows="2" class="${inputClass}">${escapeHtml(item?.note || '')}</textarea></div>
+            <div><label for="${prefix}-attachment-input" class="block text-xs font-medium text-slate-600 mb-1">Justificatifs <span class="text-slate-400">(images ou PDF)</span></label><div id="${prefix}-attachments" class="flex flex-wrap gap-2 mb-2">${(item?.attachments || []).map(renderAttachmentChip).join('')}</div><input type="file" id="${prefix}-attachment-input" data-attachment-prefix="${prefix}" multiple accept="image/*,application/pdf" class="block w-full text-xs text-slate-600 file:mr-3 file:py-1 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-semibold file:bg-sky-50 file:text-sky-700 hover:file:bg-sky-100"></div>
+        </div>
+    </details>`;
+}
+
+// Who paid or shares an item, shown next to it in lists.
+function renderMemberBadge(item: TransactionDetails) {
+    const member = findMember(budget, item.memberId);
+    const shared = item.shares?.length ? item.shares.map(share => `${findMember(budget, share.memberId)?.name || '?'} ${share.weight}`).join(', ') : '';
+    const badge = member ? `<span class="inline-block rounded-full px-2 text-[10px] font-medium text-white" style="background-color: ${member.color}">${escapeHtml(member.name)}</span>` : '';
+    return `${badge}${shared ? `<i class="fas fa-people-arrows text-slate-400" title="Partagée : ${escapeHtml(shared)}"></i>` : ''}`;
+}
+
+// Member, tags, note and attachments shown next to a transaction in lists.
+function renderDetailsBadges(item: TransactionDetails) {
+    const tags = (item.tags || []).map(tag => `<span class="inline-block bg-sky-50 text-sky-700 rounded-full px-2 text-[10px] font-medium">#${escapeHtml(tag)}</span>`).join(' ');
+    const note = item.note ? `<i class="fas fa-sticky-note text-slate-400" title="${escapeHtml(item.note)}"></i>` : '';
+    const attachments = (item.attachments || []).map(attachment => `<button type="button" class="open-attachment-btn text-slate-400 hover:text-sky-700" data-id="${attachment.id}" title="${escapeHtml(attachment.name)}"><i class="fas fa-paperclip"></i></button>`).join('');
+    const member = renderMemberBadge(item);
+    return tags || note || attachments || member ? ` <span class="inline-flex items-center gap-1 align-middle">${member}${tags}${note}${attachments}</span>` : '';
+}
+
+const renderSplitRow = (split?: CategorySplit) => `<div class="split-row flex gap-2 items-center">
+    <select class="split-category flex-grow p-2 text-sm bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" aria-label="Catégorie">${renderCategoryOptions(split?.categoryId)}</select>
+    <input type="number" step="0.01" class="split-amount w-28 p-2 text-sm bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" placeholder="Montant" aria-label="Montant" value="${split?.amount ?? ''}">
+    <button type="button" data-action="remove-split" class="text-rose-400 hover:text-rose-600 px-1" aria-label="Retirer"><i class="fas fa-times"></i></button>
+</div>`;
+
+// Split rows for the form whose fields are prefixed with `prefix`; the first ones added take over its category and amount.
+const SplitEditor = (prefix: string, splits?: CategorySplit[]) => `<div>
+    <div id="${prefix}-splits" class="space-y-2">${(splits || []).map(renderSplitRow).join('')}</div>
+    <button type="button" data-action="add-split" data-prefix="${prefix}" class="mt-2 text-xs text-sky-600 hover:text-sky-800 font-medium"><i class="fas fa-columns mr-1"></i>Répartir sur plusieurs catégories</button>
+</div>`;
+
 function TransactionModal() {
     if (!uiState.isTransactionModalOpen) return '';
     const isEditing = uiState.editingTransaction !== null;
@@ -484,24 +1301,57 @@ function TransactionModal() {
     const type = isEditing ? transaction!.type : uiState.transactionModalType;
     const isExpense = type === 'expense';
     const title = isEditing ? (isExpense ? 'Modifier Dépense Prévue' : 'Modifier Revenu Prévu') : 'Ajouter une Transaction Planifiée';
-    return `<div id="transaction-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-2xl w-full max-w-md m-4 animate-scale-up"><div class="flex justify-between items-center mb-4"><h3 class="text-xl font-semibold text-slate-800">${title}</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times"></i></button></div><form id="transaction-form" class="space-y-4">${!isEditing ? `<div class="flex gap-2 rounded-lg bg-slate-100 p-1"><button type="button" data-type="expense" class="transaction-type-btn flex-1 p-2 text-sm font-semibold rounded-md ${isExpense ? 'bg-white shadow' : 'text-slate-500'}">Dépense</button><button type="button" data-type="income" class="transaction-type-btn flex-1 p-2 text-sm font-semibold rounded-md ${!isExpense ? 'bg-white shadow' : 'text-slate-500'}">Revenu</button></div>` : ''}<div><label for="transaction-description" class="block text-sm font-medium text-slate-600 mb-1">Description</label><input type="text" id="transaction-description" required class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500" placeholder="Ex: Restaurant" value="${transaction?.description || ''}"></div><div><label for="transaction-amount" class="block text-sm font-medium text-slate-600 mb-1">Montant (€)</label><input type="number" id="transaction-amount" required step="0.01" class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500" placeholder="Ex: 45.50" value="${transaction?.amount || ''}"></div><div id="category-wrapper" class="${isExpense ? '' : 'hidden'}"><label for="transaction-category" class="block text-sm font-medium text-slate-600 mb-1">Catégorie</label><div class="flex items-center space-x-2"><select id="transaction-category" class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500">${globalState.categories.map(c => `<option value="${c.name}" ${transaction?.type === 'expense' && transaction.category === c.name ? 'selected' : ''}>${c.name}</option>`).join('')}</select><button type="button" id="suggest-category-btn" class="p-2 bg-sky-100 text-sky-600 rounded-lg hover:bg-sky-200 transition" aria-label="Suggérer une catégorie">${uiState.isSuggesting ? '<i class="fas fa-spinner fa-spin"></i>' : '<i class="fas fa-wand-magic-sparkles"></i>'}</button></div></div><button type="submit" class="w-full bg-sky-600 text-white font-semibold py-3 rounded-lg hover:bg-sky-700 transition action-btn">${isEditing ? 'Mettre à jour' : 'Ajouter'}</button></form></div></div>`;
+    const overrideNotice = transaction?.isRecurring ? `<p class="text-xs text-slate-500 bg-slate-50 rounded-lg p-2">Modification pour ${formatMonthForDisplay(uiState.selectedMonth)} uniquement : le modèle récurrent n'est pas changé.</p>` : '';
+    return `<div id="transaction-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-2xl w-full max-w-md m-4 animate-scale-up"><div class="flex justify-between items-center mb-4"><h3 class="text-xl font-semibold text-slate-800">${title}</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times"></i></button></div><form id="transaction-form" class="space-y-4">${overrideNotice}${!isEditing ? `<div class="flex gap-2 rounded-lg bg-slate-100 p-1"><button type="button" data-type="expense" class="transaction-type-btn flex-1 p-2 text-sm font-semibold rounded-md ${isExpense ? 'bg-white shadow' : 'text-slate-500'}">Dépense</button><button type="button" data-type="income" class="transaction-type-btn flex-1 p-2 text-sm font-semibold rounded-md ${!isExpense ? 'bg-white shadow' : 'text-slate-500'}">Revenu</button></div>` : ''}<div><label for="transaction-description" class="block text-sm font-medium text-slate-600 mb-1">Description</label><input type="text" id="transaction-description" required class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500" placeholder="Ex: Restaurant" value="${transaction?.description || ''}"></div><div><label for="transaction-amount" class="block text-sm font-medium text-slate-600 mb-1">Montant</label><div class="flex gap-2"><input type="number" id="transaction-amount" required step="0.01" class="flex-grow p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500" placeholder="Ex: 45.50" value="${transaction?.amount || ''}">${renderCurrencySelect('transaction-currency', transaction ? getItemCurrency(transaction) : getBaseCurrency())}</div></div>${!isExpense ? `<div><label for="transaction-account" class="block text-sm font-medium text-slate-600 mb-1">Compte crédité</label>${renderAccountSelect('transaction-account', transaction?.type === 'income' ? transaction.accountId : undefined)}</div>` : ''}<div id="category-wrapper" class="${isExpense ? '' : 'hidden'}"><label for="transaction-category" class="block text-sm font-medium text-slate-600 mb-1">Catégorie</label><div class="flex items-center space-x-2"><select id="transaction-category" class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"><option value="">-- Catégorie --</option>${renderCategoryOptions(transaction?.type === 'expense' ? transaction.categoryId : undefined)}</select><button type="button" id="suggest-category-btn" class="p-2 bg-sky-100 text-sky-600 rounded-lg hover:bg-sky-200 transition" aria-label="Suggérer une catégorie">${uiState.isSuggesting ? '<i class="fas fa-spinner fa-spin"></i>' : '<i class="fas fa-wand-magic-sparkles"></i>'}</button></div>${SplitEditor('transaction', transaction?.type === 'expense' ? transaction.splits : undefined)}</div>${isExpense && budget.goals.length > 0 ? `<div><label for="transaction-goal" class="block text-sm font-medium text-slate-600 mb-1">Versement pour l'objectif</label>${renderGoalSelect('transaction-goal', transaction?.type === 'expense' ? transaction.goalId : undefined)}</div>` : ''}${MemberFields('transaction', transaction, isExpense)}${DetailsFields('transaction', transaction)}<button type="submit" class="w-full bg-sky-600 text-white font-semibold py-3 rounded-lg hover:bg-sky-700 transition action-btn">${isEditing ? 'Mettre à jour' : 'Ajouter'}</button></form></div></div>`;
+}
+
+// Each category can be renamed in place, nested under a top-level one, or merged into another.
+function renderCategoryManagerRow(cat: Category) {
+    const selectClass = 'p-1 border border-slate-300 rounded-md bg-white text-slate-700';
+    const parentOptions = budget.categories.filter(c => c.parentId === undefined && c.id !== cat.id)
+        .map(c => `<option value="${c.id}" ${c.id === cat.parentId ? 'selected' : ''}>${escapeHtml(c.name)}</option>`).join('');
+    const mergeOptions = budget.categories.filter(c => c.id !== cat.id).map(c => `<option value="${c.id}">${escapeHtml(c.name)}</option>`).join('');
+    return `<div class="p-2 bg-slate-50 rounded-md space-y-2 ${cat.parentId !== undefined ? 'ml-6' : ''}">
+        <div class="flex items-center gap-3">
+            <input type="color" value="${cat.color}" class="p-0 h-6 w-6 border-none bg-transparent rounded-md cursor-pointer" data-color-category-id="${cat.id}" aria-label="Couleur">
+            <input type="text" value="${escapeHtml(cat.name)}" data-rename-category-id="${cat.id}" class="flex-grow min-w-0 p-1 text-sm font-medium text-slate-700 bg-transparent border border-transparent rounded-md hover:border-slate-300 focus:bg-white focus:border-teal-500" aria-label="Nom de la catégorie">
+            <label class="flex items-center gap-1 text-xs text-slate-500" title="Le reste de la catégorie est reporté sur le mois suivant"><input type="checkbox" data-envelope-category-id="${cat.id}" ${cat.envelopeSince ? 'checked' : ''}> Enveloppe</label>
+            <div class="flex items-center gap-1"><label class="text-xs text-slate-500" for="threshold-${cat.id}">Alerte à</label><input type="number" id="threshold-${cat.id}" min="1" max="999" step="1" value="${cat.alertThreshold ?? DEFAULT_ALERT_THRESHOLD}" class="w-16 p-1 text-xs text-right border border-slate-300 rounded-md bg-white" data-threshold-category-id="${cat.id}"><span class="text-xs text-slate-500">%</span></div>
+            <button class="delete-category-btn text-rose-400 hover:text-rose-600 px-2" data-id="${cat.id}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button>
+        </div>
+        <div class="flex flex-wrap items-center gap-4 pl-9 text-xs text-slate-500">
+            <label class="flex items-center gap-1">Sous-catégorie de <select data-parent-category-id="${cat.id}" class="${selectClass}"><option value="">-- Aucune --</option>${parentOptions}</select></label>
+            <label class="flex items-center gap-1">Fusionner dans <select data-merge-category-id="${cat.id}" class="${selectClass}"><option value="">--</option>${mergeOptions}</select></label>
+        </div>
+    </div>`;
 }
 
 function CategoryManagerModal() {
     if (!uiState.isCategoryModalOpen) return '';
-    return `<div id="category-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-lg m-4 animate-scale-up"><div class="flex justify-between items-center mb-6"><h3 class="text-2xl font-semibold text-slate-800">Gérer les Catégories</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div><div class="space-y-4"><form id="add-category-form" class="flex gap-2 items-end"><div class="flex-grow"><label class="text-sm font-medium text-slate-600">Nom de la Catégorie</label><input type="text" id="new-category-name" placeholder="Ex: Factures" required class="w-full p-2 text-sm border border-slate-300 rounded-lg bg-slate-50 focus:ring-2 focus:ring-teal-500"></div><button type="submit" class="bg-teal-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-teal-700 transition action-btn">Ajouter</button></form><div id="category-list" class="space-y-2 max-h-64 overflow-y-auto pr-2">${globalState.categories.map(cat => `<div class="flex justify-between items-center p-2 bg-slate-50 rounded-md"><div class="flex items-center gap-3"><input type="color" value="${cat.color}" class="p-0 h-6 w-6 border-none bg-transparent rounded-md cursor-pointer" data-category-name="${cat.name}"><p class="font-medium text-sm text-slate-700">${cat.name}</p></div><button class="delete-category-btn text-rose-400 hover:text-rose-600 px-2" data-category-name="${cat.name}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button></div>`).join('')}</div></div></div></div>`;
+    const parentOptions = budget.categories.filter(c => c.parentId === undefined).map(c => `<option value="${c.id}">${escapeHtml(c.name)}</option>`).join('');
+    return `<div id="category-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-2xl m-4 animate-scale-up"><div class="flex justify-between items-center mb-6"><h3 class="text-2xl font-semibold text-slate-800">Gérer les Catégories</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div><div class="space-y-4"><form id="add-category-form" class="flex gap-2 items-end"><div class="flex-grow"><label class="text-sm font-medium text-slate-600" for="new-category-name">Nom de la Catégorie</label><input type="text" id="new-category-name" placeholder="Ex: Factures" required class="w-full p-2 text-sm border border-slate-300 rounded-lg bg-slate-50 focus:ring-2 focus:ring-teal-500"></div><div><label class="text-sm font-medium text-slate-600" for="new-category-parent">Sous-catégorie de</label><select id="new-category-parent" class="w-full p-2 text-sm border border-slate-300 rounded-lg bg-slate-50 focus:ring-2 focus:ring-teal-500"><option value="">-- Aucune --</option>${parentOptions}</select></div><button type="submit" class="bg-teal-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-teal-700 transition action-btn">Ajouter</button></form><div id="category-list" class="space-y-2 max-h-96 overflow-y-auto pr-2">${budget.categories.map(renderCategoryManagerRow).join('')}</div></div></div></div>`;
 }
 
 const renderRecurringList = (items: (IncomeSource | Expense)[], type: 'income' | 'expense') => {
     if (items.length === 0) return '<p class="text-sm text-slate-500 text-center py-4">Aucun élément.</p>';
-    return items.map(item => `
+    const today = new Date().toISOString().split('T')[0];
+    return items.map(item => {
+        const schedule = getTemplateSchedule(item);
+        const nextOccurrences = getNextOccurrences(schedule, today, 3);
+        return `
         <div class="flex justify-between items-center p-2 bg-slate-50 rounded-md text-sm group">
-            <span>${item.description} - ${formatCurrency(item.amount)}</span>
+            <div>
+                <p>${escapeHtml(item.description)} - ${formatCurrency(item.amount, getItemCurrency(item))}</p>
+                <p class="text-xs text-slate-500">${describeSchedule(schedule)}</p>
+                ${(item.versions?.length || 0) > 1 ? `<p class="text-xs text-slate-400">Historique : ${item.versions!.map(v => `${formatMonthForDisplay(v.fromMonth)} → ${formatCurrency(v.amount, getItemCurrency(v.currency ? v : item))}`).join(', ')}</p>` : ''}
+                <p class="text-xs text-slate-400">${nextOccurrences.length > 0 ? `Prochaines : ${nextOccurrences.map(date => new Date(date).toLocaleDateString('fr-FR')).join(', ')}` : 'Aucune échéance à venir'}</p>
+            </div>
             <div class="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
                 <button class="edit-recurring-btn text-sky-500 hover:text-sky-700 px-2" data-id="${item.id}" data-type="${type}" aria-label="Modifier"><i class="fas fa-pencil-alt"></i></button>
                 <button class="delete-recurring-btn text-rose-400 hover:text-rose-600 px-2" data-id="${item.id}" data-type="${type}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button>
             </div>
-        </div>`).join('');
+        </div>`;
+    }).join('');
 };
 
 function RecurringModal() {
@@ -511,8 +1361,263 @@ function RecurringModal() {
     const type = isEditing ? transaction!.type : uiState.recurringModalType;
     const isExpense = type === 'expense';
     const formTitle = isEditing ? 'Modifier la Transaction' : 'Ajouter une Transaction Récurrente';
+    const schedule = transaction?.schedule;
+    // The form shows the version in effect for the selected month, which is also where a change applies by default.
+    const values = transaction ? { ...transaction, ...getTemplateValuesForMonth(transaction, uiState.selectedMonth) } : null;
+    const inputClass = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500';
+    const effectiveMonthField = isEditing ? `<div><label for="recurring-effective-month" class="block text-sm font-medium text-slate-600 mb-1">Appliquer à partir de</label><input type="month" id="recurring-effective-month" required class="${inputClass}" value="${uiState.selectedMonth}"><p class="text-xs text-slate-400 mt-1">Les mois antérieurs et les échéances modifiées individuellement sont conservés.</p></div>` : '';
+    const scheduleFields = `<div class="grid grid-cols-2 gap-4">
+        <div><label for="recurring-frequency" class="block text-sm font-medium text-slate-600 mb-1">Fréquence</label><select id="recurring-frequency" class="${inputClass}">${(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => `<option value="${frequency}" ${(schedule?.frequency || 'monthly') === frequency ? 'selected' : ''}>${FREQUENCY_LABELS[frequency].name}</option>`).join('')}</select></div>
+        <div><label for="recurring-interval" class="block text-sm font-medium text-slate-600 mb-1">Toutes les N périodes</label><input type="number" id="recurring-interval" min="1" step="1" class="${inputClass}" value="${schedule?.interval || 1}"></div>
+        <div><label for="recurring-start-month" class="block text-sm font-medium text-slate-600 mb-1">Premier mois</label><input type="month" id="recurring-start-month" required class="${inputClass}" value="${schedule?.startMonth || uiState.selectedMonth}"></div>
+        <div><label for="recurring-due-day" class="block text-sm font-medium text-slate-600 mb-1">Jour d'échéance</label><input type="number" id="recurring-due-day" min="1" max="31" step="1" class="${inputClass}" value="${schedule?.dueDay || 1}"></div>
+        <div><label for="recurring-end-month" class="block text-sm font-medium text-slate-600 mb-1">Dernier mois <span class="text-slate-400">(optionnel)</span></label><input type="month" id="recurring-end-month" class="${inputClass}" value="${schedule?.endMonth || ''}"></div>
+        <div><label for="recurring-occurrences" class="block text-sm font-medium text-slate-600 mb-1">Nb d'échéances <span class="text-slate-400">(optionnel)</span></label><input type="number" id="recurring-occurrences" min="1" step="1" class="${inputClass}" value="${schedule?.occurrences ?? ''}"></div>
+    </div>`;
+
+    return `<div id="recurring-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-4xl m-4 animate-scale-up"><div class="flex justify-between items-center mb-6"><h3 class="text-2xl font-semibold text-slate-800">Gérer les Transactions Récurrentes</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div><div class="grid grid-cols-1 md:grid-cols-2 gap-8"><div class="space-y-4"><h4 class="text-lg font-semibold text-slate-800">${formTitle}</h4><form id="recurring-form" class="space-y-4"><div class="flex gap-2 rounded-lg bg-slate-100 p-1"><button type="button" data-type="expense" class="recurring-type-btn flex-1 p-2 text-sm font-semibold rounded-md ${isExpense ? 'bg-white shadow' : 'text-slate-500'}">Dépense</button><button type="button" data-type="income" class="recurring-type-btn flex-1 p-2 text-sm font-semibold rounded-md ${!isExpense ? 'bg-white shadow' : 'text-slate-500'}">Revenu</button></div><div><label class="block text-sm font-medium text-slate-600 mb-1">Description</label><input type="text" id="recurring-description" required class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" value="${values?.description || ''}"></div><div><label class="block text-sm font-medium text-slate-600 mb-1">Montant</label><div class="flex gap-2"><input type="number" id="recurring-amount" required step="0.01" class="flex-grow p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" value="${values?.amount || ''}">${renderCurrencySelect('recurring-currency', values ? getItemCurrency(values) : getBaseCurrency())}</div></div>${!isExpense ? `<div><label for="recurring-account" class="block text-sm font-medium text-slate-600 mb-1">Compte crédité</label>${renderAccountSelect('recurring-account', values?.type === 'income' ? values.accountId : undefined)}</div>` : ''}<div id="recurring-category-wrapper" class="${isExpense ? '' : 'hidden'}"><label class="block text-sm font-medium text-slate-600 mb-1">Catégorie</label><select id="recurring-category" class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500">${renderCategoryOptions(values?.type === 'expense' ? values.categoryId : undefined)}</select></div>${MemberFields('recurring', values, isExpense)}${scheduleFields}${effectiveMonthField}<div class="flex gap-2"><button type="submit" class="flex-grow bg-sky-600 text-white font-semibold py-2.5 rounded-lg hover:bg-sky-700 transition">${isEditing ? 'Mettre à jour' : 'Ajouter'}</button>${isEditing ? `<button type="button" data-action="cancel-recurring-edit" class="bg-slate-200 text-slate-700 px-4 py-2.5 rounded-lg hover:bg-slate-300">Annuler</button>` : ''}</div></form></div><div class="space-y-6"><div class="space-y-2"><h4 class="text-lg font-semibold text-teal-800">Revenus Récurrents</h4><div id="recurring-incomes-list" class="space-y-2 max-h-60 overflow-y-auto pr-2">${renderRecurringList(budget.recurringIncomes, 'income')}</div></div><div class="space-y-2"><h4 class="text-lg font-semibold text-rose-800">Dépenses Récurrentes</h4><div id="recurring-expenses-list" class="space-y-2 max-h-60 overflow-y-auto pr-2">${renderRecurringList(budget.recurringExpenses, 'expense')}</div></div></div></div></div></div>`;
+}
+
+function ImportModal() {
+    if (!uiState.isImportModalOpen) return '';
+    const state = uiState.importState;
+    const selectClass = 'w-full p-2 text-sm bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500';
+    const mappingStep = () => {
+        if (!state) return '';
+        const { mapping } = state;
+        const dateFormatSelect = `<div><label class="block text-xs font-medium text-slate-600 mb-1">Format de date</label><select data-import-mapping="dateFormat" class="${selectClass}"><option value="dmy" ${mapping.dateFormat === 'dmy' ? 'selected' : ''}>JJ/MM/AAAA</option><option value="ymd" ${mapping.dateFormat === 'ymd' ? 'selected' : ''}>AAAA-MM-JJ</option><option value="mdy" ${mapping.dateFormat === 'mdy' ? 'selected' : ''}>MM/JJ/AAAA</option></select></div>`;
+        if (state.format === 'ofx') return '';
+        if (state.format === 'qif') return `<div class="grid grid-cols-2 gap-4">${dateFormatSelect}</div>`;
+        const lines = parseCsvLines(state.rawText, mapping.separator);
+        const columnCount = Math.max(0, ...lines.slice(0, 10).map(line => line.length));
+        const headers = Array.from({ length: columnCount }, (_, i) => (mapping.hasHeader && lines[0]?.[i]) || `Colonne ${i + 1}`);
+        const sampleRows = lines.slice(mapping.hasHeader ? 1 : 0, (mapping.hasHeader ? 1 : 0) + 3);
+        const columnSelect = (field: 'dateColumn' | 'descriptionColumn' | 'amountColumn', label: string) => `<div><label class="block text-xs font-medium text-slate-600 mb-1">${label}</label><select data-import-mapping="${field}" class="${selectClass}">${headers.map((header, i) => `<option value="${i}" ${mapping[field] === i ? 'selected' : ''}>${escapeHtml(header)}</option>`).join('')}</select></div>`;
+        const separators: [string, string][] = [[';', 'Point-virgule (;)'], [',', 'Virgule (,)'], ['\t', 'Tabulation'], ['|', 'Barre verticale (|)']];
+        return `<div class="space-y-4">
+            <div class="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div><label class="block text-xs font-medium text-slate-600 mb-1">Séparateur</label><select data-import-mapping="separator" class="${selectClass}">${separators.map(([value, label]) => `<option value="${value}" ${mapping.separator === value ? 'selected' : ''}>${label}</option>`).join('')}</select></div>
+                ${columnSelect('dateColumn', 'Colonne date')}
+                ${columnSelect('descriptionColumn', 'Colonne libellé')}
+                ${columnSelect('amountColumn', 'Colonne montant')}
+                ${dateFormatSelect}
+            </div>
+            <div class="flex flex-wrap gap-x-6 gap-y-2 text-sm text-slate-600">
+                <label class="flex items-center gap-2"><input type="checkbox" data-import-mapping="hasHeader" ${mapping.hasHeader ? 'checked' : ''}> Première ligne = en-têtes</label>
+                <label class="flex items-center gap-2"><input type="checkbox" data-import-mapping="decimalComma" ${mapping.decimalComma ? 'checked' : ''}> Virgule décimale (1 234,56)</label>
+                <label class="flex items-center gap-2"><input type="checkbox" data-import-mapping="expensesArePositive" ${mapping.expensesArePositive ? 'checked' : ''}> Les dépenses sont en montants positifs</label>
+            </div>
+            <div class="overflow-x-auto"><table class="w-full text-xs text-slate-600"><thead><tr class="text-left text-slate-500 border-b border-slate-200">${headers.map(header => `<th class="py-1 pr-4 font-medium">${escapeHtml(header)}</th>`).join('')}</tr></thead><tbody>${sampleRows.map(row => `<tr class="border-b border-slate-100">${headers.map((_, i) => `<td class="py-1 pr-4 whitespace-nowrap">${escapeHtml(row[i] || '')}</td>`).join('')}</tr>`).join('')}</tbody></table></div>
+            <button type="button" data-action="import-preview" class="bg-sky-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-sky-700 transition text-sm">Prévisualiser</button>
+        </div>`;
+    };
+    const previewStep = () => {
+        if (!state?.rows) return '';
+        const selectedCount = state.rows.filter(row => row.selected).length;
+        const categoryOptions = (selected?: number) => `<option value="">-- Catégorie --</option>${renderCategoryOptions(selected)}`;
+        return `<div class="space-y-4">
+            <div class="flex justify-between items-end gap-4 flex-wrap">
+                <p class="text-sm text-slate-600">${state.rows.length} transaction(s) lue(s), ${state.rows.filter(row => row.isDuplicate).length} doublon(s) probable(s).</p>
+                <div class="w-64"><label class="block text-xs font-medium text-slate-600 mb-1">Catégorie pour la sélection</label><select id="import-bulk-category" class="${selectClass}">${categoryOptions()}</select></div>
+            </div>
+            <div class="max-h-80 overflow-y-auto pr-2"><table class="w-full text-sm"><thead><tr class="text-left text-xs text-slate-500 border-b border-slate-200"><th class="py-2"></th><th class="py-2">Date</th><th class="py-2">Libellé</th><th class="py-2 text-right">Montant</th><th class="py-2 pl-4">Catégorie</th></tr></thead><tbody>${state.rows.map(row => `
+                <tr class="border-b border-slate-100 ${row.isCredit ? 'text-teal-700' : ''}">
+                    <td class="py-2 pr-2"><input type="checkbox" class="import-row-checkbox" data-row-id="${row.id}" ${row.selected ? 'checked' : ''}></td>
+                    <td class="py-2 pr-2 whitespace-nowrap">${new Date(row.date).toLocaleDateString('fr-FR')}</td>
+                    <td class="py-2 pr-2">${escapeHtml(row.description)}${row.isDuplicate ? ' <span class="ml-1 text-xs font-semibold text-amber-600 bg-amber-50 px-1.5 py-0.5 rounded">Doublon probable</span>' : ''}${row.isCredit ? ' <span class="ml-1 text-xs text-teal-500">(revenu)</span>' : ''}</td>
+                    <td class="py-2 text-right whitespace-nowrap font-medium">${row.isCredit ? '+' : ''}${formatCurrency(row.amount, state.currency)}</td>
+                    <td class="py-2 pl-4">${row.isCredit ? '<span class="text-xs">Revenu reçu</span>' : `<select class="import-row-category p-1 text-xs bg-slate-50 border border-slate-300 rounded-lg" data-row-id="${row.id}">${categoryOptions(row.categoryId)}</select>`}</td>
+                </tr>`).join('')}</tbody></table></div>
+            <button type="button" data-action="import-commit" class="w-full bg-teal-600 text-white font-semibold py-3 rounded-lg hover:bg-teal-700 transition action-btn">Importer ${selectedCount} transaction(s)</button>
+            <p class="text-xs text-slate-500">Les crédits sélectionnés sont importés comme revenus reçus.</p>
+        </div>`;
+    };
+    return `<div id="import-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-4xl m-4 animate-scale-up max-h-[90vh] overflow-y-auto"><div class="flex justify-between items-center mb-6"><h3 class="text-2xl font-semibold text-slate-800">Importer un relevé bancaire</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div><div class="space-y-6">
+        <div><label for="import-file-input" class="block text-sm font-medium text-slate-600 mb-1">Fichier (CSV, OFX, QIF)</label><input type="file" id="import-file-input" accept=".csv,.txt,.ofx,.qfx,.qif" class="block w-full text-sm text-slate-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-sky-50 file:text-sky-700 hover:file:bg-sky-100">${state ? `<div class="flex items-center justify-between gap-4 mt-1"><p class="text-xs text-slate-500">${escapeHtml(state.fileName)} — format ${state.format.toUpperCase()}</p><div class="flex items-center gap-4"><label class="flex items-center gap-2 text-xs text-slate-600">Compte ${renderAccountSelect('import-account', state.accountId, 'p-1 text-xs bg-slate-50 border border-slate-300 rounded-lg')}</label><label class="flex items-center gap-2 text-xs text-slate-600">Devise ${renderCurrencySelect('import-currency', state.currency, 'p-1 text-xs bg-slate-50 border border-slate-300 rounded-lg')}</label></div></div>` : ''}</div>
+        ${state?.error ? `<p class="text-sm text-rose-600">${escapeHtml(state.error)}</p>` : ''}
+        ${mappingStep()}
+        ${previewStep()}
+    </div></div></div>`;
+}
+
+function RulesModal() {
+    if (!uiState.isRulesModalOpen) return '';
+    const isEditing = uiState.editingRule !== null;
+    const rule = uiState.ruleDraft || uiState.editingRule;
+    const inputClass = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500';
+    const testResult = uiState.ruleTestResult;
+    const testResultHTML = testResult ? `<div class="bg-slate-50 rounded-lg p-3 text-sm space-y-2"><p class="font-medium text-slate-700">${testResult.matches.length} transaction(s) correspondante(s) dans l'historique${testResult.conflicts > 0 ? `, dont <span class="text-amber-600">${testResult.conflicts} classée(s) ailleurs</span>` : ''}.</p><ul class="space-y-1 max-h-40 overflow-y-auto text-xs">${testResult.matches.slice(0, 20).map(item => `<li class="flex justify-between gap-2"><span>${escapeHtml(item.description)} <span class="text-slate-400">(${formatMonthForDisplay(item.monthKey)})</span></span><span class="${item.categoryId !== rule?.categoryId ? 'text-amber-600' : 'text-slate-500'} whitespace-nowrap">${escapeHtml(getCategoryName(budget, item.categoryId))}</span></li>`).join('')}</ul></div>` : '';
+    const rulesList = budget.categoryRules.length > 0 ? budget.categoryRules.map(r => `
+        <div class="flex justify-between items-center p-2 bg-slate-50 rounded-md text-sm group">
+            <div><p class="text-slate-700">${escapeHtml(describeRule(r))} → <span class="font-medium" style="color:${getCategoryColor(r.categoryId)}">${escapeHtml(getCategoryName(budget, r.categoryId))}</span></p><p class="text-xs text-slate-400">Priorité ${r.priority}</p></div>
+            <div class="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                <button class="edit-rule-btn text-sky-500 hover:text-sky-700 px-2" data-id="${r.id}" aria-label="Modifier"><i class="fas fa-pencil-alt"></i></button>
+                <button class="delete-rule-btn text-rose-400 hover:text-rose-600 px-2" data-id="${r.id}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button>
+            </div>
+        </div>`).join('') : '<p class="text-sm text-slate-500 text-center py-4">Aucune règle.</p>';
+
+    return `<div id="rules-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-4xl m-4 animate-scale-up max-h-[90vh] overflow-y-auto"><div class="flex justify-between items-center mb-6"><h3 class="text-2xl font-semibold text-slate-800">Règles de Catégorisation</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div><div class="grid grid-cols-1 md:grid-cols-2 gap-8"><div class="space-y-4">
+        <h4 class="text-lg font-semibold text-slate-800">${isEditing ? 'Modifier la Règle' : 'Ajouter une Règle'}</h4>
+        <form id="rule-form" class="space-y-4">
+            <div><label for="rule-pattern" class="block text-sm font-medium text-slate-600 mb-1">Le libellé contient</label><input type="text" id="rule-pattern" required class="${inputClass}" placeholder="Ex: SNCF" value="${escapeHtml(rule?.descriptionPattern || '')}"><label class="flex items-center gap-2 text-sm text-slate-600 mt-2"><input type="checkbox" id="rule-is-regex" ${rule?.isRegex ? 'checked' : ''}> Expression régulière</label></div>
+            <div class="grid grid-cols-2 gap-4">
+                <div><label for="rule-min-amount" class="block text-sm font-medium text-slate-600 mb-1">Montant min</label><input type="number" id="rule-min-amount" step="0.01" class="${inputClass}" value="${rule?.minAmount ?? ''}"></div>
+                <div><label for="rule-max-amount" class="block text-sm font-medium text-slate-600 mb-1">Montant max</label><input type="number" id="rule-max-amount" step="0.01" class="${inputClass}" value="${rule?.maxAmount ?? ''}"></div>
+            </div>
+            <div class="grid grid-cols-3 gap-4">
+                <div class="col-span-2"><label for="rule-category" class="block text-sm font-medium text-slate-600 mb-1">Catégorie</label><select id="rule-category" class="${inputClass}">${renderCategoryOptions(rule?.categoryId)}</select></div>
+                <div><label for="rule-priority" class="block text-sm font-medium text-slate-600 mb-1">Priorité</label><input type="number" id="rule-priority" step="1" class="${inputClass}" value="${rule?.priority ?? 10}"></div>
+            </div>
+            <div class="flex gap-2"><button type="submit" class="flex-grow bg-sky-600 text-white font-semibold py-2.5 rounded-lg hover:bg-sky-700 transition">${isEditing ? 'Mettre à jour' : 'Ajouter'}</button><button type="button" data-action="test-rule" class="bg-slate-200 text-slate-700 px-4 py-2.5 rounded-lg hover:bg-slate-300">Tester</button>${isEditing || uiState.ruleDraft ? `<button type="button" data-action="cancel-rule-edit" class="bg-slate-200 text-slate-700 px-4 py-2.5 rounded-lg hover:bg-slate-300">Annuler</button>` : ''}</div>
+        </form>
+        ${testResultHTML}
+    </div><div class="space-y-2"><h4 class="text-lg font-semibold text-slate-800">Règles actives</h4><p class="text-xs text-slate-500">Appliquées par ordre de priorité décroissante ; la première règle correspondante l'emporte. La suggestion IA n'est utilisée que si aucune règle ne correspond.</p><div id="rules-list" class="space-y-2 max-h-96 overflow-y-auto pr-2">${rulesList}</div></div></div></div></div>`;
+}
+
+function BackupModal() {
+    if (!uiState.isBackupModalOpen) return '';
+    const backupImport = uiState.backupImport;
+    const importSummary = () => {
+        if (!backupImport) return '';
+        if (!backupImport.dataset) {
+            const shownErrors = backupImport.errors.slice(0, 10);
+            const hiddenCount = backupImport.errors.length - shownErrors.length;
+            return `<div class="bg-rose-50 text-rose-700 rounded-lg p-3 text-sm space-y-1"><p class="font-semibold">Impossible d'importer ${escapeHtml(backupImport.fileName)} :</p><ul class="list-disc pl-5 text-xs space-y-0.5">${shownErrors.map(error => `<li>${escapeHtml(error)}</li>`).join('')}${hiddenCount > 0 ? `<li>… et ${hiddenCount} autre(s) erreur(s)</li>` : ''}</ul></div>`;
+        }
+        const { dataset } = backupImport;
+        const months = Object.values(dataset.monthlyData);
+        const transactionCount = months.reduce((sum, month) => sum + month.realIncome.length + month.plannedExpenses.length + month.realExpenses.length + month.receivedIncome.length, 0);
+        return `<div class="bg-slate-50 rounded-lg p-3 text-sm space-y-3"><p class="text-slate-700"><span class="font-semibold">${escapeHtml(backupImport.fileName)}</span> (schéma ${backupImport.schemaVersion}${backupImport.schemaVersion! < SCHEMA_VERSION ? `, migré vers ${SCHEMA_VERSION}` : ''}) : ${months.length} mois, ${transactionCount} transactions, ${dataset.categories.length} catégories, ${dataset.recurringIncomes.length + dataset.recurringExpenses.length} récurrents, ${dataset.categoryRules.length} règles.</p><div class="flex gap-2"><button type="button" data-action="backup-merge" class="flex-1 bg-sky-600 text-white font-semibold py-2 rounded-lg hover:bg-sky-700 transition">Fusionner</button><button type="button" data-action="backup-replace" class="flex-1 bg-rose-600 text-white font-semibold py-2 rounded-lg hover:bg-rose-700 transition">Remplacer</button></div><p class="text-xs text-slate-500">Fusionner ajoute les éléments absents sans modifier les données existantes. Remplacer efface toutes les données actuelles.</p></div>`;
+    };
+    return `<div id="backup-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-lg m-4 animate-scale-up"><div class="flex justify-between items-center mb-6"><h3 class="text-2xl font-semibold text-slate-800">Sauvegarde et Restauration</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div><div class="space-y-6">
+        <div class="space-y-2"><h4 class="font-semibold text-slate-800">Exporter</h4><p class="text-sm text-slate-500">Toutes les données (mois, catégories, récurrents, règles et taux de change) dans un seul fichier JSON versionné.</p><button type="button" data-action="export-backup" class="bg-teal-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-teal-700 transition action-btn"><i class="fas fa-download mr-2"></i>Télécharger la sauvegarde</button></div>
+        <hr class="border-slate-200">
+        <div class="space-y-2"><h4 class="font-semibold text-slate-800">Importer</h4><input type="file" id="backup-file-input" accept=".json,application/json" class="block w-full text-sm text-slate-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-sky-50 file:text-sky-700 hover:file:bg-sky-100">${importSummary()}</div>
+        ${quarantineKeys.length > 0 ? `<hr class="border-slate-200"><div class="space-y-2"><h4 class="font-semibold text-slate-800">Données en quarantaine</h4><p class="text-sm text-slate-500">Ces données n'ont pas pu être lues au chargement. Elles ont été mises de côté plutôt que supprimées.</p>${quarantineKeys.map(key => `<div class="flex justify-between items-center p-2 bg-amber-50 rounded-md text-xs"><span class="font-mono text-amber-800 break-all">${escapeHtml(key)}</span><div class="flex items-center flex-shrink-0"><button class="download-quarantine-btn text-sky-500 hover:text-sky-700 px-2" data-key="${escapeHtml(key)}" aria-label="Télécharger"><i class="fas fa-download"></i></button><button class="delete-quarantine-btn text-rose-400 hover:text-rose-600 px-2" data-key="${escapeHtml(key)}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button></div></div>`).join('')}</div>` : ''}
+    </div></div></div>`;
+}
+
+function ReportModal() {
+    if (!uiState.isReportModalOpen) return '';
+    const { from, to } = uiState.reportRange;
+    const monthCount = getMonthsInRange(uiState.reportRange).length;
+    const inputClass = 'p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500';
+    return `<div id="report-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-lg m-4 animate-scale-up"><div class="flex justify-between items-center mb-6"><h3 class="text-2xl font-semibold text-slate-800">Exporter un rapport</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div><div class="space-y-6">
+        <div class="space-y-2"><h4 class="font-semibold text-slate-800">Période</h4><div class="flex items-end gap-3"><div><label for="report-range-from" class="block text-xs font-medium text-slate-600 mb-1">Du</label><input type="month" id="report-range-from" class="${inputClass}" value="${from}" max="${to}"></div><div><label for="report-range-to" class="block text-xs font-medium text-slate-600 mb-1">Au</label><input type="month" id="report-range-to" class="${inputClass}" value="${to}" min="${from}"></div></div><p class="text-xs text-slate-500">${monthCount} mois, montants convertis en ${getBaseCurrency()}.${uiState.memberFilter !== null ? ` Limité à la part de ${escapeHtml(findMember(budget, uiState.memberFilter)?.name || '?')}, comme l'affichage ; le bilan du foyer reste complet.` : ''}</p></div>
+        <hr class="border-slate-200">
+        <div class="space-y-2"><h4 class="font-semibold text-slate-800">Tableur</h4><p class="text-sm text-slate-500">Soldes de chaque mois, prévu, réel et restant par catégorie, et toutes les transactions de la période.</p><div class="flex gap-2"><button type="button" data-action="export-report-csv" class="bg-teal-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-teal-700 transition action-btn"><i class="fas fa-file-csv mr-2"></i>CSV</button><button type="button" data-action="export-report-xlsx" class="bg-teal-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-teal-700 transition action-btn"><i class="fas fa-file-excel mr-2"></i>XLSX</button></div></div>
+        <hr class="border-slate-200">
+        <div class="space-y-2"><h4 class="font-semibold text-slate-800">Rapport imprimable</h4><p class="text-sm text-slate-500">Soldes, graphiques et tableaux de chaque mois, à imprimer ou à enregistrer en PDF depuis le navigateur.</p><button type="button" data-action="print-report" class="bg-sky-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-sky-700 transition action-btn"><i class="fas fa-print mr-2"></i>Ouvrir le rapport</button></div>
+    </div></div></div>`;
+}
+
+const ASSISTANT_EXAMPLES = [
+    'Combien avons-nous dépensé en Repas ces 3 derniers mois par rapport au prévu ?',
+    'Prévois une baisse de 200 € des Loisirs le mois prochain.',
+    'Quelles catégories dépassent leur budget ce mois-ci ?',
+];
+
+function renderAssistantProposal(proposal: AssistantProposal, index: number) {
+    const kindLabels: { [kind in AssistantChange['kind']]: string } = { 'add-planned-expense': 'Nouvelle dépense planifiée', 'update-planned-expense': 'Dépense planifiée', 'update-recurring-expense': 'Dépense récurrente' };
+    const diff = (before: string | undefined, after: string) => before === undefined || before === after
+        ? `<span>${after}</span>`
+        : `<span class="line-through text-rose-500">${before}</span> <i class="fas fa-arrow-right text-xs text-slate-400"></i> <span class="font-semibold text-teal-700">${after}</span>`;
+    const rows = proposal.changes.map(change => `<tr class="border-t border-slate-200 align-top">
+        <td class="py-2 pr-2 text-xs text-slate-500">${kindLabels[change.kind]}<br>${change.kind === 'update-recurring-expense' ? `dès ${formatMonthForDisplay(change.month)}` : formatMonthForDisplay(change.month)}</td>
+        <td class="py-2 pr-2">${diff(change.before && escapeHtml(change.before.description), escapeHtml(change.after.description))}<br><span class="text-xs">${diff(change.before && escapeHtml(getCategoryName(budget, change.before.categoryId)), escapeHtml(getCategoryName(budget, change.after.categoryId)))}</span></td>
+        <td class="py-2 text-right whitespace-nowrap">${diff(change.before && formatCurrency(change.before.amount, change.currency), formatCurrency(change.after.amount, change.currency))}</td>
+    </tr>`).join('');
+    const footer = proposal.status === 'pending'
+        ? `<div class="flex gap-2 mt-3"><button data-action="apply-assistant-proposal" data-index="${index}" class="flex-1 bg-teal-600 text-white text-sm font-semibold py-2 rounded-lg hover:bg-teal-700 action-btn">Appliquer</button><button data-action="reject-assistant-proposal" data-index="${index}" class="px-4 py-2 text-sm text-slate-500 hover:text-slate-700">Refuser</button></div>`
+        : `<p class="mt-2 text-xs font-medium ${proposal.status === 'applied' ? 'text-teal-700' : 'text-slate-400'}">${proposal.status === 'applied' ? '<i class="fas fa-check mr-1"></i>Appliqué' : 'Refusé'}</p>`;
+    return `<div class="mt-2 rounded-lg border border-slate-200 bg-white p-3 text-sm"><p class="font-medium text-slate-700 mb-1">${escapeHtml(proposal.summary)}</p><table class="w-full">${rows}</table>${footer}</div>`;
+}
+
+function AssistantModal() {
+    const { messages, isThinking } = uiState.assistant;
+    const bubbles = messages.map((message, index) => message.role === 'user'
+        ? `<div class="flex justify-end"><p class="max-w-[80%] rounded-2xl rounded-br-sm bg-sky-600 text-white px-4 py-2 text-sm">${escapeHtml(message.text)}</p></div>`
+        : `<div class="max-w-[90%]"><p class="rounded-2xl rounded-bl-sm bg-slate-100 text-slate-800 px-4 py-2 text-sm">${escapeHtml(message.text).replace(/\n/g, '<br>')}</p>${message.proposal ? renderAssistantProposal(message.proposal, index) : ''}</div>`).join('');
+    const examples = `<div class="space-y-2"><p class="text-sm text-slate-500">Posez une question sur votre budget ou demandez une modification, que vous pourrez vérifier avant de l'appliquer.</p>${ASSISTANT_EXAMPLES.map(example => `<button data-action="assistant-example" data-question="${escapeHtml(example)}" class="block w-full text-left text-sm bg-slate-50 hover:bg-sky-50 rounded-lg px-3 py-2 text-slate-600">${escapeHtml(example)}</button>`).join('')}</div>`;
+    return `<div id="assistant-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-2xl m-4 animate-scale-up flex flex-col max-h-[90vh]">
+        <div class="flex justify-between items-center mb-4"><h3 class="text-2xl font-semibold text-slate-800">Assistant Budgétaire</h3><div class="flex items-center">${messages.length > 0 ? `<button data-action="reset-assistant" class="text-sm text-slate-500 hover:text-slate-700 px-2" ${isThinking ? 'disabled' : ''}>Nouvelle conversation</button>` : ''}<button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div></div>
+        <div id="assistant-messages" class="flex-grow overflow-y-auto space-y-3 mb-4 min-h-[12rem]">${messages.length > 0 ? bubbles : examples}${isThinking ? '<p class="text-sm text-slate-400"><i class="fas fa-spinner fa-spin mr-1"></i>Analyse de vos données…</p>' : ''}</div>
+        <form id="assistant-form" class="flex gap-2"><input type="text" id="assistant-question" required autocomplete="off" class="flex-grow p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" placeholder="Votre question…" ${isThinking ? 'disabled' : ''}><button type="submit" class="bg-sky-600 text-white font-semibold px-4 rounded-lg hover:bg-sky-700 action-btn" ${isThinking ? 'disabled' : ''} aria-label="Envoyer"><i class="fas fa-paper-plane"></i></button></form>
+    </div></div>`;
+}
+
+function CurrencyModal() {
+    if (!uiState.isCurrencyModalOpen) return '';
+    const inputClass = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500';
+    const rates = [...budget.exchangeRates].sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from));
+    const ratesList = rates.length > 0 ? rates.map(rate => `
+        <div class="flex justify-between items-center p-2 bg-slate-50 rounded-md text-sm group">
+            <span class="text-slate-500 w-24">${new Date(rate.date).toLocaleDateString('fr-FR')}</span>
+            <span class="flex-grow text-slate-700">1 ${rate.from} = ${rate.rate.toLocaleString('fr-FR', { maximumFractionDigits: 6 })} ${rate.to}</span>
+            <button class="delete-rate-btn text-rose-400 hover:text-rose-600 px-2 opacity-0 group-hover:opacity-100 transition-opacity" data-id="${rate.id}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button>
+        </div>`).join('') : '<p class="text-sm text-slate-500 text-center py-4">Aucun taux.</p>';
+    const missingRates = getMissingRateCurrencies(budget, uiState.selectedMonth);
+
+    return `<div id="currency-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-4xl m-4 animate-scale-up max-h-[90vh] overflow-y-auto"><div class="flex justify-between items-center mb-6"><h3 class="text-2xl font-semibold text-slate-800">Devises et Taux de Change</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div><div class="grid grid-cols-1 md:grid-cols-2 gap-8"><div class="space-y-6">
+        <div class="space-y-2"><label for="base-currency" class="block text-sm font-medium text-slate-600">Devise de référence</label>${renderCurrencySelect('base-currency', getBaseCurrency(), inputClass)}<p class="text-xs text-slate-500">Les totaux, soldes et graphiques sont convertis dans cette devise, au taux en vigueur à la date de chaque transaction.</p></div>
+        ${missingRates.length > 0 ? `<p class="text-sm text-amber-700 bg-amber-50 rounded-lg p-2">Taux manquant vers ${getBaseCurrency()} ce mois-ci pour : ${missingRates.join(', ')}.</p>` : ''}
+        <form id="exchange-rate-form" class="space-y-4">
+            <h4 class="text-lg font-semibold text-slate-800">Ajouter un taux</h4>
+            <div class="grid grid-cols-2 gap-4">
+                <div><label for="rate-date" class="block text-sm font-medium text-slate-600 mb-1">À partir du</label><input type="date" id="rate-date" required class="${inputClass}" value="${new Date().toISOString().split('T')[0]}"></div>
+                <div><label for="rate-value" class="block text-sm font-medium text-slate-600 mb-1">Taux</label><input type="number" id="rate-value" required min="0" step="any" class="${inputClass}" placeholder="Ex: 1.05"></div>
+                <div><label for="rate-from" class="block text-sm font-medium text-slate-600 mb-1">1 unité de</label><input type="text" id="rate-from" required maxlength="3" list="known-currencies" class="${inputClass} uppercase" placeholder="CHF" value="${missingRates[0] || ''}"></div>
+                <div><label for="rate-to" class="block text-sm font-medium text-slate-600 mb-1">Vaut (en)</label><input type="text" id="rate-to" required maxlength="3" list="known-currencies" class="${inputClass} uppercase" value="${getBaseCurrency()}"></div>
+            </div>
+            <datalist id="known-currencies">${getKnownCurrencies(budget).map(currency => `<option value="${currency}">`).join('')}</datalist>
+            <button type="submit" class="w-full bg-sky-600 text-white font-semibold py-2.5 rounded-lg hover:bg-sky-700 transition">Ajouter</button>
+        </form>
+        <div class="space-y-2"><h4 class="font-semibold text-slate-800">Importer des taux (CSV)</h4><p class="text-xs text-slate-500">Une ligne par taux : date;devise;taux (vers ${getBaseCurrency()}) ou date;devise;devise cible;taux.</p><input type="file" id="exchange-rate-file-input" accept=".csv,.txt" class="block w-full text-sm text-slate-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-sky-50 file:text-sky-700 hover:file:bg-sky-100"></div>
+    </div><div class="space-y-2"><h4 class="text-lg font-semibold text-slate-800">Taux enregistrés</h4><p class="text-xs text-slate-500">Chaque taux s'applique à partir de sa date, jusqu'au taux suivant pour la même paire. Un taux vaut aussi dans le sens inverse.</p><div id="exchange-rates-list" class="space-y-2 max-h-96 overflow-y-auto pr-2">${ratesList}</div></div></div></div></div>`;
+}
+
+const renderMemberRow = (member: HouseholdMember) => `<div class="flex items-center gap-3 p-2 bg-slate-50 rounded-md">
+    <input type="color" value="${member.color}" class="p-0 h-6 w-6 border-none bg-transparent rounded-md cursor-pointer" data-member-color-id="${member.id}" aria-label="Couleur">
+    <input type="text" value="${escapeHtml(member.name)}" data-member-name-id="${member.id}" class="flex-grow min-w-0 p-1 text-sm font-medium text-slate-700 bg-transparent border border-transparent rounded-md hover:border-slate-300 focus:bg-white focus:border-teal-500" aria-label="Nom du membre">
+    <div class="flex items-center gap-1"><label class="text-xs text-slate-500" for="member-share-${member.id}">Part par défaut</label><input type="number" id="member-share-${member.id}" min="0" step="any" value="${member.defaultShare}" class="w-16 p-1 text-xs text-right border border-slate-300 rounded-md bg-white" data-member-share-id="${member.id}"></div>
+    <button class="delete-member-btn text-rose-400 hover:text-rose-600 px-2" data-id="${member.id}" aria-label="Supprimer"><i class="fas fa-trash-alt"></i></button>
+</div>`;
+
+function HouseholdModal() {
+    if (!uiState.isHouseholdModalOpen) return '';
+    const members = budget.settings.members;
+    const inputClass = 'w-full p-2 text-sm border border-slate-300 rounded-lg bg-slate-50 focus:ring-2 focus:ring-teal-500';
+    return `<div id="household-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-2xl m-4 animate-scale-up"><div class="flex justify-between items-center mb-6"><h3 class="text-2xl font-semibold text-slate-800">Membres du Foyer</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div><div class="space-y-4">
+        <p class="text-sm text-slate-500">Chaque transaction peut être attribuée au membre qui l'a payée ou reçue, et une dépense partagée entre plusieurs membres selon leurs parts. La part par défaut pré-remplit les nouvelles dépenses partagées.</p>
+        <form id="member-form" class="flex gap-2 items-end">
+            <div class="flex-grow"><label class="text-sm font-medium text-slate-600" for="member-name">Nom</label><input type="text" id="member-name" placeholder="Ex: Camille" required class="${inputClass}"></div>
+            <div><label class="text-sm font-medium text-slate-600" for="member-default-share">Part par défaut</label><input type="number" id="member-default-share" min="0" step="any" value="1" required class="${inputClass} w-28"></div>
+            <input type="color" id="member-color" value="${MEMBER_COLORS[members.length % MEMBER_COLORS.length]}" class="h-10 w-10 p-0 border-none bg-transparent cursor-pointer" aria-label="Couleur">
+            <button type="submit" class="bg-teal-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-teal-700 transition action-btn">Ajouter</button>
+        </form>
+        <div id="member-list" class="space-y-2 max-h-96 overflow-y-auto pr-2">${members.length > 0 ? members.map(renderMemberRow).join('') : '<p class="text-sm text-slate-500 text-center py-4">Aucun membre : le budget est celui de tout le foyer.</p>'}</div>
+    </div></div></div>`;
+}
 
-    return `<div id="recurring-modal-backdrop" class="fixed inset-0 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in"><div class="bg-white p-6 rounded-xl shadow-lg w-full max-w-4xl m-4 animate-scale-up"><div class="flex justify-between items-center mb-6"><h3 class="text-2xl font-semibold text-slate-800">Gérer les Transactions Récurrentes</h3><button data-action="close-modal" class="text-slate-500 hover:text-slate-800 p-2 -mr-2 -mt-2" aria-label="Fermer"><i class="fas fa-times fa-lg"></i></button></div><div class="grid grid-cols-1 md:grid-cols-2 gap-8"><div class="space-y-4"><h4 class="text-lg font-semibold text-slate-800">${formTitle}</h4><form id="recurring-form" class="space-y-4"><div class="flex gap-2 rounded-lg bg-slate-100 p-1"><button type="button" data-type="expense" class="recurring-type-btn flex-1 p-2 text-sm font-semibold rounded-md ${isExpense ? 'bg-white shadow' : 'text-slate-500'}">Dépense</button><button type="button" data-type="income" class="recurring-type-btn flex-1 p-2 text-sm font-semibold rounded-md ${!isExpense ? 'bg-white shadow' : 'text-slate-500'}">Revenu</button></div><div><label class="block text-sm font-medium text-slate-600 mb-1">Description</label><input type="text" id="recurring-description" required class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" value="${transaction?.description || ''}"></div><div><label class="block text-sm font-medium text-slate-600 mb-1">Montant (€)</label><input type="number" id="recurring-amount" required step="0.01" class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500" value="${transaction?.amount || ''}"></div><div id="recurring-category-wrapper" class="${isExpense ? '' : 'hidden'}"><label class="block text-sm font-medium text-slate-600 mb-1">Catégorie</label><select id="recurring-category" class="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500">${globalState.categories.map(c => `<option value="${c.name}" ${transaction?.type === 'expense' && transaction.category === c.name ? 'selected' : ''}>${c.name}</option>`).join('')}</select></div><div class="flex gap-2"><button type="submit" class="flex-grow bg-sky-600 text-white font-semibold py-2.5 rounded-lg hover:bg-sky-700 transition">${isEditing ? 'Mettre à jour' : 'Ajouter'}</button>${isEditing ? `<button type="button" data-action="cancel-recurring-edit" class="bg-slate-200 text-slate-700 px-4 py-2.5 rounded-lg hover:bg-slate-300">Annuler</button>` : ''}</div></form></div><div class="space-y-6"><div class="space-y-2"><h4 class="text-lg font-semibold text-teal-800">Revenus Récurrents</h4><div id="recurring-incomes-list" class="space-y-2 max-h-60 overflow-y-auto pr-2">${renderRecurringList(globalState.recurringIncomes, 'income')}</div></div><div class="space-y-2"><h4 class="text-lg font-semibold text-rose-800">Dépenses Récurrentes</h4><div id="recurring-expenses-list" class="space-y-2 max-h-60 overflow-y-auto pr-2">${renderRecurringList(globalState.recurringExpenses, 'expense')}</div></div></div></div></div></div>`;
+// Who paid what in the month and how to even out the shared expenses; always for the whole household, whatever the filter.
+function HouseholdBalances() {
+    if (budget.settings.members.length === 0) return '';
+    const balances = getMemberBalances(budget, uiState.selectedMonth);
+    const settlements = getSettlements(balances);
+    const memberName = (id: number) => escapeHtml(findMember(budget, id)?.name || '?');
+    const rows = balances.map(b => `<tr class="border-b border-slate-100">
+        <td class="py-2 pr-2"><span class="inline-block w-2.5 h-2.5 rounded-full mr-2" style="background-color: ${findMember(budget, b.memberId)?.color}"></span>${memberName(b.memberId)}</td>
+        <td class="py-2 text-right">${formatCurrency(b.received)}</td><td class="py-2 text-right">${formatCurrency(b.paid)}</td><td class="py-2 text-right">${formatCurrency(b.share)}</td>
+        <td class="py-2 text-right font-semibold ${b.balance < -0.005 ? 'text-rose-600' : 'text-teal-700'}">${formatCurrency(b.balance)}</td>
+    </tr>`).join('');
+    const settlementList = settlements.length > 0
+        ? settlements.map(s => `<li><i class="fas fa-arrow-right text-slate-400 mr-2"></i>${memberName(s.fromMemberId)} doit <strong>${formatCurrency(s.amount)}</strong> à ${memberName(s.toMemberId)}</li>`).join('')
+        : '<li class="text-slate-500">Les comptes sont équilibrés.</li>';
+    return `${Header('Qui a payé quoi')}
+        <div class="bg-white p-6 rounded-xl shadow-md mt-6 grid grid-cols-1 md:grid-cols-5 gap-8">
+            <table class="w-full text-sm md:col-span-3"><thead><tr class="text-xs text-slate-500 border-b border-slate-200"><th class="py-2 text-left font-medium">MEMBRE</th><th class="py-2 text-right font-medium">REÇU</th><th class="py-2 text-right font-medium">PAYÉ</th><th class="py-2 text-right font-medium">SA PART</th><th class="py-2 text-right font-medium">SOLDE</th></tr></thead><tbody>${rows}</tbody></table>
+            <div class="md:col-span-2"><h4 class="font-semibold text-slate-800 mb-2">Remboursements de fin de mois</h4><ul class="space-y-1 text-sm">${settlementList}</ul><p class="text-xs text-slate-400 mt-3">Seules les dépenses réelles attribuées à un membre sont comptées. Une dépense non partagée est entièrement à la charge de celui qui l'a payée.</p></div>
+        </div>`;
 }
 
 // --- EVENT HANDLERS & LOGIC ---
@@ -520,6 +1625,18 @@ function closeModal() {
     uiState.isTransactionModalOpen = false;
     uiState.isRecurringModalOpen = false;
     uiState.isCategoryModalOpen = false;
+    uiState.isImportModalOpen = false;
+    uiState.importState = null;
+    uiState.isRulesModalOpen = false;
+    uiState.editingRule = null;
+    uiState.ruleDraft = null;
+    uiState.ruleTestResult = null;
+    uiState.isBackupModalOpen = false;
+    uiState.backupImport = null;
+    uiState.isCurrencyModalOpen = false;
+    uiState.isAssistantModalOpen = false;
+    uiState.isReportModalOpen = false;
+    uiState.isHouseholdModalOpen = false;
     uiState.editingTransaction = null;
     uiState.editingRecurringTransaction = null;
     uiState.isSuggesting = false;
@@ -535,31 +1652,45 @@ function handleAddRealExpense(e: Event) {
     e.preventDefault();
     const description = (document.getElementById('real-expense-description') as HTMLInputElement).value;
     const amount = parseFloat((document.getElementById('real-expense-amount') as HTMLInputElement).value);
+    const currency = (document.getElementById('real-expense-currency') as HTMLSelectElement).value;
+    const accountId = readAccountSelect('real-expense-account');
     const date = (document.getElementById('real-expense-date') as HTMLInputElement).value;
-    const linkedCategory = (document.getElementById('real-expense-category') as HTMLSelectElement).value;
-
-    if (!description || isNaN(amount) || !date || !linkedCategory) {
+    const splitForm = readSplitForm('real-expense', amount, currency);
+    if (typeof splitForm === 'string') { alert(splitForm); return; }
+    const splits = splitForm && splitForm.length > 1 ? splitForm : undefined;
+    const categoryId = splitForm?.[0].categoryId ?? readCategoryValue((document.getElementById('real-expense-category') as HTMLSelectElement).value) ?? findCategoryByRules(budget, description, amount);
+    const goalId = readGoalSelect('real-expense-goal');
+    const details = readDetailsForm('real-expense');
+
+    if (!description || isNaN(amount) || !date || categoryId === null) {
         alert("Veuillez remplir tous les champs.");
         return;
     }
 
+    let isCorrected = false;
     if (uiState.editingRealExpense) {
-        const expense = getCurrentRealExpenses().find(exp => exp.id === uiState.editingRealExpense!.id);
+        const expense = findRealExpense(budget, uiState.editingRealExpense.id);
         if (expense) {
-            Object.assign(expense, { description, amount, date, linkedCategory });
+            isCorrected = expense.categoryId !== categoryId;
+            Object.assign(expense, { description, amount, currency, accountId, date, categoryId, splits, goalId, ...details });
+            store.saveRealExpense(expense);
         }
     } else {
-        const newRealExpense: RealExpense = { id: Date.now(), description, amount, date, linkedCategory };
-        getCurrentRealExpenses().push(newRealExpense);
+        const newRealExpense: RealExpense = { id: Date.now(), description, amount, currency, accountId, date, categoryId, splits, goalId, ...details };
+        store.saveRealExpense(newRealExpense);
     }
     
-    saveDataToLocalStorage();
+    saveData();
     cancelRealExpenseEdit(); // Reset form and editing state
     
     // Update relevant parts of the UI
     updateRealExpensesList();
+    updateVarianceWarnings();
     updateBudgetDetailTable();
     updateCharts();
+    const expenseMonth = date.slice(0, 7);
+    if (expenseMonth !== uiState.selectedMonth) alert(`Dépense enregistrée dans ${formatMonthForDisplay(expenseMonth)}, le mois de sa date.`);
+    if (isCorrected) offerRuleFromCorrection(description, amount, categoryId);
 }
 
 
@@ -567,31 +1698,113 @@ function handleTransactionFormSubmit(e: Event) {
     e.preventDefault();
     const description = (document.getElementById('transaction-description') as HTMLInputElement).value;
     const amount = parseFloat((document.getElementById('transaction-amount') as HTMLInputElement).value);
+    const currency = (document.getElementById('transaction-currency') as HTMLSelectElement).value;
     const type = uiState.editingTransaction ? uiState.editingTransaction.type : uiState.transactionModalType;
+    const details = readDetailsForm('transaction');
+    let correctedCategoryId: number | null = null;
 
     if (type === 'expense') {
-        const category = (document.getElementById('transaction-category') as HTMLSelectElement).value;
-        if (uiState.editingTransaction) {
-            const index = getCurrentPlannedExpenses().findIndex(exp => exp.id === uiState.editingTransaction!.id);
-            if (index !== -1) monthlyData[uiState.selectedMonth].plannedExpenses[index] = { ...getCurrentPlannedExpenses()[index], description, amount, category };
-        } else {
-            getCurrentPlannedExpenses().push({ id: Date.now(), description, amount, category, isRecurring: false });
-        }
+        const splitForm = readSplitForm('transaction', amount, currency);
+        if (typeof splitForm === 'string') { alert(splitForm); return; }
+        const splits = splitForm && splitForm.length > 1 ? splitForm : undefined;
+        // Left empty, the category is the one the rules give, as when they pre-select it while the user types.
+        const categoryId = splitForm?.[0].categoryId ?? readCategoryValue((document.getElementById('transaction-category') as HTMLSelectElement).value) ?? findCategoryByRules(budget, description, amount);
+        if (categoryId === null) { alert('Veuillez choisir une catégorie.'); return; }
+        const goalId = readGoalSelect('transaction-goal');
+        const previous = uiState.editingTransaction && budget.monthlyData[uiState.selectedMonth]?.plannedExpenses.find(exp => exp.id === uiState.editingTransaction!.id);
+        if (previous && previous.categoryId !== categoryId) correctedCategoryId = categoryId;
+        store.savePlannedExpense(uiState.selectedMonth, uiState.editingTransaction?.id ?? null, { description, amount, currency, categoryId, splits, goalId, ...details });
     } else { // income
-        if (uiState.editingTransaction) {
-            const index = getCurrentIncomes().findIndex(inc => inc.id === uiState.editingTransaction!.id);
-            if (index !== -1) monthlyData[uiState.selectedMonth].realIncome[index] = { ...getCurrentIncomes()[index], description, amount };
-        } else {
-             getCurrentIncomes().push({ id: Date.now(), description, amount, isRecurring: false });
-        }
+        store.savePlannedIncome(uiState.selectedMonth, uiState.editingTransaction?.id ?? null, { description, amount, currency, accountId: readAccountSelect('transaction-account'), ...details });
     }
     
     closeModal();
-    saveDataToLocalStorage();
+    saveData();
     updateBalanceOverview();
     updateIncomeDetails();
     updateBudgetDetailTable();
     updateCharts();
+    if (correctedCategoryId !== null) offerRuleFromCorrection(description, amount, correctedCategoryId);
+}
+
+// Empty fields come back undefined so that assigning the result clears them.
+function readDetailsForm(prefix: string): TransactionDetails {
+    const field = (suffix: string) => document.getElementById(`${prefix}-${suffix}`) as HTMLInputElement | HTMLTextAreaElement | null;
+    const members = readMemberForm(prefix);
+    if (!field('payee')) return members;
+    const payee = normalizePayee(budget, field('payee')!.value);
+    const tags = parseTags(field('tags')!.value);
+    const note = field('note')!.value.trim();
+    const attachments = Array.from(document.querySelectorAll<HTMLElement>(`#${prefix}-attachments .attachment-chip`))
+        .map(chip => ({ id: Number(chip.dataset.attachmentId), name: chip.dataset.name || '', type: chip.dataset.type || '' }));
+    return { payee: payee || undefined, tags: tags.length > 0 ? tags : undefined, note: note || undefined, attachments: attachments.length > 0 ? attachments : undefined, ...members };
+}
+
+// Nothing while the household has no members, so that the form leaves the item's attribution alone.
+function readMemberForm(prefix: string): Pick<TransactionDetails, 'memberId' | 'shares'> {
+    const select = document.getElementById(`${prefix}-member`) as HTMLSelectElement | null;
+    if (!select) return {};
+    const isShared = (document.getElementById(`${prefix}-shared`) as HTMLInputElement | null)?.checked;
+    const shares = !isShared ? [] : Array.from(document.querySelectorAll<HTMLInputElement>(`#${prefix}-shares .member-share-weight`))
+        .map(input => ({ memberId: Number(input.dataset.memberId), weight: parseFloat(input.value) || 0 }))
+        .filter(share => share.weight > 0);
+    return { memberId: Number(select.value) || undefined, shares: shares.length > 0 ? shares : undefined };
+}
+
+async function handleAttachmentsSelected(input: HTMLInputElement) {
+    const container = document.getElementById(`${input.dataset.attachmentPrefix}-attachments`);
+    const files = Array.from(input.files || []);
+    input.value = '';
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) alert(`Fichier(s) trop volumineux (5 Mo maximum) : ${tooLarge.map(file => file.name).join(', ')}`);
+    for (const file of files.filter(file => file.size <= MAX_ATTACHMENT_SIZE)) {
+        try {
+            container?.insertAdjacentHTML('beforeend', renderAttachmentChip(await storeAttachment(file)));
+        } catch (error) {
+            console.error('Error storing attachment:', error);
+            alert(`Impossible d'enregistrer ${file.name}.`);
+        }
+    }
+}
+
+async function openAttachment(id: string) {
+    const attachment = await storage.get<StoredAttachment>('attachments', id);
+    if (!attachment) { alert('Ce justificatif est introuvable.'); return; }
+    const blob = await (await fetch(attachment.dataUrl)).blob();
+    window.open(URL.createObjectURL(blob), '_blank');
+}
+
+// The split rows of a form, with rows of the same category merged; an error message when they don't add up to `amount`.
+function readSplitForm(prefix: string, amount: number, currency: string): CategorySplit[] | undefined | string {
+    const splits: CategorySplit[] = [];
+    document.querySelectorAll<HTMLElement>(`#${prefix}-splits .split-row`).forEach(row => {
+        const categoryId = Number(row.querySelector<HTMLSelectElement>('.split-category')!.value);
+        const splitAmount = parseFloat(row.querySelector<HTMLInputElement>('.split-amount')!.value);
+        if (isNaN(splitAmount) || splitAmount === 0) return;
+        const existing = splits.find(split => split.categoryId === categoryId);
+        if (existing) existing.amount += splitAmount;
+        else splits.push({ categoryId, amount: splitAmount });
+    });
+    if (splits.length === 0) return undefined;
+    const total = splits.reduce((sum, split) => sum + split.amount, 0);
+    if (Math.abs(total - amount) > 0.005) return `La répartition (${formatCurrency(total, currency)}) ne correspond pas au montant (${formatCurrency(amount, currency)}).`;
+    return splits;
+}
+
+function readRecurrenceScheduleForm(): RecurrenceSchedule | string {
+    const frequency = (document.getElementById('recurring-frequency') as HTMLSelectElement).value as RecurrenceFrequency;
+    const interval = parseInt((document.getElementById('recurring-interval') as HTMLInputElement).value, 10) || 1;
+    const startMonth = (document.getElementById('recurring-start-month') as HTMLInputElement).value || uiState.selectedMonth;
+    const dueDay = parseInt((document.getElementById('recurring-due-day') as HTMLInputElement).value, 10) || 1;
+    const endMonth = (document.getElementById('recurring-end-month') as HTMLInputElement).value || undefined;
+    const occurrencesValue = (document.getElementById('recurring-occurrences') as HTMLInputElement).value;
+    const occurrences = occurrencesValue === '' ? undefined : parseInt(occurrencesValue, 10);
+
+    if (interval < 1) return 'L\'intervalle doit être d\'au moins 1.';
+    if (dueDay < 1 || dueDay > 31) return 'Le jour d\'échéance doit être compris entre 1 et 31.';
+    if (endMonth && endMonth < startMonth) return 'Le dernier mois doit être postérieur au premier mois.';
+    if (occurrences !== undefined && (isNaN(occurrences) || occurrences < 1)) return 'Le nombre d\'échéances doit être d\'au moins 1.';
+    return { frequency, interval, startMonth, endMonth, occurrences, dueDay };
 }
 
 function handleRecurringFormSubmit(e: Event) {
@@ -599,57 +1812,30 @@ function handleRecurringFormSubmit(e: Event) {
     const description = (document.getElementById('recurring-description') as HTMLInputElement).value;
     const amount = parseFloat((document.getElementById('recurring-amount') as HTMLInputElement).value);
     if (!description || isNaN(amount)) return;
+    const schedule = readRecurrenceScheduleForm();
+    if (typeof schedule === 'string') { alert(schedule); return; }
     
     const isEditing = uiState.editingRecurringTransaction !== null;
     const type = isEditing ? uiState.editingRecurringTransaction!.type : uiState.recurringModalType;
     const currentMonthKey = uiState.selectedMonth;
+    const currency = (document.getElementById('recurring-currency') as HTMLSelectElement).value;
+    const categoryId = type === 'expense' ? Number((document.getElementById('recurring-category') as HTMLSelectElement).value) : undefined;
+    const values = categoryId !== undefined ? { description, amount, categoryId, currency } : { description, amount, currency };
+    const members = readMemberForm('recurring');
 
     if (isEditing) { // --- UPDATE LOGIC ---
-        const { id } = uiState.editingRecurringTransaction!;
-        if (type === 'income') {
-            const index = globalState.recurringIncomes.findIndex(i => i.id === id);
-            if (index !== -1) globalState.recurringIncomes[index] = { ...globalState.recurringIncomes[index], description, amount };
-        } else { // expense
-            const category = (document.getElementById('recurring-category') as HTMLSelectElement).value;
-            const index = globalState.recurringExpenses.findIndex(exp => exp.id === id);
-            if (index !== -1) globalState.recurringExpenses[index] = { ...globalState.recurringExpenses[index], description, amount, category };
-        }
-
-        Object.keys(monthlyData).forEach(monthKey => {
-            if (monthKey >= currentMonthKey) {
-                if (type === 'income') {
-                    const instanceIndex = monthlyData[monthKey].realIncome.findIndex(i => i.recurringId === id);
-                    if (instanceIndex !== -1) Object.assign(monthlyData[monthKey].realIncome[instanceIndex], { description, amount });
-                } else {
-                    const category = (document.getElementById('recurring-category') as HTMLSelectElement).value;
-                    const instanceIndex = monthlyData[monthKey].plannedExpenses.findIndex(exp => exp.recurringId === id);
-                    if (instanceIndex !== -1) Object.assign(monthlyData[monthKey].plannedExpenses[instanceIndex], { description, amount, category });
-                }
-            }
-        });
-
+        // A new version takes effect from the chosen month; earlier months and month-only overrides are left alone.
+        const effectiveMonth = (document.getElementById('recurring-effective-month') as HTMLInputElement).value || currentMonthKey;
+        const changes = type === 'income' ? { schedule, accountId: readAccountSelect('recurring-account'), ...members } : { schedule, ...members };
+        store.editRecurring(type, uiState.editingRecurringTransaction!.id, effectiveMonth, values, changes);
     } else { // --- ADD LOGIC ---
-        if (type === 'income') {
-            const newRecurring = { id: Date.now(), description, amount };
-            globalState.recurringIncomes.push(newRecurring);
-            Object.keys(monthlyData).forEach(monthKey => {
-                if (monthKey >= currentMonthKey) {
-                    monthlyData[monthKey].realIncome.push({ ...newRecurring, id: Date.now() + Math.random(), isRecurring: true, recurringId: newRecurring.id });
-                }
-            });
-        } else { // expense
-            const category = (document.getElementById('recurring-category') as HTMLSelectElement).value;
-            const newRecurring = { id: Date.now(), description, amount, category };
-            globalState.recurringExpenses.push(newRecurring);
-            Object.keys(monthlyData).forEach(monthKey => {
-                if (monthKey >= currentMonthKey) {
-                    monthlyData[monthKey].plannedExpenses.push({ ...newRecurring, id: Date.now() + Math.random(), isRecurring: true, recurringId: newRecurring.id });
-                }
-            });
-        }
+        const newRecurring: IncomeSource | Expense = type === 'income'
+            ? { id: Date.now(), description, amount, currency, accountId: readAccountSelect('recurring-account'), schedule, ...members }
+            : { id: Date.now(), description, amount, currency, categoryId: categoryId!, schedule, ...members };
+        store.addRecurring(type, newRecurring, currentMonthKey);
     }
     
-    saveDataToLocalStorage();
+    saveData();
     (e.target as HTMLFormElement).reset();
     uiState.editingRecurringTransaction = null;
     updateModals(); // To reset form state and title
@@ -657,38 +1843,592 @@ function handleRecurringFormSubmit(e: Event) {
     updateAll(); // Update main UI
 }
 
+// Stops a template from the selected month on; earlier months keep their instances.
 function handleDeleteRecurring(id: number, type: 'income' | 'expense') {
-    const currentMonthKey = uiState.selectedMonth;
+    store.deleteRecurring(type, id, uiState.selectedMonth);
+    saveData();
+    updateRecurringModalLists();
+    updateAll();
+    showUndoToast(`Élément récurrent arrêté à partir de ${formatMonthForDisplay(uiState.selectedMonth)}.`);
+}
 
-    Object.keys(monthlyData).forEach(monthKey => {
-        if (monthKey >= currentMonthKey) {
-            if (type === 'income') {
-                monthlyData[monthKey].realIncome = monthlyData[monthKey].realIncome.filter(i => i.recurringId !== id);
-            } else {
-                monthlyData[monthKey].plannedExpenses = monthlyData[monthKey].plannedExpenses.filter(e => e.recurringId !== id);
-            }
-        }
+function handleRevertRecurringInstance(id: number) {
+    store.revertRecurringInstance(uiState.selectedMonth, id);
+    saveData();
+    updateAll();
+}
+
+function handleDeleteRealExpense(id: number) {
+    store.deleteRealExpense(id);
+    saveData();
+    updateRealExpensesList();
+    updateVarianceWarnings();
+    updateBudgetDetailTable();
+    updateCharts();
+    showUndoToast('Dépense réelle supprimée.');
+}
+
+function handleReceivedIncomeSubmit(e: Event) {
+    e.preventDefault();
+    const expectedValue = (document.getElementById('received-income-expected') as HTMLSelectElement).value;
+    const description = (document.getElementById('received-income-description') as HTMLInputElement).value.trim();
+    const amount = parseFloat((document.getElementById('received-income-amount') as HTMLInputElement).value);
+    const currency = (document.getElementById('received-income-currency') as HTMLSelectElement).value;
+    const date = (document.getElementById('received-income-date') as HTMLInputElement).value;
+    const accountId = readAccountSelect('received-income-account');
+
+    if (!description || isNaN(amount) || !date) { alert('Veuillez remplir tous les champs.'); return; }
+
+    // The link only holds within the planned line's month; an entry dated in another month becomes unplanned there.
+    const expectedIncomeId = expectedValue === '' ? undefined : Number(expectedValue);
+    const { memberId } = readMemberForm('received-income');
+    store.saveReceivedIncome({ id: uiState.editingReceivedIncome?.id ?? Date.now(), description, amount, currency, accountId, date, expectedIncomeId, memberId });
+    uiState.editingReceivedIncome = null;
+    saveData();
+    updateTabContent();
+    const incomeMonth = date.slice(0, 7);
+    if (incomeMonth !== uiState.selectedMonth) alert(`Revenu enregistré dans ${formatMonthForDisplay(incomeMonth)}, le mois de sa date.`);
+}
+
+// Pre-fills the form from the chosen planned line, with what remains to be received on it.
+function applyExpectedIncomeToForm(expectedId: number) {
+    const source = compareIncomeBySource().sources.find(({ planned }) => planned.id === expectedId);
+    if (!source) return;
+    const { planned, plannedAmount, receivedAmount } = source;
+    const remaining = planned.amount * Math.max(plannedAmount - receivedAmount, 0) / (plannedAmount || 1);
+    const setValue = (id: string, value: string) => { const input = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null; if (input) input.value = value; };
+    setValue('received-income-description', planned.description);
+    setValue('received-income-amount', remaining > 0 ? remaining.toFixed(2) : '');
+    setValue('received-income-currency', getItemCurrency(planned));
+    if (planned.accountId) setValue('received-income-account', planned.accountId.toString());
+    if (planned.memberId) setValue('received-income-member', planned.memberId.toString());
+}
+
+function handleSearchSubmit(e: Event) {
+    e.preventDefault();
+    const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement).value;
+    const amount = (id: string) => { const parsed = parseFloat(value(id)); return isNaN(parsed) ? null : parsed; };
+    uiState.search.filters = {
+        query: value('search-query').trim(),
+        tag: value('search-tag'),
+        payee: value('search-payee').trim(),
+        categoryId: readCategoryValue(value('search-category')) ?? null,
+        minAmount: amount('search-min-amount'),
+        maxAmount: amount('search-max-amount'),
+        fromDate: value('search-from-date'),
+        toDate: value('search-to-date'),
+        kind: value('search-kind') as SearchFilters['kind'],
+        recurrence: value('search-recurrence') as SearchFilters['recurrence'],
+    };
+    uiState.search.selected = [];
+    updateSearchResults();
+}
+
+const getSelectedSearchResults = () => getAllTransactions(budget).filter(result => uiState.search.selected.includes(result.key));
+
+function handleSearchBulkRecategorise() {
+    const categoryId = Number((document.getElementById('search-bulk-category') as HTMLSelectElement).value);
+    const expenses = getSelectedSearchResults().filter(result => result.kind === 'planned' || result.kind === 'real');
+    if (expenses.length === 0) { alert('Aucune dépense sélectionnée : les revenus n\'ont pas de catégorie.'); return; }
+    if (!confirm(`Classer ${expenses.length} dépense(s) dans "${getCategoryName(budget, categoryId)}" ? Les répartitions existantes seront remplacées.`)) return;
+    store.recategoriseExpenses(expenses.map(({ kind, monthKey, id }) => ({ kind: kind as 'planned' | 'real', monthKey, id })), categoryId);
+    saveData();
+    updateSearchResults();
+    showUndoToast(`${expenses.length} dépense(s) classée(s) dans "${getCategoryName(budget, categoryId)}".`);
+}
+
+// Recurring instances are left out, as their template would bring them back: they stay selected, and the toast says how
+// many there are, so that they can be stopped from their template instead.
+function handleSearchBulkDelete() {
+    const selected = getSelectedSearchResults();
+    const deletable = selected.filter(result => !result.isRecurring);
+    const skipped = selected.length - deletable.length;
+    if (deletable.length === 0) { alert('Les échéances récurrentes se suppriment depuis leur modèle.'); return; }
+    if (!confirm(`Supprimer ${deletable.length} transaction(s) ?${skipped > 0 ? ` ${skipped} échéance(s) récurrente(s) seront conservées.` : ''}`)) return;
+    deletable.forEach(({ kind, monthKey, id }) => {
+        if (kind === 'planned') store.deletePlannedExpense(monthKey, id);
+        else if (kind === 'income') store.deletePlannedIncome(monthKey, id);
+        else if (kind === 'real') store.deleteRealExpense(id);
+        else store.deleteReceivedIncome(id);
     });
+    uiState.search.selected = selected.filter(result => result.isRecurring).map(result => result.key);
+    saveData();
+    updateSearchResults();
+    showUndoToast(`${deletable.length} transaction(s) supprimée(s).${skipped > 0 ? ` ${skipped} échéance(s) récurrente(s) non supprimée(s), restée(s) sélectionnée(s) : arrêtez-les depuis leur modèle.` : ''}`);
+}
 
-    if (type === 'income') {
-        globalState.recurringIncomes = globalState.recurringIncomes.filter(i => i.id !== id);
+function handleGoalFormSubmit(e: Event) {
+    e.preventDefault();
+    const name = (document.getElementById('goal-name') as HTMLInputElement).value.trim();
+    const targetAmount = parseFloat((document.getElementById('goal-target-amount') as HTMLInputElement).value);
+    const currency = (document.getElementById('goal-currency') as HTMLSelectElement).value;
+    const startMonth = (document.getElementById('goal-start-month') as HTMLInputElement).value;
+    const targetMonth = (document.getElementById('goal-target-month') as HTMLInputElement).value;
+    const linkedCategoryId = readCategoryValue((document.getElementById('goal-category') as HTMLSelectElement).value);
+    const accountId = Number((document.getElementById('goal-account') as HTMLSelectElement).value) || undefined;
+
+    if (!name || isNaN(targetAmount) || targetAmount <= 0 || !startMonth || !targetMonth) { alert('Veuillez remplir tous les champs.'); return; }
+
+    const error = store.saveGoal({ id: uiState.editingGoal?.id ?? Date.now(), name, targetAmount, currency, startMonth, targetMonth, linkedCategoryId, accountId });
+    if (error) { alert(error); return; }
+    uiState.editingGoal = null;
+    saveData();
+    updateTabContent();
+}
+
+function handleDeleteGoal(id: number) {
+    const goal = findGoal(budget, id);
+    if (!goal) return;
+    store.deleteGoal(id);
+    saveData();
+    updateTabContent();
+    showUndoToast(`Objectif "${goal.name}" supprimé. Les dépenses liées sont conservées.`);
+}
+
+// Creates, or adds a new version to, the recurring planned expense that pays the goal's required monthly contribution until its target month.
+function handlePlanGoalContribution(id: number) {
+    const goal = findGoal(budget, id);
+    if (!goal) return;
+    const categoryId = goal.linkedCategoryId ?? findCategoryByName(budget, SAVINGS_CATEGORY)?.id;
+    if (categoryId === undefined) { alert(`La catégorie "${SAVINGS_CATEGORY}" n'existe pas. Choisissez une catégorie pour cet objectif.`); return; }
+    const fromMonth = uiState.selectedMonth > getMonthKey(new Date()) ? uiState.selectedMonth : getMonthKey(new Date());
+    const amount = Math.ceil(getGoalProgress(budget, goal).requiredMonthly * 100) / 100;
+    const description = `Objectif : ${goal.name}`;
+    const values = { description, amount, categoryId, currency: goal.currency };
+    const template = findGoalRecurringExpense(budget, goal, fromMonth);
+    if (template) {
+        store.editRecurring('expense', template.id, fromMonth, values, { schedule: { ...getTemplateSchedule(template), endMonth: goal.targetMonth } });
     } else {
-        globalState.recurringExpenses = globalState.recurringExpenses.filter(e => e.id !== id);
+        const schedule: RecurrenceSchedule = { frequency: 'monthly', interval: 1, startMonth: fromMonth, endMonth: goal.targetMonth, dueDay: 1 };
+        store.addRecurring('expense', { id: Date.now(), ...values, goalId: goal.id, schedule }, fromMonth);
+    }
+    saveData();
+    updateTabContent();
+    alert(`Versement de ${formatCurrency(amount, goal.currency)} planifié chaque mois jusqu'en ${formatMonthForDisplay(goal.targetMonth)}.`);
+}
+
+function handleAccountFormSubmit(e: Event) {
+    e.preventDefault();
+    const name = (document.getElementById('account-name') as HTMLInputElement).value.trim();
+    const kind = (document.getElementById('account-kind') as HTMLSelectElement).value as AccountKind;
+    const currency = (document.getElementById('account-currency') as HTMLSelectElement).value;
+    const openingBalance = parseFloat((document.getElementById('account-opening-balance') as HTMLInputElement).value);
+    const openingDate = (document.getElementById('account-opening-date') as HTMLInputElement).value;
+
+    if (!name || isNaN(openingBalance) || !openingDate) { alert('Veuillez remplir tous les champs.'); return; }
+
+    const error = store.saveAccount({ id: uiState.editingAccount?.id ?? Date.now(), name, kind, currency, openingBalance, openingDate });
+    if (error) { alert(error); return; }
+    uiState.editingAccount = null;
+    saveData();
+    updateTabContent();
+}
+
+function handleDeleteAccount(id: number) {
+    const account = findAccount(budget, id);
+    if (!account) return;
+    const error = store.deleteAccount(id);
+    if (error) { alert(error); return; }
+    if (uiState.editingAccount?.id === id) uiState.editingAccount = null;
+    saveData();
+    updateTabContent();
+    showUndoToast(`Compte "${account.name}" supprimé.`);
+}
+
+function handleTransferFormSubmit(e: Event) {
+    e.preventDefault();
+    const fromAccountId = Number((document.getElementById('transfer-from') as HTMLSelectElement).value);
+    const toAccountId = Number((document.getElementById('transfer-to') as HTMLSelectElement).value);
+    const amount = parseFloat((document.getElementById('transfer-amount') as HTMLInputElement).value);
+    const date = (document.getElementById('transfer-date') as HTMLInputElement).value;
+    const description = (document.getElementById('transfer-description') as HTMLInputElement).value.trim();
+
+    if (fromAccountId === toAccountId) { alert('Les comptes source et destination doivent être différents.'); return; }
+    if (isNaN(amount) || amount <= 0 || !date) { alert('Veuillez indiquer un montant positif et une date.'); return; }
+
+    store.saveTransfer({ id: Date.now(), date, fromAccountId, toAccountId, amount, description });
+    saveData();
+    updateTabContent();
+    const transferMonth = date.slice(0, 7);
+    if (transferMonth !== uiState.selectedMonth) alert(`Virement enregistré dans ${formatMonthForDisplay(transferMonth)}, le mois de sa date.`);
+}
+
+function handleDeleteTransfer(id: number) {
+    store.deleteTransfer(id);
+    saveData();
+    updateTabContent();
+    showUndoToast('Virement supprimé.');
+}
+
+
+function openRulesModal(draft: Partial<CategoryRule> | null = null) {
+    closeModal();
+    uiState.isRulesModalOpen = true;
+    uiState.ruleDraft = draft;
+    updateModals();
+}
+
+// After a manual category correction, propose to turn it into a rule unless an existing rule already covers it.
+function offerRuleFromCorrection(description: string, amount: number, categoryId: number) {
+    if (findCategoryByRules(budget, description, amount) === categoryId) return;
+    if (confirm(`Créer une règle pour classer automatiquement « ${description} » dans ${getCategoryName(budget, categoryId)} ?`)) {
+        openRulesModal({ descriptionPattern: description, isRegex: false, categoryId, priority: 10 });
     }
+}
 
-    saveDataToLocalStorage();
-    updateRecurringModalLists();
+function readRuleForm(): CategoryRule | string {
+    const descriptionPattern = (document.getElementById('rule-pattern') as HTMLInputElement).value.trim();
+    const isRegex = (document.getElementById('rule-is-regex') as HTMLInputElement).checked;
+    const minValue = (document.getElementById('rule-min-amount') as HTMLInputElement).value;
+    const maxValue = (document.getElementById('rule-max-amount') as HTMLInputElement).value;
+    const categoryId = readCategoryValue((document.getElementById('rule-category') as HTMLSelectElement).value);
+    const priority = parseInt((document.getElementById('rule-priority') as HTMLInputElement).value, 10) || 0;
+    const minAmount = minValue === '' ? undefined : parseFloat(minValue);
+    const maxAmount = maxValue === '' ? undefined : parseFloat(maxValue);
+
+    if (!descriptionPattern || categoryId === undefined) return 'Veuillez renseigner un libellé et une catégorie.';
+    if (isRegex) {
+        try { new RegExp(descriptionPattern, 'i'); } catch { return 'Cette expression régulière est invalide.'; }
+    }
+    if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) return 'Le montant minimum doit être inférieur au montant maximum.';
+    return { id: uiState.editingRule?.id ?? Date.now(), descriptionPattern, isRegex, minAmount, maxAmount, categoryId, priority };
+}
+
+function handleRuleFormSubmit(e: Event) {
+    e.preventDefault();
+    const rule = readRuleForm();
+    if (typeof rule === 'string') { alert(rule); return; }
+
+    store.saveCategoryRule(rule);
+    saveData();
+
+    uiState.editingRule = null;
+    uiState.ruleDraft = null;
+    uiState.ruleTestResult = null;
+    updateModals();
+}
+
+function handleTestRule() {
+    const rule = readRuleForm();
+    if (typeof rule === 'string') { alert(rule); return; }
+    uiState.ruleDraft = rule; // Keep the unsaved form values across the re-render
+    uiState.ruleTestResult = testRuleAgainstHistory(budget, rule);
+    updateModals();
+}
+
+function handleDeleteRule(id: number) {
+    store.deleteCategoryRule(id);
+    if (uiState.editingRule?.id === id) { uiState.editingRule = null; uiState.ruleDraft = null; }
+    saveData();
+    updateModals();
+    showUndoToast('Règle supprimée.');
+}
+
+// Pre-selects the form's category from the rules while the user types a manual entry.
+function applyCategoryRulesToForm(prefix: 'transaction' | 'real-expense') {
+    const description = (document.getElementById(`${prefix}-description`) as HTMLInputElement).value.trim();
+    const amount = parseFloat((document.getElementById(`${prefix}-amount`) as HTMLInputElement).value);
+    const select = document.getElementById(`${prefix}-category`) as HTMLSelectElement | null;
+    const categoryId = description ? findCategoryByRules(budget, description, amount) : null;
+    if (select && categoryId !== null && Array.from(select.options).some(option => option.value === String(categoryId))) select.value = String(categoryId);
+}
+
+// --- BACKUP & RESTORE ---
+const BACKUP_FORMAT = 'budget-backup';
+
+function downloadFile(fileName: string, content: BlobPart, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+function handleExportBackup() {
+    const backup: BudgetBackup = { format: BACKUP_FORMAT, schemaVersion: SCHEMA_VERSION, exportedAt: new Date().toISOString(), data: getDataset() };
+    downloadFile(`budget-sauvegarde-${new Date().toISOString().split('T')[0]}.json`, JSON.stringify(backup, null, 2), 'application/json');
+}
+
+function parseBackupFile(fileName: string, text: string): BackupImportState {
+    const failure = (errors: string[], schemaVersion: number | null = null) => ({ fileName, schemaVersion, dataset: null, errors });
+    let parsed: unknown;
+    try { parsed = JSON.parse(text); } catch { return failure(['Le fichier n\'est pas un JSON valide.']); }
+    const backup: { [key: string]: unknown } = typeof parsed === 'object' && parsed !== null ? { ...parsed } : {};
+    const { format, schemaVersion, data } = backup;
+    if (format !== BACKUP_FORMAT || typeof schemaVersion !== 'number' || typeof data !== 'object' || data === null) {
+        return failure(['Ce fichier n\'est pas une sauvegarde de ce planificateur de budget.']);
+    }
+    if (schemaVersion > SCHEMA_VERSION) {
+        return failure([`Cette sauvegarde provient d'une version plus récente de l'application (schéma ${schemaVersion}, version actuelle ${SCHEMA_VERSION}).`], schemaVersion);
+    }
+    const dataset = runMigrations(data, schemaVersion);
+    const errors = validateDataset(dataset).map(error => error.message);
+    return errors.length > 0 ? failure(errors, schemaVersion) : { fileName, schemaVersion, dataset, errors };
+}
+
+async function handleDownloadQuarantine(key: string) {
+    const value = await storage.get<unknown>('quarantine', key);
+    downloadFile(`quarantaine-${key.replace(/[^a-zA-Z0-9-]+/g, '_')}.json`, typeof value === 'string' ? value : JSON.stringify(value, null, 2), 'application/json');
+}
+
+async function handleDeleteQuarantine(key: string) {
+    if (!confirm('Supprimer définitivement ces données mises en quarantaine ?')) return;
+    await storage.transaction(tx => tx.delete('quarantine', key));
+    quarantineKeys = quarantineKeys.filter(k => k !== key);
+    updateModals();
+}
+
+async function handleBackupFileSelected(input: HTMLInputElement) {
+    const file = input.files?.[0];
+    if (!file) return;
+    uiState.backupImport = parseBackupFile(file.name, await file.text());
+    updateModals();
+}
+
+function handleApplyBackup(mode: 'merge' | 'replace') {
+    const dataset = uiState.backupImport?.dataset;
+    if (!dataset) return;
+    if (mode === 'replace' && !confirm('Remplacer toutes les données actuelles par cette sauvegarde ?')) return;
+
+    if (mode === 'replace') applyDataset(dataset);
+    else store.mergeDataset(dataset);
+    store.getOrCreateMonth(uiState.selectedMonth);
+    saveData();
+
+    uiState.editingRealExpense = null;
+    uiState.expandedCategory = null;
+    closeModal();
+    updateTabContent();
     updateAll();
+    showUndoToast(mode === 'replace' ? 'Les données ont été remplacées par la sauvegarde.' : 'La sauvegarde a été fusionnée avec les données existantes.');
 }
 
-function handleDeleteRealExpense(id: number) {
-    monthlyData[uiState.selectedMonth].realExpenses = getCurrentRealExpenses().filter(exp => exp.id !== id);
-    saveDataToLocalStorage();
-    updateRealExpensesList();
-    updateBudgetDetailTable();
-    updateCharts();
+// --- REPORTS ---
+// Generated entirely in the browser: the report document has its styles inline and its charts as SVG.
+const getReportFileName = ({ from, to }: StatsRange, extension: string) => `budget-rapport-${from}${to !== from ? `_${to}` : ''}.${extension}`;
+
+function handleExportReport(format: 'csv' | 'xlsx') {
+    const tables = getReportTables(buildReport(budget, uiState.reportRange, uiState.memberFilter ?? undefined));
+    const fileName = getReportFileName(uiState.reportRange, format);
+    // The byte order mark makes spreadsheet apps read the CSV as UTF-8.
+    if (format === 'csv') downloadFile(fileName, `\uFEFF${toCsv(tables)}`, 'text/csv;charset=utf-8');
+    else downloadFile(fileName, createXlsx(tables), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+}
+
+// Draws a chart off screen at print size and keeps its SVG, or the chart's placeholder text when it has nothing to show.
+function renderChartSvg(render: (containerId: string, monthKey: string) => void, monthKey: string, width: number, height: number) {
+    const container = document.createElement('div');
+    container.id = 'report-chart-render';
+    container.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${width}px; height: ${height}px;`;
+    document.body.appendChild(container);
+    render(container.id, monthKey);
+    const svg = container.querySelector('svg');
+    const html = svg ? svg.outerHTML : `<p class="empty">${escapeHtml(container.textContent || '')}</p>`;
+    container.remove();
+    return html;
+}
+
+function ReportDocument(report: BudgetReport) {
+    const { from, to } = report.range;
+    const period = from === to ? formatMonthForDisplay(from) : `${formatMonthForDisplay(from)} – ${formatMonthForDisplay(to)}`;
+    const amountCell = (value: number, currency?: string) => `<td class="num${value < 0 ? ' negative' : ''}">${formatCurrency(value, currency)}</td>`;
+    const monthSections = report.months.map(({ month, totals, categories, members, settlements }) => {
+        const figure = (label: string, value: number) => `<div class="figure"><span>${label}</span><strong class="${value < 0 ? 'negative' : ''}">${formatCurrency(value)}</strong></div>`;
+        const categoryRows = categories.map(row => `<tr><td>${row.parent ? `<span class="sub">${escapeHtml(row.parent)} › </span>` : ''}${escapeHtml(row.category)}</td>${amountCell(row.planned)}${amountCell(row.spent)}${amountCell(row.remaining)}</tr>`).join('');
+        return `<section>
+            <h2>${formatMonthForDisplay(month)}</h2>
+            <div class="figures">
+                ${figure('Solde prévu', totals.plannedIncome - totals.plannedExpenses)}${figure('Revenus prévus', totals.plannedIncome)}${figure('Dépenses prévues', totals.plannedExpenses)}
+                ${figure('Solde réel', totals.receivedIncome - totals.actualSpent)}${figure('Revenus reçus', totals.receivedIncome)}${figure('Dépenses réelles', totals.actualSpent)}
+            </div>
+            <div class="charts">
+                <figure><figcaption>Dépenses prévues par catégorie</figcaption>${renderChartSvg(renderPieChart, month, 420, 260)}</figure>
+                <figure><figcaption>Revenus et dépenses prévus</figcaption>${renderChartSvg(renderBarChart, month, 300, 260)}</figure>
+            </div>
+            <figure><figcaption>Flux du budget</figcaption>${renderChartSvg(renderSankeyChart, month, 760, 420)}</figure>
+            ${categories.length > 0 ? `<table><thead><tr><th>Catégorie</th><th class="num">Prévu</th><th class="num">Réel</th><th class="num">Restant</th></tr></thead><tbody>${categoryRows}</tbody></table>` : ''}
+            ${members.length > 0 ? `<table><thead><tr><th>Membre</th><th class="num">Reçu</th><th class="num">Payé</th><th class="num">Sa part</th><th class="num">Solde</th></tr></thead><tbody>${members.map(row => `<tr><td>${escapeHtml(row.member)}</td>${amountCell(row.received)}${amountCell(row.paid)}${amountCell(row.share)}${amountCell(row.balance)}</tr>`).join('')}</tbody></table>
+            ${settlements.map(row => `<p>${escapeHtml(row.from)} doit ${formatCurrency(row.amount)} à ${escapeHtml(row.to)}.</p>`).join('') || '<p class="empty">Les comptes du foyer sont équilibrés.</p>'}` : ''}
+        </section>`;
+    }).join('');
+    const transactionRows = report.transactions.map(t => `<tr><td>${t.date ? new Date(`${t.date}T00:00:00`).toLocaleDateString('fr-FR') : formatMonthForDisplay(t.month)}</td><td>${REPORT_KIND_LABELS[t.kind]}</td><td>${escapeHtml(t.description)}${t.payee ? ` <span class="sub">(${escapeHtml(t.payee)})</span>` : ''}</td><td>${escapeHtml(t.categories.join(' + '))}</td>${amountCell(t.amount, t.currency)}${amountCell(t.baseAmount)}</tr>`).join('');
+    return `<!DOCTYPE html><html lang="fr"><head><meta charset="utf-8"><title>Rapport budgétaire – ${period}</title><style>
+        body { font-family: system-ui, sans-serif; color: #334155; margin: 2rem; font-size: 12px; }
+        h1 { font-size: 22px; margin: 0 0 4px; } h2 { font-size: 17px; margin: 0 0 12px; text-transform: capitalize; }
+        section { break-after: page; margin-bottom: 2rem; }
+        .figures { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; margin-bottom: 16px; }
+        .figure { border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px; } .figure span { display: block; color: #64748b; } .figure strong { font-size: 15px; }
+        .charts { display: flex; gap: 16px; flex-wrap: wrap; } figure { margin: 0 0 16px; } figcaption { font-weight: 600; margin-bottom: 4px; }
+        table { width: 100%; border-collapse: collapse; margin-top: 8px; } th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #e2e8f0; }
+        .num { text-align: right; white-space: nowrap; } .negative { color: #e11d48; } .sub, .empty { color: #94a3b8; }
+        .actions { margin-bottom: 1rem; } @media print { .actions { display: none; } body { margin: 0; } }
+    </style></head><body>
+        <div class="actions"><button onclick="window.print()">Imprimer ou enregistrer en PDF</button></div>
+        <h1>Rapport budgétaire${report.member ? ` – ${escapeHtml(report.member)}` : ''}</h1><p>${period} · montants en ${report.baseCurrency} · généré le ${new Date().toLocaleDateString('fr-FR')}</p>
+        ${monthSections}
+        <section><h2>Transactions</h2>${report.transactions.length > 0 ? `<table><thead><tr><th>Date</th><th>Type</th><th>Description</th><th>Catégorie</th><th class="num">Montant</th><th class="num">Montant (${report.baseCurrency})</th></tr></thead><tbody>${transactionRows}</tbody></table>` : '<p class="empty">Aucune transaction sur la période.</p>'}</section>
+    </body></html>`;
+}
+
+// Opens the report in a new tab; when pop-ups are blocked, it is downloaded instead.
+function handlePrintReport() {
+    const html = ReportDocument(buildReport(budget, uiState.reportRange, uiState.memberFilter ?? undefined));
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+    if (!window.open(url, '_blank')) downloadFile(getReportFileName(uiState.reportRange, 'html'), html, 'text/html');
+}
+
+// --- EXCHANGE RATES ---
+// Reflects a rate or base currency change everywhere amounts are converted.
+function refreshAfterCurrencyChange() {
+    saveData();
+    updateModals();
+    updateTabs();
+    updateTabContent();
+}
+
+function handleExchangeRateFormSubmit(e: Event) {
+    e.preventDefault();
+    const date = (document.getElementById('rate-date') as HTMLInputElement).value;
+    const from = (document.getElementById('rate-from') as HTMLInputElement).value.trim().toUpperCase();
+    const to = (document.getElementById('rate-to') as HTMLInputElement).value.trim().toUpperCase();
+    const rate = parseFloat((document.getElementById('rate-value') as HTMLInputElement).value);
+
+    if (!date) { alert('Veuillez indiquer la date du taux.'); return; }
+    const error = store.saveExchangeRate({ date, from, to, rate });
+    if (error) { alert(error); return; }
+    refreshAfterCurrencyChange();
+}
+
+async function handleExchangeRateFileSelected(input: HTMLInputElement) {
+    const file = input.files?.[0];
+    if (!file) return;
+    const { rates, skipped } = parseExchangeRatesCsv(await file.text(), getBaseCurrency());
+    if (rates.length === 0) { alert('Aucun taux lisible dans ce fichier.'); return; }
+    const now = Date.now();
+    rates.forEach((rate, index) => store.saveExchangeRate(rate, now + index));
+    refreshAfterCurrencyChange();
+    alert(`${rates.length} taux importé(s)${skipped > 0 ? `, ${skipped} ligne(s) ignorée(s)` : ''}.`);
+}
+
+function handleDeleteExchangeRate(id: number) {
+    store.deleteExchangeRate(id);
+    refreshAfterCurrencyChange();
+}
+
+function handleBaseCurrencyChange(currency: string) {
+    if (store.setBaseCurrency(currency)) return;
+    refreshAfterCurrencyChange();
+}
+
+// --- HOUSEHOLD MEMBERS ---
+// Members appear in the filter, forms and badges everywhere, so any change re-renders the whole app.
+function refreshAfterMemberChange() {
+    saveData();
+    updateModals();
+    updateTabs();
+    updateTabContent();
+}
+
+function handleAddMemberSubmit(e: Event) {
+    e.preventDefault();
+    const name = (document.getElementById('member-name') as HTMLInputElement).value;
+    const defaultShare = parseFloat((document.getElementById('member-default-share') as HTMLInputElement).value);
+    const color = (document.getElementById('member-color') as HTMLInputElement).value;
+    const error = store.addMember(name, color, defaultShare);
+    if (error) { alert(error); return; }
+    refreshAfterMemberChange();
+}
+
+function handleMemberChange(input: HTMLInputElement) {
+    const id = Number(input.dataset.memberNameId || input.dataset.memberColorId || input.dataset.memberShareId);
+    if (!findMember(budget, id)) return;
+    const values = input.dataset.memberNameId ? { name: input.value } : input.dataset.memberColorId ? { color: input.value } : { defaultShare: parseFloat(input.value) };
+    const error = store.updateMember(id, values);
+    if (error) { alert(error); updateModals(); return; }
+    refreshAfterMemberChange();
 }
 
+// Their transactions are kept, no longer attributed; shared ones are shared between the remaining members.
+function handleDeleteMember(id: number) {
+    const member = findMember(budget, id);
+    if (!member) return;
+    store.deleteMember(id);
+    if (uiState.memberFilter === id) uiState.memberFilter = null;
+    refreshAfterMemberChange();
+    showUndoToast(`${member.name} ne fait plus partie du foyer.`);
+}
+
+// --- BANK STATEMENT IMPORT ---
+const escapeHtml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function buildImportRows(entries: ParsedStatementEntry[]): ImportRow[] {
+    const existingExpenses = Object.values(budget.monthlyData).flatMap(data => data.realExpenses);
+    const existingIncome = Object.values(budget.monthlyData).flatMap(data => data.receivedIncome);
+    const rows: ImportRow[] = [];
+    entries.forEach((entry, index) => {
+        const isCredit = entry.amount > 0;
+        const amount = Math.abs(entry.amount);
+        const isDuplicate = isLikelyDuplicate({ ...entry, amount }, isCredit ? existingIncome : existingExpenses) || isLikelyDuplicate({ ...entry, amount }, rows.filter(row => row.isCredit === isCredit));
+        const categoryId = isCredit ? undefined : findCategoryByRules(budget, entry.description, amount) ?? undefined;
+        rows.push({ id: index, date: entry.date, description: entry.description, amount, categoryId, isCredit, isDuplicate, selected: !isDuplicate });
+    });
+    return rows;
+}
+
+function previewImport() {
+    const state = uiState.importState;
+    if (!state) return;
+    const { entries, skipped } = state.format === 'ofx' ? parseOfxStatement(state.rawText)
+        : state.format === 'qif' ? parseQifStatement(state.rawText, state.mapping.dateFormat)
+        : parseCsvStatement(state.rawText, state.mapping);
+    state.rows = entries.length > 0 ? buildImportRows(entries) : null;
+    state.error = entries.length === 0 ? 'Aucune transaction lisible dans ce fichier. Vérifiez le format et la correspondance des colonnes.'
+        : skipped > 0 ? `${skipped} ligne(s) ignorée(s) : date, montant ou libellé illisible.` : null;
+}
+
+async function handleImportFileSelected(input: HTMLInputElement) {
+    const file = input.files?.[0];
+    if (!file) return;
+    const rawText = await file.text();
+    const format = detectImportFormat(file.name, rawText);
+    // OFX statements declare their currency; other formats default to the base currency.
+    const currency = rawText.match(/<CURDEF>\s*([A-Z]{3})/i)?.[1].toUpperCase() || getBaseCurrency();
+    uiState.importState = { format, fileName: file.name, rawText, currency, accountId: getDefaultAccountId(), mapping: { ...DEFAULT_CSV_MAPPING, separator: detectCsvSeparator(rawText) }, rows: null, error: null };
+    if (format !== 'csv') previewImport();
+    updateModals();
+}
+
+function handleImportMappingChange(input: HTMLInputElement | HTMLSelectElement) {
+    const state = uiState.importState;
+    const field = input.dataset.importMapping as keyof CsvMapping;
+    if (!state || !field) return;
+    const mapping = state.mapping as { [key: string]: string | number | boolean };
+    if (input instanceof HTMLInputElement && input.type === 'checkbox') mapping[field] = input.checked;
+    else if (field.endsWith('Column')) mapping[field] = parseInt(input.value, 10);
+    else mapping[field] = input.value;
+    // CSV rows are only rebuilt on demand so that category choices aren't lost while adjusting the mapping.
+    if (state.format === 'csv') { state.rows = null; state.error = null; }
+    else previewImport();
+    updateModals();
+}
+
+function handleImportCommit() {
+    const rows = uiState.importState?.rows?.filter(row => row.selected) || [];
+    if (rows.length === 0) { alert('Aucune transaction sélectionnée.'); return; }
+    if (rows.some(row => !row.isCredit && row.categoryId === undefined)) { alert('Veuillez choisir une catégorie pour chaque dépense sélectionnée.'); return; }
+    const { currency, accountId } = uiState.importState!;
+    rows.forEach((row, index) => {
+        const fields = { id: Date.now() + index, description: row.description, amount: row.amount, currency, accountId, date: row.date };
+        if (row.isCredit) store.saveReceivedIncome(fields);
+        else store.saveRealExpense({ ...fields, categoryId: row.categoryId! });
+    });
+    saveData();
+    closeModal();
+    updateTabContent();
+    const creditCount = rows.filter(row => row.isCredit).length;
+    alert(`${rows.length - creditCount} dépense(s) et ${creditCount} revenu(s) importé(s).`);
+}
 
 function attachGlobalEventListeners() {
     const root = document.getElementById('root');
@@ -696,37 +2436,94 @@ function attachGlobalEventListeners() {
 
     root.addEventListener('click', (e) => {
         const target = e.target as HTMLElement;
-        const button = target.closest<HTMLElement>('[data-action], .tab-btn, .delete-recurring-btn, .edit-recurring-btn, .transaction-type-btn, .recurring-type-btn, [data-category-name], .edit-expense-btn, .delete-expense-btn, .edit-income-btn, .delete-income-btn, .delete-category-btn, #suggest-category-btn, .edit-real-expense-btn, .delete-real-expense-btn');
+        const button = target.closest<HTMLElement>('[data-action], .tab-btn, .delete-recurring-btn, .edit-recurring-btn, .transaction-type-btn, .recurring-type-btn, [data-category-id], .edit-expense-btn, .delete-expense-btn, .edit-income-btn, .delete-income-btn, .delete-category-btn, #suggest-category-btn, .edit-real-expense-btn, .delete-real-expense-btn, .create-rule-btn, .revert-instance-btn, .edit-rule-btn, .delete-rule-btn, .download-quarantine-btn, .delete-quarantine-btn, .delete-rate-btn, .edit-account-btn, .delete-account-btn, .delete-transfer-btn, .edit-received-income-btn, .delete-received-income-btn, .delete-reallocation-btn, .edit-goal-btn, .delete-goal-btn, .open-attachment-btn, .delete-member-btn');
 
         if (target.id.includes('-backdrop')) { closeModal(); return; }
         if (!button) return;
 
         // Modals & Actions
+        if(button.dataset.action === 'undo' || button.dataset.action === 'redo') { handleUndoRedo(button.dataset.action); return; }
         if(button.dataset.action === 'open-transaction-modal') { uiState.isTransactionModalOpen = true; uiState.transactionModalType = 'expense'; updateModals(); }
         if(button.dataset.action === 'open-recurring-modal') { uiState.isRecurringModalOpen = true; uiState.recurringModalType = 'expense'; uiState.editingRecurringTransaction = null; updateModals(); }
         if(button.dataset.action === 'open-category-modal') { uiState.isCategoryModalOpen = true; updateModals(); }
+        if(button.dataset.action === 'open-import-modal') { uiState.isImportModalOpen = true; uiState.importState = null; updateModals(); }
+        if(button.dataset.action === 'import-preview') { previewImport(); updateModals(); }
+        if(button.dataset.action === 'import-commit') { handleImportCommit(); }
+        if(button.dataset.action === 'open-rules-modal') { openRulesModal(); }
+        if(button.dataset.action === 'open-backup-modal') { uiState.isBackupModalOpen = true; uiState.backupImport = null; updateModals(); }
+        if(button.dataset.action === 'export-backup') { handleExportBackup(); }
+        if(button.dataset.action === 'open-report-modal') { uiState.isReportModalOpen = true; uiState.reportRange = { from: uiState.selectedMonth, to: uiState.selectedMonth }; updateModals(); }
+        if(button.dataset.action === 'export-report-csv') { handleExportReport('csv'); }
+        if(button.dataset.action === 'export-report-xlsx') { handleExportReport('xlsx'); }
+        if(button.dataset.action === 'print-report') { handlePrintReport(); }
+        if(button.dataset.action === 'open-currency-modal') { uiState.isCurrencyModalOpen = true; updateModals(); }
+        if(button.dataset.action === 'open-household-modal') { uiState.isHouseholdModalOpen = true; updateModals(); }
+        if(button.dataset.action === 'open-assistant-modal') { uiState.isAssistantModalOpen = true; renderAssistantModal(); }
+        if(button.dataset.action === 'assistant-example') handleAssistantQuestion(button.dataset.question!);
+        if(button.dataset.action === 'reset-assistant') { uiState.assistant = { messages: [], history: [], isThinking: false }; renderAssistantModal(); }
+        if(button.dataset.action === 'apply-assistant-proposal') handleAssistantProposal(parseInt(button.dataset.index!, 10), true);
+        if(button.dataset.action === 'reject-assistant-proposal') handleAssistantProposal(parseInt(button.dataset.index!, 10), false);
+        if(button.dataset.action === 'backup-merge') { handleApplyBackup('merge'); }
+        if(button.dataset.action === 'backup-replace') { handleApplyBackup('replace'); }
+        if(button.dataset.action === 'test-rule') { handleTestRule(); }
+        if(button.dataset.action === 'cancel-rule-edit') { uiState.editingRule = null; uiState.ruleDraft = null; uiState.ruleTestResult = null; updateModals(); }
         if(button.dataset.action === 'close-modal') { closeModal(); }
         if(button.dataset.action === 'cancel-recurring-edit') { uiState.editingRecurringTransaction = null; updateModals(); }
         if(button.dataset.action === 'cancel-real-expense-edit') { cancelRealExpenseEdit(); }
+        if(button.dataset.action === 'search-tag') {
+            uiState.search = { ...uiState.search, filters: { ...createEmptySearchFilters(), tag: button.dataset.tag! }, selected: [] };
+            updateTabContent();
+        }
+        if(button.dataset.action === 'apply-receipt-scan') applyReceiptScan();
+        if(button.dataset.action === 'discard-receipt-scan') { uiState.receiptScan = null; updateReceiptScan(); }
+        if(button.dataset.action === 'remove-attachment') button.closest('.attachment-chip')?.remove();
+        if(button.classList.contains('open-attachment-btn')) openAttachment(button.dataset.id!);
+        if(button.dataset.action === 'search-sort') {
+            const key = button.dataset.key as SearchSortKey;
+            uiState.search.sortAscending = uiState.search.sortKey === key ? !uiState.search.sortAscending : key !== 'date' && key !== 'amount';
+            uiState.search.sortKey = key;
+            updateSearchResults();
+        }
+        if(button.dataset.action === 'reset-search') { uiState.search = { filters: createEmptySearchFilters(), sortKey: 'date', sortAscending: false, selected: [] }; updateTabContent(); }
+        if(button.dataset.action === 'search-bulk-recategorise') handleSearchBulkRecategorise();
+        if(button.dataset.action === 'search-bulk-delete') handleSearchBulkDelete();
+        if(button.dataset.action === 'add-split') {
+            const prefix = button.dataset.prefix!;
+            const container = document.getElementById(`${prefix}-splits`);
+            if (container && container.children.length === 0) {
+                // The first split starts as the whole amount in the category already chosen.
+                const categoryId = readCategoryValue((document.getElementById(`${prefix}-category`) as HTMLSelectElement | null)?.value);
+                const amount = parseFloat((document.getElementById(`${prefix}-amount`) as HTMLInputElement | null)?.value || '');
+                container.insertAdjacentHTML('beforeend', renderSplitRow(categoryId !== undefined ? { categoryId, amount: isNaN(amount) ? 0 : amount } : undefined));
+            }
+            container?.insertAdjacentHTML('beforeend', renderSplitRow());
+        }
+        if(button.dataset.action === 'remove-split') button.closest('.split-row')?.remove();
+        if(button.dataset.action === 'forecast-horizon') {
+            uiState.forecastHorizon = parseInt(button.dataset.months!, 10);
+            updateTabContent();
+        }
+        if(button.dataset.action === 'stats-range-preset') {
+            const months = parseInt(button.dataset.months!, 10);
+            uiState.statsRange = { from: shiftMonthKey(uiState.selectedMonth, 1 - months), to: uiState.selectedMonth };
+            updateTabContent();
+        }
+        if(button.dataset.action === 'cancel-received-income-edit') { uiState.editingReceivedIncome = null; updateTabContent(); }
+        if(button.dataset.action === 'cancel-account-edit') { uiState.editingAccount = null; updateTabContent(); }
 
         if(button.dataset.action === 'prev-month' || button.dataset.action === 'next-month') {
-            const [year, month] = uiState.selectedMonth.split('-').map(Number);
-            const currentDate = new Date(year, month - 1, 15);
-            const direction = button.dataset.action === 'prev-month' ? -1 : 1;
-            currentDate.setMonth(currentDate.getMonth() + direction);
-            const newMonthKey = getMonthKey(currentDate);
-            if (!monthlyData[newMonthKey]) {
-                monthlyData[newMonthKey] = createMonthDataFromRecurring();
-                saveDataToLocalStorage();
-            }
+            const newMonthKey = shiftMonthKey(uiState.selectedMonth, button.dataset.action === 'prev-month' ? -1 : 1);
             uiState.selectedMonth = newMonthKey;
+            store.getOrCreateMonth(newMonthKey);
+            saveData(false); // Also records envelope carry-overs up to the new month
+
             uiState.expandedCategory = null;
             updateTabContent(); // Re-render content for new month
             updateAll();
         }
 
         // Tabs
-        const tabName = button.dataset.tab as 'budget' | 'tracking' | 'stats' | 'flow';
+        const tabName = button.dataset.tab as typeof uiState.activeTab;
         if (tabName && uiState.activeTab !== tabName) { uiState.activeTab = tabName; updateTabs(); updateTabContent(); return; }
 
         // Modal Type Switches
@@ -734,75 +2531,130 @@ function attachGlobalEventListeners() {
         if (button.classList.contains('recurring-type-btn')) { uiState.recurringModalType = button.dataset.type as TransactionType; if(uiState.editingRecurringTransaction) { uiState.editingRecurringTransaction = null; } updateModals(); return; }
 
         // Budget Table Interactions
-        if (button.dataset.categoryName && !button.classList.contains('delete-category-btn') && !target.closest('input[type="color"]')) {
-            uiState.expandedCategory = uiState.expandedCategory === button.dataset.categoryName ? null : button.dataset.categoryName;
+        if (button.dataset.categoryId && !button.classList.contains('delete-category-btn') && !target.closest('input[type="color"]')) {
+            const categoryId = Number(button.dataset.categoryId);
+            uiState.expandedCategory = uiState.expandedCategory === categoryId ? null : categoryId;
             updateBudgetDetailTable();
         }
         if(button.classList.contains('edit-expense-btn')) {
-            const id = parseInt(button.dataset.id!, 10);
-            const expense = getCurrentPlannedExpenses().find(exp => exp.id === id);
+            const id = parseFloat(button.dataset.id!); // Recurring instance ids are fractional
+            const expense = budget.monthlyData[uiState.selectedMonth]?.plannedExpenses.find(exp => exp.id === id);
             if (expense) { uiState.editingTransaction = {...expense, type: 'expense'}; uiState.isTransactionModalOpen = true; updateModals(); }
         }
         if(button.classList.contains('delete-expense-btn')) {
             const id = parseInt(button.dataset.id!, 10);
-            if (confirm('Supprimer cette dépense planifiée ?')) {
-                monthlyData[uiState.selectedMonth].plannedExpenses = getCurrentPlannedExpenses().filter(exp => exp.id !== id);
-                saveDataToLocalStorage(); updateBudgetDetailTable(); updateBalanceOverview(); updateCharts();
-            }
+            store.deletePlannedExpense(uiState.selectedMonth, id);
+            saveData(); updateBudgetDetailTable(); updateBalanceOverview(); updateCharts();
+            showUndoToast('Dépense planifiée supprimée.');
         }
         if(button.classList.contains('edit-income-btn')) {
-            const id = parseInt(button.dataset.id!, 10);
-            const income = getCurrentIncomes().find(inc => inc.id === id);
+            const id = parseFloat(button.dataset.id!);
+            const income = budget.monthlyData[uiState.selectedMonth]?.realIncome.find(inc => inc.id === id);
             if (income) { uiState.editingTransaction = {...income, type: 'income'}; uiState.isTransactionModalOpen = true; updateModals(); }
         }
+        if(button.classList.contains('revert-instance-btn')) handleRevertRecurringInstance(parseFloat(button.dataset.id!));
         if(button.classList.contains('delete-income-btn')) {
             const id = parseInt(button.dataset.id!, 10);
-            monthlyData[uiState.selectedMonth].realIncome = getCurrentIncomes().filter(item => item.id !== id);
-            saveDataToLocalStorage(); updateIncomeDetails(); updateBalanceOverview(); updateCharts();
+            store.deletePlannedIncome(uiState.selectedMonth, id);
+            saveData(); updateIncomeDetails(); updateBalanceOverview(); updateCharts();
+            showUndoToast('Revenu prévu supprimé.');
+        }
+
+        // Categorisation Rules
+        if (button.classList.contains('edit-rule-btn')) {
+            const rule = budget.categoryRules.find(r => r.id === Number(button.dataset.id));
+            if (rule) { uiState.editingRule = rule; uiState.ruleDraft = null; uiState.ruleTestResult = null; updateModals(); }
         }
+        if (button.classList.contains('delete-rule-btn')) handleDeleteRule(Number(button.dataset.id));
+        if (button.classList.contains('create-rule-btn')) {
+            const expense = findRealExpense(budget, Number(button.dataset.id));
+            if (expense) openRulesModal({ descriptionPattern: expense.description, isRegex: false, categoryId: expense.categoryId, priority: 10 });
+        }
+
+        // Backup Quarantine
+        if (button.classList.contains('download-quarantine-btn')) handleDownloadQuarantine(button.dataset.key!);
+        if (button.classList.contains('delete-quarantine-btn')) handleDeleteQuarantine(button.dataset.key!);
+        if (button.classList.contains('delete-rate-btn')) handleDeleteExchangeRate(parseInt(button.dataset.id!, 10));
+        if (button.classList.contains('delete-member-btn')) handleDeleteMember(Number(button.dataset.id));
 
         // Category Manager
-        if(button.classList.contains('delete-category-btn')) { if (button.dataset.categoryName) handleDeleteCategory(button.dataset.categoryName); }
+        if(button.classList.contains('delete-category-btn')) { handleDeleteCategory(Number(button.dataset.id)); }
 
         // Recurring Manager
         if (button.classList.contains('edit-recurring-btn')) {
             const id = parseInt(button.dataset.id!, 10);
             const type = button.dataset.type as 'income' | 'expense';
             if (type === 'income') {
-                const item = globalState.recurringIncomes.find(i => i.id === id);
+                const item = budget.recurringIncomes.find(i => i.id === id);
                 if (item) { uiState.editingRecurringTransaction = { ...item, type: 'income' }; uiState.recurringModalType = type; updateModals(); }
             } else {
-                const item = globalState.recurringExpenses.find(e => e.id === id);
+                const item = budget.recurringExpenses.find(e => e.id === id);
                 if (item) { uiState.editingRecurringTransaction = { ...item, type: 'expense' }; uiState.recurringModalType = type; updateModals(); }
             }
         }
         if (button.classList.contains('delete-recurring-btn')) {
             const id = parseInt(button.dataset.id!, 10);
-            const type = button.dataset.type as 'income' | 'expense';
-            if (confirm('Supprimer cet élément récurrent ? Cette action sera appliquée à ce mois et aux mois futurs.')) {
-                handleDeleteRecurring(id, type);
-            }
+            handleDeleteRecurring(id, button.dataset.type as 'income' | 'expense');
         }
 
+        // Savings Goals
+        if (button.classList.contains('edit-goal-btn')) {
+            const goal = findGoal(budget, parseInt(button.dataset.id!, 10));
+            if (goal) { uiState.editingGoal = { ...goal }; updateTabContent(); }
+        }
+        if (button.classList.contains('delete-goal-btn')) handleDeleteGoal(parseInt(button.dataset.id!, 10));
+        if (button.dataset.action === 'plan-goal-contribution') handlePlanGoalContribution(parseInt(button.dataset.id!, 10));
+        if (button.dataset.action === 'cancel-goal-edit') { uiState.editingGoal = null; updateTabContent(); }
+
+        if (button.classList.contains('delete-reallocation-btn')) {
+            store.removeReallocation(Number(button.dataset.pairId));
+            saveData();
+            updateAll();
+            showUndoToast('Réallocation supprimée.');
+        }
+
+        // Received Income
+        if (button.classList.contains('edit-received-income-btn')) {
+            const income = findReceivedIncome(budget, parseInt(button.dataset.id!, 10));
+            if (income) { uiState.editingReceivedIncome = { ...income }; updateTabContent(); }
+        }
+        if (button.classList.contains('delete-received-income-btn')) {
+            store.deleteReceivedIncome(parseInt(button.dataset.id!, 10));
+            saveData();
+            updateTabContent();
+            showUndoToast('Revenu reçu supprimé.');
+        }
+
+        // Accounts & Transfers
+        if (button.classList.contains('edit-account-btn')) {
+            const account = findAccount(budget, parseInt(button.dataset.id!, 10));
+            if (account) { uiState.editingAccount = { ...account }; updateTabContent(); }
+        }
+        if (button.classList.contains('delete-account-btn')) handleDeleteAccount(parseInt(button.dataset.id!, 10));
+        if (button.classList.contains('delete-transfer-btn')) handleDeleteTransfer(parseInt(button.dataset.id!, 10));
+
         // Real Expense CRUD
         if (button.classList.contains('edit-real-expense-btn')) {
             const id = parseInt(button.dataset.id!, 10);
-            const expense = getCurrentRealExpenses().find(exp => exp.id === id);
+            const expense = findRealExpense(budget, id);
             if (expense) {
                 uiState.editingRealExpense = expense;
                 updateTabContent();
             }
         }
-        if (button.classList.contains('delete-real-expense-btn')) {
-            const id = parseInt(button.dataset.id!, 10);
-            if (confirm('Supprimer cette dépense réelle ?')) {
-                handleDeleteRealExpense(id);
-            }
-        }
+        if (button.classList.contains('delete-real-expense-btn')) handleDeleteRealExpense(parseInt(button.dataset.id!, 10));
 
         if (button.id === 'suggest-category-btn') handleSuggestCategory();
     });
 
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo budget changes; text fields keep their own undo.
+    document.addEventListener('keydown', (e) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+        if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+        e.preventDefault();
+        handleUndoRedo(e.shiftKey ? 'redo' : 'undo');
+    });
+
     root.addEventListener('submit', (e) => {
         e.preventDefault();
         const form = e.target as HTMLFormElement;
@@ -810,70 +2662,300 @@ function attachGlobalEventListeners() {
         if(form.id === 'add-category-form') handleAddCategory(e);
         if(form.id === 'recurring-form') handleRecurringFormSubmit(e);
         if(form.id === 'add-real-expense-form') handleAddRealExpense(e);
+        if(form.id === 'rule-form') handleRuleFormSubmit(e);
+        if(form.id === 'exchange-rate-form') handleExchangeRateFormSubmit(e);
+        if(form.id === 'member-form') handleAddMemberSubmit(e);
+        if(form.id === 'account-form') handleAccountFormSubmit(e);
+        if(form.id === 'received-income-form') handleReceivedIncomeSubmit(e);
+        if(form.id === 'envelope-reallocation-form') handleReallocationSubmit(e);
+        if(form.id === 'goal-form') handleGoalFormSubmit(e);
+        if(form.id === 'search-form') handleSearchSubmit(e);
+        if(form.id === 'transfer-form') handleTransferFormSubmit(e);
+        if(form.id === 'assistant-form') handleAssistantQuestion((document.getElementById('assistant-question') as HTMLInputElement).value.trim());
     });
 
     root.addEventListener('change', (e) => {
         const target = e.target as HTMLInputElement;
-        if (target.type === 'color' && target.dataset.categoryName) {
-            const categoryName = target.dataset.categoryName;
-            const newColor = target.value;
-            const category = globalState.categories.find(c => c.name === categoryName);
-            if (category) { category.color = newColor; saveDataToLocalStorage(); updateAll(); }
+        if (target.id === 'transaction-description' || target.id === 'transaction-amount') { applyCategoryRulesToForm('transaction'); return; }
+        if (target.id === 'real-expense-description' || target.id === 'real-expense-amount') { applyCategoryRulesToForm('real-expense'); return; }
+        if (target.id === 'import-file-input') { handleImportFileSelected(target); return; }
+        if (target.id === 'backup-file-input') { handleBackupFileSelected(target); return; }
+        if (target.dataset.importMapping) { handleImportMappingChange(target); return; }
+        if (target.id === 'import-currency' && uiState.importState) { uiState.importState.currency = target.value; updateModals(); return; }
+        if (target.id === 'import-account' && uiState.importState) {
+            uiState.importState.accountId = Number(target.value);
+            uiState.importState.currency = findAccount(budget, uiState.importState.accountId)?.currency || uiState.importState.currency;
+            updateModals();
+            return;
+        }
+        // Picking an account suggests its currency for the amount.
+        if (target.id === 'real-expense-account') {
+            const currencySelect = document.getElementById('real-expense-currency') as HTMLSelectElement | null;
+            const account = findAccount(budget, Number(target.value));
+            if (currencySelect && account) currencySelect.value = account.currency;
+            return;
+        }
+        if (target.id === 'received-income-expected' && target.value) { applyExpectedIncomeToForm(Number(target.value)); return; }
+        if (target.id === 'received-income-account') {
+            const currencySelect = document.getElementById('received-income-currency') as HTMLSelectElement | null;
+            const account = findAccount(budget, Number(target.value));
+            if (currencySelect && account) currencySelect.value = account.currency;
+            return;
+        }
+        if ((target.id === 'stats-range-from' || target.id === 'stats-range-to') && target.value) {
+            const range = { ...uiState.statsRange, [target.id === 'stats-range-from' ? 'from' : 'to']: target.value };
+            // Keep the range ordered by moving the other bound along with the edited one.
+            if (range.from > range.to) { if (target.id === 'stats-range-from') range.to = range.from; else range.from = range.to; }
+            uiState.statsRange = range;
+            updateTabContent();
+            return;
+        }
+        if ((target.id === 'report-range-from' || target.id === 'report-range-to') && target.value) {
+            const range = { ...uiState.reportRange, [target.id === 'report-range-from' ? 'from' : 'to']: target.value };
+            if (range.from > range.to) { if (target.id === 'report-range-from') range.to = range.from; else range.from = range.to; }
+            uiState.reportRange = range;
+            updateModals();
+            return;
+        }
+        if (target.id === 'sankey-transfers-toggle') { uiState.showSavingsAsTransfers = target.checked; updateCharts(); return; }
+        if (target.id === 'sankey-member-toggle') { uiState.showSankeyByMember = target.checked; updateCharts(); return; }
+        if (target.id === 'member-filter') { uiState.memberFilter = Number(target.value) || null; updateTabs(); updateTabContent(); return; }
+        if (target.dataset.sharesToggle) { document.getElementById(`${target.dataset.sharesToggle}-shares`)?.classList.toggle('hidden', !target.checked); return; }
+        if (target.dataset.memberNameId || target.dataset.memberColorId || target.dataset.memberShareId) { handleMemberChange(target); return; }
+        if (target.id === 'exchange-rate-file-input') { handleExchangeRateFileSelected(target); return; }
+        if (target.id === 'base-currency') { handleBaseCurrencyChange(target.value); return; }
+        const importRow = uiState.importState?.rows?.find(row => row.id === Number(target.dataset.rowId));
+        if (importRow && target.classList.contains('import-row-checkbox')) { importRow.selected = target.checked; updateModals(); return; }
+        if (importRow && target.classList.contains('import-row-category')) { importRow.categoryId = readCategoryValue(target.value); return; }
+        if (target.id === 'import-bulk-category' && target.value) {
+            uiState.importState?.rows?.filter(row => row.selected && !row.isCredit).forEach(row => { row.categoryId = Number(target.value); });
+            updateModals();
+            return;
+        }
+        if (target.id === 'receipt-scan-input') { handleReceiptSelected(target); return; }
+        if (target.dataset.attachmentPrefix) { handleAttachmentsSelected(target); return; }
+        if (target.classList.contains('search-row-checkbox')) {
+            const key = target.dataset.key!;
+            uiState.search.selected = target.checked ? [...uiState.search.selected, key] : uiState.search.selected.filter(selectedKey => selectedKey !== key);
+            updateSearchResults();
+            return;
+        }
+        if (target.id === 'search-select-all') {
+            const { filters, sortKey, sortAscending } = uiState.search;
+            uiState.search.selected = target.checked ? searchTransactions(budget, filters, sortKey, sortAscending, uiState.memberFilter).map(result => result.key) : [];
+            updateSearchResults();
+            return;
+        }
+        if (target.dataset.renameCategoryId) { handleRenameCategory(Number(target.dataset.renameCategoryId), target); return; }
+        if (target.dataset.parentCategoryId) { handleCategoryParentChange(Number(target.dataset.parentCategoryId), target.value); return; }
+        if (target.dataset.mergeCategoryId && target.value) { handleMergeCategory(Number(target.dataset.mergeCategoryId), Number(target.value)); return; }
+        if (target.dataset.envelopeCategoryId) { handleEnvelopeToggle(Number(target.dataset.envelopeCategoryId), target.checked); return; }
+        if (target.dataset.thresholdCategoryId) {
+            const category = findCategory(budget, Number(target.dataset.thresholdCategoryId));
+            if (!category) return;
+            const error = store.setCategoryThreshold(category.id, parseInt(target.value, 10));
+            if (error) { alert(error); target.value = String(category.alertThreshold ?? DEFAULT_ALERT_THRESHOLD); return; }
+            saveData();
+            updateAll();
+            return;
+        }
+        if (target.type === 'color' && target.dataset.colorCategoryId) {
+            store.setCategoryColor(Number(target.dataset.colorCategoryId), target.value);
+            saveData();
+            updateAll();
         }
     });
 }
 
 
+function handleEnvelopeToggle(id: number, enabled: boolean) {
+    store.setCategoryEnvelope(id, enabled ? uiState.selectedMonth : undefined);
+    saveData();
+    updateModals();
+    updateAll();
+}
+
+function handleReallocationSubmit(e: Event) {
+    e.preventDefault();
+    const from = Number((document.getElementById('reallocation-from') as HTMLSelectElement).value);
+    const to = Number((document.getElementById('reallocation-to') as HTMLSelectElement).value);
+    const amount = parseFloat((document.getElementById('reallocation-amount') as HTMLInputElement).value);
+    const note = (document.getElementById('reallocation-note') as HTMLInputElement).value.trim();
+    const error = store.reallocateEnvelope(uiState.selectedMonth, from, to, amount, note || undefined);
+    if (error) { alert(error); return; }
+    saveData();
+    updateAll();
+}
+
 function handleAddCategory(event: Event) {
     event.preventDefault();
     const nameInput = document.getElementById('new-category-name') as HTMLInputElement;
-    const name = nameInput.value.trim();
-    if (name && !globalState.categories.some(c => c.name.toLowerCase() === name.toLowerCase())) {
-        globalState.categories.push({ name, color: '#94a3b8' });
-        sortCategories();
-        saveDataToLocalStorage();
-        (event.target as HTMLFormElement).reset();
-        updateModals();
-    } else { alert('Ce nom de catégorie est invalide ou existe déjà.'); }
+    const parentId = Number((document.getElementById('new-category-parent') as HTMLSelectElement).value) || undefined;
+    const error = store.addCategory(nameInput.value, parentId);
+    if (error) { alert(error); return; }
+    saveData();
+    (event.target as HTMLFormElement).reset();
+    updateModals();
+}
+
+function handleDeleteCategory(id: number) {
+    const category = findCategory(budget, id);
+    if (!category) return;
+    const error = store.deleteCategory(id);
+    if (error) { alert(error); return; }
+    saveData();
+    updateModals();
+    updateAll();
+    showUndoToast(`Catégorie "${category.name}" supprimée.`);
+}
+
+function handleRenameCategory(id: number, input: HTMLInputElement) {
+    const category = findCategory(budget, id);
+    if (!category || input.value.trim() === category.name) return;
+    const previousName = category.name;
+    const error = store.renameCategory(id, input.value);
+    if (error) { alert(error); input.value = category.name; return; }
+    saveData();
+    updateModals();
+    updateAll();
+    showUndoToast(`Catégorie "${previousName}" renommée en "${category.name}".`);
+}
+
+function handleCategoryParentChange(id: number, parentId: string) {
+    const error = store.setCategoryParent(id, Number(parentId) || undefined);
+    if (error) alert(error);
+    else saveData();
+    updateModals();
+    updateAll();
+}
+
+function handleMergeCategory(sourceId: number, targetId: number) {
+    const source = findCategory(budget, sourceId);
+    const target = findCategory(budget, targetId);
+    if (!source || !target) return;
+    const error = store.mergeCategory(sourceId, targetId);
+    if (error) { alert(error); updateModals(); return; }
+    if (uiState.expandedCategory === source.id) uiState.expandedCategory = target.id;
+    if (uiState.search.filters.categoryId === source.id) uiState.search.filters.categoryId = target.id;
+    saveData();
+    updateModals();
+    updateAll();
+    showUndoToast(`Catégorie "${source.name}" fusionnée dans "${target.name}".`);
 }
 
-function handleDeleteCategory(categoryName: string) {
-    const isUsedInPlanned = Object.values(monthlyData).some(data => data.plannedExpenses.some(e => e.category === categoryName));
-    const isUsedInReal = Object.values(monthlyData).some(data => data.realExpenses.some(e => e.linkedCategory === categoryName));
-    const isUsedInRecurring = globalState.recurringExpenses.some(e => e.category === categoryName);
+async function handleReceiptSelected(input: HTMLInputElement) {
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_SIZE) { alert('Cette photo est trop volumineuse (5 Mo maximum).'); return; }
+    uiState.receiptScan = { file, status: 'scanning' };
+    updateReceiptScan();
+    try {
+        const dataUrl = await readFileAsDataUrl(file);
+        const scan = await scanReceipt(budget, ai, { mimeType: file.type, data: dataUrl.slice(dataUrl.indexOf(',') + 1) });
+        if (uiState.receiptScan?.file === file) uiState.receiptScan = { file, status: 'done', scan };
+    } catch (error) {
+        console.error('Erreur de lecture du ticket:', error);
+        if (uiState.receiptScan?.file === file) uiState.receiptScan = { file, status: 'error' };
+    }
+    updateReceiptScan();
+}
 
-    if (isUsedInPlanned || isUsedInRecurring || isUsedInReal) { 
-        const usageInfo = [];
-        if (isUsedInPlanned) usageInfo.push("dépenses planifiées");
-        if (isUsedInReal) usageInfo.push("dépenses réelles");
-        if (isUsedInRecurring) usageInfo.push("dépenses récurrentes");
-        alert(`Impossible de supprimer "${categoryName}" car elle est utilisée dans des ${usageInfo.join(', ')}. Veuillez d'abord modifier ou supprimer ces transactions.`); 
-        return; 
+// Fills the real expense form from the reviewed scan and attaches the photo; nothing is saved until the user submits.
+async function applyReceiptScan() {
+    const state = uiState.receiptScan;
+    if (!state?.scan) return;
+    const { scan } = state;
+    const setValue = (id: string, value: string) => {
+        const field = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null;
+        if (!field || !value) return;
+        if (field instanceof HTMLSelectElement && !Array.from(field.options).some(option => option.value === value)) return;
+        field.value = value;
+    };
+    setValue('real-expense-description', scan.merchant);
+    setValue('real-expense-amount', scan.total > 0 ? String(scan.total) : '');
+    setValue('real-expense-date', scan.date);
+    setValue('real-expense-currency', scan.currency || '');
+    setValue('real-expense-category', String(scan.categoryId ?? ''));
+    setValue('real-expense-payee', normalizePayee(budget, scan.merchant));
+    const note = document.getElementById('real-expense-note') as HTMLTextAreaElement | null;
+    if (note && !note.value.trim() && scan.items.length > 0) note.value = scan.items.map(item => `${item.description} : ${formatCurrency(item.amount, scan.currency || getBaseCurrency())}`).join('\n');
+    uiState.receiptScan = null;
+    updateReceiptScan();
+    try {
+        const container = document.getElementById('real-expense-attachments');
+        container?.insertAdjacentHTML('beforeend', renderAttachmentChip(await storeAttachment(state.file)));
+        container?.closest('details')?.setAttribute('open', '');
+    } catch (error) {
+        console.error('Error storing attachment:', error);
+        alert('Le formulaire a été rempli, mais la photo du ticket n\'a pas pu être jointe.');
     }
+}
 
-    if (confirm(`Êtes-vous sûr de vouloir supprimer la catégorie "${categoryName}" ?`)) {
-        globalState.categories = globalState.categories.filter(c => c.name !== categoryName);
-        saveDataToLocalStorage(); 
-        updateModals();
-        updateAll();
+function renderAssistantModal() {
+    updateModals();
+    const messages = document.getElementById('assistant-messages');
+    if (messages) messages.scrollTop = messages.scrollHeight;
+    (document.getElementById('assistant-question') as HTMLInputElement | null)?.focus();
+}
+
+async function handleAssistantQuestion(question: string) {
+    const assistant = uiState.assistant;
+    if (!question || assistant.isThinking) return;
+    assistant.messages.push({ role: 'user', text: question });
+    assistant.isThinking = true;
+    renderAssistantModal();
+    try {
+        const answer = await askAssistant(budget, ai, assistant.history, question, uiState.selectedMonth);
+        assistant.history = answer.history;
+        assistant.messages.push({ role: 'assistant', text: answer.text || (answer.proposal ? 'Voici ce que je propose :' : ''), proposal: answer.proposal });
+    } catch (error) {
+        console.error('Erreur de l\'assistant:', error);
+        assistant.messages.push({ role: 'assistant', text: 'Désolé, une erreur s\'est produite. Veuillez réessayer.' });
+    } finally {
+        assistant.isThinking = false;
+        if (uiState.isAssistantModalOpen) renderAssistantModal();
     }
 }
 
+function handleAssistantProposal(index: number, accept: boolean) {
+    const proposal = uiState.assistant.messages[index]?.proposal;
+    if (!proposal || proposal.status !== 'pending') return;
+    if (!accept) {
+        proposal.status = 'rejected';
+        uiState.assistant.history.push({ role: 'user', parts: [{ text: '(J\'ai refusé cette proposition.)' }] }, { role: 'model', parts: [{ text: 'Compris, rien n\'a été modifié.' }] });
+        renderAssistantModal();
+        return;
+    }
+    const skipped = applyAssistantProposal(store, proposal);
+    uiState.assistant.history.push({ role: 'user', parts: [{ text: '(J\'ai appliqué cette proposition.)' }] }, { role: 'model', parts: [{ text: 'Compris, les modifications sont appliquées.' }] });
+    saveData();
+    updateAll();
+    renderAssistantModal();
+    if (skipped > 0) alert(`${skipped} modification(s) n'ont pas pu être appliquées : les dépenses concernées n'existent plus.`);
+}
+
 const handleSuggestCategory = async () => {
     const descriptionInput = document.getElementById('transaction-description') as HTMLInputElement;
     const description = descriptionInput.value.trim();
     if (!description) { alert('Veuillez d\'abord entrer une description.'); return; }
+    const amount = parseFloat((document.getElementById('transaction-amount') as HTMLInputElement).value);
+    const ruleCategoryId = findCategoryByRules(budget, description, amount);
+    if (ruleCategoryId !== null) {
+        (document.getElementById('transaction-category') as HTMLSelectElement).value = String(ruleCategoryId);
+        return;
+    }
     uiState.isSuggesting = true;
     updateModals();
     try {
-        const categoryNames = globalState.categories.map(c => c.name).join(', ');
+        const categoryNames = budget.categories.map(c => c.name).join(', ');
         const prompt = `Étant donné la description de la dépense suivante : "${description}", et la liste de catégories disponibles : [${categoryNames}], quelle est la catégorie la plus appropriée ? Ne renvoyez que le nom exact de la catégorie de la liste.`;
         // FIX: Added explicit GenerateContentResponse type to the API call result for better type safety and to resolve potential type inference issues.
         const response: GenerateContentResponse = await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: prompt });
         const suggestedCategory = response.text.trim();
         const categorySelect = document.getElementById('transaction-category') as HTMLSelectElement;
-        const categoryExists = globalState.categories.some(c => c.name === suggestedCategory);
-        if (categorySelect && categoryExists) { categorySelect.value = suggestedCategory; } 
+        const suggested = findCategoryByName(budget, suggestedCategory);
+        if (categorySelect && suggested) { categorySelect.value = String(suggested.id); } 
         else { alert(`La catégorie suggérée "${suggestedCategory}" n'est pas valide.`); }
     } catch (error) {
         console.error('Erreur de suggestion de catégorie:', error);
@@ -884,126 +2966,193 @@ const handleSuggestCategory = async () => {
     }
 };
 
+// The month charts of the planning, statistics and flow tabs, also drawn for each month of a printed report.
+const renderPieChart = (containerId: string, monthKey = uiState.selectedMonth) => {
+    const chartContainer = document.getElementById(containerId);
+    if (!chartContainer) return;
+    chartContainer.innerHTML = '';
+    const view = getViewData();
+    const expensesByCategory = rollUpCategoryTotals(view, sumByCategory(view, view.monthlyData[monthKey]?.plannedExpenses || [], monthKey));
+    const chartData = getTotalsCategoryIds(expensesByCategory).map(id => ({ id, name: getCategoryName(budget, id), value: expensesByCategory[id] }));
+    if (chartData.length === 0) { chartContainer.innerHTML = '<div class="flex items-center justify-center h-full text-slate-400"><p>Aucune dépense à afficher.</p></div>'; return; }
+    const totalPlanned = getMonthTotals(view, monthKey).plannedExpenses;
+    const width = chartContainer.clientWidth, height = chartContainer.clientHeight, radius = Math.min(width, height) / 2.5;
+    const svg = d3.select(chartContainer).append('svg').attr('width', width).attr('height', height).append('g').attr('transform', `translate(${width / 3}, ${height / 2})`);
+    const pie = d3.pie<{ id: number; name: string; value: number }>().value(d => d.value).sort(null);
+    const arc = d3.arc<any>().innerRadius(radius * 0.5).outerRadius(radius);
+    const tooltip = d3.select(chartContainer).append("div").style("opacity", 0).attr("class", "absolute bg-slate-800 text-white p-2 rounded-lg shadow-lg text-xs pointer-events-none").style("transform", "translateY(-100%)");
+    // FIX: Added MouseEvent type to d3 event handlers to correctly type the 'event' object and allow access to properties like pageX and pageY.
+    const arcs = svg.selectAll('arc').data(pie(chartData)).enter().append('g').attr('class', 'arc').on("mouseover", function (this: any, event: MouseEvent, d) { d3.select(this).select('path').transition().duration(200).attr('d', d3.arc<any>().innerRadius(radius * 0.5).outerRadius(radius * 1.05)); tooltip.style("opacity", 1); }).on("mousemove", (event: MouseEvent, d) => { tooltip.html(`<b>${escapeHtml(d.data.name)}</b><br>${formatCurrency(d.data.value)} (${((d.data.value/totalPlanned)*100).toFixed(1)}%)`).style("left", (event.pageX - chartContainer.getBoundingClientRect().left + 10) + "px").style("top", (event.pageY - chartContainer.getBoundingClientRect().top - 10) + "px"); }).on("mouseleave", function (this: any, event: MouseEvent, d) { d3.select(this).select('path').transition().duration(200).attr('d', arc); tooltip.style("opacity", 0); });
+    arcs.append('path').attr('d', arc).attr('fill', d => getCategoryColor(d.data.id));
+    const legend = svg.selectAll('.legend').data(chartData).enter().append('g').attr('class', 'legend').attr('transform', (d, i) => `translate(${radius + 40}, ${-radius + i * 22})`);
+    legend.append('rect').attr('width', 12).attr('height', 12).attr('rx', 2).style('fill', d => getCategoryColor(d.id));
+    legend.append('text').attr('x', 18).attr('y', 10).attr('class', 'text-sm text-slate-600').text(d => d.name.length > 20 ? d.name.substring(0, 18) + '...' : d.name);
+};
+
+const renderBarChart = (containerId: string, monthKey = uiState.selectedMonth) => {
+    const chartContainer = document.getElementById(containerId);
+    if (!chartContainer) return;
+    chartContainer.innerHTML = '';
+    const totals = getMonthTotals(getViewData(), monthKey);
+    const data = [{ name: 'Total', revenues: totals.plannedIncome, expenses: totals.plannedExpenses }];
+    const margin = { top: 20, right: 30, bottom: 30, left: 60 }, width = chartContainer.clientWidth - margin.left - margin.right, height = chartContainer.clientHeight - margin.top - margin.bottom;
+    const svg = d3.select(chartContainer).append('svg').attr('width', width + margin.left + margin.right).attr('height', height + margin.top + margin.bottom).append('g').attr('transform', `translate(${margin.left}, ${margin.top})`);
+    const subgroups = ['revenues', 'expenses'];
+    const y = d3.scaleLinear().domain([0, Math.max(totals.plannedIncome, totals.plannedExpenses) * 1.1]).range([height, 0]);
+    svg.append('g').call(d3.axisLeft(y).ticks(5).tickFormat(d => (d as number).toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }))).call(g => g.select(".domain").remove()).selectAll(".tick line").clone().attr("x2", width).attr("stroke-opacity", 0.1);
+    const x = d3.scaleBand().domain(subgroups).range([0, width]).padding(0.2);
+    const color = d3.scaleOrdinal().domain(subgroups).range(['#14b8a6', '#f43f5e']);
+    const tooltip = d3.select(chartContainer).append("div").style("opacity", 0).attr("class", "absolute bg-slate-800 text-white p-2 rounded-lg shadow-lg text-xs pointer-events-none").style("transform", "translateY(-100%)");
+    // FIX: Added MouseEvent type to d3 event handlers to correctly type the 'event' object.
+    svg.append("g").selectAll("rect").data(subgroups).join("rect").attr("x", d => x(d)!).attr("y", d => y(data[0][d as keyof typeof data[0]] as number)).attr("width", x.bandwidth()).attr("height", d => height - y(data[0][d as keyof typeof data[0]] as number)).attr("fill", d => color(d) as string).attr('rx', 4).on("mouseover", (event: MouseEvent, d) => tooltip.style("opacity", 1)).on("mousemove", (event: MouseEvent, d) => { const value = data[0][d as keyof typeof data[0]]; tooltip.html(`<b>${d === 'revenues' ? 'Revenus' : 'Dépenses'}</b>: ${formatCurrency(value as number)}`).style("left", (event.pageX - chartContainer.getBoundingClientRect().left + 15) + "px").style("top", (event.pageY - chartContainer.getBoundingClientRect().top - 15) + "px"); }).on("mouseleave", () => tooltip.style("opacity", 0));
+};
+
+const renderSankeyChart = (containerId: string, monthKey = uiState.selectedMonth) => {
+    const chartContainer = document.getElementById(containerId);
+    if (!chartContainer) return;
+    chartContainer.innerHTML = '';
+    const view = getViewData();
+    if (!view.monthlyData[monthKey]?.realIncome.length && !view.monthlyData[monthKey]?.plannedExpenses.length) { chartContainer.innerHTML = '<div class="flex items-center justify-center h-full text-slate-400"><p>Aucune donnée pour ce mois.</p></div>'; return; }
+    
+    const data = buildSankeyGraph(view, monthKey, { savingsAsTransfers: uiState.showSavingsAsTransfers, byMember: uiState.showSankeyByMember && budget.settings.members.length > 0 });
+    // Member nodes take the member's colour, the others their category's.
+    const getNodeColor = (name: string) => budget.settings.members.find(m => m.name === name)?.color || findCategoryByName(budget, name.replace(/ \(.*\)$/, ''))?.color || DEFAULT_CATEGORY_COLOR;
+
+    const margin = { top: 20, right: 150, bottom: 20, left: 150 }, width = chartContainer.clientWidth - margin.left - margin.right, height = chartContainer.clientHeight - margin.top - margin.bottom;
+    const svg = d3.select(chartContainer).append('svg').attr('width', width + margin.left + margin.right).attr('height', height + margin.top + margin.bottom).append('g').attr('transform', `translate(${margin.left},${margin.top})`);
+    const sankeyLayout = sankey().nodeId((d: any) => d.name).nodeWidth(15).nodePadding(10).extent([[1, 5], [width - 1, height - 5]]);
+    const { nodes, links } = sankeyLayout(data as any);
+    const tooltip = d3.select(chartContainer).append("div").style("opacity", 0).attr("class", "absolute bg-slate-800 text-white p-2 rounded-lg shadow-lg text-xs pointer-events-none");
+    // FIX: Added MouseEvent type to d3 event handlers to correctly type the 'event' object.
+    svg.append('g').selectAll('rect').data(nodes).join('rect').attr('x', (d: any) => d.x0).attr('y', (d: any) => d.y0).attr('height', (d: any) => d.y1 - d.y0).attr('width', (d: any) => d.x1 - d.x0).attr('fill', (d: any) => getNodeColor(d.name)).on("mouseover", (event: MouseEvent, d: any) => tooltip.style("opacity", 1)).on("mousemove", (event: MouseEvent, d: any) => { tooltip.html(`<b>${d.name}</b><br>${formatCurrency(d.value)}`).style("left", (event.pageX - chartContainer.getBoundingClientRect().left + 15) + "px").style("top", (event.pageY - chartContainer.getBoundingClientRect().top) + "px"); }).on("mouseleave", () => tooltip.style("opacity", 0));
+    const link = svg.append('g').attr('fill', 'none').attr('stroke-opacity', 0.5).selectAll('g').data(links).join('g').style('mix-blend-mode', 'multiply');
+    link.append('path').attr('d', sankeyLinkHorizontal()).attr('stroke', (d: any) => getNodeColor(d.source.name)).attr('stroke-width', (d: any) => Math.max(1, d.width));
+    svg.append('g').style('font', '12px sans-serif').selectAll('text').data(nodes).join('text').attr('x', (d: any) => d.x0 < width / 2 ? d.x1 + 6 : d.x0 - 6).attr('y', (d: any) => (d.y1 + d.y0) / 2).attr('dy', '0.35em').attr('text-anchor', (d: any) => d.x0 < width / 2 ? 'start' : 'end').text((d: any) => d.name).append('tspan').attr('fill-opacity', 0.7).text((d: any) => ` ${formatCurrency(d.value)}`);
+};
+
 const renderCharts = () => {
-    const renderPieChart = (containerId: string) => {
+    const renderNetWorthChart = (containerId: string) => {
         const chartContainer = document.getElementById(containerId);
         if (!chartContainer) return;
         chartContainer.innerHTML = '';
-        const expensesByCategory = getCurrentPlannedExpenses().reduce((acc, expense) => { acc[expense.category] = (acc[expense.category] || 0) + expense.amount; return acc; }, {} as { [key: string]: number });
-        const chartData = Object.keys(expensesByCategory).map(key => ({ name: key, value: expensesByCategory[key] }));
-        if (chartData.length === 0) { chartContainer.innerHTML = '<div class="flex items-center justify-center h-full text-slate-400"><p>Aucune dépense à afficher.</p></div>'; return; }
-        const width = chartContainer.clientWidth, height = chartContainer.clientHeight, radius = Math.min(width, height) / 2.5;
-        const svg = d3.select(chartContainer).append('svg').attr('width', width).attr('height', height).append('g').attr('transform', `translate(${width / 3}, ${height / 2})`);
-        const pie = d3.pie<{ name: string; value: number }>().value(d => d.value).sort(null);
-        const arc = d3.arc<any>().innerRadius(radius * 0.5).outerRadius(radius);
+        const data = Array.from({ length: 12 }, (_, i) => shiftMonthKey(uiState.selectedMonth, i - 11)).map(month => ({ month, value: getNetWorth(budget, getMonthEndDate(month)) }));
+        const margin = { top: 20, right: 20, bottom: 30, left: 70 }, width = chartContainer.clientWidth - margin.left - margin.right, height = chartContainer.clientHeight - margin.top - margin.bottom;
+        const svg = d3.select(chartContainer).append('svg').attr('width', width + margin.left + margin.right).attr('height', height + margin.top + margin.bottom).append('g').attr('transform', `translate(${margin.left}, ${margin.top})`);
+        const x = d3.scalePoint().domain(data.map(d => d.month)).range([0, width]).padding(0.3);
+        const [min, max] = d3.extent(data, d => d.value) as [number, number];
+        const y = d3.scaleLinear().domain([Math.min(0, min), Math.max(0, max) * 1.1 || 1]).nice().range([height, 0]);
+        svg.append('g').call(d3.axisLeft(y).ticks(5).tickFormat(d => (d as number).toLocaleString('fr-FR', { maximumFractionDigits: 0 }))).call(g => g.select(".domain").remove()).selectAll(".tick line").clone().attr("x2", width).attr("stroke-opacity", 0.1);
+        svg.append('g').attr('transform', `translate(0, ${height})`).call(d3.axisBottom(x).tickFormat(d => new Date(`${d}-01`).toLocaleDateString('fr-FR', { month: 'short' }))).call(g => g.select(".domain").remove());
+        svg.append('path').datum(data).attr('fill', 'none').attr('stroke', '#0d9488').attr('stroke-width', 2.5).attr('d', d3.line<{ month: string; value: number }>().x(d => x(d.month)!).y(d => y(d.value)));
         const tooltip = d3.select(chartContainer).append("div").style("opacity", 0).attr("class", "absolute bg-slate-800 text-white p-2 rounded-lg shadow-lg text-xs pointer-events-none").style("transform", "translateY(-100%)");
-        // FIX: Added MouseEvent type to d3 event handlers to correctly type the 'event' object and allow access to properties like pageX and pageY.
-        const arcs = svg.selectAll('arc').data(pie(chartData)).enter().append('g').attr('class', 'arc').on("mouseover", function (this: any, event: MouseEvent, d) { d3.select(this).select('path').transition().duration(200).attr('d', d3.arc<any>().innerRadius(radius * 0.5).outerRadius(radius * 1.05)); tooltip.style("opacity", 1); }).on("mousemove", (event: MouseEvent, d) => { tooltip.html(`<b>${d.data.name}</b><br>${formatCurrency(d.data.value)} (${((d.data.value/totalPlannedExpenses())*100).toFixed(1)}%)`).style("left", (event.pageX - chartContainer.getBoundingClientRect().left + 10) + "px").style("top", (event.pageY - chartContainer.getBoundingClientRect().top - 10) + "px"); }).on("mouseleave", function (this: any, event: MouseEvent, d) { d3.select(this).select('path').transition().duration(200).attr('d', arc); tooltip.style("opacity", 0); });
-        arcs.append('path').attr('d', arc).attr('fill', d => getCategoryColor(d.data.name));
-        const legend = svg.selectAll('.legend').data(chartData).enter().append('g').attr('class', 'legend').attr('transform', (d, i) => `translate(${radius + 40}, ${-radius + i * 22})`);
-        legend.append('rect').attr('width', 12).attr('height', 12).attr('rx', 2).style('fill', d => getCategoryColor(d.name));
-        legend.append('text').attr('x', 18).attr('y', 10).attr('class', 'text-sm text-slate-600').text(d => d.name.length > 20 ? d.name.substring(0, 18) + '...' : d.name);
+        svg.append('g').selectAll('circle').data(data).join('circle').attr('cx', d => x(d.month)!).attr('cy', d => y(d.value)).attr('r', 4).attr('fill', d => d.value >= 0 ? '#0d9488' : '#e11d48').on("mouseover", () => tooltip.style("opacity", 1)).on("mousemove", (event: MouseEvent, d) => { tooltip.html(`<b>${formatMonthForDisplay(d.month)}</b><br>${formatCurrency(d.value)}`).style("left", (event.pageX - chartContainer.getBoundingClientRect().left + 10) + "px").style("top", (event.pageY - chartContainer.getBoundingClientRect().top - 10) + "px"); }).on("mouseleave", () => tooltip.style("opacity", 0));
     };
 
-    const renderBarChart = (containerId: string) => {
+    const renderForecastChart = (containerId: string) => {
         const chartContainer = document.getElementById(containerId);
         if (!chartContainer) return;
         chartContainer.innerHTML = '';
-        const data = [{ name: 'Total', revenues: totalRealIncome(), expenses: totalPlannedExpenses() }];
-        const margin = { top: 20, right: 30, bottom: 30, left: 60 }, width = chartContainer.clientWidth - margin.left - margin.right, height = chartContainer.clientHeight - margin.top - margin.bottom;
+        const data = forecastCashFlow(budget, uiState.forecastHorizon, getMonthKey(new Date()));
+        const margin = { top: 20, right: 20, bottom: 30, left: 70 }, width = chartContainer.clientWidth - margin.left - margin.right, height = chartContainer.clientHeight - margin.top - margin.bottom;
         const svg = d3.select(chartContainer).append('svg').attr('width', width + margin.left + margin.right).attr('height', height + margin.top + margin.bottom).append('g').attr('transform', `translate(${margin.left}, ${margin.top})`);
-        const subgroups = ['revenues', 'expenses'];
-        const y = d3.scaleLinear().domain([0, Math.max(totalRealIncome(), totalPlannedExpenses()) * 1.1]).range([height, 0]);
-        svg.append('g').call(d3.axisLeft(y).ticks(5).tickFormat(d => formatCurrency(d as number).replace(/\s€/g, ''))).call(g => g.select(".domain").remove()).selectAll(".tick line").clone().attr("x2", width).attr("stroke-opacity", 0.1);
-        const x = d3.scaleBand().domain(subgroups).range([0, width]).padding(0.2);
-        const color = d3.scaleOrdinal().domain(subgroups).range(['#14b8a6', '#f43f5e']);
+        const x = d3.scaleBand().domain(data.map(d => d.month)).range([0, width]).padding(0.3);
+        const values = data.flatMap(d => [d.balance, d.cumulative]);
+        const y = d3.scaleLinear().domain([Math.min(0, d3.min(values)!), Math.max(0, d3.max(values)!) * 1.1 || 1]).nice().range([height, 0]);
+        svg.append('g').call(d3.axisLeft(y).ticks(5).tickFormat(d => (d as number).toLocaleString('fr-FR', { maximumFractionDigits: 0 }))).call(g => g.select(".domain").remove()).selectAll(".tick line").clone().attr("x2", width).attr("stroke-opacity", 0.1);
+        svg.append('g').attr('transform', `translate(0, ${height})`).call(d3.axisBottom(x).tickFormat(d => new Date(`${d}-01`).toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' }))).call(g => g.select(".domain").remove());
+        svg.append('line').attr('x1', 0).attr('x2', width).attr('y1', y(0)).attr('y2', y(0)).attr('stroke', '#94a3b8');
         const tooltip = d3.select(chartContainer).append("div").style("opacity", 0).attr("class", "absolute bg-slate-800 text-white p-2 rounded-lg shadow-lg text-xs pointer-events-none").style("transform", "translateY(-100%)");
-        // FIX: Added MouseEvent type to d3 event handlers to correctly type the 'event' object.
-        svg.append("g").selectAll("rect").data(subgroups).join("rect").attr("x", d => x(d)!).attr("y", d => y(data[0][d as keyof typeof data[0]] as number)).attr("width", x.bandwidth()).attr("height", d => height - y(data[0][d as keyof typeof data[0]] as number)).attr("fill", d => color(d) as string).attr('rx', 4).on("mouseover", (event: MouseEvent, d) => tooltip.style("opacity", 1)).on("mousemove", (event: MouseEvent, d) => { const value = data[0][d as keyof typeof data[0]]; tooltip.html(`<b>${d === 'revenues' ? 'Revenus' : 'Dépenses'}</b>: ${formatCurrency(value as number)}`).style("left", (event.pageX - chartContainer.getBoundingClientRect().left + 15) + "px").style("top", (event.pageY - chartContainer.getBoundingClientRect().top - 15) + "px"); }).on("mouseleave", () => tooltip.style("opacity", 0));
+        svg.append('g').selectAll('rect').data(data).join('rect').attr('x', d => x(d.month)!).attr('width', x.bandwidth()).attr('y', d => y(Math.max(d.balance, 0))).attr('height', d => Math.abs(y(d.balance) - y(0))).attr('rx', 3).attr('fill', d => d.balance < 0 ? '#f43f5e' : '#5eead4')
+            .on("mouseover", () => tooltip.style("opacity", 1)).on("mousemove", (event: MouseEvent, d) => { tooltip.html(`<b>${formatMonthForDisplay(d.month)}</b><br>Solde du mois : ${formatCurrency(d.balance)}<br>Trésorerie : ${formatCurrency(d.cumulative)}`).style("left", (event.pageX - chartContainer.getBoundingClientRect().left + 10) + "px").style("top", (event.pageY - chartContainer.getBoundingClientRect().top - 10) + "px"); }).on("mouseleave", () => tooltip.style("opacity", 0));
+        const center = (month: string) => x(month)! + x.bandwidth() / 2;
+        svg.append('path').datum(data).attr('fill', 'none').attr('stroke', '#0f766e').attr('stroke-width', 2.5).attr('d', d3.line<ForecastMonth>().x(d => center(d.month)).y(d => y(d.cumulative)));
+        svg.append('g').selectAll('circle').data(data).join('circle').attr('cx', d => center(d.month)).attr('cy', d => y(d.cumulative)).attr('r', 4).attr('fill', d => d.cumulative < 0 ? '#e11d48' : '#0f766e');
     };
 
-    const renderSankeyChart = (containerId: string) => {
+    const monthAxisFormat = (monthKey: string) => new Date(`${monthKey}-01`).toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' });
+
+    const renderCategoryTrendChart = (containerId: string, trends: MonthTrend[]) => {
         const chartContainer = document.getElementById(containerId);
         if (!chartContainer) return;
         chartContainer.innerHTML = '';
-        if (getCurrentIncomes().length === 0 && getCurrentPlannedExpenses().length === 0) { chartContainer.innerHTML = '<div class="flex items-center justify-center h-full text-slate-400"><p>Aucune donnée pour ce mois.</p></div>'; return; }
-        
-        const data = (() => {
-            const nodes: { name: string }[] = [];
-            const links: { source: string; target: string; value: number }[] = [];
-            const nodeSet = new Set<string>();
-            const addNode = (name: string) => { if (!nodeSet.has(name)) { nodeSet.add(name); nodes.push({ name }); } };
-
-            const plannedExpensesByCategory = getCurrentPlannedExpenses().reduce((acc, expense) => {
-                acc[expense.category] = (acc[expense.category] || 0) + expense.amount;
-                return acc;
-            }, {} as { [key: string]: number });
-
-            const realExpensesByCategory = getCurrentRealExpenses().reduce((acc, expense) => {
-                if (!acc[expense.linkedCategory]) acc[expense.linkedCategory] = [];
-                acc[expense.linkedCategory].push(expense);
-                return acc;
-            }, {} as { [key: string]: RealExpense[] });
-
-            addNode('Budget');
-            getCurrentIncomes().forEach(income => {
-                addNode(income.description);
-                links.push({ source: income.description, target: 'Budget', value: income.amount });
-            });
-
-            Object.entries(plannedExpensesByCategory).forEach(([category, amount]) => {
-                if (amount > 0) {
-                    const plannedNodeName = `${category}`;
-                    addNode(plannedNodeName);
-                    links.push({ source: 'Budget', target: plannedNodeName, value: amount });
-
-                    const realExpensesInCat = realExpensesByCategory[category] || [];
-                    let totalSpentInCat = 0;
-                    realExpensesInCat.forEach(realExpense => {
-                        addNode(realExpense.description);
-                        links.push({ source: plannedNodeName, target: realExpense.description, value: realExpense.amount });
-                        totalSpentInCat += realExpense.amount;
-                    });
-                    
-                    const remaining = amount - totalSpentInCat;
-                    if (remaining > 0.01) { // Use a small epsilon to avoid tiny rounding error nodes
-                        const remainingNodeName = `Restant (${category})`;
-                        addNode(remainingNodeName);
-                        links.push({ source: plannedNodeName, target: remainingNodeName, value: remaining });
-                    }
-                }
-            });
-
-            const unallocatedBudget = totalRealIncome() - totalPlannedExpenses();
-            if (unallocatedBudget > 0.01) {
-                addNode('Budget non alloué');
-                links.push({ source: 'Budget', target: 'Budget non alloué', value: unallocatedBudget });
-            }
-            return { nodes, links };
-        })();
-
-        const margin = { top: 20, right: 150, bottom: 20, left: 150 }, width = chartContainer.clientWidth - margin.left - margin.right, height = chartContainer.clientHeight - margin.top - margin.bottom;
-        const svg = d3.select(chartContainer).append('svg').attr('width', width + margin.left + margin.right).attr('height', height + margin.top + margin.bottom).append('g').attr('transform', `translate(${margin.left},${margin.top})`);
-        const sankeyLayout = sankey().nodeId((d: any) => d.name).nodeWidth(15).nodePadding(10).extent([[1, 5], [width - 1, height - 5]]);
-        const { nodes, links } = sankeyLayout(data as any);
-        const tooltip = d3.select(chartContainer).append("div").style("opacity", 0).attr("class", "absolute bg-slate-800 text-white p-2 rounded-lg shadow-lg text-xs pointer-events-none");
-        // FIX: Added MouseEvent type to d3 event handlers to correctly type the 'event' object.
-        svg.append('g').selectAll('rect').data(nodes).join('rect').attr('x', (d: any) => d.x0).attr('y', (d: any) => d.y0).attr('height', (d: any) => d.y1 - d.y0).attr('width', (d: any) => d.x1 - d.x0).attr('fill', (d: any) => getCategoryColor(d.name.replace(/ \(.*\)$/, ''))).on("mouseover", (event: MouseEvent, d: any) => tooltip.style("opacity", 1)).on("mousemove", (event: MouseEvent, d: any) => { tooltip.html(`<b>${d.name}</b><br>${formatCurrency(d.value)}`).style("left", (event.pageX - chartContainer.getBoundingClientRect().left + 15) + "px").style("top", (event.pageY - chartContainer.getBoundingClientRect().top) + "px"); }).on("mouseleave", () => tooltip.style("opacity", 0));
-        const link = svg.append('g').attr('fill', 'none').attr('stroke-opacity', 0.5).selectAll('g').data(links).join('g').style('mix-blend-mode', 'multiply');
-        link.append('path').attr('d', sankeyLinkHorizontal()).attr('stroke', (d: any) => getCategoryColor(d.source.name.replace(/ \(.*\)$/, ''))).attr('stroke-width', (d: any) => Math.max(1, d.width));
-        svg.append('g').style('font', '12px sans-serif').selectAll('text').data(nodes).join('text').attr('x', (d: any) => d.x0 < width / 2 ? d.x1 + 6 : d.x0 - 6).attr('y', (d: any) => (d.y1 + d.y0) / 2).attr('dy', '0.35em').attr('text-anchor', (d: any) => d.x0 < width / 2 ? 'start' : 'end').text((d: any) => d.name).append('tspan').attr('fill-opacity', 0.7).text((d: any) => ` ${formatCurrency(d.value)}`);
+        const categoryIds = [...new Set(trends.flatMap(trend => getTotalsCategoryIds(trend.spendingByCategory)))];
+        // The series are keyed by id, as strings since d3 stacks by key.
+        const categories = categoryIds.map(String);
+        if (categories.length === 0) { chartContainer.innerHTML = '<div class="flex items-center justify-center h-full text-slate-400"><p>Aucune dépense réelle sur cette période.</p></div>'; return; }
+        const rows = trends.map(trend => ({ month: trend.month, ...Object.fromEntries(categoryIds.map(id => [id, trend.spendingByCategory[id] || 0])) } as { month: string; [category: string]: number | string }));
+        const series = d3.stack<{ [key: string]: number | string }>().keys(categories).value((d, key) => d[key] as number)(rows);
+        const margin = { top: 20, right: 160, bottom: 30, left: 70 }, width = chartContainer.clientWidth - margin.left - margin.right, height = chartContainer.clientHeight - margin.top - margin.bottom;
+        const svg = d3.select(chartContainer).append('svg').attr('width', width + margin.left + margin.right).attr('height', height + margin.top + margin.bottom).append('g').attr('transform', `translate(${margin.left}, ${margin.top})`);
+        const x = d3.scaleBand().domain(trends.map(trend => trend.month)).range([0, width]).padding(0.2);
+        const y = d3.scaleLinear().domain([0, (d3.max(trends, trend => trend.actual) || 1) * 1.1]).nice().range([height, 0]);
+        svg.append('g').call(d3.axisLeft(y).ticks(5).tickFormat(d => (d as number).toLocaleString('fr-FR', { maximumFractionDigits: 0 }))).call(g => g.select(".domain").remove()).selectAll(".tick line").clone().attr("x2", width).attr("stroke-opacity", 0.1);
+        svg.append('g').attr('transform', `translate(0, ${height})`).call(d3.axisBottom(x).tickFormat(d => monthAxisFormat(d as string))).call(g => g.select(".domain").remove());
+        const tooltip = d3.select(chartContainer).append("div").style("opacity", 0).attr("class", "absolute bg-slate-800 text-white p-2 rounded-lg shadow-lg text-xs pointer-events-none").style("transform", "translateY(-100%)");
+        svg.append('g').selectAll('g').data(series).join('g').attr('fill', d => getCategoryColor(Number(d.key))).each(function (this: any, layer) {
+            d3.select(this).selectAll('rect').data(layer).join('rect').attr('x', d => x(d.data.month as string)!).attr('y', d => y(d[1])).attr('height', d => y(d[0]) - y(d[1])).attr('width', x.bandwidth())
+                .on("mouseover", () => tooltip.style("opacity", 1)).on("mousemove", (event: MouseEvent, d) => { tooltip.html(`<b>${escapeHtml(getCategoryName(budget, Number(layer.key)))}</b> - ${formatMonthForDisplay(d.data.month as string)}<br>${formatCurrency(d[1] - d[0])}`).style("left", (event.pageX - chartContainer.getBoundingClientRect().left + 10) + "px").style("top", (event.pageY - chartContainer.getBoundingClientRect().top - 10) + "px"); }).on("mouseleave", () => tooltip.style("opacity", 0));
+        });
+        const legend = svg.selectAll('.legend').data(categories).enter().append('g').attr('class', 'legend').attr('transform', (d, i) => `translate(${width + 20}, ${i * 20})`);
+        legend.append('rect').attr('width', 12).attr('height', 12).attr('rx', 2).style('fill', d => getCategoryColor(Number(d)));
+        legend.append('text').attr('x', 18).attr('y', 10).attr('class', 'text-sm text-slate-600').text(d => { const name = getCategoryName(budget, Number(d)); return name.length > 20 ? name.substring(0, 18) + '...' : name; });
+    };
+
+    const renderLineChart = (containerId: string, trends: MonthTrend[], lines: { label: string; color: string; value: (trend: MonthTrend) => number | null }[], format: (value: number) => string, tickFormat: (value: number) => string) => {
+        const chartContainer = document.getElementById(containerId);
+        if (!chartContainer) return;
+        chartContainer.innerHTML = '';
+        const points = lines.flatMap(line => trends.map(trend => ({ line, month: trend.month, value: line.value(trend) })).filter((point): point is { line: typeof line; month: string; value: number } => point.value !== null));
+        if (points.length === 0) { chartContainer.innerHTML = '<div class="flex items-center justify-center h-full text-slate-400"><p>Aucune donnée sur cette période.</p></div>'; return; }
+        const margin = { top: 20, right: 20, bottom: 50, left: 70 }, width = chartContainer.clientWidth - margin.left - margin.right, height = chartContainer.clientHeight - margin.top - margin.bottom;
+        const svg = d3.select(chartContainer).append('svg').attr('width', width + margin.left + margin.right).attr('height', height + margin.top + margin.bottom).append('g').attr('transform', `translate(${margin.left}, ${margin.top})`);
+        const x = d3.scalePoint().domain(trends.map(trend => trend.month)).range([0, width]).padding(0.3);
+        const [min, max] = d3.extent(points, point => point.value) as [number, number];
+        const y = d3.scaleLinear().domain([Math.min(0, min), Math.max(0, max) * 1.1 || 1]).nice().range([height, 0]);
+        svg.append('g').call(d3.axisLeft(y).ticks(5).tickFormat(d => tickFormat(d as number))).call(g => g.select(".domain").remove()).selectAll(".tick line").clone().attr("x2", width).attr("stroke-opacity", 0.1);
+        svg.append('g').attr('transform', `translate(0, ${height})`).call(d3.axisBottom(x).tickFormat(d => monthAxisFormat(d))).call(g => g.select(".domain").remove());
+        const tooltip = d3.select(chartContainer).append("div").style("opacity", 0).attr("class", "absolute bg-slate-800 text-white p-2 rounded-lg shadow-lg text-xs pointer-events-none").style("transform", "translateY(-100%)");
+        lines.forEach(line => {
+            const linePoints = points.filter(point => point.line === line);
+            svg.append('path').datum(linePoints).attr('fill', 'none').attr('stroke', line.color).attr('stroke-width', 2.5).attr('d', d3.line<{ month: string; value: number }>().x(d => x(d.month)!).y(d => y(d.value)));
+            svg.append('g').selectAll('circle').data(linePoints).join('circle').attr('cx', d => x(d.month)!).attr('cy', d => y(d.value)).attr('r', 4).attr('fill', line.color).on("mouseover", () => tooltip.style("opacity", 1)).on("mousemove", (event: MouseEvent, d) => { tooltip.html(`<b>${line.label}</b> - ${formatMonthForDisplay(d.month)}<br>${format(d.value)}`).style("left", (event.pageX - chartContainer.getBoundingClientRect().left + 10) + "px").style("top", (event.pageY - chartContainer.getBoundingClientRect().top - 10) + "px"); }).on("mouseleave", () => tooltip.style("opacity", 0));
+        });
+        if (lines.length > 1) {
+            const legend = svg.selectAll('.legend').data(lines).enter().append('g').attr('class', 'legend').attr('transform', (d, i) => `translate(${i * 140}, ${height + 30})`);
+            legend.append('rect').attr('width', 12).attr('height', 12).attr('rx', 2).style('fill', d => d.color);
+            legend.append('text').attr('x', 18).attr('y', 10).attr('class', 'text-sm text-slate-600').text(d => d.label);
+        }
     };
 
     if (uiState.activeTab === 'stats') {
         renderPieChart('stats-pie-chart');
         renderBarChart('stats-bar-chart');
+        const trends = getTrendsForRange(getViewData(), uiState.statsRange);
+        const formatAmountTick = (value: number) => value.toLocaleString('fr-FR', { maximumFractionDigits: 0 });
+        const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+        renderCategoryTrendChart('trend-category-chart', trends);
+        renderLineChart('trend-planned-actual-chart', trends, [
+            { label: 'Prévues', color: '#0ea5e9', value: trend => trend.planned },
+            { label: 'Réelles', color: '#f43f5e', value: trend => trend.actual },
+        ], value => formatCurrency(value), formatAmountTick);
+        renderLineChart('trend-savings-rate-chart', trends, [
+            { label: "Taux d'épargne", color: '#0d9488', value: trend => trend.savingsRate },
+        ], formatPercent, value => `${(value * 100).toFixed(0)}%`);
     } else if (uiState.activeTab === 'flow') {
         renderSankeyChart('flow-sankey-chart');
+    } else if (uiState.activeTab === 'accounts') {
+        renderNetWorthChart('net-worth-chart');
+        renderForecastChart('forecast-chart');
     }
 };
 
 // --- INITIALIZATION ---
-document.addEventListener('DOMContentLoaded', () => {
-    initializeState();
+document.addEventListener('DOMContentLoaded', async () => {
+    await initializeState();
     renderApp();
+    if (isStorageVolatile) {
+        alert('Le stockage local du navigateur est indisponible : vos modifications ne seront pas conservées après la fermeture de la page.');
+    }
+    if (quarantinedKeys.length > 0) {
+        alert('Certaines données enregistrées étaient illisibles. Elles ont été mises en quarantaine (voir « Sauvegarde ») au lieu d\'être supprimées.');
+    }
 });